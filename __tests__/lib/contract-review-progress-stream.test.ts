@@ -0,0 +1,123 @@
+import { subscribeToContractReviewProgress } from "@/lib/api/contract-review-progress-stream";
+import type { ContractReviewJob } from "@/lib/api/contracts";
+
+function makeJob(streamToken: string | null = "tok-123"): ContractReviewJob {
+  return {
+    review_id: "rev-1",
+    filename: "lease.pdf",
+    status: "running",
+    stage: "parsing",
+    progress_percent: 5,
+    message: null,
+    error: null,
+    previous_review_id: null,
+    created_at: new Date().toISOString(),
+    stream_token: streamToken,
+  };
+}
+
+function makeMocks() {
+  return {
+    getJob: jest.fn(),
+    openStream: jest.fn(),
+    onProgress: jest.fn(),
+    onFinished: jest.fn(),
+    onFallbackNeeded: jest.fn(),
+  };
+}
+
+async function flush() {
+  await Promise.resolve();
+  await Promise.resolve();
+}
+
+describe("subscribeToContractReviewProgress", () => {
+  it("opens the stream with the caller's token without fetching the job", async () => {
+    const m = makeMocks();
+    m.openStream.mockReturnValue(jest.fn());
+
+    subscribeToContractReviewProgress({
+      reviewId: "rev-1",
+      streamToken: "tok-from-start",
+      callbacks: m,
+      deps: { getJob: m.getJob, openStream: m.openStream },
+    });
+    await flush();
+
+    expect(m.getJob).not.toHaveBeenCalled();
+    expect(m.openStream).toHaveBeenCalledWith(
+      "rev-1",
+      "tok-from-start",
+      m.onProgress,
+      expect.any(Function),
+      expect.any(Function),
+    );
+  });
+
+  it("mints a token from the job when none is supplied", async () => {
+    const m = makeMocks();
+    m.getJob.mockResolvedValue(makeJob("tok-fresh"));
+    m.openStream.mockReturnValue(jest.fn());
+
+    subscribeToContractReviewProgress({
+      reviewId: "rev-1",
+      callbacks: m,
+      deps: { getJob: m.getJob, openStream: m.openStream },
+    });
+    await flush();
+
+    expect(m.getJob).toHaveBeenCalledWith("rev-1");
+    expect(m.openStream.mock.calls[0][1]).toBe("tok-fresh");
+  });
+
+  it("falls back to polling when no token can be minted", async () => {
+    const m = makeMocks();
+    m.getJob.mockResolvedValue(makeJob(null));
+
+    subscribeToContractReviewProgress({
+      reviewId: "rev-1",
+      callbacks: m,
+      deps: { getJob: m.getJob, openStream: m.openStream },
+    });
+    await flush();
+
+    expect(m.openStream).not.toHaveBeenCalled();
+    expect(m.onFallbackNeeded).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the terminal status through and falls back when the stream gives up", async () => {
+    const m = makeMocks();
+    m.openStream.mockReturnValue(jest.fn());
+
+    subscribeToContractReviewProgress({
+      reviewId: "rev-1",
+      streamToken: "tok",
+      callbacks: m,
+      deps: { getJob: m.getJob, openStream: m.openStream },
+    });
+    await flush();
+
+    const [, , , onComplete, onError] = m.openStream.mock.calls[0];
+    onComplete("cancelled");
+    expect(m.onFinished).toHaveBeenCalledWith("cancelled");
+    onError("Review stream connection error");
+    expect(m.onFallbackNeeded).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not open a stream when stopped before the token resolves", async () => {
+    const m = makeMocks();
+    let resolveJob: (job: ContractReviewJob) => void = () => {};
+    m.getJob.mockReturnValue(new Promise((resolve) => (resolveJob = resolve)));
+
+    const handle = subscribeToContractReviewProgress({
+      reviewId: "rev-1",
+      callbacks: m,
+      deps: { getJob: m.getJob, openStream: m.openStream },
+    });
+    handle.stop();
+    resolveJob(makeJob());
+    await flush();
+
+    expect(m.openStream).not.toHaveBeenCalled();
+  });
+});
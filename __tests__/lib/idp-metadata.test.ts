@@ -0,0 +1,126 @@
+/**
+ * IdP metadata / certificate helpers used by the SSO dialog in
+ * /admin/security. The certificate fixture is a self-signed P-256
+ * cert valid 2026-10-19T11:16:40Z → 2027-10-19T11:16:40Z, so expiry
+ * classification is pinned with an explicit `now`.
+ */
+import {
+  checkCertificateExpiry,
+  getCertificateValidity,
+  IdpMetadataError,
+  isValidIpOrCidr,
+  parseIdpMetadata,
+  toPem,
+} from "@/lib/security/idp-metadata";
+
+const CERT_BASE64 =
+  "MIIBijCCAS+gAwIBAgIUYWgbBkazp7LZx13RdezW2ghxhv4wCgYIKoZIzj0EAwIwGjEYMBYGA1UEAwwPaWRwLmV4YW1wbGUuY29tMB4XDTI2MTAxOTExMTY0MFoXDTI3MTAxOTExMTY0MFowGjEYMBYGA1UEAwwPaWRwLmV4YW1wbGUuY29tMFkwEwYHKoZIzj0CAQYIKoZIzj0DAQcDQgAEEdchzs0rTo+vZ1+r6IEs/zcio48TPK78FV8KQsEf4vGv+aHrAUkGK4DEfT9nQ0dVQyoMTJ3odu+2fEu4tuHvdKNTMFEwHQYDVR0OBBYEFKN0xzy/pjC78KWPBc/5EBd0xrvyMB8GA1UdIwQYMBaAFKN0xzy/pjC78KWPBc/5EBd0xrvyMA8GA1UdEwEB/wQFMAMBAf8wCgYIKoZIzj0EAwIDSQAwRgIhAIxs/Qllii1FmqusODjKvBIV3wnv5iI1ENW8bj3MOwQpAiEAm5zWLil/LcMF2hMfo0YgSJkAvUZb3nvKW7xP3XmUjXE=";
+
+function metadataXml(keyDescriptors: string, services?: string): string {
+  return `<?xml version="1.0"?>
+<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata"
+  xmlns:ds="http://www.w3.org/2000/09/xmldsig#" entityID="https://idp.example.com/entity">
+  <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+    ${keyDescriptors}
+    ${
+      services ??
+      `<md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST" Location="https://idp.example.com/sso/post"/>
+    <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.com/sso/redirect"/>`
+    }
+  </md:IDPSSODescriptor>
+</md:EntityDescriptor>`;
+}
+
+const SIGNING_KEY = `<md:KeyDescriptor use="signing"><ds:KeyInfo><ds:X509Data>
+  <ds:X509Certificate>${CERT_BASE64.slice(0, 40)}
+  ${CERT_BASE64.slice(40)}</ds:X509Certificate>
+</ds:X509Data></ds:KeyInfo></md:KeyDescriptor>`;
+
+describe("parseIdpMetadata", () => {
+  it("extracts entity ID, redirect-binding SSO URL and signing certificate", () => {
+    const parsed = parseIdpMetadata(metadataXml(SIGNING_KEY));
+    expect(parsed.entityId).toBe("https://idp.example.com/entity");
+    expect(parsed.ssoUrl).toBe("https://idp.example.com/sso/redirect");
+    expect(parsed.binding).toBe("urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect");
+    expect(parsed.certificate).toBe(toPem(CERT_BASE64));
+  });
+
+  it("ignores encryption-only keys", () => {
+    const encryptionKey = SIGNING_KEY.replace('use="signing"', 'use="encryption"');
+    expect(parseIdpMetadata(metadataXml(encryptionKey)).certificate).toBeNull();
+  });
+
+  it("falls back to the first SSO service when no preferred binding exists", () => {
+    const parsed = parseIdpMetadata(
+      metadataXml(
+        SIGNING_KEY,
+        '<md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:SOAP" Location="https://idp.example.com/soap"/>',
+      ),
+    );
+    expect(parsed.ssoUrl).toBe("https://idp.example.com/soap");
+  });
+
+  it("rejects malformed XML", () => {
+    expect(() => parseIdpMetadata("<md:EntityDescriptor")).toThrow(IdpMetadataError);
+  });
+
+  it("rejects SP-only metadata", () => {
+    expect(() =>
+      parseIdpMetadata(
+        '<EntityDescriptor xmlns="urn:oasis:names:tc:SAML:2.0:metadata" entityID="x"><SPSSODescriptor/></EntityDescriptor>',
+      ),
+    ).toThrow("No identity provider");
+  });
+
+  it("rejects metadata without a SingleSignOnService", () => {
+    expect(() => parseIdpMetadata(metadataXml(SIGNING_KEY, ""))).toThrow(
+      "SingleSignOnService",
+    );
+  });
+});
+
+describe("certificate validity", () => {
+  it("reads notBefore / notAfter from PEM and bare base64", () => {
+    const expected = {
+      notBefore: new Date("2026-10-19T11:16:40Z"),
+      notAfter: new Date("2027-10-19T11:16:40Z"),
+    };
+    expect(getCertificateValidity(toPem(CERT_BASE64))).toEqual(expected);
+    expect(getCertificateValidity(CERT_BASE64)).toEqual(expected);
+  });
+
+  it("classifies valid, expiring, expired and not-yet-valid", () => {
+    const cert = toPem(CERT_BASE64);
+    expect(checkCertificateExpiry(cert, new Date("2027-01-01T00:00:00Z")).status).toBe("valid");
+
+    const expiring = checkCertificateExpiry(cert, new Date("2027-10-01T00:00:00Z"));
+    expect(expiring.status).toBe("expiring");
+    expect(expiring.daysRemaining).toBe(18);
+
+    expect(checkCertificateExpiry(cert, new Date("2027-10-20T00:00:00Z")).status).toBe("expired");
+    expect(checkCertificateExpiry(cert, new Date("2026-10-01T00:00:00Z")).status).toBe(
+      "not_yet_valid",
+    );
+  });
+
+  it("throws IdpMetadataError on garbage input", () => {
+    expect(() => getCertificateValidity("not a certificate!")).toThrow(IdpMetadataError);
+    expect(() => getCertificateValidity(btoa("hello world"))).toThrow(IdpMetadataError);
+  });
+});
+
+describe("isValidIpOrCidr", () => {
+  it.each(["192.168.1.10", "10.0.0.0/8", "0.0.0.0/0", "2001:db8::1", "2001:db8::/32", "::1", "::ffff:10.0.0.1"])(
+    "accepts %s",
+    (entry) => {
+      expect(isValidIpOrCidr(entry)).toBe(true);
+    },
+  );
+
+  it.each(["", "256.1.1.1", "10.0.0.0/33", "10.0.0", "2001:db8::/129", "1::2::3", "example.com", "10.0.0.1/8/8"])(
+    "rejects %s",
+    (entry) => {
+      expect(isValidIpOrCidr(entry)).toBe(false);
+    },
+  );
+});
@@ -0,0 +1,73 @@
+import type { Annotation } from "@/lib/api/annotations";
+import {
+  annotationsToCsv,
+  buildAnchor,
+  filterAnnotations,
+  reanchor,
+} from "@/lib/utils/annotations";
+
+const SECTION =
+  "A person who commits an offence under this section is liable on conviction to a fine. " +
+  "A person who commits an offence under subsection (2) is liable to imprisonment.";
+
+function annotation(overrides: Partial<Annotation>): Annotation {
+  return {
+    id: "a1",
+    document_id: "doc-1",
+    akn_eid: "sec_3",
+    start_offset: 0,
+    end_offset: 0,
+    quote: "",
+    prefix: "",
+    suffix: "",
+    color: "yellow",
+    note: null,
+    section_label: "Section 3",
+    created_at: "2026-10-01T10:00:00Z",
+    updated_at: "2026-10-01T10:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("reanchor", () => {
+  const start = SECTION.lastIndexOf("is liable");
+  const anchor = buildAnchor(SECTION, start, start + "is liable".length, "sec_3");
+
+  it("keeps offsets that still point at the quote", () => {
+    expect(reanchor(SECTION, anchor)).toEqual({ start, end: anchor.end_offset });
+  });
+
+  it("finds the right occurrence by its context after the text shifts", () => {
+    const reingested = `1. ${SECTION}`;
+    const found = reanchor(reingested, anchor);
+    expect(found).toEqual({ start: start + 3, end: anchor.end_offset + 3 });
+  });
+
+  it("returns null when the quote is gone", () => {
+    expect(reanchor("Repealed.", anchor)).toBeNull();
+  });
+});
+
+describe("filterAnnotations", () => {
+  const list = [
+    annotation({ id: "a", color: "yellow", quote: "fine", note: "Check the current penalty unit" }),
+    annotation({ id: "b", color: "green", quote: "imprisonment" }),
+  ];
+
+  it("filters by colour, notes and text", () => {
+    const base = { color: "all" as const, withNotesOnly: false, query: "" };
+    expect(filterAnnotations(list, { ...base, color: "green" }).map((a) => a.id)).toEqual(["b"]);
+    expect(filterAnnotations(list, { ...base, withNotesOnly: true }).map((a) => a.id)).toEqual(["a"]);
+    expect(filterAnnotations(list, { ...base, query: "PENALTY" }).map((a) => a.id)).toEqual(["a"]);
+  });
+});
+
+describe("annotationsToCsv", () => {
+  it("quotes cells containing commas, quotes and newlines", () => {
+    const csv = annotationsToCsv([annotation({ quote: 'a "fine", or\nboth', note: null })]);
+    expect(csv).toBe(
+      "Section,Colour,Highlighted text,Note,Created\n" +
+        'Section 3,Yellow,"a ""fine"", or\nboth",,2026-10-01T10:00:00Z'
+    );
+  });
+});
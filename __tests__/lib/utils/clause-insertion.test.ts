@@ -0,0 +1,67 @@
+import { captureEditorRange, insertClauseIntoContractCanvas } from "@/lib/utils/clause-insertion";
+
+function makeEditor() {
+  const editor = document.createElement("div");
+  editor.innerHTML = `
+    <header data-contract-part="header"><h1>Lease</h1></header>
+    <section data-contract-part="section" data-section-id="s1">
+      <h2>1. Rent</h2>
+      <div data-contract-body="true"><p id="first">Rent is payable monthly.</p><p>In advance.</p></div>
+    </section>
+    <section data-contract-part="section" data-section-id="s2">
+      <h2>2. Termination</h2>
+      <div data-contract-body="true"><p>Either party may terminate.</p></div>
+    </section>
+  `;
+  document.body.appendChild(editor);
+  return editor;
+}
+
+function bodyText(editor: HTMLElement, sectionId: string) {
+  return Array.from(
+    editor.querySelectorAll(`[data-section-id='${sectionId}'] [data-contract-body] p`),
+    (p) => p.textContent,
+  );
+}
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("insertClauseIntoContractCanvas", () => {
+  it("inserts after the block holding the caret", () => {
+    const editor = makeEditor();
+    const range = document.createRange();
+    range.setStart(editor.querySelector("#first")!.firstChild!, 4);
+    window.getSelection()!.removeAllRanges();
+    window.getSelection()!.addRange(range);
+
+    const sectionId = insertClauseIntoContractCanvas(editor, "<p>Late payment interest.</p>", {
+      range: captureEditorRange(editor),
+    });
+
+    expect(sectionId).toBe("s1");
+    expect(bodyText(editor, "s1")).toEqual([
+      "Rent is payable monthly.",
+      "Late payment interest.",
+      "In advance.",
+    ]);
+  });
+
+  it("appends to the focused section when there is no caret", () => {
+    const editor = makeEditor();
+    expect(insertClauseIntoContractCanvas(editor, "<p>Notice period.</p>", { sectionId: "s1" })).toBe("s1");
+    expect(bodyText(editor, "s1").at(-1)).toBe("Notice period.");
+  });
+
+  it("falls back to the last section and notifies the canvas", () => {
+    const editor = makeEditor();
+    const onInput = jest.fn();
+    editor.addEventListener("input", onInput);
+
+    expect(insertClauseIntoContractCanvas(editor, "<p>Notice period.</p><script>x</script>")).toBe("s2");
+    expect(bodyText(editor, "s2")).toEqual(["Either party may terminate.", "Notice period."]);
+    expect(editor.querySelector("script")).toBeNull();
+    expect(onInput).toHaveBeenCalledTimes(1);
+  });
+});
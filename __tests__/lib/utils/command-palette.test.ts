@@ -0,0 +1,81 @@
+import {
+  matchesQuery,
+  parsePaletteIntents,
+  pushRecentPaletteEntry,
+  rankByRecency,
+  type RecentPaletteEntry,
+} from "@/lib/utils/command-palette";
+
+describe("parsePaletteIntents", () => {
+  it.each(["cap 95", "Cap. 95", "chapter 95", "open act cap 95"])("reads %s as a chapter", (input) => {
+    expect(parsePaletteIntents(input)).toEqual([{ kind: "open_chapter", chapter: "95" }]);
+  });
+
+  it("keeps chapter suffixes", () => {
+    expect(parsePaletteIntents("cap 227a")).toEqual([{ kind: "open_chapter", chapter: "227A" }]);
+  });
+
+  it("strips research prefixes from the topic", () => {
+    expect(parsePaletteIntents("start deep research on  land tenure")).toEqual([
+      { kind: "research", topic: "land tenure" },
+    ]);
+    expect(parsePaletteIntents("research mailo land")).toEqual([{ kind: "research", topic: "mailo land" }]);
+  });
+
+  it("offers research on plain text but not on fragments", () => {
+    expect(parsePaletteIntents("employment termination")).toEqual([
+      { kind: "research", topic: "employment termination" },
+    ]);
+    expect(parsePaletteIntents("ab")).toEqual([]);
+    expect(parsePaletteIntents("   ")).toEqual([]);
+  });
+});
+
+describe("matchesQuery", () => {
+  it("requires every word in any order", () => {
+    expect(matchesQuery("Employment Act review", "act employment")).toBe(true);
+    expect(matchesQuery("Employment Act review", "land act")).toBe(false);
+    expect(matchesQuery("anything", "")).toBe(true);
+  });
+});
+
+describe("rankByRecency", () => {
+  const items = [
+    { title: "Land Act notes", at: "2026-01-01T00:00:00Z" },
+    { title: "Tax appeal", at: "2026-03-01T00:00:00Z" },
+    { title: "Land registration", at: null },
+    { title: "Land tribunal", at: "2026-02-01T00:00:00Z" },
+  ];
+
+  it("filters then sorts newest first, undated last", () => {
+    expect(
+      rankByRecency(items, { query: "land", text: (i) => i.title, timestamp: (i) => i.at, limit: 5 }).map(
+        (i) => i.title,
+      ),
+    ).toEqual(["Land tribunal", "Land Act notes", "Land registration"]);
+  });
+
+  it("applies the limit after sorting", () => {
+    expect(
+      rankByRecency(items, { query: "", text: (i) => i.title, timestamp: (i) => i.at, limit: 1 }).map(
+        (i) => i.title,
+      ),
+    ).toEqual(["Tax appeal"]);
+  });
+});
+
+describe("pushRecentPaletteEntry", () => {
+  const entry = (id: string): RecentPaletteEntry => ({
+    id,
+    label: id,
+    href: `/${id}`,
+    kind: "page",
+    usedAt: "2026-01-01T00:00:00Z",
+  });
+
+  it("moves a repeated entry to the front and caps the list", () => {
+    const list = [entry("a"), entry("b"), entry("c")];
+    expect(pushRecentPaletteEntry(list, entry("c"), 3).map((e) => e.id)).toEqual(["c", "a", "b"]);
+    expect(pushRecentPaletteEntry(list, entry("d"), 3).map((e) => e.id)).toEqual(["d", "a", "b"]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { ObligationResponse, TaskResponse } from "@/lib/api/compliance";
+import {
+  buildCalendarEntries,
+  buildCalendarFeedUrl,
+  calendarMonths,
+  filterCalendarEntries,
+  monthGridDays,
+  projectDueDates,
+  toDateKey,
+  toWebcalUrl,
+} from "@/lib/utils/compliance-calendar";
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe("projectDueDates", () => {
+  const from = new Date(2026, 0, 1);
+  const to = new Date(2026, 11, 31);
+
+  it("repeats quarterly obligations through the range", () => {
+    expect(
+      keys(projectDueDates({ next_due_date: "2026-01-15", recurrence_pattern: "quarterly" }, from, to))
+    ).toEqual(["2026-01-15", "2026-04-15", "2026-07-15", "2026-10-15"]);
+  });
+
+  it("keeps month-end due dates at month end", () => {
+    const dates = projectDueDates(
+      { next_due_date: "2026-01-31", recurrence_pattern: "monthly" },
+      from,
+      new Date(2026, 2, 31)
+    );
+    expect(keys(dates)).toEqual(["2026-01-31", "2026-02-28", "2026-03-31"]);
+  });
+
+  it("lands repeats on the configured day of the month", () => {
+    const dates = projectDueDates(
+      { next_due_date: "2026-04-30", recurrence_pattern: "quarterly", recurrence_config: { day_of_month: 31 } },
+      from,
+      to
+    );
+    expect(keys(dates)).toEqual(["2026-04-30", "2026-07-31", "2026-10-31"]);
+  });
+
+  it("shows one-time obligations once", () => {
+    expect(
+      keys(projectDueDates({ next_due_date: "2026-06-30T00:00:00Z", recurrence_pattern: "one_time" }, from, to))
+    ).toEqual(["2026-06-30"]);
+    expect(projectDueDates({ next_due_date: null, recurrence_pattern: "monthly" }, from, to)).toEqual([]);
+  });
+
+  it("reads older pattern spellings and fortnightly schedules", () => {
+    expect(
+      keys(projectDueDates({ next_due_date: "2026-03-31", recurrence_pattern: "semi_annual" }, from, to))
+    ).toEqual(["2026-03-31", "2026-09-30"]);
+    expect(
+      keys(projectDueDates({ next_due_date: "2026-12-10", recurrence_pattern: "fortnightly" }, from, to))
+    ).toEqual(["2026-12-10", "2026-12-24"]);
+  });
+});
+
+describe("buildCalendarEntries", () => {
+  const obligation = {
+    id: "ob1",
+    title: "PAYE return",
+    next_due_date: "2026-10-15",
+    recurrence_pattern: "monthly",
+    governing_regulator: "URA",
+    assigned_user_id: "u1",
+    is_active: true,
+  } as ObligationResponse;
+  const task = { id: "t1", title: "Board minutes", due_date: "2026-10-20", status: "open", assigned_user_id: "u2" } as TaskResponse;
+
+  it("merges obligations and open tasks, flagging overdue ones", () => {
+    const entries = buildCalendarEntries(
+      [obligation],
+      [task, { ...task, id: "t2", status: "completed" }],
+      new Date(2026, 9, 1),
+      new Date(2026, 10, 30),
+      new Date(2026, 9, 19)
+    );
+    expect(entries.map((e) => [e.kind, e.date, e.overdue])).toEqual([
+      ["obligation", "2026-10-15", true],
+      ["task", "2026-10-20", false],
+      ["obligation", "2026-11-15", false],
+    ]);
+
+    expect(filterCalendarEntries(entries, { regulator: "URA", ownerUserId: null })).toHaveLength(2);
+    expect(filterCalendarEntries(entries, { regulator: null, ownerUserId: "u2" }).map((e) => e.sourceId)).toEqual([
+      "t1",
+    ]);
+  });
+});
+
+describe("calendar grid", () => {
+  it("uses calendar quarters", () => {
+    expect(keys(calendarMonths("quarter", new Date(2026, 10, 5)))).toEqual(["2026-10-01", "2026-11-01", "2026-12-01"]);
+  });
+
+  it("pads months to whole Monday-first weeks", () => {
+    const days = monthGridDays(new Date(2026, 9, 1));
+    expect(days.length % 7).toBe(0);
+    expect(toDateKey(days[0])).toBe("2026-09-28");
+    expect(toDateKey(days[days.length - 1])).toBe("2026-11-01");
+  });
+});
+
+describe("buildCalendarFeedUrl", () => {
+  it("adds filters to the feed URL and offers a webcal link", () => {
+    const url = buildCalendarFeedUrl("https://api.example.com/compliance/calendar/abc.ics?owner=old", {
+      regulator: "Bank of Uganda",
+      ownerUserId: "u1",
+    });
+    expect(url).toBe("https://api.example.com/compliance/calendar/abc.ics?regulator=Bank+of+Uganda&owner=u1");
+    expect(toWebcalUrl(url)).toMatch(/^webcal:\/\/api\.example\.com/);
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  getFindingTransitions,
+  isRiskAcceptanceExpired,
+  normalizeEvidencePassage,
+  remediationSteps,
+  remediationTaskTitle,
+  stepsWithoutTasks,
+  validateFindingTransition,
+} from "@/lib/utils/compliance-findings";
+
+const today = new Date(2026, 9, 19);
+
+describe("validateFindingTransition", () => {
+  const justification = "Reviewed with the data protection officer";
+
+  it("allows transitions defined for the current status", () => {
+    expect(getFindingTransitions("confirmed").map((t) => t.to)).toContain("accepted");
+    expect(validateFindingTransition("confirmed", { status: "mitigated", justification }, today)).toBeNull();
+  });
+
+  it("lets an accepted risk be renewed with a new expiry", () => {
+    expect(validateFindingTransition("accepted", { status: "accepted", justification }, today)).toMatch(/expires/);
+    expect(
+      validateFindingTransition(
+        "accepted",
+        { status: "accepted", justification, risk_acceptance_expires_at: "2027-01-31" },
+        today
+      )
+    ).toBeNull();
+  });
+
+  it("rejects transitions that skip the lifecycle", () => {
+    expect(validateFindingTransition("identified", { status: "accepted", justification }, today)).toMatch(
+      /can't be moved/
+    );
+  });
+
+  it("requires a justification", () => {
+    expect(validateFindingTransition("identified", { status: "dismissed", justification: "  no " }, today)).toMatch(
+      /justification/
+    );
+  });
+
+  it("requires a future expiry within a year to accept risk", () => {
+    const accept = (date: string | null) =>
+      validateFindingTransition(
+        "confirmed",
+        { status: "accepted", justification, risk_acceptance_expires_at: date },
+        today
+      );
+    expect(accept(null)).toMatch(/expires/);
+    expect(accept("2026-10-19")).toMatch(/after today/);
+    expect(accept("2028-01-01")).toMatch(/at most 365 days/);
+    expect(accept("2027-04-19")).toBeNull();
+  });
+});
+
+describe("isRiskAcceptanceExpired", () => {
+  it("only flags accepted findings past their expiry", () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    expect(isRiskAcceptanceExpired({ status: "accepted", risk_acceptance_expires_at: "2026-10-01" }, now)).toBe(true);
+    expect(isRiskAcceptanceExpired({ status: "accepted", risk_acceptance_expires_at: "2026-12-01" }, now)).toBe(false);
+    expect(isRiskAcceptanceExpired({ status: "mitigated", risk_acceptance_expires_at: "2026-10-01" }, now)).toBe(false);
+  });
+});
+
+describe("normalizeEvidencePassage", () => {
+  it("reads passages stored under different keys", () => {
+    expect(
+      normalizeEvidencePassage({ chunk_text: "Data must be kept", section_heading: "Retention", chunk_index: 4 })
+    ).toEqual({ text: "Data must be kept", source: null, section: "Retention", chunkIndex: 4 });
+    expect(normalizeEvidencePassage({ text: "s. 12", source: "Data Protection Act" })?.source).toBe(
+      "Data Protection Act"
+    );
+  });
+
+  it("skips passages without text", () => {
+    expect(normalizeEvidencePassage({ source: "Act" })).toBeNull();
+  });
+});
+
+describe("remediationSteps", () => {
+  it("splits numbered and bulleted guidance into steps", () => {
+    expect(
+      remediationSteps("Do the following:\n1. Appoint a DPO\n2) Register with PDPO\n- Update the privacy notice")
+    ).toEqual(["Appoint a DPO", "Register with PDPO", "Update the privacy notice"]);
+  });
+
+  it("treats unstructured guidance as one step", () => {
+    expect(remediationSteps("Update the privacy notice.")).toEqual(["Update the privacy notice."]);
+    expect(remediationSteps(null)).toEqual([]);
+  });
+
+  it("keeps task titles short", () => {
+    const title = remediationTaskTitle("word ".repeat(60));
+    expect(title.length).toBeLessThanOrEqual(121);
+    expect(title.endsWith("…")).toBe(true);
+  });
+
+  it("leaves steps that already have a task out of the default selection", () => {
+    const steps = ["Appoint a DPO", "Register with PDPO", `Update the privacy notice ${"and more ".repeat(20)}`];
+    const existing = new Set(["Register with PDPO", remediationTaskTitle(steps[2])]);
+    expect(stepsWithoutTasks(steps, existing)).toEqual([0]);
+    expect(stepsWithoutTasks(steps, new Set())).toEqual([0, 1, 2]);
+  });
+});
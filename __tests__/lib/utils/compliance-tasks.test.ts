@@ -0,0 +1,71 @@
+import type { TaskComment } from "@/lib/api/compliance";
+import {
+  buildCommentThreads,
+  canSubmitTask,
+  getApprovalEligibility,
+} from "@/lib/utils/compliance-tasks";
+
+function comment(id: string, parentId: string | null, createdAt: string): TaskComment {
+  return {
+    id,
+    parent_id: parentId,
+    author_user_id: "u1",
+    author_name: "Amina",
+    body: id,
+    created_at: createdAt,
+  };
+}
+
+describe("buildCommentThreads", () => {
+  it("nests replies under their parent in date order", () => {
+    const threads = buildCommentThreads([
+      comment("reply-2", "root", "2026-10-03T00:00:00Z"),
+      comment("root", null, "2026-10-01T00:00:00Z"),
+      comment("reply-1", "root", "2026-10-02T00:00:00Z"),
+      comment("nested", "reply-1", "2026-10-04T00:00:00Z"),
+    ]);
+
+    expect(threads.map((t) => t.id)).toEqual(["root"]);
+    expect(threads[0].replies.map((t) => t.id)).toEqual(["reply-1", "reply-2"]);
+    expect(threads[0].replies[0].replies.map((t) => t.id)).toEqual(["nested"]);
+  });
+
+  it("promotes replies to deleted comments", () => {
+    const threads = buildCommentThreads([comment("orphan", "gone", "2026-10-01T00:00:00Z")]);
+    expect(threads.map((t) => t.id)).toEqual(["orphan"]);
+  });
+});
+
+describe("getApprovalEligibility", () => {
+  const task = {
+    approval_status: "pending" as const,
+    assigned_user_id: "assignee",
+    submitted_by_user_id: "submitter",
+  };
+
+  it("lets a third party approve", () => {
+    expect(getApprovalEligibility(task, "reviewer")).toEqual({ canApprove: true, reason: null });
+  });
+
+  it("blocks the assignee and the submitter", () => {
+    expect(getApprovalEligibility(task, "assignee").canApprove).toBe(false);
+    expect(getApprovalEligibility(task, "submitter").canApprove).toBe(false);
+    expect(getApprovalEligibility(task, "submitter").reason).toMatch(/submitted/);
+  });
+
+  it("has nothing to approve unless the task is pending", () => {
+    expect(getApprovalEligibility({ ...task, approval_status: null }, "reviewer")).toEqual({
+      canApprove: false,
+      reason: null,
+    });
+  });
+});
+
+describe("canSubmitTask", () => {
+  it("allows submitting open or rejected work only", () => {
+    expect(canSubmitTask({ status: "in_progress", approval_status: null })).toBe(true);
+    expect(canSubmitTask({ status: "in_progress", approval_status: "rejected" })).toBe(true);
+    expect(canSubmitTask({ status: "under_review", approval_status: "pending" })).toBe(false);
+    expect(canSubmitTask({ status: "completed", approval_status: "approved" })).toBe(false);
+  });
+});
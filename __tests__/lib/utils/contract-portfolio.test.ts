@@ -0,0 +1,72 @@
+import type { ContractReviewBatchItem } from "@/lib/api/contracts";
+import { applyPortfolioView, commonMissingClauses } from "@/lib/utils/contract-portfolio";
+
+function row(overrides: Partial<ContractReviewBatchItem>): ContractReviewBatchItem {
+  return {
+    review_id: "r",
+    filename: "contract.pdf",
+    job_status: "complete",
+    contract_type: "lease",
+    overall_score: 70,
+    completeness_score: 70,
+    compliance_score: 70,
+    consistency_score: 70,
+    status: "needs_revision",
+    critical_issue_count: 0,
+    high_issue_count: 0,
+    missing_clauses: [],
+    obligation_count: 0,
+    error: null,
+    ...overrides,
+  };
+}
+
+const rows = [
+  row({ review_id: "a", filename: "Kampala lease.pdf", overall_score: 82, missing_clauses: ["rent_review"] }),
+  row({
+    review_id: "b",
+    filename: "Entebbe lease.pdf",
+    overall_score: 45,
+    status: "major_issues",
+    critical_issue_count: 2,
+    missing_clauses: ["rent_review", "dispute_resolution"],
+  }),
+  row({ review_id: "c", filename: "Jinja lease.pdf", job_status: "running", overall_score: null, status: null }),
+  row({ review_id: "d", filename: "Gulu lease.pdf", overall_score: 60, missing_clauses: ["dispute_resolution"] }),
+];
+
+describe("applyPortfolioView", () => {
+  it("sorts by score in either direction, keeping unfinished rows last", () => {
+    expect(
+      applyPortfolioView(rows, { sort: "overall_score", direction: "asc" }).map((r) => r.review_id)
+    ).toEqual(["b", "d", "a", "c"]);
+    expect(
+      applyPortfolioView(rows, { sort: "overall_score", direction: "desc" }).map((r) => r.review_id)
+    ).toEqual(["a", "d", "b", "c"]);
+  });
+
+  it("sorts by missing clause count", () => {
+    expect(
+      applyPortfolioView(rows, { sort: "missing_clause_count", direction: "desc" }).map((r) => r.review_id)
+    ).toEqual(["b", "a", "d", "c"]);
+  });
+
+  it("filters by search text, status and critical issues", () => {
+    const view = { sort: "filename" as const, direction: "asc" as const };
+    expect(applyPortfolioView(rows, { ...view, search: "rent review" }).map((r) => r.review_id)).toEqual([
+      "b",
+      "a",
+    ]);
+    expect(applyPortfolioView(rows, { ...view, status: "major_issues" }).map((r) => r.review_id)).toEqual(["b"]);
+    expect(applyPortfolioView(rows, { ...view, critical_only: true }).map((r) => r.review_id)).toEqual(["b"]);
+  });
+});
+
+describe("commonMissingClauses", () => {
+  it("lists clauses missing from more than one contract", () => {
+    expect(commonMissingClauses(rows)).toEqual([
+      { clause: "dispute_resolution", count: 2 },
+      { clause: "rent_review", count: 2 },
+    ]);
+  });
+});
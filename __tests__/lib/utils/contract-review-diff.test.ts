@@ -0,0 +1,98 @@
+import type { ContractReviewResult } from "@/lib/api/contracts";
+import {
+  compareContractReviews,
+  diffFindings,
+  findingSimilarity,
+} from "@/lib/utils/contract-review-diff";
+
+function review(overrides: Partial<ContractReviewResult>): ContractReviewResult {
+  return {
+    review_id: "r1",
+    filename: "lease.pdf",
+    contract_type: "lease",
+    text_length: 1000,
+    overall_score: 60,
+    status: "needs_revision",
+    summary: "",
+    completeness_score: 55,
+    compliance_score: 62,
+    consistency_score: 80,
+    missing_sections: [],
+    missing_clauses: [],
+    legal_issues: [],
+    risks: [],
+    improvements: [],
+    references_verified: 0,
+    references_unverified: [],
+    evidence: [],
+    extracted_obligations: [],
+    processing_time_ms: 1000,
+    reviewed_at: null,
+    ...overrides,
+  };
+}
+
+describe("findingSimilarity", () => {
+  it("ignores case, punctuation and stop words", () => {
+    expect(findingSimilarity("The rent review clause", "rent-review clause")).toBe(1);
+    expect(findingSimilarity("termination notice", "governing law")).toBe(0);
+  });
+});
+
+describe("diffFindings", () => {
+  it("pairs reworded findings and splits the rest into resolved and introduced", () => {
+    const diff = diffFindings(
+      [
+        "No notice period for termination by the landlord",
+        "Security deposit refund timeline missing",
+      ],
+      [
+        "Termination by the landlord has no notice period",
+        "Indemnity is uncapped",
+      ],
+      (text) => text
+    );
+
+    expect(diff.unchanged).toEqual([
+      {
+        before: "No notice period for termination by the landlord",
+        after: "Termination by the landlord has no notice period",
+      },
+    ]);
+    expect(diff.resolved).toEqual(["Security deposit refund timeline missing"]);
+    expect(diff.introduced).toEqual(["Indemnity is uncapped"]);
+  });
+
+  it("matches each earlier finding at most once", () => {
+    const diff = diffFindings(["force majeure"], ["force majeure", "force majeure"], (t) => t);
+    expect(diff.unchanged).toHaveLength(1);
+    expect(diff.introduced).toEqual(["force majeure"]);
+  });
+});
+
+describe("compareContractReviews", () => {
+  it("reports score deltas in tile order", () => {
+    const comparison = compareContractReviews(
+      review({ overall_score: 60 }),
+      review({ overall_score: 78, completeness_score: 70, compliance_score: 62, consistency_score: 75 })
+    );
+
+    expect(comparison.scores).toEqual([
+      { key: "overall_score", before: 60, after: 78, delta: 18 },
+      { key: "completeness_score", before: 55, after: 70, delta: 15 },
+      { key: "compliance_score", before: 62, after: 62, delta: 0 },
+      { key: "consistency_score", before: 80, after: 75, delta: -5 },
+    ]);
+  });
+
+  it("diffs missing clauses written with underscores", () => {
+    const comparison = compareContractReviews(
+      review({ missing_clauses: ["dispute_resolution", "governing_law"] }),
+      review({ missing_clauses: ["governing law"] })
+    );
+
+    expect(comparison.missing_clauses.resolved).toEqual(["dispute_resolution"]);
+    expect(comparison.missing_clauses.unchanged).toHaveLength(1);
+    expect(comparison.missing_clauses.introduced).toEqual([]);
+  });
+});
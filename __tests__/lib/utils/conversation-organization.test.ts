@@ -0,0 +1,62 @@
+import {
+  highlightMatches,
+  normalizeFolderName,
+  parseTags,
+  summarizeFolders,
+  summarizeTags,
+} from "@/lib/utils/conversation-organization";
+
+describe("normalizeFolderName", () => {
+  it("collapses whitespace and treats blank as no folder", () => {
+    expect(normalizeFolderName("  Acme   v  Umeme ")).toBe("Acme v Umeme");
+    expect(normalizeFolderName("   ")).toBeNull();
+  });
+});
+
+describe("parseTags", () => {
+  it("lowercases, strips #, hyphenates and dedupes", () => {
+    expect(parseTags("#Land, due diligence, land,, ")).toEqual(["land", "due-diligence"]);
+  });
+});
+
+describe("summarizeFolders / summarizeTags", () => {
+  const conversations = [
+    { folder: "beta matter", tags: ["land", "urgent"] },
+    { folder: "Alpha matter", tags: ["land"] },
+    { folder: "beta matter" },
+    { folder: null, tags: ["tax"] },
+  ];
+
+  it("counts folders alphabetically, ignoring unfiled conversations", () => {
+    expect(summarizeFolders(conversations)).toEqual([
+      { name: "Alpha matter", count: 1 },
+      { name: "beta matter", count: 2 },
+    ]);
+  });
+
+  it("orders tags by use", () => {
+    expect(summarizeTags(conversations).map((tag) => tag.name)).toEqual(["land", "tax", "urgent"]);
+  });
+});
+
+describe("highlightMatches", () => {
+  it("marks every query word case-insensitively", () => {
+    expect(highlightMatches("Notice under the Employment Act", "employment notice")).toEqual([
+      { text: "Notice", match: true },
+      { text: " under the ", match: false },
+      { text: "Employment", match: true },
+      { text: " Act", match: false },
+    ]);
+  });
+
+  it("escapes regex characters in the query", () => {
+    expect(highlightMatches("See s.58 (1)", "(1)")).toEqual([
+      { text: "See s.58 ", match: false },
+      { text: "(1)", match: true },
+    ]);
+  });
+
+  it("returns the text unmarked for an empty query", () => {
+    expect(highlightMatches("anything", " ")).toEqual([{ text: "anything", match: false }]);
+  });
+});
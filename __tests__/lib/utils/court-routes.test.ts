@@ -0,0 +1,40 @@
+import { getCourtRouteId } from "@/lib/utils/court-routes";
+
+describe("getCourtRouteId", () => {
+  it.each([
+    ["supreme", "supreme"],
+    ["court_of_appeal", "court_of_appeal"],
+    ["Supreme Court", "supreme"],
+    ["Supreme Court of Uganda", "supreme"],
+    ["Court of Appeal", "court_of_appeal"],
+    ["Court of Appeal of Uganda", "court_of_appeal"],
+    ["Constitutional Court", "court_of_appeal"],
+    ["High Court", "high_court"],
+    ["High Court (Commercial Division)", "high_court"],
+    ["Commercial Court", "high_court"],
+    ["Anti Corruption Division", "high_court"],
+    ["Civil Division", "high_court"],
+    ["Criminal Division", "high_court"],
+    ["Family Division", "high_court"],
+    ["Land Division", "high_court"],
+    ["Industrial Court", "high_court"],
+    ["Chief Magistrate's Court", "magistrate"],
+    ["Magistrates Court", "magistrate"],
+  ])("files %s under %s", (courtLevel, route) => {
+    expect(getCourtRouteId(courtLevel)).toBe(route);
+  });
+
+  it.each([
+    "Tax Appeals Tribunal",
+    "PPDA Appeals Tribunal",
+    "Equal Opportunities Commission",
+    "Uganda Human Rights Commission",
+  ])("leaves %s without a court page", (courtLevel) => {
+    expect(getCourtRouteId(courtLevel)).toBeNull();
+  });
+
+  it("ignores missing court levels", () => {
+    expect(getCourtRouteId(null)).toBeNull();
+    expect(getCourtRouteId("")).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+import type { AffectedDocumentImpact, ImpactPassage } from "@/lib/api/compliance";
+import { policyUpdateTaskDraft, sortImpactDocuments } from "@/lib/utils/impact-analysis";
+
+function passage(impact: ImpactPassage["impact"], relevance: number, text = "Records are kept for 5 years."): ImpactPassage {
+  return {
+    chunk_index: 0,
+    section_heading: "Retention",
+    page_number: 3,
+    text,
+    impact,
+    explanation: "The new rule requires 7 years.",
+    relevance_score: relevance,
+  };
+}
+
+function doc(id: string, level: AffectedDocumentImpact["impact_level"], passages: ImpactPassage[]): AffectedDocumentImpact {
+  return {
+    document_id: id,
+    document_title: `Policy ${id}`,
+    filename: `${id}.pdf`,
+    impact_level: level,
+    summary: "Retention periods are shorter than the new minimum.",
+    passages,
+    policy_task_id: null,
+  };
+}
+
+describe("sortImpactDocuments", () => {
+  it("orders by level, then conflicts, with conflicting passages first", () => {
+    const sorted = sortImpactDocuments([
+      doc("a", "medium", [passage("affected", 0.9)]),
+      doc("b", "high", [passage("affected", 0.9)]),
+      doc("c", "high", [passage("affected", 0.95), passage("conflicts", 0.5)]),
+    ]);
+    expect(sorted.map((d) => d.document_id)).toEqual(["c", "b", "a"]);
+    expect(sorted[0].passages.map((p) => p.impact)).toEqual(["conflicts", "affected"]);
+  });
+});
+
+describe("policyUpdateTaskDraft", () => {
+  const event = { id: "evt1", title: "Data Protection Regulations 2026", source_url: "https://example.ug/reg" };
+
+  it("links the task to the event and document and quotes passages", () => {
+    const draft = policyUpdateTaskDraft(event, doc("a", "high", [passage("conflicts", 0.9)]));
+    expect(draft).toMatchObject({
+      title: 'Update "Policy a" for Data Protection Regulations 2026',
+      task_type: "policy_update",
+      priority: 8,
+      regulatory_event_id: "evt1",
+      document_id: "a",
+    });
+    expect(draft.description).toContain('- Conflicts (Retention, p. 3): "Records are kept for 5 years."');
+    expect(draft.description).toContain("Source: https://example.ug/reg");
+  });
+
+  it("summarises long passage lists", () => {
+    const passages = Array.from({ length: 7 }, () => passage("affected", 0.5, "x ".repeat(400)));
+    const draft = policyUpdateTaskDraft(event, doc("a", "low", passages));
+    expect(draft.priority).toBe(3);
+    expect(draft.description).toContain("and 2 more in the impact report");
+    expect(draft.description).toContain("…");
+  });
+});
@@ -0,0 +1,57 @@
+import type { MatterTimelineEvent } from "@/lib/api/matters";
+import { filterByMatter, groupTimelineByDay, matterItemHref } from "@/lib/utils/matters";
+
+function event(id: string, occurredAt: string): MatterTimelineEvent {
+  return {
+    id,
+    event_type: "item_activity",
+    item_type: "conversation",
+    item_id: "c1",
+    summary: "New message",
+    item_title: "Land dispute",
+    actor_name: null,
+    occurred_at: occurredAt,
+  };
+}
+
+describe("matterItemHref", () => {
+  it("links each item type to where it opens", () => {
+    expect(matterItemHref("conversation", "c1")).toBe("/chat?conversation=c1");
+    expect(matterItemHref("research_session", "r1")).toBe("/research?session=r1");
+    expect(matterItemHref("contract_session", "k1")).toBe("/contracts?session=k1");
+    expect(matterItemHref("collection", "l1")).toBe("/library/l1");
+    expect(matterItemHref("kb_document", "d1")).toBe("/knowledge-base");
+  });
+});
+
+describe("filterByMatter", () => {
+  const items = [{ id: "a" }, { id: "b" }];
+
+  it("keeps everything when no matter is selected", () => {
+    expect(filterByMatter(items, (item) => item.id, null)).toBe(items);
+  });
+
+  it("keeps only filed items", () => {
+    expect(filterByMatter(items, (item) => item.id, new Set(["b"]))).toEqual([{ id: "b" }]);
+  });
+});
+
+describe("groupTimelineByDay", () => {
+  it("groups consecutive events under relative and dated labels", () => {
+    const now = new Date(2026, 9, 19, 15, 0);
+    const days = groupTimelineByDay(
+      [
+        event("1", new Date(2026, 9, 19, 10, 0).toISOString()),
+        event("2", new Date(2026, 9, 19, 9, 0).toISOString()),
+        event("3", new Date(2026, 9, 18, 17, 0).toISOString()),
+        event("4", new Date(2026, 9, 2, 12, 0).toISOString()),
+      ],
+      now
+    );
+    expect(days.map((day) => [day.label, day.events.map((e) => e.id)])).toEqual([
+      ["Today", ["1", "2"]],
+      ["Yesterday", ["3"]],
+      ["2 October 2026", ["4"]],
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  describeRecurrence,
+  guessColumnMapping,
+  parseCsv,
+  parseImportDate,
+  parseRecurrencePattern,
+  validateImportRows,
+} from "@/lib/utils/obligation-register";
+
+describe("describeRecurrence", () => {
+  it("describes due dates after the period ends", () => {
+    expect(
+      describeRecurrence("quarterly", { due_rule: "after_period_end", day_of_month: 15, months_after: 1 })
+    ).toBe("15th of the month after quarter end");
+    expect(describeRecurrence("annual", { due_rule: "after_period_end", day_of_month: 30, months_after: 6 })).toBe(
+      "30th of 6 months after year end"
+    );
+  });
+
+  it("describes fixed days within the period", () => {
+    expect(describeRecurrence("monthly", { due_rule: "in_period", day_of_month: 31 })).toBe("Last day of each month");
+    expect(describeRecurrence("annual", { day_of_month: 1, month_of_year: 3 })).toBe("1st of March each year");
+    expect(describeRecurrence("one_time", { day_of_month: 1 })).toBeNull();
+    expect(describeRecurrence("annually", { day_of_month: 1, month_of_year: 3 })).toBe("1st of March each year");
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles quotes, embedded delimiters and newlines", () => {
+    expect(parseCsv('\uFEFFTitle,Notes\r\n"PAYE, monthly","Line 1\nLine ""2"""\r\n\r\nVAT,\n')).toEqual([
+      ["Title", "Notes"],
+      ["PAYE, monthly", 'Line 1\nLine "2"'],
+      ["VAT", ""],
+    ]);
+  });
+
+  it("detects semicolon-delimited exports", () => {
+    expect(parseCsv("Title;Regulator\nPAYE;URA")).toEqual([
+      ["Title", "Regulator"],
+      ["PAYE", "URA"],
+    ]);
+  });
+});
+
+describe("parseImportDate", () => {
+  it.each([
+    ["2026-01-15", "2026-01-15"],
+    ["15/01/2026", "2026-01-15"],
+    ["15-1-26", "2026-01-15"],
+    ["15 Jan 2026", "2026-01-15"],
+    ["January 15, 2026", "2026-01-15"],
+    ["46037", "2026-01-15"],
+    ["31/02/2026", null],
+    ["soon", null],
+  ])("reads %s", (input, expected) => {
+    expect(parseImportDate(input)).toBe(expected);
+  });
+});
+
+describe("import validation", () => {
+  const columns = ["Obligation", "Regulator", "Frequency", "Due Date", "Reminder (days)"];
+
+  it("maps headers by alias", () => {
+    const mapping = guessColumnMapping(columns);
+    expect(mapping.title).toBe(0);
+    expect(mapping.governing_regulator).toBe(1);
+    expect(mapping.recurrence_pattern).toBe(2);
+    expect(mapping.next_due_date).toBe(3);
+    expect(mapping.advance_warning_days).toBe(4);
+    expect(mapping.description).toBeNull();
+  });
+
+  it("reports row errors and duplicates", () => {
+    const rows = validateImportRows(
+      [
+        ["PAYE return", "URA", "Monthly", "15/11/2026", "7"],
+        ["Annual return", "URSB", "Yearly", "", ""],
+        ["paye return", "ura", "Monthly", "", ""],
+        ["", "URA", "Every leap year", "someday", "x"],
+        ["Data protection registration", "PDPO", "", "", ""],
+      ],
+      guessColumnMapping(columns),
+      [{ title: "Annual Return", governing_regulator: "URSB" }]
+    );
+
+    expect(rows[0]).toMatchObject({
+      rowNumber: 2,
+      errors: [],
+      duplicateOf: null,
+      data: { recurrence_pattern: "monthly", next_due_date: "2026-11-15", advance_warning_days: 7 },
+    });
+    expect(rows[1].duplicateOf).toBe("existing");
+    expect(rows[2].duplicateOf).toBe("file");
+    expect(rows[3].errors).toHaveLength(4);
+    expect(rows[3].data).toBeNull();
+    expect(rows[4].data).toMatchObject({ recurrence_pattern: "one_time", advance_warning_days: 14 });
+    expect(parseRecurrencePattern("Half-yearly")).toBe("bi_annual");
+    expect(parseRecurrencePattern("Fortnightly")).toBe("fortnightly");
+  });
+});
@@ -0,0 +1,38 @@
+import { APIError } from "@/lib/api/client";
+import {
+  OFFLINE_COPY_MAX_AGE_MS,
+  isRetryableSyncError,
+  planOfflineLibrarySync,
+} from "@/lib/utils/offline-library";
+
+describe("planOfflineLibrarySync", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  const fresh = new Date(now.getTime() - 60_000).toISOString();
+  const stale = new Date(now.getTime() - OFFLINE_COPY_MAX_AGE_MS - 60_000).toISOString();
+
+  it("downloads uncached and stale saved documents and drops unsaved copies", () => {
+    const plan = planOfflineLibrarySync(
+      ["a", "b", "c"],
+      [
+        { id: "b", cachedAt: fresh, sourceUpdatedAt: null, hasPdf: true },
+        { id: "c", cachedAt: stale, sourceUpdatedAt: null, hasPdf: false },
+        { id: "d", cachedAt: fresh, sourceUpdatedAt: null, hasPdf: true },
+      ],
+      now
+    );
+    expect(plan).toEqual({ download: ["a", "c"], remove: ["d"] });
+  });
+});
+
+describe("isRetryableSyncError", () => {
+  it("retries network failures and server errors", () => {
+    expect(isRetryableSyncError(new TypeError("Failed to fetch"))).toBe(true);
+    expect(isRetryableSyncError(new APIError(503, "Service Unavailable"))).toBe(true);
+    expect(isRetryableSyncError(new APIError(429, "Too Many Requests"))).toBe(true);
+  });
+
+  it("gives up on changes the server rejects", () => {
+    expect(isRetryableSyncError(new APIError(404, "Not Found"))).toBe(false);
+    expect(isRetryableSyncError(new APIError(422, "Unprocessable Entity"))).toBe(false);
+  });
+});
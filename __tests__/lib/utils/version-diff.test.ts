@@ -0,0 +1,144 @@
+import type { HierarchicalNode } from "@/lib/api/types";
+import {
+  collectSections,
+  diffText,
+  diffVersions,
+  summarizeVersionDiff,
+} from "@/lib/utils/version-diff";
+
+function section(eid: string, title: string, text: string, children?: HierarchicalNode[]): HierarchicalNode {
+  return { type: "section", akn_eid: eid, identifier: eid.replace("sec_", ""), title, text: [text], children };
+}
+
+function act(...children: HierarchicalNode[]): HierarchicalNode {
+  return { type: "act", title: "Example Act", children };
+}
+
+describe("collectSections", () => {
+  it("returns one entry per eId in document order", () => {
+    const tree = act(
+      section("sec_1", "Short title", "This Act may be cited as the Example Act."),
+      section("sec_2", "Interpretation", "In this Act—")
+    );
+    expect(collectSections(tree).map((s) => s.eid)).toEqual(["sec_1", "sec_2"]);
+  });
+
+  it("folds children without an eId into the nearest section", () => {
+    const tree = act(
+      section("sec_3", "Offences", "A person commits an offence who—", [
+        { type: "paragraph", label: "(a)", text: ["obstructs an officer;"] },
+      ])
+    );
+    const [only] = collectSections(tree);
+    expect(only.text).toBe("3 Offences A person commits an offence who— (a) obstructs an officer;");
+  });
+
+  it("keeps nested eIds as separate sections", () => {
+    const tree = act(
+      section("sec_4", "Fees", "", [
+        { type: "subsection", akn_eid: "sec_4__subsec_1", label: "(1)", text: ["A fee is payable."] },
+      ])
+    );
+    expect(collectSections(tree).map((s) => s.eid)).toEqual(["sec_4", "sec_4__subsec_1"]);
+  });
+
+  it("prefers legal_reference for the label and strips markup from text", () => {
+    const tree = act({
+      type: "section",
+      akn_eid: "sec_5",
+      legal_reference: "Section 5",
+      content: [{ type: "text", text: "<p>Penalty of&nbsp;<b>100</b> currency points</p>" }],
+    });
+    expect(collectSections(tree)[0]).toEqual({
+      eid: "sec_5",
+      label: "Section 5",
+      text: "Penalty of 100 currency points",
+    });
+  });
+
+  it("handles a missing structure", () => {
+    expect(collectSections(undefined)).toEqual([]);
+  });
+});
+
+describe("diffVersions", () => {
+  const v1 = act(
+    section("sec_1", "Short title", "Example Act."),
+    section("sec_2", "Fees", "The fee is 10 points."),
+    section("sec_3", "Repealed rule", "Old rule."),
+    section("sec_4", "Commencement", "On publication.")
+  );
+  const v2 = act(
+    section("sec_1", "Short title", "Example Act."),
+    section("sec_2", "Fees", "The fee is 20 points."),
+    section("sec_2A", "Waivers", "The Minister may waive fees."),
+    section("sec_4", "Commencement", "On publication.")
+  );
+
+  it("matches sections by eId and classifies each change", () => {
+    const diffs = diffVersions(v1, v2);
+    expect(diffs.map((d) => [d.eid, d.change])).toEqual([
+      ["sec_1", "unchanged"],
+      ["sec_2", "modified"],
+      ["sec_3", "removed"],
+      ["sec_2A", "added"],
+      ["sec_4", "unchanged"],
+    ]);
+  });
+
+  it("places removed sections after their surviving predecessor", () => {
+    const diffs = diffVersions(
+      act(section("sec_0", "Preamble", "Whereas."), section("sec_1", "Title", "A.")),
+      act(section("sec_1", "Title", "A."))
+    );
+    expect(diffs.map((d) => d.eid)).toEqual(["sec_0", "sec_1"]);
+    expect(diffs[0]).toMatchObject({ change: "removed", before: "0 Preamble Whereas." });
+  });
+
+  it("carries both texts for modified sections", () => {
+    const modified = diffVersions(v1, v2).find((d) => d.eid === "sec_2");
+    expect(modified).toMatchObject({
+      before: "2 Fees The fee is 10 points.",
+      after: "2 Fees The fee is 20 points.",
+    });
+  });
+
+  it("summarises change counts", () => {
+    expect(summarizeVersionDiff(diffVersions(v1, v2))).toEqual({
+      added: 1,
+      removed: 1,
+      modified: 1,
+      unchanged: 2,
+    });
+  });
+});
+
+describe("diffText", () => {
+  it("returns a single equal segment for identical text", () => {
+    expect(diffText("same text", "same text")).toEqual([{ type: "equal", text: "same text" }]);
+  });
+
+  it("marks changed words", () => {
+    expect(diffText("The fee is 10 points.", "The fee is 20 points.")).toEqual([
+      { type: "equal", text: "The fee is " },
+      { type: "delete", text: "10" },
+      { type: "insert", text: "20" },
+      { type: "equal", text: " points." },
+    ]);
+  });
+
+  it("reproduces both inputs from the segments", () => {
+    const before = "A person who fails to register commits an offence.";
+    const after = "Any person who knowingly fails to register commits an offence and is liable.";
+    const segments = diffText(before, after);
+    const rebuild = (skip: string) =>
+      segments.filter((s) => s.type !== skip).map((s) => s.text).join("");
+    expect(rebuild("insert")).toBe(before);
+    expect(rebuild("delete")).toBe(after);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffText("", "new")).toEqual([{ type: "insert", text: "new" }]);
+    expect(diffText("old", "")).toEqual([{ type: "delete", text: "old" }]);
+  });
+});
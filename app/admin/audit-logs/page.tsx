@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -18,6 +18,7 @@ import {
   Edit,
   Trash,
   Eye,
+  Loader2,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -46,48 +47,27 @@ import {
 } from "@/components/ui/popover";
 import { useAuth, useRequireAuth } from "@/components/providers";
 import { getCurrentOrganization, type Organization } from "@/lib/api/organizations";
+import {
+  listAuditLogs,
+  getAuditLogExportUrl,
+  type AuditEventCategory,
+  type AuditEventType,
+  type AuditLogEntry,
+  type AuditLogFilters,
+  type AuditLogPage,
+} from "@/lib/api/audit-logs";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { AlertBanner } from "@/components/common";
 import { FeatureGate } from "@/components/entitlements/feature-gate";
 import { formatRelativeTime, formatDateTime } from "@/lib/utils/date-formatter";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 
-// Audit log event types
-type AuditEventType =
-  | "auth.login"
-  | "auth.logout"
-  | "auth.password_change"
-  | "auth.mfa_enable"
-  | "auth.mfa_disable"
-  | "member.invite"
-  | "member.join"
-  | "member.remove"
-  | "member.role_change"
-  | "member.suspend"
-  | "member.reactivate"
-  | "org.settings_update"
-  | "org.billing_update"
-  | "document.view"
-  | "document.download"
-  | "document.search"
-  | "research.create"
-  | "research.delete";
-
-interface AuditLogEntry {
-  id: string;
-  event_type: AuditEventType;
-  user_id: string;
-  user_email: string;
-  user_name: string;
-  ip_address: string;
-  user_agent: string;
-  target_type?: string;
-  target_id?: string;
-  target_name?: string;
-  metadata?: Record<string, unknown>;
-  created_at: string;
-}
-
-const EVENT_CATEGORIES = {
+const EVENT_CATEGORIES: Record<
+  AuditEventCategory,
+  { label: string; icon: React.ElementType; color: string }
+> = {
   auth: { label: "Authentication", icon: Shield, color: "text-primary" },
   member: { label: "Team", icon: User, color: "text-secondary-foreground" },
   org: { label: "Organization", icon: Settings, color: "text-secondary-foreground" },
@@ -116,136 +96,166 @@ const EVENT_LABELS: Record<AuditEventType, { label: string; icon: React.ElementT
   "research.delete": { label: "Research deleted", icon: Trash },
 };
 
-function getEventCategory(eventType: AuditEventType): keyof typeof EVENT_CATEGORIES {
-  return eventType.split(".")[0] as keyof typeof EVENT_CATEGORIES;
+const DATE_PRESETS: Record<string, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+};
+
+function getEventCategory(eventType: AuditEventType): AuditEventCategory {
+  return eventType.split(".")[0] as AuditEventCategory;
 }
 
-// Generate mock audit logs for demo
-function generateMockAuditLogs(): AuditLogEntry[] {
-  const events: AuditLogEntry[] = [];
-  const users = [
-    { id: "1", email: "admin@example.com", name: "Admin User" },
-    { id: "2", email: "john@example.com", name: "John Doe" },
-    { id: "3", email: "jane@example.com", name: "Jane Smith" },
-  ];
-
-  const eventTypes: AuditEventType[] = [
-    "auth.login",
-    "auth.logout",
-    "member.invite",
-    "member.role_change",
-    "document.view",
-    "document.search",
-    "research.create",
-    "org.settings_update",
-  ];
-
-  for (let i = 0; i < 50; i++) {
-    const user = users[Math.floor(Math.random() * users.length)];
-    const eventType = eventTypes[Math.floor(Math.random() * eventTypes.length)];
-    const timestamp = new Date(Date.now() - Math.random() * 7 * 24 * 60 * 60 * 1000);
-
-    events.push({
-      id: `audit-${i}`,
-      event_type: eventType,
-      user_id: user.id,
-      user_email: user.email,
-      user_name: user.name,
-      ip_address: `192.168.1.${Math.floor(Math.random() * 255)}`,
-      user_agent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)",
-      target_name: eventType.includes("document")
-        ? "Employment Act 2006"
-        : eventType.includes("member")
-        ? "newuser@example.com"
-        : undefined,
-      created_at: timestamp.toISOString(),
-    });
+/**
+ * Translate the date picker state into the API's start/end bounds.
+ * Custom dates are whole days in the user's timezone; the end day is
+ * included by pushing the exclusive bound to the following midnight.
+ */
+function getDateBounds(
+  dateFilter: string,
+  customStart: string,
+  customEnd: string
+): Pick<AuditLogFilters, "start_date" | "end_date"> {
+  if (dateFilter === "custom") {
+    const bounds: Pick<AuditLogFilters, "start_date" | "end_date"> = {};
+    if (customStart) {
+      bounds.start_date = new Date(`${customStart}T00:00:00`).toISOString();
+    }
+    if (customEnd) {
+      const end = new Date(`${customEnd}T00:00:00`);
+      end.setDate(end.getDate() + 1);
+      bounds.end_date = end.toISOString();
+    }
+    return bounds;
   }
-
-  return events.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  const windowMs = DATE_PRESETS[dateFilter];
+  return windowMs ? { start_date: new Date(Date.now() - windowMs).toISOString() } : {};
 }
 
 function AuditLogsContent() {
   const { isAuthenticated } = useAuth();
   const [organization, setOrganization] = useState<Organization | null>(null);
   const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [categoryCounts, setCategoryCounts] = useState<AuditLogPage["category_counts"]>({});
   const [loading, setLoading] = useState(true);
+  const [fetching, setFetching] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   // Filters
-  const [searchQuery, setSearchQuery] = useState("");
+  const [userQuery, setUserQuery] = useState("");
+  const [targetQuery, setTargetQuery] = useState("");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [eventTypeFilter, setEventTypeFilter] = useState<string>("all");
   const [dateFilter, setDateFilter] = useState<string>("7d");
+  const [customStart, setCustomStart] = useState("");
+  const [customEnd, setCustomEnd] = useState("");
+
+  const debouncedUser = useDebouncedValue(userQuery.trim());
+  const debouncedTarget = useDebouncedValue(targetQuery.trim());
+
+  const filters = useMemo<AuditLogFilters>(
+    () => ({
+      event_types: eventTypeFilter !== "all" ? [eventTypeFilter as AuditEventType] : undefined,
+      category: categoryFilter !== "all" ? (categoryFilter as AuditEventCategory) : undefined,
+      user: debouncedUser || undefined,
+      target: debouncedTarget || undefined,
+      ...getDateBounds(dateFilter, customStart, customEnd),
+    }),
+    [eventTypeFilter, categoryFilter, debouncedUser, debouncedTarget, dateFilter, customStart, customEnd]
+  );
+
+  const isAdmin =
+    organization?.current_user_role === "admin" || organization?.current_user_role === "owner";
 
   useEffect(() => {
-    async function loadData() {
+    async function loadOrganization() {
       if (!isAuthenticated) return;
 
       try {
         const org = await getCurrentOrganization();
         setOrganization(org);
-
-        // In production, this would fetch from audit log API
-        // For now, use mock data
-        setLogs(generateMockAuditLogs());
       } catch (err) {
-        console.error("Failed to load audit logs:", err);
+        console.error("Failed to load organization:", err);
       } finally {
         setLoading(false);
       }
     }
 
-    loadData();
+    loadOrganization();
   }, [isAuthenticated]);
 
-  // Filter logs
-  const filteredLogs = logs.filter((log) => {
-    const matchesSearch =
-      log.user_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.user_email.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      log.target_name?.toLowerCase().includes(searchQuery.toLowerCase());
-
-    const matchesCategory =
-      categoryFilter === "all" || getEventCategory(log.event_type) === categoryFilter;
-
-    // Date filter
-    const logDate = new Date(log.created_at);
-    const now = new Date();
-    let matchesDate = true;
-    if (dateFilter === "24h") {
-      matchesDate = now.getTime() - logDate.getTime() < 24 * 60 * 60 * 1000;
-    } else if (dateFilter === "7d") {
-      matchesDate = now.getTime() - logDate.getTime() < 7 * 24 * 60 * 60 * 1000;
-    } else if (dateFilter === "30d") {
-      matchesDate = now.getTime() - logDate.getTime() < 30 * 24 * 60 * 60 * 1000;
+  // Bumped whenever the filters change, so a "load more" page requested
+  // under the old filters is dropped instead of appended.
+  const filtersVersion = useRef(0);
+
+  // Refetch the first page whenever the filters change. Stale responses
+  // from a previous filter set are dropped so fast typing can't leave the
+  // table showing results for an older query.
+  useEffect(() => {
+    if (!isAdmin) return;
+
+    filtersVersion.current += 1;
+    let cancelled = false;
+    async function loadLogs() {
+      setFetching(true);
+      setError(null);
+      try {
+        const page = await listAuditLogs(filters);
+        if (cancelled) return;
+        setLogs(page.items);
+        setNextCursor(page.next_cursor);
+        setTotal(page.total);
+        setCategoryCounts(page.category_counts ?? {});
+      } catch (err) {
+        if (cancelled) return;
+        console.error("Failed to load audit logs:", err);
+        setError(getUserFriendlyError(err, "Failed to load audit logs"));
+      } finally {
+        if (!cancelled) setFetching(false);
+      }
+    }
+
+    loadLogs();
+    return () => {
+      cancelled = true;
+    };
+  }, [isAdmin, filters]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    const version = filtersVersion.current;
+    setLoadingMore(true);
+    try {
+      const page = await listAuditLogs(filters, nextCursor);
+      if (version !== filtersVersion.current) return;
+      setLogs((prev) => [...prev, ...page.items]);
+      setNextCursor(page.next_cursor);
+      setTotal(page.total);
+    } catch (err) {
+      if (version !== filtersVersion.current) return;
+      console.error("Failed to load more audit logs:", err);
+      setError(getUserFriendlyError(err, "Failed to load more audit logs"));
+    } finally {
+      setLoadingMore(false);
     }
+  };
 
-    return matchesSearch && matchesCategory && matchesDate;
-  });
-
-  const handleExport = () => {
-    const csv = [
-      ["Timestamp", "User", "Email", "Event", "Target", "IP Address"].join(","),
-      ...filteredLogs.map((log) =>
-        [
-          new Date(log.created_at).toISOString(),
-          log.user_name,
-          log.user_email,
-          EVENT_LABELS[log.event_type]?.label || log.event_type,
-          log.target_name || "",
-          log.ip_address,
-        ].join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csv], { type: "text/csv" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `audit-logs-${new Date().toISOString().split("T")[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleCategoryChange = (value: string) => {
+    setCategoryFilter(value);
+    // A specific event type from another category would match nothing
+    if (eventTypeFilter !== "all" && value !== "all" && getEventCategory(eventTypeFilter as AuditEventType) !== value) {
+      setEventTypeFilter("all");
+    }
   };
 
+  const eventTypeOptions = (Object.keys(EVENT_LABELS) as AuditEventType[]).filter(
+    (type) => categoryFilter === "all" || getEventCategory(type) === categoryFilter
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen px-6 py-6 lg:px-12 space-y-6">
@@ -256,9 +266,6 @@ function AuditLogsContent() {
     );
   }
 
-  const isAdmin =
-    organization?.current_user_role === "admin" || organization?.current_user_role === "owner";
-
   if (!isAdmin) {
     return (
       <div className="min-h-screen px-6 py-6 lg:px-12">
@@ -294,23 +301,35 @@ function AuditLogsContent() {
             Track all activity in your organization
           </p>
         </div>
-        <Button variant="outline" onClick={handleExport}>
-          <Download className="h-4 w-4 mr-2" />
-          Export CSV
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" asChild>
+            <a href={getAuditLogExportUrl("csv", filters)} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={getAuditLogExportUrl("json", filters)} download>
+              <Download className="h-4 w-4 mr-2" />
+              Export JSON
+            </a>
+          </Button>
+        </div>
       </div>
 
+      {error && <AlertBanner variant="error" message={error} onDismiss={() => setError(null)} />}
+
       {/* Category Stats */}
       <div className="grid gap-4 md:grid-cols-5">
         {Object.entries(EVENT_CATEGORIES).map(([key, { label, icon: Icon, color }]) => {
-          const count = logs.filter((l) => getEventCategory(l.event_type) === key).length;
+          const count = categoryCounts[key as AuditEventCategory] ?? 0;
           return (
             <Card
               key={key}
               className={`cursor-pointer transition-colors ${
                 categoryFilter === key ? "border-primary" : ""
               }`}
-              onClick={() => setCategoryFilter(categoryFilter === key ? "all" : key)}
+              onClick={() => handleCategoryChange(categoryFilter === key ? "all" : key)}
             >
               <CardContent className="pt-4">
                 <div className="flex items-center gap-2">
@@ -327,41 +346,89 @@ function AuditLogsContent() {
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
-          <div className="flex flex-col sm:flex-row gap-4">
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-              <Input
-                placeholder="Search by user, email, or target..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-9"
-              />
+          <div className="flex flex-col gap-4">
+            <div className="flex flex-col sm:flex-row gap-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Filter by user name, email, or ID..."
+                  value={userQuery}
+                  onChange={(e) => setUserQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              <div className="relative flex-1">
+                <FileText className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Filter by target name or ID..."
+                  value={targetQuery}
+                  onChange={(e) => setTargetQuery(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-4">
+              <Select value={categoryFilter} onValueChange={handleCategoryChange}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder="Category" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Categories</SelectItem>
+                  {Object.entries(EVENT_CATEGORIES).map(([key, { label }]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={eventTypeFilter} onValueChange={setEventTypeFilter}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Event" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Events</SelectItem>
+                  {eventTypeOptions.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {EVENT_LABELS[type].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={dateFilter} onValueChange={setDateFilter}>
+                <SelectTrigger className="w-[160px]">
+                  <Calendar className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="24h">Last 24 hours</SelectItem>
+                  <SelectItem value="7d">Last 7 days</SelectItem>
+                  <SelectItem value="30d">Last 30 days</SelectItem>
+                  <SelectItem value="all">All time</SelectItem>
+                  <SelectItem value="custom">Custom range</SelectItem>
+                </SelectContent>
+              </Select>
+              {dateFilter === "custom" && (
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    aria-label="From date"
+                    value={customStart}
+                    max={customEnd || undefined}
+                    onChange={(e) => setCustomStart(e.target.value)}
+                    className="w-[150px]"
+                  />
+                  <span className="text-sm text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    aria-label="To date"
+                    value={customEnd}
+                    min={customStart || undefined}
+                    onChange={(e) => setCustomEnd(e.target.value)}
+                    className="w-[150px]"
+                  />
+                </div>
+              )}
             </div>
-            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
-              <SelectTrigger className="w-[160px]">
-                <SelectValue placeholder="Category" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="all">All Categories</SelectItem>
-                {Object.entries(EVENT_CATEGORIES).map(([key, { label }]) => (
-                  <SelectItem key={key} value={key}>
-                    {label}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-            <Select value={dateFilter} onValueChange={setDateFilter}>
-              <SelectTrigger className="w-[140px]">
-                <Calendar className="h-4 w-4 mr-2" />
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="24h">Last 24 hours</SelectItem>
-                <SelectItem value="7d">Last 7 days</SelectItem>
-                <SelectItem value="30d">Last 30 days</SelectItem>
-                <SelectItem value="all">All time</SelectItem>
-              </SelectContent>
-            </Select>
           </div>
         </CardContent>
       </Card>
@@ -369,9 +436,12 @@ function AuditLogsContent() {
       {/* Logs Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Activity Log</CardTitle>
+          <CardTitle className="flex items-center gap-2">
+            Activity Log
+            {fetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </CardTitle>
           <CardDescription>
-            {filteredLogs.length} event{filteredLogs.length !== 1 ? "s" : ""} found
+            {total} event{total !== 1 ? "s" : ""} found
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -386,7 +456,14 @@ function AuditLogsContent() {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredLogs.slice(0, 50).map((log) => {
+              {logs.length === 0 && !fetching && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                    No events match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+              {logs.map((log) => {
                 const eventInfo = EVENT_LABELS[log.event_type];
                 const category = getEventCategory(log.event_type);
                 const categoryInfo = EVENT_CATEGORIES[category];
@@ -441,11 +518,15 @@ function AuditLogsContent() {
             </TableBody>
           </Table>
 
-          {filteredLogs.length > 50 && (
-            <div className="text-center py-4">
+          {nextCursor && (
+            <div className="flex flex-col items-center gap-2 py-4">
               <p className="text-sm text-muted-foreground">
-                Showing 50 of {filteredLogs.length} events
+                Showing {logs.length} of {total} events
               </p>
+              <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                {loadingMore && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Load more
+              </Button>
             </div>
           )}
         </CardContent>
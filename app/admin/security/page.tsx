@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import Link from "next/link";
 import {
   ArrowLeft,
@@ -13,6 +13,7 @@ import {
   Copy,
   Check,
   Settings,
+  Loader2,
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -39,39 +40,67 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth, useRequireAuth } from "@/components/providers";
 import { getCurrentOrganization, type Organization } from "@/lib/api/organizations";
+import {
+  createSSOProvider,
+  deleteSSOProvider,
+  getSecuritySettings,
+  getServiceProviderDetails,
+  getSSOTestResult,
+  listSSOProviders,
+  startSSOTest,
+  updateSecuritySettings,
+  type OrganizationSecuritySettings,
+  type ServiceProviderDetails,
+  type SSOProtocol,
+  type SSOProvider,
+} from "@/lib/api/organization-security";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  checkCertificateExpiry,
+  IdpMetadataError,
+  isValidIpOrCidr,
+  parseIdpMetadata,
+  type CertificateExpiryCheck,
+} from "@/lib/security/idp-metadata";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
 import { FeatureGate } from "@/components/entitlements/feature-gate";
 import { AlertBanner } from "@/components/common";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 
-interface SSOProvider {
-  id: string;
-  name: string;
-  type: "saml" | "oidc";
-  logo: string;
-  status: "active" | "inactive" | "pending";
-  domain?: string;
-  lastSync?: string;
-}
+const SSO_PROVIDERS: { id: string; name: string; logo: string; protocol: SSOProtocol }[] = [
+  { id: "okta", name: "Okta", logo: "/logos/okta.svg", protocol: "saml" },
+  { id: "azure", name: "Azure AD", logo: "/logos/azure.svg", protocol: "saml" },
+  { id: "google", name: "Google Workspace", logo: "/logos/google.svg", protocol: "saml" },
+  { id: "onelogin", name: "OneLogin", logo: "/logos/onelogin.svg", protocol: "saml" },
+  { id: "custom", name: "Custom SAML", logo: "/logos/saml.svg", protocol: "saml" },
+];
 
-interface SecuritySettings {
-  enforce_sso: boolean;
-  require_mfa: boolean;
-  session_timeout_hours: number;
-  password_min_length: number;
-  password_require_special: boolean;
-  ip_allowlist_enabled: boolean;
-  ip_allowlist: string[];
+const EMPTY_SSO_CONFIG = {
+  protocol: "saml" as SSOProtocol,
+  entityId: "",
+  ssoUrl: "",
+  certificate: "",
+  metadataXml: "",
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  domain: "",
+};
+
+// How long to wait for the admin to finish the IdP login in the popup
+const SSO_TEST_POLL_INTERVAL_MS = 2000;
+const SSO_TEST_TIMEOUT_MS = 5 * 60 * 1000;
+
+function getCertificateCheck(certificate: string): CertificateExpiryCheck | string | null {
+  if (!certificate.trim()) return null;
+  try {
+    return checkCertificateExpiry(certificate);
+  } catch (err) {
+    return err instanceof IdpMetadataError ? err.message : "The certificate could not be read.";
+  }
 }
 
-const SSO_PROVIDERS = [
-  { id: "okta", name: "Okta", logo: "/logos/okta.svg" },
-  { id: "azure", name: "Azure AD", logo: "/logos/azure.svg" },
-  { id: "google", name: "Google Workspace", logo: "/logos/google.svg" },
-  { id: "onelogin", name: "OneLogin", logo: "/logos/onelogin.svg" },
-  { id: "custom", name: "Custom SAML", logo: "/logos/saml.svg" },
-];
-
 function SecuritySettingsContent() {
   const { isAuthenticated } = useAuth();
   const [organization, setOrganization] = useState<Organization | null>(null);
@@ -82,17 +111,16 @@ function SecuritySettingsContent() {
 
   // SSO State
   const [ssoProviders, setSsoProviders] = useState<SSOProvider[]>([]);
+  const [serviceProvider, setServiceProvider] = useState<ServiceProviderDetails | null>(null);
   const [configureSSOOpen, setConfigureSSOOpen] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<string | null>(null);
-  const [ssoConfig, setSsoConfig] = useState({
-    entityId: "",
-    ssoUrl: "",
-    certificate: "",
-    domain: "",
-  });
+  const [ssoConfig, setSsoConfig] = useState(EMPTY_SSO_CONFIG);
+  const [metadataFileName, setMetadataFileName] = useState<string | null>(null);
+  const [testingProviderId, setTestingProviderId] = useState<string | null>(null);
+  const testPollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   // Security settings
-  const [settings, setSettings] = useState<SecuritySettings>({
+  const [settings, setSettings] = useState<OrganizationSecuritySettings>({
     enforce_sso: false,
     require_mfa: false,
     session_timeout_hours: 24,
@@ -101,6 +129,7 @@ function SecuritySettingsContent() {
     ip_allowlist_enabled: false,
     ip_allowlist: [],
   });
+  const [ipAllowlistText, setIpAllowlistText] = useState("");
 
   // Copy state
   const [copied, setCopied] = useState<string | null>(null);
@@ -112,11 +141,23 @@ function SecuritySettingsContent() {
       try {
         const org = await getCurrentOrganization();
         setOrganization(org);
-
-        // In production, load SSO providers and settings from API
-        // For now, use defaults
+        if (org.current_user_role !== "owner") return;
+
+        const loadedSettings = await getSecuritySettings();
+        setSettings(loadedSettings);
+        setIpAllowlistText(loadedSettings.ip_allowlist.join(", "));
+
+        if (org.subscription_tier === "enterprise") {
+          const [providers, spDetails] = await Promise.all([
+            listSSOProviders(),
+            getServiceProviderDetails(),
+          ]);
+          setSsoProviders(providers.items);
+          setServiceProvider(spDetails);
+        }
       } catch (err) {
         console.error("Failed to load security settings:", err);
+        setError(getUserFriendlyError(err, "Failed to load security settings"));
       } finally {
         setLoading(false);
       }
@@ -125,6 +166,30 @@ function SecuritySettingsContent() {
     loadData();
   }, [isAuthenticated]);
 
+  // Stop polling a test login when leaving the page
+  useEffect(() => {
+    return () => {
+      if (testPollRef.current) clearTimeout(testPollRef.current);
+    };
+  }, []);
+
+  const certificateCheck = useMemo(
+    () => (ssoConfig.protocol === "saml" ? getCertificateCheck(ssoConfig.certificate) : null),
+    [ssoConfig.protocol, ssoConfig.certificate]
+  );
+
+  const ipAllowlist = useMemo(
+    () =>
+      ipAllowlistText
+        .split(/[\s,]+/)
+        .map((ip) => ip.trim())
+        .filter(Boolean),
+    [ipAllowlistText]
+  );
+  const invalidIps = ipAllowlist.filter((ip) => !isValidIpOrCidr(ip));
+
+  const hasActiveProvider = ssoProviders.some((p) => p.status === "active");
+
   const handleCopy = async (text: string, id: string) => {
     await navigator.clipboard.writeText(text);
     setCopied(id);
@@ -132,60 +197,202 @@ function SecuritySettingsContent() {
   };
 
   const handleSaveSettings = async () => {
+    if (settings.ip_allowlist_enabled) {
+      if (ipAllowlist.length === 0) {
+        setError("Add at least one IP address or disable the IP allowlist");
+        return;
+      }
+      if (invalidIps.length > 0) {
+        setError(`Invalid IP address or range: ${invalidIps.join(", ")}`);
+        return;
+      }
+    }
+
     setSaving(true);
     setError(null);
 
     try {
-      // In production, save settings to API
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const updated = await updateSecuritySettings({ ...settings, ip_allowlist: ipAllowlist });
+      setSettings(updated);
+      setIpAllowlistText(updated.ip_allowlist.join(", "));
       setSuccess("Security settings saved successfully");
-    } catch {
-      setError("Failed to save settings");
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Failed to save settings"));
     } finally {
       setSaving(false);
     }
   };
 
+  const openConfigureDialog = (providerId: string) => {
+    const provider = SSO_PROVIDERS.find((p) => p.id === providerId);
+    setSelectedProvider(providerId);
+    setSsoConfig({ ...EMPTY_SSO_CONFIG, protocol: provider?.protocol ?? "saml" });
+    setMetadataFileName(null);
+    setConfigureSSOOpen(true);
+  };
+
+  const handleMetadataUpload = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const xml = await file.text();
+      const metadata = parseIdpMetadata(xml);
+      setSsoConfig((c) => ({
+        ...c,
+        entityId: metadata.entityId,
+        ssoUrl: metadata.ssoUrl,
+        certificate: metadata.certificate ?? c.certificate,
+        metadataXml: xml,
+      }));
+      setMetadataFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setMetadataFileName(null);
+      setError(
+        err instanceof IdpMetadataError ? err.message : "Failed to read the metadata file"
+      );
+    }
+  };
+
+  const pollTestResult = (providerId: string, testId: string, startedAt: number) => {
+    testPollRef.current = setTimeout(async () => {
+      try {
+        const result = await getSSOTestResult(providerId, testId);
+        if (result.status === "pending") {
+          if (Date.now() - startedAt > SSO_TEST_TIMEOUT_MS) {
+            setTestingProviderId(null);
+            setError("The test login timed out. Please try again.");
+            return;
+          }
+          pollTestResult(providerId, testId, startedAt);
+          return;
+        }
+
+        setTestingProviderId(null);
+        // The backend activates the provider on a successful test
+        const providers = await listSSOProviders();
+        setSsoProviders(providers.items);
+        if (result.status === "succeeded") {
+          setSuccess(
+            result.asserted_email
+              ? `Test login succeeded as ${result.asserted_email}. SSO is now active.`
+              : "Test login succeeded. SSO is now active."
+          );
+        } else {
+          setError(result.error || "The test login failed. Check the IdP configuration.");
+        }
+      } catch (err) {
+        setTestingProviderId(null);
+        setError(getUserFriendlyError(err, "Failed to check the test login"));
+      }
+    }, SSO_TEST_POLL_INTERVAL_MS);
+  };
+
+  const handleTestSSO = async (providerId: string) => {
+    if (testPollRef.current) clearTimeout(testPollRef.current);
+    setTestingProviderId(providerId);
+    setError(null);
+    setSuccess(null);
+
+    // Open the popup synchronously so it isn't blocked, then point it
+    // at the IdP once the backend has issued the test request.
+    const popup = window.open("", "sso-test", "width=520,height=720");
+
+    try {
+      const test = await startSSOTest(providerId);
+      if (popup) {
+        // Cut the link back to this page before handing the window to the IdP
+        popup.opener = null;
+        popup.location.href = test.login_url;
+      } else {
+        window.open(test.login_url, "_blank", "noopener");
+      }
+      pollTestResult(providerId, test.test_id, Date.now());
+    } catch (err) {
+      popup?.close();
+      setTestingProviderId(null);
+      setError(getUserFriendlyError(err, "Failed to start the test login"));
+    }
+  };
+
   const handleConfigureSSO = async () => {
-    if (!selectedProvider || !ssoConfig.entityId || !ssoConfig.ssoUrl) {
+    if (!selectedProvider) return;
+
+    const isSaml = ssoConfig.protocol === "saml";
+    if (
+      isSaml
+        ? !ssoConfig.entityId || !ssoConfig.ssoUrl || !ssoConfig.certificate
+        : !ssoConfig.issuer || !ssoConfig.clientId || !ssoConfig.clientSecret
+    ) {
       setError("Please fill in all required fields");
       return;
     }
+    if (isSaml) {
+      if (typeof certificateCheck === "string") {
+        setError(certificateCheck);
+        return;
+      }
+      if (certificateCheck?.status === "expired" || certificateCheck?.status === "not_yet_valid") {
+        setError("The IdP signing certificate is not currently valid. Upload a current certificate.");
+        return;
+      }
+    }
 
     setSaving(true);
     setError(null);
 
     try {
-      // In production, save SSO config to API
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
       const provider = SSO_PROVIDERS.find((p) => p.id === selectedProvider);
-      setSsoProviders((prev) => [
-        ...prev,
-        {
-          id: selectedProvider,
-          name: provider?.name || "Custom SAML",
-          type: "saml",
-          logo: provider?.logo || "",
-          status: "pending",
-          domain: ssoConfig.domain,
-        },
-      ]);
+      const created = await createSSOProvider({
+        provider_key: selectedProvider,
+        name: provider?.name || (isSaml ? "Custom SAML" : "Custom OIDC"),
+        protocol: ssoConfig.protocol,
+        domain: ssoConfig.domain || undefined,
+        ...(isSaml
+          ? {
+              saml: {
+                entity_id: ssoConfig.entityId,
+                sso_url: ssoConfig.ssoUrl,
+                certificate: ssoConfig.certificate,
+                metadata_xml: ssoConfig.metadataXml || undefined,
+              },
+            }
+          : {
+              oidc: {
+                issuer: ssoConfig.issuer,
+                client_id: ssoConfig.clientId,
+                client_secret: ssoConfig.clientSecret,
+              },
+            }),
+      });
+      setSsoProviders((prev) => [...prev, created]);
 
       setConfigureSSOOpen(false);
-      setSsoConfig({ entityId: "", ssoUrl: "", certificate: "", domain: "" });
+      setSsoConfig(EMPTY_SSO_CONFIG);
+      setMetadataFileName(null);
       setSelectedProvider(null);
-      setSuccess("SSO provider configured. Testing connection...");
-    } catch {
-      setError("Failed to configure SSO");
+      setSuccess("SSO provider saved. Run a test login to activate it.");
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Failed to configure SSO"));
     } finally {
       setSaving(false);
     }
   };
 
-  const handleRemoveSSO = (providerId: string) => {
-    setSsoProviders((prev) => prev.filter((p) => p.id !== providerId));
-    setSuccess("SSO provider removed");
+  const handleRemoveSSO = async (providerId: string) => {
+    setError(null);
+    try {
+      await deleteSSOProvider(providerId);
+      const remaining = ssoProviders.filter((p) => p.id !== providerId);
+      setSsoProviders(remaining);
+      // The backend turns enforcement off when the last active provider goes
+      if (!remaining.some((p) => p.status === "active")) {
+        setSettings((s) => ({ ...s, enforce_sso: false }));
+      }
+      setSuccess("SSO provider removed");
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Failed to remove SSO provider"));
+    }
   };
 
   if (loading) {
@@ -222,8 +429,10 @@ function SecuritySettingsContent() {
   }
 
   // Service Provider URLs for SSO setup
-  const spEntityId = `https://app.lawlens.io/auth/saml/${organization?.slug}`;
-  const spAcsUrl = `https://app.lawlens.io/auth/saml/${organization?.slug}/callback`;
+  const spEntityId =
+    serviceProvider?.entity_id ?? `https://app.lawlens.io/auth/saml/${organization?.slug}`;
+  const spAcsUrl =
+    serviceProvider?.acs_url ?? `https://app.lawlens.io/auth/saml/${organization?.slug}/callback`;
 
   return (
     <div className="min-h-screen px-6 py-6 lg:px-12 space-y-6">
@@ -341,10 +550,20 @@ function SecuritySettingsContent() {
                           <Globe className="h-5 w-5" />
                         </div>
                         <div>
-                          <p className="font-medium">{provider.name}</p>
+                          <p className="font-medium">
+                            {provider.name}
+                            <span className="ml-2 text-xs uppercase text-muted-foreground">
+                              {provider.protocol}
+                            </span>
+                          </p>
                           <p className="text-sm text-muted-foreground">
                             {provider.domain || "All domains"}
                           </p>
+                          {provider.certificate_expires_at && (
+                            <p className="text-xs text-muted-foreground">
+                              Certificate expires {formatDateOnly(provider.certificate_expires_at)}
+                            </p>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center gap-3">
@@ -365,6 +584,21 @@ function SecuritySettingsContent() {
                           )}
                           {provider.status}
                         </Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleTestSSO(provider.id)}
+                          disabled={testingProviderId !== null}
+                        >
+                          {testingProviderId === provider.id ? (
+                            <>
+                              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                              Waiting for login...
+                            </>
+                          ) : (
+                            "Test login"
+                          )}
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -386,10 +620,7 @@ function SecuritySettingsContent() {
                     <button
                       key={provider.id}
                       type="button"
-                      onClick={() => {
-                        setSelectedProvider(provider.id);
-                        setConfigureSSOOpen(true);
-                      }}
+                      onClick={() => openConfigureDialog(provider.id)}
                       className={cn("flex items-center gap-3", surfaceClasses.optionCard)}
                     >
                       <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-surface-container-high">
@@ -400,10 +631,7 @@ function SecuritySettingsContent() {
                   ))}
                   <button
                     type="button"
-                    onClick={() => {
-                      setSelectedProvider("custom");
-                      setConfigureSSOOpen(true);
-                    }}
+                    onClick={() => openConfigureDialog("custom")}
                     className={cn(
                       "flex items-center gap-3 border-dashed",
                       surfaceClasses.optionCard
@@ -412,7 +640,7 @@ function SecuritySettingsContent() {
                     <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-surface-container-high">
                       <Settings className="ll-icon-muted h-4 w-4" />
                     </div>
-                    <span className="font-medium text-sm">Custom SAML</span>
+                    <span className="font-medium text-sm">Custom SAML / OIDC</span>
                   </button>
                 </div>
               </div>
@@ -424,7 +652,9 @@ function SecuritySettingsContent() {
                   <div>
                     <Label htmlFor="enforce-sso">Enforce SSO</Label>
                     <p className="text-sm text-muted-foreground">
-                      Require all users to sign in via SSO
+                      {hasActiveProvider
+                        ? "Require all users to sign in via SSO"
+                        : "Activate a provider with a successful test login first"}
                     </p>
                   </div>
                   <Switch
@@ -433,7 +663,7 @@ function SecuritySettingsContent() {
                     onCheckedChange={(checked) =>
                       setSettings((s) => ({ ...s, enforce_sso: checked }))
                     }
-                    disabled={ssoProviders.length === 0}
+                    disabled={!hasActiveProvider}
                   />
                 </div>
               </div>
@@ -563,17 +793,19 @@ function SecuritySettingsContent() {
               <Label>Allowed IP Addresses</Label>
               <Input
                 placeholder="Enter IP addresses (comma separated)"
-                value={settings.ip_allowlist.join(", ")}
-                onChange={(e) =>
-                  setSettings((s) => ({
-                    ...s,
-                    ip_allowlist: e.target.value.split(",").map((ip) => ip.trim()),
-                  }))
-                }
+                value={ipAllowlistText}
+                onChange={(e) => setIpAllowlistText(e.target.value)}
+                aria-invalid={invalidIps.length > 0}
               />
-              <p className="text-xs text-muted-foreground">
-                Supports individual IPs and CIDR ranges (e.g., 192.168.1.0/24)
-              </p>
+              {invalidIps.length > 0 ? (
+                <p className="text-xs text-destructive">
+                  Not a valid IP address or CIDR range: {invalidIps.join(", ")}
+                </p>
+              ) : (
+                <p className="text-xs text-muted-foreground">
+                  Supports individual IPs and CIDR ranges (e.g., 192.168.1.0/24)
+                </p>
+              )}
             </div>
           )}
         </CardContent>
@@ -594,41 +826,139 @@ function SecuritySettingsContent() {
               Configure {SSO_PROVIDERS.find((p) => p.id === selectedProvider)?.name || "SSO"}
             </DialogTitle>
             <DialogDescription>
-              Enter the SAML configuration from your identity provider
+              Upload your identity provider&apos;s metadata or enter the configuration manually
             </DialogDescription>
           </DialogHeader>
 
           <div className="space-y-4 py-4">
             <div className="space-y-2">
-              <Label htmlFor="sso-entity-id">IdP Entity ID / Issuer *</Label>
-              <Input
-                id="sso-entity-id"
-                placeholder="https://idp.example.com/..."
-                value={ssoConfig.entityId}
-                onChange={(e) => setSsoConfig((c) => ({ ...c, entityId: e.target.value }))}
-              />
+              <Label htmlFor="sso-protocol">Protocol</Label>
+              <Select
+                value={ssoConfig.protocol}
+                onValueChange={(v) => setSsoConfig((c) => ({ ...c, protocol: v as SSOProtocol }))}
+              >
+                <SelectTrigger id="sso-protocol">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="saml">SAML 2.0</SelectItem>
+                  <SelectItem value="oidc">OpenID Connect</SelectItem>
+                </SelectContent>
+              </Select>
             </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="sso-url">SSO URL / Sign-on URL *</Label>
-              <Input
-                id="sso-url"
-                placeholder="https://idp.example.com/sso/..."
-                value={ssoConfig.ssoUrl}
-                onChange={(e) => setSsoConfig((c) => ({ ...c, ssoUrl: e.target.value }))}
-              />
-            </div>
+            {ssoConfig.protocol === "saml" ? (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-metadata">IdP Metadata XML</Label>
+                  <Input
+                    id="sso-metadata"
+                    type="file"
+                    accept=".xml,application/xml,text/xml"
+                    onChange={(e) => {
+                      handleMetadataUpload(e.target.files?.[0]);
+                      e.target.value = "";
+                    }}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {metadataFileName
+                      ? `Fields filled from ${metadataFileName}`
+                      : "Optional — fills in the fields below"}
+                  </p>
+                </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="sso-cert">X.509 Certificate</Label>
-              <textarea
-                id="sso-cert"
-                className="w-full h-24 px-3 py-2 text-sm border rounded-md font-mono"
-                placeholder="-----BEGIN CERTIFICATE-----&#10;...&#10;-----END CERTIFICATE-----"
-                value={ssoConfig.certificate}
-                onChange={(e) => setSsoConfig((c) => ({ ...c, certificate: e.target.value }))}
-              />
-            </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-entity-id">IdP Entity ID / Issuer *</Label>
+                  <Input
+                    id="sso-entity-id"
+                    placeholder="https://idp.example.com/..."
+                    value={ssoConfig.entityId}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, entityId: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="sso-url">SSO URL / Sign-on URL *</Label>
+                  <Input
+                    id="sso-url"
+                    placeholder="https://idp.example.com/sso/..."
+                    value={ssoConfig.ssoUrl}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, ssoUrl: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="sso-cert">X.509 Signing Certificate *</Label>
+                  <textarea
+                    id="sso-cert"
+                    className="w-full h-24 px-3 py-2 text-sm border rounded-md font-mono"
+                    placeholder="-----BEGIN CERTIFICATE-----&#10;...&#10;-----END CERTIFICATE-----"
+                    value={ssoConfig.certificate}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, certificate: e.target.value }))}
+                  />
+                  {typeof certificateCheck === "string" && (
+                    <p className="text-xs text-destructive">{certificateCheck}</p>
+                  )}
+                  {certificateCheck && typeof certificateCheck !== "string" && (
+                    <p
+                      className={cn(
+                        "text-xs",
+                        certificateCheck.status === "valid"
+                          ? "text-muted-foreground"
+                          : certificateCheck.status === "expiring"
+                          ? "text-amber-600 dark:text-amber-400"
+                          : "text-destructive"
+                      )}
+                    >
+                      {certificateCheck.status === "expired"
+                        ? `Certificate expired on ${formatDateOnly(certificateCheck.notAfter)}`
+                        : certificateCheck.status === "not_yet_valid"
+                        ? `Certificate is not valid until ${formatDateOnly(certificateCheck.notBefore)}`
+                        : certificateCheck.status === "expiring"
+                        ? `Certificate expires in ${certificateCheck.daysRemaining} days (${formatDateOnly(certificateCheck.notAfter)}) — plan a rotation`
+                        : `Certificate valid until ${formatDateOnly(certificateCheck.notAfter)}`}
+                    </p>
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="sso-issuer">Issuer URL *</Label>
+                  <Input
+                    id="sso-issuer"
+                    placeholder="https://login.example.com/"
+                    value={ssoConfig.issuer}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, issuer: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="sso-client-id">Client ID *</Label>
+                  <Input
+                    id="sso-client-id"
+                    value={ssoConfig.clientId}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, clientId: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="sso-client-secret">Client Secret *</Label>
+                  <Input
+                    id="sso-client-secret"
+                    type="password"
+                    autoComplete="off"
+                    value={ssoConfig.clientSecret}
+                    onChange={(e) => setSsoConfig((c) => ({ ...c, clientSecret: e.target.value }))}
+                  />
+                  {serviceProvider?.redirect_uri && (
+                    <p className="text-xs text-muted-foreground">
+                      Redirect URI: <span className="font-mono">{serviceProvider.redirect_uri}</span>
+                    </p>
+                  )}
+                </div>
+              </>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="sso-domain">Email Domain (optional)</Label>
@@ -649,7 +979,7 @@ function SecuritySettingsContent() {
               Cancel
             </Button>
             <Button onClick={handleConfigureSSO} disabled={saving}>
-              {saving ? "Configuring..." : "Configure SSO"}
+              {saving ? "Saving..." : "Save Provider"}
             </Button>
           </DialogFooter>
         </DialogContent>
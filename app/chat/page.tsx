@@ -139,6 +139,8 @@ function ChatContent() {
     handleUnstarConversation,
     handleArchiveConversation,
     handleUnarchiveConversation,
+    handleMoveConversationToFolder,
+    handleSetConversationTags,
     handleDeleteClick,
     handleNewConversation,
     setMobileHistoryOpen,
@@ -182,6 +184,8 @@ function ChatContent() {
             onUnstarConversation={handleUnstarConversation}
             onArchiveConversation={handleArchiveConversation}
             onUnarchiveConversation={handleUnarchiveConversation}
+            onMoveConversationToFolder={handleMoveConversationToFolder}
+            onSetConversationTags={handleSetConversationTags}
             onNewConversation={handleNewConversation}
           />
 
@@ -219,6 +223,8 @@ function ChatContent() {
                   onUnstarConversation={handleUnstarConversation}
                   onArchiveConversation={handleArchiveConversation}
                   onUnarchiveConversation={handleUnarchiveConversation}
+                  onMoveConversationToFolder={handleMoveConversationToFolder}
+                  onSetConversationTags={handleSetConversationTags}
                 />
               </div>
             </div>
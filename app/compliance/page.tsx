@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import dynamic from "next/dynamic";
@@ -33,7 +33,13 @@ import {
   RefreshCw,
   Wrench,
   AlertOctagon,
-  ArrowRight,
+  Plus,
+  CalendarDays,
+  ChevronLeft,
+  Rss,
+  Upload,
+  Pencil,
+  Archive,
 } from "lucide-react";
 import {
   Dialog,
@@ -43,11 +49,46 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { cn } from "@/lib/utils";
-import { useRequireAuth } from "@/components/providers";
+import { useAuth, useRequireAuth } from "@/components/providers";
+import {
+  CalendarFeedDialog,
+  ComplianceCalendar,
+  FindingDetailDialog,
+  ImpactReportPanel,
+  ObligationFormDialog,
+  ObligationImportDialog,
+  TaskDetailDialog,
+  TaskFormDialog,
+  type TaskSourceFinding,
+} from "@/components/compliance";
+import { isRiskAcceptanceExpired } from "@/lib/utils/compliance-findings";
+import { describeRecurrence } from "@/lib/utils/obligation-register";
+import {
+  buildCalendarEntries,
+  calendarMonths,
+  filterCalendarEntries,
+  parseDateKey,
+  shiftAnchor,
+  type CalendarEntry,
+  type CalendarView,
+} from "@/lib/utils/compliance-calendar";
+import { useOrganizationMembers } from "@/hooks/use-organization-members";
 import { PageLoading } from "@/components/common";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { APIError } from "@/lib/api/client";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import { toast } from "sonner";
 import {
   complianceApi,
   type RegulatoryEventResponse,
@@ -66,6 +107,7 @@ const tabs = [
   { id: "watch", label: "Regulatory Watch", icon: Radio },
   { id: "findings", label: "Findings", icon: AlertTriangle },
   { id: "obligations", label: "Obligations", icon: Calendar },
+  { id: "calendar", label: "Calendar", icon: CalendarDays },
   { id: "tasks", label: "Tasks", icon: ClipboardList },
   { id: "alerts", label: "Alerts", icon: Bell },
 ] as const;
@@ -177,6 +219,7 @@ export default function CompliancePage() {
         {activeTab === "watch" && <WatchTab />}
         {activeTab === "findings" && <FindingsTab />}
         {activeTab === "obligations" && <ObligationsTab />}
+        {activeTab === "calendar" && <CalendarTab />}
         {activeTab === "tasks" && <TasksTab />}
         {activeTab === "alerts" && <AlertsTab />}
       </div>
@@ -210,6 +253,8 @@ const STATUS_COLORS: Record<string, string> = {
   pending: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
   delivered: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
   acknowledged: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  awaiting_approval: "bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-400",
+  changes_requested: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
 };
 
 function Badge({ label, colorMap }: { label: string; colorMap: Record<string, string> }) {
@@ -1202,6 +1247,7 @@ function WatchTab() {
                   eventId={evt.id}
                   fallback={linkedObligations}
                 />
+                <ImpactReportPanel event={evt} />
 
                 {(evt.sector_tags.length > 0 || evt.domain_tags.length > 0) && (
                   <div className="mt-3 flex flex-wrap gap-1.5">
@@ -1335,6 +1381,11 @@ function findingHeadline(text: string | null | undefined): string | null {
 
 function FindingsTab() {
   const [statusFilter, setStatusFilter] = useState("");
+  const [taskFinding, setTaskFinding] = useState<TaskSourceFinding | null>(null);
+  const [triageFinding, setTriageFinding] = useState<FindingResponse | null>(null);
+  const { user } = useAuth();
+  const { members } = useOrganizationMembers();
+  const queryClient = useQueryClient();
 
   const { data, isLoading, error } = useQuery({
     queryKey: ["compliance-findings", statusFilter],
@@ -1543,6 +1594,19 @@ function FindingsTab() {
                         {evidenceCount} evidence
                       </span>
                     )}
+                    {f.status === "accepted" && f.risk_acceptance_expires_at && (
+                      <span
+                        className={cn(
+                          "text-[11px] font-medium",
+                          isRiskAcceptanceExpired(f)
+                            ? "text-red-600 dark:text-red-400"
+                            : "text-muted-foreground",
+                        )}
+                      >
+                        {isRiskAcceptanceExpired(f) ? "Acceptance expired" : "Accepted until"}{" "}
+                        {formatDate(f.risk_acceptance_expires_at)}
+                      </span>
+                    )}
                   </div>
 
                   {/* Headline */}
@@ -1586,19 +1650,35 @@ function FindingsTab() {
                     <p className="text-[11px] text-muted-foreground">
                       Surfaced {formatDate(f.created_at)}
                     </p>
-                    {f.assigned_to_user_id ? (
-                      <span className="text-[11px] text-muted-foreground">
-                        Assigned
-                      </span>
-                    ) : (
+                    <div className="flex items-center gap-3">
+                      {f.assigned_to_user_id && (
+                        <span className="text-[11px] text-muted-foreground">
+                          {f.assigned_to_user_id === user?.id ? "Assigned to you" : "Assigned"}
+                        </span>
+                      )}
                       <button
                         type="button"
-                        className="inline-flex items-center gap-1 text-[11px] font-medium text-primary opacity-0 transition-opacity group-hover:opacity-100"
+                        onClick={() => setTriageFinding(f)}
+                        className="inline-flex items-center gap-1 text-[11px] font-medium text-primary"
                       >
-                        Review
-                        <ArrowRight className="h-3 w-3" />
+                        Triage
                       </button>
-                    )}
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setTaskFinding({
+                            id: f.id,
+                            headline,
+                            severity: f.severity,
+                            remediation_guidance: f.remediation_guidance,
+                          })
+                        }
+                        className="inline-flex items-center gap-1 text-[11px] font-medium text-primary"
+                      >
+                        <Plus className="h-3 w-3" />
+                        Create task
+                      </button>
+                    </div>
                   </div>
                 </div>
               </article>
@@ -1606,6 +1686,24 @@ function FindingsTab() {
           })}
         </div>
       )}
+
+      <FindingDetailDialog
+        finding={triageFinding}
+        headline={triageFinding ? findingHeadline(triageFinding.explanation) : null}
+        onOpenChange={(open) => !open && setTriageFinding(null)}
+        members={members}
+        currentUserId={user?.id}
+      />
+      <TaskFormDialog
+        open={!!taskFinding}
+        onOpenChange={(open) => !open && setTaskFinding(null)}
+        members={members}
+        finding={taskFinding}
+        onSaved={() => {
+          queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+          queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+        }}
+      />
     </div>
   );
 }
@@ -1661,6 +1759,10 @@ function ObligationsTab() {
       : "all";
   })();
   const [filter, setFilter] = useState<ObligationFilter>(initialFilter);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<ObligationResponse | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const { members } = useOrganizationMembers();
 
   // Mirror filter changes into the URL so reload / share preserves
   // the state. Use `replace` so we don't pile up history entries.
@@ -1692,6 +1794,61 @@ function ObligationsTab() {
     },
   });
 
+  const invalidateObligations = () => {
+    queryClient.invalidateQueries({ queryKey: ["compliance-obligations"] });
+    queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+  };
+
+  const deactivateMutation = useMutation({
+    mutationFn: (id: string) => complianceApi.deactivateObligation(id),
+    onSuccess: () => {
+      toast.success("Obligation removed from the register");
+      invalidateObligations();
+    },
+    onError: (err) => toast.error(getUserFriendlyError(err, "Failed to deactivate obligation")),
+  });
+
+  const registerActions = (
+    <div className="flex items-center gap-2">
+      <button
+        type="button"
+        onClick={() => setImportOpen(true)}
+        className="flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+      >
+        <Upload className="h-3.5 w-3.5" />
+        Import
+      </button>
+      <button
+        type="button"
+        onClick={() => {
+          setEditing(null);
+          setFormOpen(true);
+        }}
+        className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
+      >
+        <Plus className="h-3.5 w-3.5" />
+        New obligation
+      </button>
+    </div>
+  );
+
+  const registerDialogs = (
+    <>
+      <ObligationFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        members={members}
+        obligation={editing}
+        onSaved={invalidateObligations}
+      />
+      <ObligationImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onImported={invalidateObligations}
+      />
+    </>
+  );
+
   if (isLoading) return <LoadingSpinner />;
   if (error && isFeatureGated(error)) return <UpgradePrompt />;
   if (error) return <ErrorState message="Could not load obligations." />;
@@ -1721,48 +1878,55 @@ function ObligationsTab() {
 
   if (allObligations.length === 0) {
     return (
-      <EmptySection
-        title="No Active Obligations"
-        description="Track recurring statutory obligations, filing deadlines, and compliance requirements."
-        icon={Calendar}
-      />
+      <div className="space-y-3">
+        <div className="flex justify-end">{registerActions}</div>
+        <EmptySection
+          title="No Active Obligations"
+          description="Track recurring statutory obligations, filing deadlines, and compliance requirements. Add them one at a time or import your existing register."
+          icon={Calendar}
+        />
+        {registerDialogs}
+      </div>
     );
   }
 
   return (
     <div className="space-y-3">
-      {/* P3: filter chips */}
-      <div className="flex flex-wrap gap-2">
-        {OBLIGATION_FILTERS.map((f) => {
-          const count = bucketCounts[f.id];
-          const active = filter === f.id;
-          const dim = !active && count === 0;
-          return (
-            <button
-              key={f.id}
-              type="button"
-              onClick={() => setFilter(f.id)}
-              className={cn(
-                "rounded-full border px-3 py-1 text-xs font-semibold transition-colors",
-                active
-                  ? "border-brand-gold/60 bg-brand-gold/15 text-brand-gold"
-                  : "border-border bg-card text-muted-foreground hover:text-foreground hover:bg-muted/40",
-                dim && "opacity-50",
-              )}
-              aria-pressed={active}
-            >
-              {f.label}
-              <span
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {/* P3: filter chips */}
+        <div className="flex flex-wrap gap-2">
+          {OBLIGATION_FILTERS.map((f) => {
+            const count = bucketCounts[f.id];
+            const active = filter === f.id;
+            const dim = !active && count === 0;
+            return (
+              <button
+                key={f.id}
+                type="button"
+                onClick={() => setFilter(f.id)}
                 className={cn(
-                  "ml-2 inline-flex items-center justify-center rounded-full px-1.5 py-0.5 text-[10px] tabular-nums",
-                  active ? "bg-brand-gold/30" : "bg-foreground/10",
+                  "rounded-full border px-3 py-1 text-xs font-semibold transition-colors",
+                  active
+                    ? "border-brand-gold/60 bg-brand-gold/15 text-brand-gold"
+                    : "border-border bg-card text-muted-foreground hover:text-foreground hover:bg-muted/40",
+                  dim && "opacity-50",
                 )}
+                aria-pressed={active}
               >
-                {count}
-              </span>
-            </button>
-          );
-        })}
+                {f.label}
+                <span
+                  className={cn(
+                    "ml-2 inline-flex items-center justify-center rounded-full px-1.5 py-0.5 text-[10px] tabular-nums",
+                    active ? "bg-brand-gold/30" : "bg-foreground/10",
+                  )}
+                >
+                  {count}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+        {registerActions}
       </div>
 
       {obligations.length === 0 && (
@@ -1794,6 +1958,48 @@ function ObligationsTab() {
                 {ob.assigned_owner_role && (
                   <span>Owner: {ob.assigned_owner_role}</span>
                 )}
+                {describeRecurrence(ob.recurrence_pattern, ob.recurrence_config) && (
+                  <span>Due: {describeRecurrence(ob.recurrence_pattern, ob.recurrence_config)}</span>
+                )}
+              </div>
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditing(ob);
+                    setFormOpen(true);
+                  }}
+                  className="inline-flex items-center gap-1 text-[11px] font-medium text-primary"
+                >
+                  <Pencil className="h-3 w-3" />
+                  Edit
+                </button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <button
+                      type="button"
+                      disabled={deactivateMutation.isPending}
+                      className="inline-flex items-center gap-1 text-[11px] font-medium text-muted-foreground hover:text-destructive disabled:opacity-50"
+                    >
+                      <Archive className="h-3 w-3" />
+                      Deactivate
+                    </button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Deactivate obligation</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Stop tracking &quot;{ob.title}&quot;? Its completion history is kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction variant="destructive" onClick={() => deactivateMutation.mutate(ob.id)}>
+                        Deactivate
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
               </div>
             </div>
             <div className="flex flex-col items-end gap-2 shrink-0">
@@ -1826,6 +2032,288 @@ function ObligationsTab() {
           </div>
         </CardShell>
       ))}
+
+      {registerDialogs}
+    </div>
+  );
+}
+
+/* ─────────────────────────────────────────────────────
+   Calendar Tab
+   ───────────────────────────────────────────────────── */
+const ALL = "__all__";
+const OWNER_ME = "__me__";
+/** Task statuses that still need doing, and so belong on the calendar. */
+const OPEN_TASK_STATUSES = ["open", "in_progress", "under_review", "overdue"];
+
+function CalendarTab() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { members } = useOrganizationMembers();
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [regulator, setRegulator] = useState(ALL);
+  const [owner, setOwner] = useState(ALL);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedObligation, setSelectedObligation] = useState<ObligationResponse | null>(null);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [editingTask, setEditingTask] = useState<TaskResponse | null>(null);
+  const [feedOpen, setFeedOpen] = useState(false);
+
+  const obligationsQuery = useQuery({
+    queryKey: ["compliance-obligations", "calendar"],
+    queryFn: () => complianceApi.listAllObligations({ is_active: true }),
+    staleTime: 60_000,
+    retry: false,
+  });
+  const tasksQuery = useQuery({
+    queryKey: ["compliance-tasks", "calendar"],
+    // Only unfinished tasks go on the calendar, so skip the completed backlog.
+    queryFn: async () =>
+      (await Promise.all(OPEN_TASK_STATUSES.map((status) => complianceApi.listAllTasks({ status })))).flat(),
+    staleTime: 60_000,
+    retry: false,
+  });
+
+  const completeMutation = useMutation({
+    mutationFn: (id: string) => complianceApi.completeObligation(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["compliance-obligations"] });
+      queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+      setSelectedObligation(null);
+    },
+  });
+
+  const obligations = useMemo(() => obligationsQuery.data ?? [], [obligationsQuery.data]);
+  const tasks = useMemo(() => tasksQuery.data ?? [], [tasksQuery.data]);
+  const months = calendarMonths(view, anchor);
+  const regulators = useMemo(
+    () =>
+      [...new Set(obligations.map((ob) => ob.governing_regulator).filter((r): r is string => !!r))].sort(),
+    [obligations],
+  );
+
+  const filters = {
+    regulator: regulator === ALL ? null : regulator,
+    ownerUserId: owner === ALL ? null : owner === OWNER_ME ? user?.id ?? null : owner,
+  };
+  // The grid pads months with neighbouring days, but those cells stay
+  // empty — only project entries for the visible months themselves.
+  const rangeStart = months[0];
+  const rangeEnd = new Date(months[months.length - 1].getFullYear(), months[months.length - 1].getMonth() + 1, 0);
+  const entries = filterCalendarEntries(
+    buildCalendarEntries(obligations, tasks, rangeStart, rangeEnd),
+    filters,
+  );
+  const dayEntries = selectedDay ? entries.filter((e) => e.date === selectedDay) : [];
+
+  const ownerLabel =
+    owner === ALL
+      ? null
+      : owner === OWNER_ME
+        ? "Assigned to you"
+        : (() => {
+            const member = members.find((m) => m.user_id === owner);
+            return `Assigned to ${member ? member.full_name || member.email : "a team member"}`;
+          })();
+  const filterSummary = [filters.regulator, ownerLabel].filter(Boolean).join(" · ") || null;
+
+  const handleSelect = (entry: CalendarEntry) => {
+    if (entry.kind === "task") {
+      setOpenTaskId(entry.sourceId);
+    } else {
+      setSelectedObligation(obligations.find((ob) => ob.id === entry.sourceId) ?? null);
+    }
+  };
+
+  const error = obligationsQuery.error ?? tasksQuery.error;
+  if (obligationsQuery.isLoading || tasksQuery.isLoading) return <LoadingSpinner />;
+  if (error && isFeatureGated(error)) return <UpgradePrompt />;
+  if (error) return <ErrorState message="Could not load the compliance calendar." />;
+
+  const title =
+    view === "month"
+      ? months[0].toLocaleDateString("en-US", { month: "long", year: "numeric" })
+      : `Q${Math.floor(months[0].getMonth() / 3) + 1} ${months[0].getFullYear()}`;
+  const selectClass =
+    "rounded-lg border border-border bg-card px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30";
+
+  return (
+    <div className="space-y-4">
+      {/* Navigation + filters */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setAnchor((a) => shiftAnchor(view, a, -1))}
+            className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            aria-label={view === "month" ? "Previous month" : "Previous quarter"}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => setAnchor((a) => shiftAnchor(view, a, 1))}
+            className="rounded-lg border border-border p-1.5 text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            aria-label={view === "month" ? "Next month" : "Next quarter"}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <h2 className="min-w-[9rem] text-base font-bold">{title}</h2>
+          <button
+            type="button"
+            onClick={() => setAnchor(new Date())}
+            className="rounded-lg border border-border px-3 py-1 text-xs font-semibold text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          >
+            Today
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div role="group" aria-label="Calendar view" className="flex rounded-lg border border-border p-0.5">
+            {(["month", "quarter"] as const).map((v) => (
+              <button
+                key={v}
+                type="button"
+                onClick={() => setView(v)}
+                aria-pressed={view === v}
+                className={cn(
+                  "rounded-md px-3 py-1 text-xs font-semibold capitalize transition-colors",
+                  view === v ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {v}
+              </button>
+            ))}
+          </div>
+          <select
+            value={regulator}
+            onChange={(e) => setRegulator(e.target.value)}
+            className={selectClass}
+            aria-label="Filter by regulator"
+          >
+            <option value={ALL}>All regulators</option>
+            {regulators.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <select
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            className={selectClass}
+            aria-label="Filter by owner"
+          >
+            <option value={ALL}>All owners</option>
+            <option value={OWNER_ME}>Assigned to me</option>
+            {members
+              .filter((m) => m.user_id !== user?.id)
+              .map((m) => (
+                <option key={m.user_id} value={m.user_id}>
+                  {m.full_name || m.email}
+                </option>
+              ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setFeedOpen(true)}
+            className="flex items-center gap-1.5 rounded-lg border border-border px-3 py-1.5 text-xs font-semibold text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+          >
+            <Rss className="h-3.5 w-3.5" />
+            Subscribe
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-[11px] text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-brand-gold/40" /> Obligation due
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-blue-200 dark:bg-blue-900/60" /> Task deadline
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-sm bg-red-200 dark:bg-red-900/60" /> Overdue
+        </span>
+        {filters.regulator && <span>Tasks are hidden while filtering by regulator.</span>}
+      </div>
+
+      <ComplianceCalendar
+        view={view}
+        months={months}
+        entries={entries}
+        onSelect={handleSelect}
+        onSelectDay={setSelectedDay}
+      />
+
+      {selectedDay && (
+        <CardShell className="p-4">
+          <div className="mb-2 flex items-center justify-between">
+            <h3 className="text-sm font-semibold">
+              {parseDateKey(selectedDay).toLocaleDateString("en-US", {
+                weekday: "long",
+                month: "long",
+                day: "numeric",
+              })}
+            </h3>
+            <button
+              type="button"
+              onClick={() => setSelectedDay(null)}
+              className="text-xs font-medium text-muted-foreground hover:text-foreground"
+            >
+              Close
+            </button>
+          </div>
+          <ul className="space-y-1.5">
+            {dayEntries.map((entry) => (
+              <li key={entry.key}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(entry)}
+                  className="flex w-full items-center gap-2 text-left text-sm hover:text-primary"
+                >
+                  <Badge label={entry.kind} colorMap={STATUS_COLORS} />
+                  <span className="truncate">{entry.title}</span>
+                  {entry.regulator && (
+                    <span className="shrink-0 text-xs text-muted-foreground">{entry.regulator}</span>
+                  )}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </CardShell>
+      )}
+
+      <ObligationDetailDialog
+        obligation={selectedObligation}
+        onOpenChange={(open) => !open && setSelectedObligation(null)}
+        onComplete={(id) => completeMutation.mutate(id)}
+        completing={completeMutation.isPending}
+      />
+      <TaskDetailDialog
+        taskId={openTaskId}
+        onOpenChange={(open) => !open && setOpenTaskId(null)}
+        members={members}
+        currentUserId={user?.id}
+        onEdit={setEditingTask}
+      />
+      <TaskFormDialog
+        open={!!editingTask}
+        onOpenChange={(open) => !open && setEditingTask(null)}
+        members={members}
+        task={editingTask}
+        onSaved={(task) => {
+          queryClient.setQueryData(["compliance-task", task.id], task);
+          queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+        }}
+      />
+      <CalendarFeedDialog
+        open={feedOpen}
+        onOpenChange={setFeedOpen}
+        filters={filters}
+        filterSummary={filterSummary}
+      />
     </div>
   );
 }
@@ -1843,13 +2331,21 @@ const TASK_STATUSES = [
 ];
 
 function TasksTab() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { members } = useOrganizationMembers();
   const [statusFilter, setStatusFilter] = useState("");
+  const [mineOnly, setMineOnly] = useState(false);
+  const [openTaskId, setOpenTaskId] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingTask, setEditingTask] = useState<TaskResponse | null>(null);
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ["compliance-tasks", statusFilter],
+    queryKey: ["compliance-tasks", statusFilter, mineOnly],
     queryFn: () =>
       complianceApi.listTasks({
         status: statusFilter || undefined,
+        assigned_user_id: mineOnly ? user?.id : undefined,
         limit: 20,
       }),
     staleTime: 60_000,
@@ -1861,31 +2357,63 @@ function TasksTab() {
   if (error) return <ErrorState message="Could not load tasks." />;
 
   const tasks = data?.items ?? [];
+  const assigneeName = (userId: string | null) => {
+    if (!userId) return null;
+    if (userId === user?.id) return "You";
+    const member = members.find((m) => m.user_id === userId);
+    return member ? member.full_name || member.email : null;
+  };
 
   return (
     <div className="space-y-4">
-      {/* Status Filter */}
-      <div className="flex items-center gap-2">
-        <label htmlFor="task-status-filter" className="text-xs font-semibold text-muted-foreground">
-          Status:
-        </label>
-        <select
-          id="task-status-filter"
-          value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value)}
-          className="rounded-lg border border-border bg-card px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+      {/* Filters */}
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="task-status-filter" className="text-xs font-semibold text-muted-foreground">
+            Status:
+          </label>
+          <select
+            id="task-status-filter"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value)}
+            className="rounded-lg border border-border bg-card px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary/30"
+          >
+            {TASK_STATUSES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => setMineOnly((v) => !v)}
+            aria-pressed={mineOnly}
+            className={cn(
+              "inline-flex items-center rounded-full border px-3 py-1 text-xs font-medium transition-colors",
+              mineOnly
+                ? "border-primary bg-primary text-primary-foreground"
+                : "border-border bg-card text-muted-foreground hover:bg-muted hover:text-foreground",
+            )}
+          >
+            Assigned to me
+          </button>
+          {data && (
+            <span className="text-xs text-muted-foreground">
+              {data.total} total
+            </span>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={() => {
+            setEditingTask(null);
+            setFormOpen(true);
+          }}
+          className="flex items-center gap-1.5 rounded-lg bg-primary px-3 py-1.5 text-xs font-semibold text-primary-foreground transition-colors hover:bg-primary/90"
         >
-          {TASK_STATUSES.map((s) => (
-            <option key={s.value} value={s.value}>
-              {s.label}
-            </option>
-          ))}
-        </select>
-        {data && (
-          <span className="text-xs text-muted-foreground">
-            {data.total} total
-          </span>
-        )}
+          <Plus className="h-3.5 w-3.5" />
+          New task
+        </button>
       </div>
 
       {tasks.length === 0 ? (
@@ -1897,43 +2425,90 @@ function TasksTab() {
       ) : (
         <div className="space-y-3">
           {tasks.map((t: TaskResponse) => (
-            <CardShell key={t.id} className="p-5">
-              <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
-                <div className="flex-1 min-w-0">
-                  <div className="flex flex-wrap items-center gap-2">
-                    <Badge label={t.task_type} colorMap={STATUS_COLORS} />
-                    <Badge label={t.status} colorMap={STATUS_COLORS} />
-                    {t.priority > 5 && (
-                      <span className="text-[10px] font-bold uppercase text-red-600 dark:text-red-400">
-                        High Priority
-                      </span>
+            <button
+              key={t.id}
+              type="button"
+              onClick={() => setOpenTaskId(t.id)}
+              className="block w-full text-left"
+            >
+              <CardShell className="p-5 transition-shadow hover:shadow-floating">
+                <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge label={t.task_type} colorMap={STATUS_COLORS} />
+                      <Badge label={t.status} colorMap={STATUS_COLORS} />
+                      {t.approval_status === "pending" && (
+                        <Badge label="awaiting_approval" colorMap={STATUS_COLORS} />
+                      )}
+                      {t.approval_status === "rejected" && (
+                        <Badge label="changes_requested" colorMap={STATUS_COLORS} />
+                      )}
+                      {t.priority > 5 && (
+                        <span className="text-[10px] font-bold uppercase text-red-600 dark:text-red-400">
+                          High Priority
+                        </span>
+                      )}
+                    </div>
+                    <h3 className="mt-2 text-sm font-bold leading-snug">{t.title}</h3>
+                    {t.description && (
+                      <p className="mt-1 text-xs text-muted-foreground line-clamp-2">
+                        {t.description}
+                      </p>
                     )}
+                    <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                      {assigneeName(t.assigned_user_id) ? (
+                        <span>Assignee: {assigneeName(t.assigned_user_id)}</span>
+                      ) : (
+                        t.assigned_role && <span>Role: {t.assigned_role}</span>
+                      )}
+                      {(t.evidence_attachments?.length ?? 0) > 0 && (
+                        <span>{t.evidence_attachments.length} evidence</span>
+                      )}
+                      {(t.comments?.length ?? 0) > 0 && (
+                        <span>
+                          {t.comments.length} comment{t.comments.length === 1 ? "" : "s"}
+                        </span>
+                      )}
+                      <span>Created {formatDate(t.created_at)}</span>
+                    </div>
                   </div>
-                  <h3 className="mt-2 text-sm font-bold leading-snug">{t.title}</h3>
-                  {t.description && (
-                    <p className="mt-1 text-xs text-muted-foreground line-clamp-2">
-                      {t.description}
-                    </p>
-                  )}
-                  <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
-                    {t.assigned_role && <span>Role: {t.assigned_role}</span>}
-                    <span>Created {formatDate(t.created_at)}</span>
+                  <div className="shrink-0 text-right">
+                    {t.due_date ? (
+                      <span className={cn("text-sm font-semibold", dueDateColor(t.due_date))}>
+                        Due {formatDate(t.due_date)}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">No due date</span>
+                    )}
                   </div>
                 </div>
-                <div className="shrink-0 text-right">
-                  {t.due_date ? (
-                    <span className={cn("text-sm font-semibold", dueDateColor(t.due_date))}>
-                      Due {formatDate(t.due_date)}
-                    </span>
-                  ) : (
-                    <span className="text-xs text-muted-foreground">No due date</span>
-                  )}
-                </div>
-              </div>
-            </CardShell>
+              </CardShell>
+            </button>
           ))}
         </div>
       )}
+
+      <TaskDetailDialog
+        taskId={openTaskId}
+        onOpenChange={(open) => !open && setOpenTaskId(null)}
+        members={members}
+        currentUserId={user?.id}
+        onEdit={(task) => {
+          setEditingTask(task);
+          setFormOpen(true);
+        }}
+      />
+      <TaskFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        members={members}
+        task={editingTask}
+        onSaved={(task) => {
+          queryClient.setQueryData(["compliance-task", task.id], task);
+          queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+          queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+        }}
+      />
     </div>
   );
 }
@@ -0,0 +1,337 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Library,
+  Loader2,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { AlertBanner, EmptyState } from "@/components/common";
+import { ClauseAuthorityList, LibraryClauseDialog } from "@/components/contracts";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import {
+  deleteLibraryClause,
+  listLibraryClauses,
+  markLibraryClauseReviewed,
+  type LibraryClause,
+} from "@/lib/api/clause-library";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+import { richHtmlToPlainText } from "@/lib/utils/rich-text";
+
+function ClauseCard({
+  clause,
+  onEdit,
+  onChanged,
+  onDeleted,
+}: {
+  clause: LibraryClause;
+  onEdit: () => void;
+  onChanged: (clause: LibraryClause) => void;
+  onDeleted: () => void;
+}) {
+  const [isMarking, setIsMarking] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const handleMarkReviewed = async () => {
+    setIsMarking(true);
+    try {
+      onChanged(await markLibraryClauseReviewed(clause.id));
+      toast.success("Clause marked as reviewed");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Couldn't update the clause"));
+    } finally {
+      setIsMarking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteLibraryClause(clause.id);
+      onDeleted();
+      toast.success("Clause deleted");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Couldn't delete the clause"));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className={cn(surfaceClasses.pagePanel, clause.needs_review && "border-amber-500/50")}>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="font-medium">{clause.title}</h3>
+            <div className="mt-1 flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              {clause.needs_review && (
+                <Badge variant="warning" className="gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Authority changed
+                </Badge>
+              )}
+              {clause.contract_types.length === 0 ? (
+                <Badge variant="secondary">Any contract</Badge>
+              ) : (
+                clause.contract_types.map((type) => (
+                  <Badge key={type} variant="secondary" className="capitalize">
+                    {type === "nda" ? "NDA" : type}
+                  </Badge>
+                ))
+              )}
+              {clause.tags.map((tag) => (
+                <Badge key={tag} variant="outline">
+                  {tag}
+                </Badge>
+              ))}
+              <span>
+                Used {clause.times_used} {clause.times_used === 1 ? "time" : "times"} · updated{" "}
+                {formatDistanceToNow(new Date(clause.updated_at), { addSuffix: true })}
+                {clause.created_by_name ? ` · by ${clause.created_by_name}` : ""}
+              </span>
+            </div>
+          </div>
+          <div className="flex shrink-0 items-center gap-1">
+            {clause.needs_review && (
+              <Button variant="outline" size="sm" onClick={handleMarkReviewed} disabled={isMarking}>
+                {isMarking ? (
+                  <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <CheckCircle2 className="mr-1.5 h-3.5 w-3.5" />
+                )}
+                Still valid
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" onClick={onEdit} aria-label={`Edit ${clause.title}`}>
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={surfaceClasses.iconButtonDanger}
+                  aria-label={`Delete ${clause.title}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete clause?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    &ldquo;{clause.title}&rdquo; will be removed from your organization&apos;s library.
+                    Contracts it was already inserted into keep their text.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleDelete} className="bg-destructive" disabled={isDeleting}>
+                    {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </div>
+
+        <p className="line-clamp-4 whitespace-pre-line text-sm text-muted-foreground">
+          {richHtmlToPlainText(clause.body)}
+        </p>
+        {clause.governing_law_notes && (
+          <p className="text-xs italic text-muted-foreground">{clause.governing_law_notes}</p>
+        )}
+        <ClauseAuthorityList authorities={clause.authorities} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ClauseLibraryPage() {
+  const [clauses, setClauses] = useState<LibraryClause[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [needsReviewOnly, setNeedsReviewOnly] = useState(false);
+  // undefined → dialog closed; null → creating; a clause → editing it.
+  const [editing, setEditing] = useState<LibraryClause | null | undefined>(undefined);
+
+  const loadClauses = useCallback(async () => {
+    try {
+      setClauses(await listLibraryClauses());
+      setError(null);
+    } catch (err) {
+      setError(
+        err instanceof APIError && err.status === 403
+          ? "The clause library is shared per organization. Join or create an organization to use it."
+          : getUserFriendlyError(err, "Failed to load the clause library")
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadClauses();
+  }, [loadClauses]);
+
+  const tags = useMemo(
+    () => Array.from(new Set(clauses.flatMap((clause) => clause.tags))).sort(),
+    [clauses]
+  );
+  const needsReviewCount = clauses.filter((clause) => clause.needs_review).length;
+
+  const filteredClauses = clauses.filter((clause) => {
+    if (needsReviewOnly && !clause.needs_review) return false;
+    if (tagFilter && !clause.tags.includes(tagFilter)) return false;
+    if (search.trim()) {
+      const needle = search.trim().toLowerCase();
+      const haystack = `${clause.title} ${clause.tags.join(" ")} ${richHtmlToPlainText(clause.body)}`.toLowerCase();
+      return haystack.includes(needle);
+    }
+    return true;
+  });
+
+  const replaceClause = (updated: LibraryClause) =>
+    setClauses((current) => {
+      const exists = current.some((clause) => clause.id === updated.id);
+      return exists
+        ? current.map((clause) => (clause.id === updated.id ? updated : clause))
+        : [updated, ...current];
+    });
+
+  return (
+    <div className="min-h-screen px-6 py-6 lg:px-12">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight lg:text-3xl">Clause Library</h1>
+            <p className="mt-1 text-sm text-muted-foreground">
+              Vetted clauses shared across your organization, ready to insert into any draft
+            </p>
+          </div>
+          <Button size="sm" onClick={() => setEditing(null)}>
+            <Plus className="mr-1.5 h-4 w-4" />
+            New Clause
+          </Button>
+        </div>
+
+        {error ? <AlertBanner variant="error" message={error} className="mb-6" /> : null}
+
+        {needsReviewCount > 0 && (
+          <AlertBanner
+            variant="warning"
+            message={`${needsReviewCount} ${needsReviewCount === 1 ? "clause cites" : "clauses cite"} an authority that has been amended or repealed. Check the wording, then mark each one as still valid or edit it.`}
+            className="mb-6"
+          />
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16 text-muted-foreground">
+            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+            Loading clauses…
+          </div>
+        ) : clauses.length === 0 && !error ? (
+          <div className="mt-8">
+            <EmptyState
+              icon={Library}
+              title="No clauses yet"
+              description="Save approved wording here, or use Save to Library while reviewing a draft."
+              action={{ label: "Add a Clause", onClick: () => setEditing(null) }}
+            />
+          </div>
+        ) : clauses.length > 0 ? (
+          <>
+            <div className="mb-4 flex flex-wrap items-center gap-2">
+              <div className="relative min-w-[14rem] flex-1">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search clauses…"
+                  className="pl-9"
+                  aria-label="Search clauses"
+                />
+              </div>
+              {needsReviewCount > 0 && (
+                <Button
+                  variant={needsReviewOnly ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setNeedsReviewOnly((value) => !value)}
+                  aria-pressed={needsReviewOnly}
+                >
+                  <AlertTriangle className="mr-1.5 h-3.5 w-3.5" />
+                  Needs review ({needsReviewCount})
+                </Button>
+              )}
+            </div>
+            {tags.length > 0 && (
+              <div className="mb-6 flex flex-wrap gap-1.5">
+                {tags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    onClick={() => setTagFilter((current) => (current === tag ? null : tag))}
+                    aria-pressed={tagFilter === tag}
+                  >
+                    <Badge variant={tagFilter === tag ? "default" : "outline"}>{tag}</Badge>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {filteredClauses.length === 0 ? (
+              <p className="py-12 text-center text-sm text-muted-foreground">No clauses match these filters.</p>
+            ) : (
+              <div className="space-y-3">
+                {filteredClauses.map((clause) => (
+                  <ClauseCard
+                    key={clause.id}
+                    clause={clause}
+                    onEdit={() => setEditing(clause)}
+                    onChanged={replaceClause}
+                    onDeleted={() => setClauses((current) => current.filter((c) => c.id !== clause.id))}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        ) : null}
+      </div>
+
+      <LibraryClauseDialog
+        open={editing !== undefined}
+        onClose={() => setEditing(undefined)}
+        clause={editing}
+        onSaved={(saved) => {
+          replaceClause(saved);
+          toast.success(editing ? "Clause updated" : "Clause added to the library");
+        }}
+      />
+    </div>
+  );
+}
@@ -1,30 +1,44 @@
 "use client";
 
-import { useEffect, useRef, useState } from "react";
+import { Suspense, useEffect, useRef, useState } from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import {
   AlertCircle,
+  Briefcase,
   CheckCircle2,
   ChevronRight,
   Clock,
   FileSearch,
   FileText,
+  GitCompare,
+  Library,
   Loader2,
   Scale,
   Search,
+  ShieldCheck,
 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AlertBanner, EmptyState } from "@/components/common";
-import { getMyContracts, type ContractListItem } from "@/lib/api/contracts";
+import { AddToMatterDialog, MatterFilter } from "@/components/matters";
+import { useMatterFilter } from "@/hooks/use-matter-filter";
+import {
+  getMyContracts,
+  listContractReviews,
+  type ContractListItem,
+  type ContractReviewListItem,
+} from "@/lib/api/contracts";
+import { filterByMatter } from "@/lib/utils/matters";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 
 type FilterKey = "all" | "complete" | "in_progress";
+type HistoryTab = "drafts" | "reviews";
 
 // The contract drafting workflow moves through these phases. The
 // status ↔ icon ↔ tone mapping deliberately mirrors /research/history
@@ -50,7 +64,13 @@ const IN_PROGRESS_PHASES = new Set([
   "approval",
 ]);
 
-function ContractCard({ contract }: { contract: ContractListItem }) {
+function ContractCard({
+  contract,
+  onAddToMatter,
+}: {
+  contract: ContractListItem;
+  onAddToMatter: (contract: ContractListItem) => void;
+}) {
   const config = phaseConfig[contract.phase] || phaseConfig.intake;
   const StatusIcon = config.icon;
   const isActive = IN_PROGRESS_PHASES.has(contract.phase);
@@ -96,6 +116,92 @@ function ContractCard({ contract }: { contract: ContractListItem }) {
               </span>
             </div>
           </div>
+          <div className="flex shrink-0 items-center gap-2">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ll-icon-button h-8 w-8"
+              onClick={() => onAddToMatter(contract)}
+              aria-label={`Add to matter: ${displayTitle}`}
+              title="Add to matter"
+            >
+              <Briefcase className="h-4 w-4" aria-hidden="true" />
+            </Button>
+            <ChevronRight className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function reviewScoreVariant(score: number): "success" | "warning" | "danger" {
+  if (score >= 85) return "success";
+  if (score >= 50) return "warning";
+  return "danger";
+}
+
+const reviewJobConfig: Record<
+  Exclude<ContractReviewListItem["job_status"], "complete">,
+  { label: string; variant: "default" | "secondary" | "destructive"; icon: typeof CheckCircle2 }
+> = {
+  queued: { label: "Queued", variant: "secondary", icon: Clock },
+  running: { label: "Reviewing", variant: "default", icon: Loader2 },
+  failed: { label: "Failed", variant: "destructive", icon: AlertCircle },
+  cancelled: { label: "Cancelled", variant: "secondary", icon: AlertCircle },
+};
+
+function ReviewCard({ review }: { review: ContractReviewListItem }) {
+  const jobConfig =
+    review.job_status === "complete" ? null : reviewJobConfig[review.job_status];
+  const JobIcon = jobConfig?.icon;
+  const timestamp = review.reviewed_at || review.created_at;
+
+  return (
+    <Card className={cn("group", surfaceClasses.pagePanelInteractive)}>
+      <CardContent className="p-4">
+        <div className="flex items-start gap-4">
+          <div className="flex h-10 w-10 shrink-0 items-center justify-center rounded-lg bg-primary/10 dark:bg-primary/15">
+            <ShieldCheck className="h-5 w-5 text-primary" aria-hidden="true" />
+          </div>
+          <div className="min-w-0 flex-1">
+            <Link
+              href={`/contracts/review?review=${review.review_id}`}
+              className="block truncate rounded text-sm font-medium hover:underline focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              aria-label={`Open review: ${review.filename}`}
+            >
+              {review.filename}
+            </Link>
+            <p className="mt-1 truncate text-xs capitalize text-muted-foreground">
+              {review.contract_type.replace(/_/g, " ")}
+              {review.status ? ` · ${review.status.replace(/_/g, " ")}` : ""}
+            </p>
+            <div className="mt-2 flex items-center gap-3 text-xs text-muted-foreground">
+              {jobConfig && JobIcon ? (
+                <Badge variant={jobConfig.variant} className="h-5 px-2 text-xs">
+                  <JobIcon
+                    className={cn("mr-1 h-3 w-3", review.job_status === "running" && "animate-spin")}
+                    aria-hidden="true"
+                  />
+                  {jobConfig.label}
+                </Badge>
+              ) : review.overall_score !== null ? (
+                <Badge variant={reviewScoreVariant(review.overall_score)} className="h-5 px-2 text-xs">
+                  {review.overall_score}/100
+                </Badge>
+              ) : null}
+              {review.previous_review_id && (
+                <span className="flex items-center gap-1">
+                  <GitCompare className="h-3 w-3" aria-hidden="true" />
+                  Revision v{review.version}
+                </span>
+              )}
+              <span className="flex items-center gap-1">
+                <Clock className="h-3 w-3" aria-hidden="true" />
+                {formatDistanceToNow(new Date(timestamp), { addSuffix: true })}
+              </span>
+            </div>
+          </div>
           <ChevronRight
             className="h-4 w-4 shrink-0 text-muted-foreground"
             aria-hidden="true"
@@ -106,13 +212,123 @@ function ContractCard({ contract }: { contract: ContractListItem }) {
   );
 }
 
+function ReviewHistory() {
+  const router = useRouter();
+  const [reviews, setReviews] = useState<ContractReviewListItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    listContractReviews({ limit: 100 })
+      .then((items) => {
+        if (cancelled) return;
+        setReviews(items);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load reviews");
+      })
+      .finally(() => {
+        if (cancelled) return;
+        setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const needle = search.trim().toLowerCase();
+  const filteredReviews = needle
+    ? reviews.filter((r) =>
+        `${r.filename} ${r.contract_type}`.toLowerCase().includes(needle)
+      )
+    : reviews;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16 text-muted-foreground">
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+        Loading reviews…
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {error ? <AlertBanner variant="error" message={error} className="mb-6" /> : null}
+      {reviews.length === 0 ? (
+        <div className="mt-8">
+          <EmptyState
+            icon={ShieldCheck}
+            title="No reviews yet"
+            description="Upload a contract for review and it will be saved here, along with any revised versions."
+            action={{
+              label: "Review a Contract",
+              onClick: () => router.push("/contracts/review"),
+            }}
+          />
+        </div>
+      ) : (
+        <>
+          <div className="mb-6">
+            <div className="relative">
+              <Search
+                className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+                aria-hidden="true"
+              />
+              <Input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by file name or contract type"
+                className="pl-9"
+                aria-label="Search reviews"
+              />
+            </div>
+          </div>
+          {filteredReviews.length === 0 ? (
+            <div className="mt-8">
+              <EmptyState
+                icon={FileSearch}
+                title="No matches"
+                description="No reviews match your search."
+              />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {filteredReviews.map((review) => (
+                <ReviewCard key={review.review_id} review={review} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
+
 export default function ContractHistoryPage() {
+  return (
+    <Suspense fallback={null}>
+      <ContractHistoryContent />
+    </Suspense>
+  );
+}
+
+function ContractHistoryContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const tab: HistoryTab = searchParams.get("tab") === "reviews" ? "reviews" : "drafts";
   const [contracts, setContracts] = useState<ContractListItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<FilterKey>("all");
   const [search, setSearch] = useState("");
+  const [matterTarget, setMatterTarget] = useState<ContractListItem | null>(null);
+  const matterFilter = useMatterFilter("contract_session");
   const tabRefs = useRef<Record<FilterKey, HTMLButtonElement | null>>({
     all: null,
     complete: null,
@@ -142,7 +358,11 @@ export default function ContractHistoryPage() {
     };
   }, []);
 
-  const filteredContracts = contracts.filter((c) => {
+  const filteredContracts = filterByMatter(
+    contracts,
+    (c) => c.session_id,
+    matterFilter.matterItemIds
+  ).filter((c) => {
     if (filter === "complete" && c.phase !== "complete") return false;
     if (filter === "in_progress" && !IN_PROGRESS_PHASES.has(c.phase)) return false;
     if (search.trim()) {
@@ -184,114 +404,172 @@ export default function ContractHistoryPage() {
               Contract History
             </h1>
             <p className="mt-1 text-sm text-muted-foreground">
-              View and resume your past contract drafting sessions
+              Resume drafting sessions and reopen past contract reviews
             </p>
           </div>
-          <Button size="sm" onClick={() => router.push("/contracts")}>
-            New Contract
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/contracts/clauses">
+                <Library className="mr-1.5 h-4 w-4" />
+                Clause Library
+              </Link>
+            </Button>
+            {tab === "reviews" ? (
+              <Button size="sm" onClick={() => router.push("/contracts/review")}>
+                New Review
+              </Button>
+            ) : (
+              <Button size="sm" onClick={() => router.push("/contracts")}>
+                New Contract
+              </Button>
+            )}
+          </div>
         </div>
 
-        {error ? (
-          <AlertBanner variant="error" message={error} className="mb-6" />
-        ) : null}
+        <Tabs
+          value={tab}
+          onValueChange={(value) =>
+            router.replace(value === "reviews" ? "/contracts/history?tab=reviews" : "/contracts/history")
+          }
+        >
+          <TabsList className="mb-6">
+            <TabsTrigger value="drafts">Drafting</TabsTrigger>
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
+          </TabsList>
 
-        {isLoading ? (
-          <div className="flex items-center justify-center py-16 text-muted-foreground">
-            <Loader2 className="mr-2 h-5 w-5 animate-spin" />
-            Loading contracts…
-          </div>
-        ) : contracts.length === 0 ? (
-          <div className="mt-8">
-            <EmptyState
-              icon={FileText}
-              title="No contracts yet"
-              description="Draft your first contract and it will appear here for resume, review, or cloning."
-              action={{
-                label: "Start Drafting",
-                onClick: () => router.push("/contracts"),
-              }}
-            />
-          </div>
-        ) : (
-          <>
-            <div
-              role="tablist"
-              aria-label="Filter contracts"
-              className="mb-4 mt-6 flex flex-wrap items-center gap-2"
-            >
-              {(
-                [
-                  { key: "all" as const, label: "All", count: counts.all },
-                  { key: "complete" as const, label: "Complete", count: counts.complete },
-                  { key: "in_progress" as const, label: "In Progress", count: counts.in_progress },
-                ]
-              ).map((tab) => {
-                const selected = filter === tab.key;
-                return (
-                  <button
-                    key={tab.key}
-                    ref={(el) => {
-                      tabRefs.current[tab.key] = el;
-                    }}
-                    type="button"
-                    role="tab"
-                    aria-selected={selected}
-                    tabIndex={selected ? 0 : -1}
-                    onClick={() => setFilter(tab.key)}
-                    onKeyDown={handleTabKeyDown}
-                    className={cn(
-                      "ll-transition rounded-full px-4 py-2 text-xs font-bold uppercase tracking-widest",
-                      selected
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
-                    )}
-                  >
-                    {tab.label} ({tab.count})
-                  </button>
-                );
-              })}
-            </div>
+          <TabsContent value="reviews">
+            <ReviewHistory />
+          </TabsContent>
 
-            <div className="mb-6">
-              <div className="relative">
-                <Search
-                  className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
-                  aria-hidden="true"
-                />
-                <Input
-                  type="search"
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  placeholder="Search by title, contract type, or party"
-                  className="pl-9"
-                  aria-label="Search contracts"
-                />
-              </div>
-            </div>
+          <TabsContent value="drafts">
+
+            {error ? (
+              <AlertBanner variant="error" message={error} className="mb-6" />
+            ) : null}
 
-            {filteredContracts.length === 0 ? (
+            {isLoading ? (
+              <div className="flex items-center justify-center py-16 text-muted-foreground">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading contracts…
+              </div>
+            ) : contracts.length === 0 ? (
               <div className="mt-8">
                 <EmptyState
-                  icon={FileSearch}
-                  title="No matches"
-                  description={
-                    filter === "complete"
-                      ? "No completed contracts match your search."
-                      : filter === "in_progress"
-                        ? "No in-progress contracts match your search."
-                        : "No contracts match your search."
-                  }
+                  icon={FileText}
+                  title="No contracts yet"
+                  description="Draft your first contract and it will appear here for resume, review, or cloning."
+                  action={{
+                    label: "Start Drafting",
+                    onClick: () => router.push("/contracts"),
+                  }}
                 />
               </div>
             ) : (
-              <div className="space-y-3">
-                {filteredContracts.map((contract) => (
-                  <ContractCard key={contract.session_id} contract={contract} />
-                ))}
-              </div>
+              <>
+                <div
+                  role="tablist"
+                  aria-label="Filter contracts"
+                  className="mb-4 mt-6 flex flex-wrap items-center gap-2"
+                >
+                  {(
+                    [
+                      { key: "all" as const, label: "All", count: counts.all },
+                      { key: "complete" as const, label: "Complete", count: counts.complete },
+                      { key: "in_progress" as const, label: "In Progress", count: counts.in_progress },
+                    ]
+                  ).map((tab) => {
+                    const selected = filter === tab.key;
+                    return (
+                      <button
+                        key={tab.key}
+                        ref={(el) => {
+                          tabRefs.current[tab.key] = el;
+                        }}
+                        type="button"
+                        role="tab"
+                        aria-selected={selected}
+                        tabIndex={selected ? 0 : -1}
+                        onClick={() => setFilter(tab.key)}
+                        onKeyDown={handleTabKeyDown}
+                        className={cn(
+                          "ll-transition rounded-full px-4 py-2 text-xs font-bold uppercase tracking-widest",
+                          selected
+                            ? "bg-primary text-primary-foreground"
+                            : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+                        )}
+                      >
+                        {tab.label} ({tab.count})
+                      </button>
+                    );
+                  })}
+                </div>
+
+                <div className="mb-6 flex flex-col gap-2 sm:flex-row">
+                  <div className="relative flex-1">
+                    <Search
+                      className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+                      aria-hidden="true"
+                    />
+                    <Input
+                      type="search"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      placeholder="Search by title, contract type, or party"
+                      className="pl-9"
+                      aria-label="Search contracts"
+                    />
+                  </div>
+                  <MatterFilter value={matterFilter.matterId} onChange={matterFilter.setMatterId} />
+                </div>
+
+                {matterFilter.isLoading ? (
+                  <div className="flex items-center justify-center py-16 text-muted-foreground">
+                    <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                    Loading matter…
+                  </div>
+                ) : filteredContracts.length === 0 ? (
+                  <div className="mt-8">
+                    <EmptyState
+                      icon={FileSearch}
+                      title="No matches"
+                      description={
+                        matterFilter.matterId
+                          ? "No contracts in this matter match your filters."
+                          : filter === "complete"
+                          ? "No completed contracts match your search."
+                          : filter === "in_progress"
+                            ? "No in-progress contracts match your search."
+                            : "No contracts match your search."
+                      }
+                    />
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {filteredContracts.map((contract) => (
+                      <ContractCard
+                        key={contract.session_id}
+                        contract={contract}
+                        onAddToMatter={setMatterTarget}
+                      />
+                    ))}
+                  </div>
+                )}
+              </>
             )}
-          </>
+          </TabsContent>
+        </Tabs>
+
+        {matterTarget && (
+          <AddToMatterDialog
+            open
+            onOpenChange={(open) => {
+              if (!open) setMatterTarget(null);
+            }}
+            itemType="contract_session"
+            itemId={matterTarget.session_id}
+            itemTitle={matterTarget.title?.trim() || undefined}
+            onChange={matterFilter.refresh}
+          />
         )}
       </div>
     </div>
@@ -22,7 +22,10 @@ import {
   Save,
   WifiOff,
   RefreshCcw,
+  Library,
+  BookmarkPlus,
 } from "lucide-react";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
@@ -74,6 +77,8 @@ import {
   TemplateBrowser,
   ContractBrowser,
   SaveAsTemplateDialog,
+  ClauseLibraryBrowser,
+  LibraryClauseDialog,
   type SourceType,
 } from "@/components/contracts";
 import { FeatureGate } from "@/components/entitlements/feature-gate";
@@ -82,6 +87,12 @@ import { useEntitlements } from "@/hooks/use-entitlements";
 import { formatDateOnly } from "@/lib/utils/date-formatter";
 import { useOnlineStatus } from "@/lib/hooks";
 import { ensureRichHtml, richHtmlToPlainText, sanitizeRichHtml } from "@/lib/utils/rich-text";
+import { captureEditorRange, insertClauseIntoContractCanvas } from "@/lib/utils/clause-insertion";
+import {
+  recordLibraryClauseUse,
+  type LibraryClause,
+  type SaveLibraryClauseRequest,
+} from "@/lib/api/clause-library";
 import {
   clearActiveContractSessionId,
   clearContractSessionIdForPrompt,
@@ -325,6 +336,11 @@ function ContractsContent() {
   const [showTemplateBrowser, setShowTemplateBrowser] = useState(false);
   const [showContractBrowser, setShowContractBrowser] = useState(false);
   const [showSaveAsTemplate, setShowSaveAsTemplate] = useState(false);
+  const [showClauseLibrary, setShowClauseLibrary] = useState(false);
+  // Caret position when the clause library opened; the dialog takes focus.
+  const clauseInsertRangeRef = useRef<Range | null>(null);
+  // Prefill for "Save to library"; null keeps the dialog closed.
+  const [clauseDraft, setClauseDraft] = useState<Partial<SaveLibraryClauseRequest> | null>(null);
   const [parties, setParties] = useState<PartyInfo[]>([
     { ...defaultParty, role: "First Party" },
     { ...defaultParty, role: "Second Party" },
@@ -1497,6 +1513,39 @@ function ContractsContent() {
       }
     };
     const contractDocumentHtml = buildContractDocumentHtml(session, draftTitle, sectionTitles, sectionEditsRich);
+    const openClauseLibrary = () => {
+      clauseInsertRangeRef.current = captureEditorRange(contractEditor);
+      setShowClauseLibrary(true);
+    };
+    const insertLibraryClause = (clause: LibraryClause) => {
+      if (!contractEditor) return;
+      const sectionId = insertClauseIntoContractCanvas(contractEditor, clause.body, {
+        range: clauseInsertRangeRef.current,
+        sectionId: activeSection,
+      });
+      clauseInsertRangeRef.current = null;
+      if (!sectionId) {
+        toast.error("Add a section to the draft before inserting clauses.");
+        return;
+      }
+      setActiveSection(sectionId);
+      void recordLibraryClauseUse(clause.id, session.session_id).catch(() => {});
+      if (clause.needs_review) {
+        toast.warning(`Inserted "${clause.title}". An authority it cites has changed since it was last reviewed — check the wording.`);
+      } else {
+        toast.success(`Inserted "${clause.title}"`);
+      }
+    };
+    const saveActiveSectionToLibrary = () => {
+      const index = session.draft?.sections.findIndex((section, i) => (section.id || `section-${i}`) === activeSection) ?? -1;
+      const section = index >= 0 ? session.draft?.sections[index] : undefined;
+      if (!activeSection || !section) return;
+      setClauseDraft({
+        title: sectionTitles[activeSection] || section.title,
+        body: sectionEditsRich[activeSection] ?? ensureRichHtml(section.content, section.rich_content),
+        contract_types: session.contract_type && session.contract_type !== "general" ? [session.contract_type] : [],
+      });
+    };
 
     return (
       <TooltipProvider>
@@ -1723,7 +1772,29 @@ function ContractsContent() {
                         </a>
                       </Button>
                     </div>
-                  ) : undefined
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        // Keep the caret in the canvas so the clause lands there.
+                        onMouseDown={(event) => event.preventDefault()}
+                        onClick={openClauseLibrary}
+                        disabled={!contractEditor}
+                      >
+                        <Library className="mr-2 h-4 w-4" /> Insert Clause
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={saveActiveSectionToLibrary}
+                        disabled={!activeSection}
+                        title={activeSection ? "Save the focused section as a library clause" : "Click into a section first"}
+                      >
+                        <BookmarkPlus className="mr-2 h-4 w-4" /> Save to Library
+                      </Button>
+                    </div>
+                  )
                 }
                 toolbar={
                   <RichTextToolbar editor={contractEditor} disabled={!contractEditor && !activeSection} />
@@ -1775,6 +1846,19 @@ function ContractsContent() {
             contractType={session.contract_type || "general"}
             onSuccess={() => {}}
           />
+          <ClauseLibraryBrowser
+            open={showClauseLibrary}
+            onClose={() => setShowClauseLibrary(false)}
+            onInsert={insertLibraryClause}
+            contractType={session.contract_type}
+          />
+          <LibraryClauseDialog
+            open={clauseDraft !== null}
+            onClose={() => setClauseDraft(null)}
+            initial={clauseDraft ?? undefined}
+            suggestedAuthorities={session.applicable_laws}
+            onSaved={(clause) => toast.success(`Saved "${clause.title}" to the clause library`)}
+          />
         </DocumentWorkspaceShell>
         <ContractStageRollbackDialog
           target={stageRollbackTarget}
@@ -0,0 +1,582 @@
+"use client";
+
+/**
+ * Batch contract review — many files, or a ZIP of them, reviewed
+ * together for due diligence.
+ *
+ * Each contract gets its own server-side review job (the same one the
+ * single-file page runs); the batch groups them. The page polls the
+ * batch while any review is still running and shows the results as a
+ * portfolio matrix that can be sorted, filtered and exported. The open
+ * batch lives in `?batch=<id>` so leaving and coming back resumes it.
+ */
+
+import { Suspense, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  FileArchive,
+  FileText,
+  ListChecks,
+  Loader2,
+  ShieldAlert,
+  Upload,
+  X,
+  XCircle,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PortfolioMatrix } from "@/components/contracts";
+
+import { cn } from "@/lib/utils";
+import {
+  layoutClasses,
+  surfaceClasses,
+  typographyClasses,
+} from "@/lib/design-system";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import {
+  CONTRACT_REVIEW_TYPES,
+  type ContractReviewBatch,
+  cancelContractReviewBatch,
+  getContractReviewBatch,
+  startContractReviewBatch,
+  trackContractReviewBatchObligations,
+} from "@/lib/api/contracts";
+import { commonMissingClauses } from "@/lib/utils/contract-portfolio";
+
+// ----------------------------------------------------------------------------
+// Constants
+// ----------------------------------------------------------------------------
+
+const ACCEPTED_EXTENSIONS = [".pdf", ".docx", ".doc", ".txt", ".zip"];
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB per contract — matches backend cap
+const MAX_ARCHIVE_SIZE = 100 * 1024 * 1024; // 100 MB per ZIP
+const MAX_FILES = 50;
+
+const BATCH_POLL_INTERVAL_MS = 4_000;
+
+function isArchive(file: File) {
+  return file.name.toLowerCase().endsWith(".zip");
+}
+
+// ----------------------------------------------------------------------------
+// Page
+// ----------------------------------------------------------------------------
+
+export default function BatchContractReviewPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className={cn(layoutClasses.pageContainer, "py-10")}>
+          <Header />
+        </main>
+      }
+    >
+      <BatchContractReviewContent />
+    </Suspense>
+  );
+}
+
+function BatchContractReviewContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const batchIdParam = searchParams.get("batch");
+  const [files, setFiles] = useState<File[]>([]);
+  const [name, setName] = useState("");
+  const [contractType, setContractType] = useState("general");
+  const [isStarting, setIsStarting] = useState(false);
+  const [batch, setBatch] = useState<ContractReviewBatch | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // The batch on screen, so replacing the URL after starting one
+  // doesn't refetch it.
+  const shownBatchIdRef = useRef<string | null>(null);
+
+  const onAddFiles = useCallback((picked: FileList | null) => {
+    setError(null);
+    if (!picked || picked.length === 0) return;
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+    for (const f of Array.from(picked)) {
+      const lower = f.name.toLowerCase();
+      const limit = isArchive(f) ? MAX_ARCHIVE_SIZE : MAX_FILE_SIZE;
+      if (!ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext)) || f.size > limit) {
+        rejected.push(f.name);
+      } else {
+        accepted.push(f);
+      }
+    }
+    const seen = new Set(files.map((f) => `${f.name}:${f.size}`));
+    const added = accepted.filter((f) => !seen.has(`${f.name}:${f.size}`));
+    const room = Math.max(MAX_FILES - files.length, 0);
+    setFiles([...files, ...added.slice(0, room)]);
+    const problems: string[] = [];
+    if (rejected.length > 0) {
+      problems.push(
+        `Skipped ${rejected.join(", ")}: only PDF, DOCX, DOC, TXT or ZIP files are accepted, ` +
+          `up to ${MAX_FILE_SIZE / 1024 / 1024} MB per contract and ` +
+          `${MAX_ARCHIVE_SIZE / 1024 / 1024} MB per ZIP.`,
+      );
+    }
+    if (added.length > room) {
+      const left = added.length - room;
+      problems.push(
+        `Left out ${left} file${left === 1 ? "" : "s"}: a batch holds up to ${MAX_FILES} files. ` +
+          "Start another batch for the rest.",
+      );
+    }
+    if (problems.length > 0) setError(problems.join(" "));
+  }, [files]);
+
+  const onSubmit = useCallback(async () => {
+    if (files.length === 0) return;
+    setIsStarting(true);
+    setError(null);
+    try {
+      const started = await startContractReviewBatch(files, {
+        name: name.trim() || undefined,
+        contractType: contractType === "general" ? undefined : contractType,
+      });
+      shownBatchIdRef.current = started.batch_id;
+      setBatch(started);
+      setFiles([]);
+      setName("");
+      router.replace(`/contracts/review/batch?batch=${started.batch_id}`);
+    } catch (err) {
+      setError(
+        err instanceof APIError && err.status === 403
+          ? "Batch review isn't available on your current plan."
+          : getUserFriendlyError(err, "Couldn't start the batch review. Please try again."),
+      );
+    } finally {
+      setIsStarting(false);
+    }
+  }, [files, name, contractType, router]);
+
+  // Load the batch named in the URL, unless it's already on screen.
+  useEffect(() => {
+    if (!batchIdParam) {
+      shownBatchIdRef.current = null;
+      setBatch(null);
+      return;
+    }
+    if (shownBatchIdRef.current === batchIdParam) return;
+    shownBatchIdRef.current = batchIdParam;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    getContractReviewBatch(batchIdParam)
+      .then((loaded) => {
+        if (!cancelled) setBatch(loaded);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setError(
+          err instanceof APIError && err.status === 404
+            ? "That batch no longer exists."
+            : getUserFriendlyError(err, "Couldn't open the batch review."),
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+      // Let a remount retry the load.
+      if (shownBatchIdRef.current === batchIdParam) shownBatchIdRef.current = null;
+    };
+  }, [batchIdParam]);
+
+  // Poll while any review in the batch is still running.
+  const runningBatchId = batch?.status === "running" ? batch.batch_id : null;
+  useEffect(() => {
+    if (!runningBatchId) return;
+    const timer = setInterval(async () => {
+      try {
+        setBatch(await getContractReviewBatch(runningBatchId));
+      } catch {
+        // Transient — try again on the next tick.
+      }
+    }, BATCH_POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [runningBatchId]);
+
+  const onCancel = useCallback(async () => {
+    if (!batch) return;
+    setIsCancelling(true);
+    try {
+      setBatch(await cancelContractReviewBatch(batch.batch_id));
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Couldn't cancel the batch."));
+    } finally {
+      setIsCancelling(false);
+    }
+  }, [batch]);
+
+  return (
+    <main className={cn(layoutClasses.pageContainer, "py-10")}>
+      <Header />
+
+      {error && (
+        <div className="mb-6 flex items-start gap-2 rounded-md border border-rose-500/40 bg-rose-500/10 p-3 text-sm text-rose-800 dark:text-rose-200">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>{error}</div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading batch…
+        </div>
+      ) : batch ? (
+        <BatchView
+          batch={batch}
+          isCancelling={isCancelling}
+          onCancel={onCancel}
+          onNewBatch={() => router.replace("/contracts/review/batch")}
+        />
+      ) : (
+        <Card className={surfaceClasses.pagePanel}>
+          <CardContent className="space-y-5 p-6">
+            <div
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragOver(true);
+              }}
+              onDragLeave={() => setIsDragOver(false)}
+              onDrop={(e) => {
+                e.preventDefault();
+                setIsDragOver(false);
+                onAddFiles(e.dataTransfer.files);
+              }}
+              onClick={() => !isStarting && inputRef.current?.click()}
+              className={cn(
+                "flex cursor-pointer flex-col items-center justify-center rounded-lg border-2 border-dashed p-12 text-center transition-colors hover:border-foreground/40",
+                isDragOver ? "border-emerald-500 bg-emerald-500/5" : "border-border",
+              )}
+            >
+              <input
+                ref={inputRef}
+                type="file"
+                multiple
+                accept=".pdf,.docx,.doc,.txt,.zip,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,application/msword,text/plain,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  onAddFiles(e.target.files);
+                  e.target.value = "";
+                }}
+                disabled={isStarting}
+              />
+              <Upload className="mb-3 h-8 w-8 text-muted-foreground" aria-hidden />
+              <div className={typographyClasses.bodyMd}>
+                Drop contracts or a ZIP here, or{" "}
+                <span className="text-emerald-400 underline">click to choose files</span>
+              </div>
+              <div className={cn(typographyClasses.bodySm, "mt-1 text-muted-foreground")}>
+                PDF, DOCX or TXT up to 10 MB each, or ZIP archives up to 100 MB.
+                At most {MAX_FILES} files per batch.
+              </div>
+            </div>
+
+            {files.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {files.map((f) => (
+                  <li key={`${f.name}:${f.size}`} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    {isArchive(f) ? (
+                      <FileArchive className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    ) : (
+                      <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    )}
+                    <span className="min-w-0 flex-1 truncate">{f.name}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {(f.size / 1024).toFixed(0)} KB
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => setFiles((current) => current.filter((c) => c !== f))}
+                      className={surfaceClasses.iconButtonDanger}
+                      aria-label={`Remove ${f.name}`}
+                      disabled={isStarting}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="batch-name" className={typographyClasses.labelSm}>
+                  Batch name (optional)
+                </Label>
+                <Input
+                  id="batch-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="e.g. Acme acquisition — leases"
+                  maxLength={120}
+                  disabled={isStarting}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-contract-type" className={typographyClasses.labelSm}>
+                  Contract type
+                </Label>
+                <Select value={contractType} onValueChange={setContractType} disabled={isStarting}>
+                  <SelectTrigger id="batch-contract-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONTRACT_REVIEW_TYPES.map((t) => (
+                      <SelectItem key={t.value} value={t.value}>
+                        {t.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                onClick={onSubmit}
+                disabled={files.length === 0 || isStarting}
+                className={surfaceClasses.brandButton}
+              >
+                {isStarting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Uploading…
+                  </>
+                ) : (
+                  files.length === 0
+                    ? "Review files"
+                    : `Review ${files.length} ${files.length === 1 ? "file" : "files"}`
+                )}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </main>
+  );
+}
+
+// ----------------------------------------------------------------------------
+// Sub-components
+// ----------------------------------------------------------------------------
+
+function Header() {
+  return (
+    <header className="mb-8">
+      <Link
+        href="/contracts/review"
+        className={cn(typographyClasses.bodySm, "inline-flex items-center gap-1 text-muted-foreground hover:text-foreground")}
+      >
+        <ArrowLeft className="h-3.5 w-3.5" />
+        Contract Review
+      </Link>
+      <h1 className={cn(typographyClasses.headingXl, "mt-1")}>Batch Review</h1>
+      <p className={cn(typographyClasses.bodyMd, "mt-2 text-muted-foreground")}>
+        Review a portfolio of agreements at once. Upload the contracts or a
+        ZIP of them, then compare scores, critical issues and missing
+        clauses across every document.
+      </p>
+    </header>
+  );
+}
+
+function BatchView({
+  batch,
+  isCancelling,
+  onCancel,
+  onNewBatch,
+}: {
+  batch: ContractReviewBatch;
+  isCancelling: boolean;
+  onCancel: () => void;
+  onNewBatch: () => void;
+}) {
+  const running = batch.status === "running";
+  const done = batch.completed + batch.failed;
+  const percent = batch.total ? Math.round((done / batch.total) * 100) : 0;
+  const common = useMemo(() => commonMissingClauses(batch.items), [batch.items]);
+
+  return (
+    <div className="space-y-6">
+      <Card className={surfaceClasses.pagePanel}>
+        <CardContent className="space-y-4 p-6">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <div className={typographyClasses.headingSm}>{batch.name}</div>
+              <div className={cn(typographyClasses.bodySm, "mt-1 text-muted-foreground")}>
+                {batch.completed} of {batch.total} reviewed
+                {batch.failed > 0 && ` · ${batch.failed} failed`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {running ? (
+                <Button variant="ghost" size="sm" onClick={onCancel} disabled={isCancelling}>
+                  {isCancelling ? (
+                    <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                  ) : (
+                    <XCircle className="mr-2 h-3.5 w-3.5" />
+                  )}
+                  Cancel remaining
+                </Button>
+              ) : (
+                <>
+                  <Badge variant={batch.status === "cancelled" ? "warning" : "success"}>
+                    {batch.status === "cancelled" ? "Cancelled" : "Complete"}
+                  </Badge>
+                  <Button variant="outline" size="sm" onClick={onNewBatch}>
+                    New batch
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+
+          {running && (
+            <>
+              <div
+                className="h-2 w-full overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-valuenow={percent}
+                aria-valuemin={0}
+                aria-valuemax={100}
+              >
+                <div
+                  className="h-full rounded-full bg-emerald-500 transition-all"
+                  style={{ width: `${Math.max(percent, 3)}%` }}
+                />
+              </div>
+              <div className={cn(typographyClasses.bodySm, "text-muted-foreground")}>
+                You can leave this page — the reviews keep running and this
+                batch will reopen from its link.
+              </div>
+            </>
+          )}
+
+          {batch.skipped_files.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm text-amber-800 dark:text-amber-200">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <div>
+                Skipped {batch.skipped_files.length} file
+                {batch.skipped_files.length === 1 ? "" : "s"} from the archive
+                (unsupported type or too large): {batch.skipped_files.join(", ")}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <TrackObligationsBanner batch={batch} />
+
+      {common.length > 0 && (
+        <div className="rounded-md border border-border bg-muted/40 p-4">
+          <div className={typographyClasses.labelSm}>Missing across the portfolio</div>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {common.map(({ clause, count }) => (
+              <Badge key={clause} variant="outline" className="capitalize">
+                {clause.replace(/_/g, " ")} · {count}
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <PortfolioMatrix batchId={batch.batch_id} items={batch.items} />
+    </div>
+  );
+}
+
+function TrackObligationsBanner({ batch }: { batch: ContractReviewBatch }) {
+  const [tracking, setTracking] = useState(false);
+  const [tracked, setTracked] = useState<{ obligations: number; contracts: number } | null>(null);
+  const [trackError, setTrackError] = useState<string | null>(null);
+
+  const obligationCount = batch.items.reduce((sum, item) => sum + (item.obligation_count ?? 0), 0);
+  const contractCount = batch.items.filter((item) => (item.obligation_count ?? 0) > 0).length;
+
+  const onTrack = useCallback(async () => {
+    setTracking(true);
+    setTrackError(null);
+    try {
+      const resp = await trackContractReviewBatchObligations(batch.batch_id);
+      setTracked({ obligations: resp.obligations_created, contracts: resp.contracts_tracked });
+    } catch (err) {
+      if (err instanceof APIError && err.status === 403) {
+        setTrackError("Compliance tracking requires an Enterprise plan.");
+      } else {
+        setTrackError(getUserFriendlyError(err, "Couldn't add to tracker. Please try again."));
+      }
+    } finally {
+      setTracking(false);
+    }
+  }, [batch.batch_id]);
+
+  if (obligationCount === 0 && !tracked) return null;
+
+  return (
+    <div className="space-y-3">
+      <Card className="border-emerald-500/30 bg-emerald-500/5">
+        <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4">
+          <div className="flex items-start gap-3">
+            <ListChecks className="mt-0.5 h-5 w-5 shrink-0 text-emerald-400" />
+            <div className={cn(typographyClasses.bodyMd, "text-foreground")}>
+              {tracked
+                ? `${tracked.obligations} obligation${tracked.obligations === 1 ? "" : "s"} from ${tracked.contracts} contract${tracked.contracts === 1 ? "" : "s"} added to your compliance tracker.`
+                : `${obligationCount} recurring obligation${obligationCount === 1 ? "" : "s"} found across ${contractCount} contract${contractCount === 1 ? "" : "s"}.`}
+            </div>
+          </div>
+          {tracked ? (
+            <Button variant="outline" size="sm" asChild>
+              <Link href="/compliance#obligations">
+                <ShieldAlert className="mr-2 h-3.5 w-3.5" />
+                View in compliance
+              </Link>
+            </Button>
+          ) : (
+            <Button onClick={onTrack} disabled={tracking} size="sm" className={surfaceClasses.brandButton}>
+              {tracking ? (
+                <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+              ) : (
+                <ListChecks className="mr-2 h-3.5 w-3.5" />
+              )}
+              {tracking ? "Adding…" : "Add all to tracker"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {trackError && (
+        <div className="flex items-start gap-2 rounded-md border border-rose-500/40 bg-rose-500/10 p-3 text-sm text-rose-800 dark:text-rose-200">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          <div>{trackError}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,15 +11,25 @@
  *
  * UI:
  *   1. Empty state → drag-or-click upload + contract-type hint.
- *   2. Loading state → stage labels animate while the request runs.
- *      Backend is synchronous (~30-60s on a 20-page contract); we cycle
- *      labels so the user knows we haven't hung.
+ *   2. Progress state → the upload starts a server-side review job and
+ *      the page follows its stage events over SSE (polling if the
+ *      stream can't be opened). The user can cancel, or leave and come
+ *      back: the job keeps running and `?review=<id>` resumes it.
  *   3. Result state → score, summary, tabbed sections, evidence list.
  *      A second upload swaps the result without leaving the page.
+ *
+ * Reviews are saved server-side; the open one lives in `?review=<id>`
+ * so a refresh or a link from /contracts/history reopens it. Uploading
+ * a revised version links the new review to the previous one and adds
+ * a "Changes" tab comparing the two. The "Redlines" tab lets the user
+ * accept or reject clause-level replacement wording and download the
+ * contract with the accepted changes applied. Many contracts at once
+ * go through /contracts/review/batch instead.
  */
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { Suspense, useCallback, useEffect, useRef, useState } from "react";
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
 import {
   AlertCircle,
   AlertTriangle,
@@ -27,7 +37,11 @@ import {
   CalendarClock,
   CheckCircle2,
   ExternalLink,
+  FilePen,
   FileText,
+  Files,
+  GitCompare,
+  History,
   ListChecks,
   Loader2,
   ShieldAlert,
@@ -48,6 +62,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RedlinePanel, ReviewComparison } from "@/components/contracts";
 
 import { cn } from "@/lib/utils";
 import {
@@ -58,46 +73,47 @@ import {
 import { APIError, getUserFriendlyError } from "@/lib/api/client";
 import { complianceApi } from "@/lib/api/compliance";
 import {
+  CONTRACT_REVIEW_TYPES,
   type ContractReviewExtractedObligation,
   type ContractReviewResult,
   type ContractReviewSeverity,
-  uploadContractForReview,
+  type ContractReviewJob,
+  type ContractReviewJobStatus,
+  type ContractReviewProgress,
+  type ContractReviewStage,
+  type ContractReviewTextAnchor,
+  cancelContractReview,
+  getContractReview,
+  getContractReviewJob,
+  startContractReview,
 } from "@/lib/api/contracts";
+import { subscribeToContractReviewProgress } from "@/lib/api/contract-review-progress-stream";
 
 // ----------------------------------------------------------------------------
 // Constants
 // ----------------------------------------------------------------------------
 
-const CONTRACT_TYPES: Array<{ value: string; label: string }> = [
-  { value: "general", label: "Auto-detect" },
-  { value: "loan", label: "Loan / facility agreement" },
-  { value: "lease", label: "Lease / tenancy" },
-  { value: "employment", label: "Employment" },
-  { value: "service", label: "Services agreement" },
-  { value: "nda", label: "Non-disclosure / confidentiality" },
-  { value: "sale", label: "Sale / purchase" },
-];
-
-// Cycle through these client-side so the user sees progress through
-// the (synchronous) backend pipeline. Real reviews take 60-100s
-// (Mistral OCR + corpus research + LLM review + statute verification).
-// Tick interval timed so the cycle ends near the typical lower bound;
-// after the last stage we sit on it with a "still working" hint
-// (handled by the renderer) until the actual response arrives.
-const PROCESSING_STAGES = [
-  "Reading the document…",
-  "Extracting text and structure (OCR if needed)…",
-  "Researching applicable Ugandan law (LawLens + Ulii)…",
-  "Identifying risks, missing clauses, and exposure…",
-  "Verifying statute references against retrieved evidence…",
-  "Extracting recurring obligations…",
-  "Compiling the final review…",
-];
-
-// 10s per stage × 7 stages ≈ 70s — matches the typical full-pipeline
-// wall clock (corpus + Tavily + ReviewAgent). The renderer holds on
-// the last stage past that with a "still working" hint.
-const PROCESSING_STAGE_INTERVAL_MS = 10_000;
+// Shown for the job's current stage when the worker's own message is
+// missing (e.g. while polling an older job).
+const STAGE_LABELS: Record<ContractReviewStage, string> = {
+  parsing: "Extracting text and structure (OCR if needed)…",
+  classifying: "Identifying the contract type…",
+  researching: "Researching applicable Ugandan law (LawLens + Ulii)…",
+  reviewing: "Identifying risks, missing clauses, and exposure…",
+  verifying: "Verifying statute references against retrieved evidence…",
+  extracting_obligations: "Extracting recurring obligations…",
+  drafting_redlines: "Drafting replacement wording…",
+  finalizing: "Compiling the final review…",
+};
+
+const TERMINAL_JOB_STATUSES = new Set<ContractReviewJobStatus>([
+  "complete",
+  "failed",
+  "cancelled",
+]);
+
+// Used only when the progress stream can't be opened.
+const JOB_POLL_INTERVAL_MS = 4_000;
 
 const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB — matches backend cap
 
@@ -151,75 +167,44 @@ function scoreTone(score: number) {
 // Page
 // ----------------------------------------------------------------------------
 
-/**
- * localStorage key for the most recent review result. We persist the
- * last successful review so a page refresh mid-demo doesn't blow it
- * away — the user can re-share the URL, navigate away and back, etc.
- * Stored under a versioned key so we can invalidate cleanly if the
- * response shape ever changes.
- */
-const LAST_REVIEW_KEY = "lawlens.contract_review.last_v1";
-
-function loadPersistedReview(): ContractReviewResult | null {
-  if (typeof window === "undefined") return null;
-  try {
-    const raw = window.localStorage.getItem(LAST_REVIEW_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw) as ContractReviewResult;
-    // Sanity check: must look like a review result.
-    if (!parsed || typeof parsed.overall_score !== "number") return null;
-    return parsed;
-  } catch {
-    return null;
-  }
-}
-
-function persistReview(r: ContractReviewResult | null): void {
-  if (typeof window === "undefined") return;
-  try {
-    if (r) {
-      window.localStorage.setItem(LAST_REVIEW_KEY, JSON.stringify(r));
-    } else {
-      window.localStorage.removeItem(LAST_REVIEW_KEY);
-    }
-  } catch {
-    // Quota exceeded / private mode — silently drop. Re-hydration just
-    // returns null on next mount.
-  }
+export default function ContractReviewPage() {
+  return (
+    <Suspense
+      fallback={
+        <main className={cn(layoutClasses.pageContainer, "py-10")}>
+          <Header />
+        </main>
+      }
+    >
+      <ContractReviewContent />
+    </Suspense>
+  );
 }
 
-export default function ContractReviewPage() {
+function ContractReviewContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const reviewIdParam = searchParams.get("review");
   const [file, setFile] = useState<File | null>(null);
   const [contractType, setContractType] = useState<string>("general");
-  const [isReviewing, setIsReviewing] = useState(false);
-  const [stageIndex, setStageIndex] = useState(0);
-  // Re-hydrate the last review on mount so a refresh doesn't lose it.
-  // useEffect (not initial state) because localStorage isn't available
-  // during SSR — initial render must match the server-rendered HTML.
+  // True while the file is uploading, before the job exists.
+  const [isStarting, setIsStarting] = useState(false);
+  // The running job this page is following, started here or resumed
+  // from the URL.
+  const [job, setJob] = useState<ContractReviewJob | null>(null);
+  const [progress, setProgress] = useState<ContractReviewProgress | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const isReviewing = isStarting || job !== null;
   const [result, setResult] = useState<ContractReviewResult | null>(null);
-  useEffect(() => {
-    const persisted = loadPersistedReview();
-    if (persisted) setResult(persisted);
-  }, []);
+  // The review `result` revises, when it was uploaded as a new version.
+  const [previous, setPrevious] = useState<ContractReviewResult | null>(null);
+  // Set while the user is picking a revised file for an existing review.
+  const [revisionOf, setRevisionOf] = useState<ContractReviewResult | null>(null);
+  const [isLoadingSaved, setIsLoadingSaved] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Cycle stage labels during processing. Tick interval is chosen so
-  // the cycle finishes near the typical pipeline runtime — after the
-  // last stage we hold there with a hint so the user doesn't think we
-  // hung.
-  useEffect(() => {
-    if (!isReviewing) {
-      setStageIndex(0);
-      return;
-    }
-    const id = setInterval(() => {
-      setStageIndex((i) => Math.min(i + 1, PROCESSING_STAGES.length - 1));
-    }, PROCESSING_STAGE_INTERVAL_MS);
-    return () => clearInterval(id);
-  }, [isReviewing]);
-
   const onPickFile = useCallback((f: File | null) => {
     setError(null);
     if (!f) return;
@@ -243,17 +228,156 @@ export default function ContractReviewPage() {
     [onPickFile],
   );
 
+  const loadFinishedReview = useCallback(async (reviewId: string) => {
+    const saved = await getContractReview(reviewId);
+    const earlier = saved.previous_review_id
+      ? await getContractReview(saved.previous_review_id).catch(() => null)
+      : null;
+    return { saved, earlier };
+  }, []);
+
+  // Open the review named in the URL: show it if the job finished,
+  // otherwise pick the running job back up. The ref records which id is
+  // already on screen so replacing the URL after an upload (or starting
+  // a revision) doesn't refetch it.
+  const openedReviewIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!reviewIdParam || openedReviewIdRef.current === reviewIdParam) return;
+    openedReviewIdRef.current = reviewIdParam;
+    let cancelled = false;
+    let settled = false;
+    setIsLoadingSaved(true);
+    setError(null);
+    (async () => {
+      try {
+        const current = await getContractReviewJob(reviewIdParam);
+        if (cancelled) return;
+        if (current.status === "complete") {
+          const { saved, earlier } = await loadFinishedReview(reviewIdParam);
+          if (cancelled) return;
+          setResult(saved);
+          setPrevious(earlier);
+          setRevisionOf(null);
+        } else if (TERMINAL_JOB_STATUSES.has(current.status)) {
+          setError(describeUnfinishedJob(current));
+        } else {
+          setResult(null);
+          setJob(current);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError(
+          err instanceof APIError && err.status === 404
+            ? "That review no longer exists."
+            : getUserFriendlyError(err, "Couldn't open the saved review."),
+        );
+      } finally {
+        settled = true;
+        if (!cancelled) setIsLoadingSaved(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      // Let a remount (or a quick back/forward) retry an unfinished load.
+      if (!settled && openedReviewIdRef.current === reviewIdParam) {
+        openedReviewIdRef.current = null;
+      }
+    };
+  }, [reviewIdParam, loadFinishedReview]);
+
+  // Follow the active job until it reaches a terminal status. The
+  // stream (or the polling fallback) only drives `progress`; the
+  // result itself is fetched once at the end.
+  useEffect(() => {
+    if (!job) return;
+    const reviewId = job.review_id;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let finished = false;
+
+    const finish = async (reported: ContractReviewJobStatus) => {
+      if (finished) return;
+      finished = true;
+      if (pollTimer) clearInterval(pollTimer);
+      // Check the job itself before reporting a failure the stream may
+      // have got wrong.
+      const latest =
+        reported === "complete" ? null : await getContractReviewJob(reviewId).catch(() => null);
+      const status = latest?.status ?? reported;
+      if (status === "complete") {
+        try {
+          const { saved, earlier } = await loadFinishedReview(reviewId);
+          setResult(saved);
+          setPrevious(earlier);
+          setRevisionOf(null);
+        } catch (err) {
+          setError(getUserFriendlyError(err, "The review finished but couldn't be loaded."));
+        }
+      } else {
+        setError(describeUnfinishedJob(latest ?? { status, error: null }));
+        openedReviewIdRef.current = null;
+        router.replace("/contracts/review");
+      }
+      setJob(null);
+      setProgress(null);
+      setIsCancelling(false);
+    };
+
+    const poll = async () => {
+      try {
+        const latest = await getContractReviewJob(reviewId);
+        setProgress({
+          status: latest.status,
+          stage: latest.stage,
+          message: latest.message ?? "",
+          progress: latest.progress_percent,
+        });
+        if (TERMINAL_JOB_STATUSES.has(latest.status)) void finish(latest.status);
+      } catch {
+        // Transient — keep polling; the job is still running server-side.
+      }
+    };
+
+    const handle = subscribeToContractReviewProgress({
+      reviewId,
+      streamToken: job.stream_token,
+      callbacks: {
+        onProgress: setProgress,
+        onFinished: finish,
+        onFallbackNeeded: () => {
+          if (finished || pollTimer) return;
+          void poll();
+          pollTimer = setInterval(poll, JOB_POLL_INTERVAL_MS);
+        },
+      },
+    });
+
+    return () => {
+      finished = true;
+      handle.stop();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+  }, [job, loadFinishedReview, router]);
+
   const submit = useCallback(async () => {
     if (!file) return;
     setError(null);
-    setIsReviewing(true);
+    setIsStarting(true);
     setResult(null);
+    setPrevious(null);
     try {
-      const review = await uploadContractForReview(file, {
+      const started = await startContractReview(file, {
         contractType: contractType === "general" ? undefined : contractType,
+        previousReviewId: revisionOf?.review_id,
+      });
+      setProgress({
+        status: started.status,
+        stage: started.stage,
+        message: started.message ?? "",
+        progress: started.progress_percent,
       });
-      setResult(review);
-      persistReview(review);
+      setJob(started);
+      openedReviewIdRef.current = started.review_id;
+      router.replace(`/contracts/review?review=${started.review_id}`);
     } catch (err) {
       if (err instanceof APIError && err.status === 403) {
         setError(
@@ -261,36 +385,80 @@ export default function ContractReviewPage() {
             "admin or contact support to unlock.",
         );
       } else {
-        setError(getUserFriendlyError(err, "Review failed. Please try again."));
+        setError(getUserFriendlyError(err, "Couldn't start the review. Please try again."));
       }
     } finally {
-      setIsReviewing(false);
+      setIsStarting(false);
+    }
+  }, [file, contractType, revisionOf, router]);
+
+  const cancelReview = useCallback(async () => {
+    if (!job) return;
+    setIsCancelling(true);
+    try {
+      // The stream reports "cancelled" once the worker stops.
+      await cancelContractReview(job.review_id);
+    } catch (err) {
+      setIsCancelling(false);
+      setError(getUserFriendlyError(err, "Couldn't cancel the review."));
     }
-  }, [file, contractType]);
+  }, [job]);
 
   const resetForNew = useCallback(() => {
     setFile(null);
     setContractType("general");
     setResult(null);
+    setPrevious(null);
+    setRevisionOf(null);
     setError(null);
-    // Clear the persisted last review too — the user explicitly asked
-    // for a fresh upload, so re-hydrating the old result on refresh
-    // would be confusing.
-    persistReview(null);
     if (inputRef.current) inputRef.current.value = "";
-  }, []);
+    openedReviewIdRef.current = null;
+    router.replace("/contracts/review");
+  }, [router]);
+
+  const startRevision = useCallback(() => {
+    if (!result) return;
+    setFile(null);
+    setContractType(
+      CONTRACT_REVIEW_TYPES.some((t) => t.value === result.contract_type)
+        ? result.contract_type
+        : "general",
+    );
+    setRevisionOf(result);
+    setResult(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  }, [result]);
+
+  const cancelRevision = useCallback(() => {
+    setResult(revisionOf);
+    setRevisionOf(null);
+    setFile(null);
+    setError(null);
+  }, [revisionOf]);
 
   return (
     <main className={cn(layoutClasses.pageContainer, "py-10")}>
       <Header />
 
-      {!result && (
+      {isLoadingSaved && !result && (
+        <div className="flex items-center justify-center py-16 text-muted-foreground">
+          <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+          Opening saved review…
+        </div>
+      )}
+
+      {!result && !isLoadingSaved && (
         <UploadCard
+          revisionOf={revisionOf}
+          onCancelRevision={cancelRevision}
           file={file}
           contractType={contractType}
           isDragOver={isDragOver}
           isReviewing={isReviewing}
-          stageIndex={stageIndex}
+          progress={progress}
+          isCancelling={isCancelling}
+          onCancel={job ? cancelReview : undefined}
           error={error}
           inputRef={inputRef}
           onPickFile={onPickFile}
@@ -306,7 +474,12 @@ export default function ContractReviewPage() {
       )}
 
       {result && (
-        <ResultView result={result} onReset={resetForNew} />
+        <ResultView
+          result={result}
+          previous={previous}
+          onReset={resetForNew}
+          onRevise={startRevision}
+        />
       )}
     </main>
   );
@@ -320,9 +493,23 @@ function Header() {
   return (
     <header className="mb-8">
       <div className={typographyClasses.labelMd}>Contracts</div>
-      <h1 className={cn(typographyClasses.headingXl, "mt-1")}>
-        Contract Review
-      </h1>
+      <div className="mt-1 flex flex-wrap items-center justify-between gap-3">
+        <h1 className={typographyClasses.headingXl}>Contract Review</h1>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/contracts/review/batch">
+              <Files className="mr-2 h-3.5 w-3.5" />
+              Batch review
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href="/contracts/history?tab=reviews">
+              <History className="mr-2 h-3.5 w-3.5" />
+              Past reviews
+            </Link>
+          </Button>
+        </div>
+      </div>
       <p className={cn(typographyClasses.bodyMd, "mt-2 text-muted-foreground")}>
         Upload a contract. The reviewer parses the document, researches
         applicable Ugandan law, and returns a structured assessment with
@@ -347,11 +534,16 @@ function Header() {
 }
 
 interface UploadCardProps {
+  revisionOf: ContractReviewResult | null;
+  onCancelRevision: () => void;
   file: File | null;
   contractType: string;
   isDragOver: boolean;
   isReviewing: boolean;
-  stageIndex: number;
+  progress: ContractReviewProgress | null;
+  isCancelling: boolean;
+  /** Absent until the upload has created the job. */
+  onCancel?: () => void;
   error: string | null;
   inputRef: React.RefObject<HTMLInputElement | null>;
   onPickFile: (f: File | null) => void;
@@ -364,11 +556,15 @@ interface UploadCardProps {
 
 function UploadCard(props: UploadCardProps) {
   const {
+    revisionOf,
+    onCancelRevision,
     file,
     contractType,
     isDragOver,
     isReviewing,
-    stageIndex,
+    progress,
+    isCancelling,
+    onCancel,
     error,
     inputRef,
     onPickFile,
@@ -382,6 +578,22 @@ function UploadCard(props: UploadCardProps) {
   return (
     <Card className={surfaceClasses.pagePanel}>
       <CardContent className="space-y-5 p-6">
+        {revisionOf && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-border bg-muted/40 p-3 text-sm">
+            <div className="flex items-start gap-2">
+              <GitCompare className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+              <div>
+                Uploading a revised version of{" "}
+                <span className="font-medium text-foreground">{revisionOf.filename}</span>.
+                The new review will be compared with this one.
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={onCancelRevision} disabled={isReviewing}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
         {/* Drop zone */}
         <div
           onDragOver={onDragOver}
@@ -433,16 +645,43 @@ function UploadCard(props: UploadCardProps) {
           )}
 
           {isReviewing && (
-            <div className="flex flex-col items-center gap-3">
+            <div className="flex w-full max-w-md flex-col items-center gap-3">
               <Loader2 className="h-8 w-8 animate-spin text-emerald-400" />
               <div className={typographyClasses.bodyMd}>
-                {PROCESSING_STAGES[stageIndex]}
+                {isCancelling
+                  ? "Cancelling…"
+                  : progressLabel(progress)}
+              </div>
+              <div
+                className="h-1.5 w-full overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-label="Review progress"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={progress?.progress ?? 0}
+              >
+                <div
+                  className="h-full rounded-full bg-emerald-500 transition-all"
+                  style={{ width: `${Math.max(progress?.progress ?? 0, 3)}%` }}
+                />
               </div>
               <div className={cn(typographyClasses.bodySm, "text-muted-foreground")}>
-                {stageIndex < PROCESSING_STAGES.length - 1
-                  ? "This usually takes about 60-90 seconds."
-                  : "Still working — final synthesis can take an extra moment."}
+                You can leave this page — the review keeps running and
+                will be waiting under Past reviews.
               </div>
+              {onCancel && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onCancel();
+                  }}
+                  disabled={isCancelling}
+                >
+                  Cancel review
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -461,7 +700,7 @@ function UploadCard(props: UploadCardProps) {
               <SelectValue />
             </SelectTrigger>
             <SelectContent>
-              {CONTRACT_TYPES.map((t) => (
+              {CONTRACT_REVIEW_TYPES.map((t) => (
                 <SelectItem key={t.value} value={t.value}>
                   {t.label}
                 </SelectItem>
@@ -509,10 +748,14 @@ function UploadCard(props: UploadCardProps) {
 
 function ResultView({
   result,
+  previous,
   onReset,
+  onRevise,
 }: {
   result: ContractReviewResult;
+  previous: ContractReviewResult | null;
   onReset: () => void;
+  onRevise: () => void;
 }) {
   const issueCount = result.legal_issues.length;
   const riskCount = result.risks.length;
@@ -520,6 +763,7 @@ function ResultView({
   const missingCount =
     result.missing_sections.length + result.missing_clauses.length;
   const obligationCount = result.extracted_obligations?.length ?? 0;
+  const redlines = result.redlines ?? [];
 
   return (
     <div className="space-y-6">
@@ -530,6 +774,7 @@ function ResultView({
             <div>
               <div className={typographyClasses.labelSm}>
                 {result.filename}
+                {result.version && result.version > 1 ? ` · v${result.version}` : ""}
               </div>
               <div className={cn(typographyClasses.headingLg, "mt-1")}>
                 {humanContractType(result.contract_type)}
@@ -589,7 +834,11 @@ function ResultView({
             <span>{describeStatuteCheck(result)}</span>
           </div>
 
-          <div className="mt-5 flex justify-end">
+          <div className="mt-5 flex flex-wrap justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={onRevise}>
+              <GitCompare className="mr-2 h-3.5 w-3.5" />
+              Upload revised version
+            </Button>
             <Button variant="outline" size="sm" onClick={onReset}>
               <Upload className="mr-2 h-3.5 w-3.5" />
               Review another
@@ -599,8 +848,23 @@ function ResultView({
       </Card>
 
       {/* Findings tabs */}
-      <Tabs defaultValue="risks" className="w-full">
+      <Tabs
+        key={result.review_id}
+        defaultValue={previous ? "changes" : "risks"}
+        className="w-full"
+      >
         <TabsList>
+          {previous && (
+            <TabsTrigger value="changes">
+              <GitCompare className="mr-1.5 h-3.5 w-3.5" />
+              Changes
+            </TabsTrigger>
+          )}
+          <TabsTrigger value="redlines">
+            <FilePen className="mr-1.5 h-3.5 w-3.5" />
+            Redlines{" "}
+            <Badge variant="secondary" className="ml-2">{redlines.length}</Badge>
+          </TabsTrigger>
           <TabsTrigger value="risks">
             Risks <Badge variant="secondary" className="ml-2">{riskCount}</Badge>
           </TabsTrigger>
@@ -628,6 +892,16 @@ function ResultView({
           </TabsTrigger>
         </TabsList>
 
+        {previous && (
+          <TabsContent value="changes" className="mt-4">
+            <ReviewComparison previous={previous} current={result} />
+          </TabsContent>
+        )}
+
+        <TabsContent value="redlines" className="mt-4">
+          <RedlinePanel reviewId={result.review_id} redlines={redlines} />
+        </TabsContent>
+
         <TabsContent value="risks" className="mt-4">
           {result.risks.length === 0 ? (
             <EmptyState>No risks flagged.</EmptyState>
@@ -664,6 +938,8 @@ function ResultView({
                       .filter(Boolean)
                       .join(" · ") || undefined
                   }
+                  anchor={i.anchor}
+                  hasRedline={Boolean(i.redline_id)}
                 />
               ))}
             </div>
@@ -708,6 +984,8 @@ function ResultView({
                   detail=""
                   detailLabel=""
                   meta={imp.section ? `Section: ${imp.section}` : undefined}
+                  anchor={imp.anchor}
+                  hasRedline={Boolean(imp.redline_id)}
                 />
               ))}
             </div>
@@ -874,12 +1152,17 @@ function FindingCard({
   detail,
   detailLabel,
   meta,
+  anchor,
+  hasRedline,
 }: {
   severity: ContractReviewSeverity;
   title: string;
   detail: string;
   detailLabel: string;
   meta?: string;
+  /** Passage in the uploaded contract the finding refers to. */
+  anchor?: ContractReviewTextAnchor | null;
+  hasRedline?: boolean;
 }) {
   return (
     <Card
@@ -893,16 +1176,34 @@ function FindingCard({
           <div className={cn(typographyClasses.bodyMd, "text-foreground")}>
             {title}
           </div>
-          <Badge
-            variant="outline"
+          <div className="flex shrink-0 gap-2">
+            {hasRedline && (
+              <Badge variant="outline" className="border-border text-foreground/85">
+                <FilePen className="mr-1 h-3 w-3" />
+                Redline
+              </Badge>
+            )}
+            <Badge
+              variant="outline"
+              className={cn(
+                "capitalize",
+                severityClasses(severity),
+              )}
+            >
+              {severity}
+            </Badge>
+          </div>
+        </div>
+        {anchor?.quote && (
+          <blockquote
             className={cn(
-              "shrink-0 capitalize",
-              severityClasses(severity),
+              typographyClasses.bodySm,
+              "border-l-2 border-border pl-3 italic text-muted-foreground",
             )}
           >
-            {severity}
-          </Badge>
-        </div>
+            &ldquo;{anchor.quote}&rdquo;
+          </blockquote>
+        )}
         {detail && (
           <div className={cn(typographyClasses.bodySm, "text-muted-foreground")}>
             <span className="font-medium text-foreground/85">{detailLabel}: </span>
@@ -1205,6 +1506,23 @@ function EmptyState({ children }: { children: React.ReactNode }) {
 // Helpers
 // ----------------------------------------------------------------------------
 
+function progressLabel(progress: ContractReviewProgress | null): string {
+  if (!progress || progress.status === "queued") {
+    return "Uploading and queueing the review…";
+  }
+  if (progress.message) return progress.message;
+  return progress.stage ? STAGE_LABELS[progress.stage] : "Reviewing…";
+}
+
+function describeUnfinishedJob(
+  job: Pick<ContractReviewJob, "status" | "error">,
+): string {
+  if (job.status === "cancelled") return "The review was cancelled.";
+  return job.error
+    ? `The review failed: ${job.error}`
+    : "The review failed. Please try again.";
+}
+
 function humanContractType(t: string): string {
   const map: Record<string, string> = {
     loan: "Loan / facility agreement",
@@ -1,6 +1,6 @@
 "use client";
 
-import { use, useState, useEffect, useMemo, useCallback, Suspense } from "react";
+import { use, useState, useEffect, useMemo, useCallback, useRef, Suspense } from "react";
 import Link from "next/link";
 import dynamic from "next/dynamic";
 import { usePathname, useRouter, useSearchParams } from "next/navigation";
@@ -20,6 +20,8 @@ import {
   BookOpen,
   Lock,
   MessageSquare,
+  CloudOff,
+  Highlighter,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
@@ -37,20 +39,38 @@ import {
 import { cn } from "@/lib/utils";
 import { safeInternalPath } from "@/lib/utils/safe-redirect";
 import { surfaceClasses } from "@/lib/design-system";
-import { useAllDocumentsByType, useDocument, usePdfStatus } from "@/lib/hooks";
-import { getDocumentPdfUrl } from "@/lib/api";
+import {
+  useAllDocumentsByType,
+  useDocument,
+  useDocumentAsAt,
+  useDocumentVersions,
+  useOnlineStatus,
+  usePdfStatus,
+} from "@/lib/hooks";
+import { APIError, getDocumentPdfUrl } from "@/lib/api";
+import { getUserFriendlyError } from "@/lib/api/client";
 import { HierarchyRenderer } from "@/components/hierarchy-renderer";
 import { TableOfContents } from "@/components/table-of-contents";
 import { Breadcrumbs } from "@/components/navigation/breadcrumbs";
 import { SaveToCollectionButton } from "@/components/collections/save-to-collection-button";
+import { SaveButton } from "@/components/library/save-button";
+import { DocumentNotesButton } from "@/components/library/document-notes-button";
 import { CitationProvider, ResponsiveSourceView } from "@/components/citations";
+import { BillStageBadge, BillStageTimeline } from "@/components/bills";
+import { VersionCompareDialog, VersionHistoryBar } from "@/components/document-versions";
+import { CitatorPanel } from "@/components/citator";
 import { DocumentChatPanel } from "@/components/document-chat";
+import { AnnotationLayer, AnnotationsSidebar, type AnnotationDraft } from "@/components/annotations";
 import { useAuth, useAuthModal } from "@/components/providers";
 import { useLibraryStore } from "@/lib/stores";
 import type { Document, DocumentType, HierarchicalNode } from "@/lib/api/types";
+import type { HighlightColor } from "@/lib/api/annotations";
 import { formatDateOnly } from "@/lib/utils/date-formatter";
 import { resolveDocumentYear } from "@/lib/utils/document-year";
+import { getCourtRouteId } from "@/lib/utils/court-routes";
 import { useDocumentChat } from "@/hooks/use-document-chat";
+import { useOfflineDocument } from "@/hooks/use-offline-document";
+import { newAnnotationId, useDocumentAnnotations } from "@/hooks/use-document-annotations";
 
 const PdfReader = dynamic(
   () => import("@/components/pdf/pdf-reader").then((module) => module.PdfReader),
@@ -117,6 +137,13 @@ const documentTypeConfig: Record<
     color: "text-primary",
     bgColor: "bg-primary/10",
   },
+  bill: {
+    label: "Bill",
+    icon: FileText,
+    className: "badge-bill",
+    color: "text-muted-foreground",
+    bgColor: "bg-muted",
+  },
   // Internal KB docs aren't really browseable through the public-document
   // page, but we have to satisfy the Record<DocumentType, ...> contract.
   // Use a neutral palette + Lock icon so if this ever does render it
@@ -272,6 +299,13 @@ function getCollectionInfo(documentType: DocumentType) {
         collectionLabel: "Constitution",
         collectionHref: "/legislation/constitution",
       };
+    case "bill":
+      return {
+        rootLabel: "Legislation",
+        rootHref: "/legislation",
+        collectionLabel: "Bills",
+        collectionHref: "/legislation/bills",
+      };
     case "judgment":
       return {
         rootLabel: "Case Law",
@@ -294,13 +328,31 @@ function DocumentContent({ id }: { id: string }) {
   const pathname = usePathname();
   const { isAuthenticated } = useAuth();
   const { openLogin } = useAuthModal();
-  const { data: document, isLoading, error } = useDocument(id);
+  const searchParams = useSearchParams();
+  const { data: fetchedDocument, isLoading, error } = useDocument(id);
+  // Saved documents are kept in IndexedDB. While offline the query is
+  // paused (never resolves), so fall back to that copy instead of waiting.
+  const { isOnline } = useOnlineStatus();
+  const { offline, offlinePdfUrl, isLoading: isOfflineLoading } = useOfflineDocument(id);
+  const offlineFallback = !fetchedDocument && (!isOnline || error) ? offline?.document : undefined;
+  const readingOffline = Boolean(offlineFallback);
+  const latestDocument = fetchedDocument ?? offlineFallback;
+  // Point-in-time view: ?asAt=YYYY-MM-DD swaps in the version that was in
+  // force on that date. Until it resolves (or if none existed) the latest
+  // text stays on screen and the version bar explains why.
+  const asAt = searchParams.get("asAt");
+  const asAtQuery = useDocumentAsAt(id, asAt);
+  const document = (asAt ? asAtQuery.data : undefined) ?? latestDocument;
+  const isLegislation =
+    latestDocument?.document_type === "act" ||
+    latestDocument?.document_type === "regulation" ||
+    latestDocument?.document_type === "constitution";
+  const { data: versions } = useDocumentVersions(isLegislation ? id : null);
   // Pre-flight PDF availability so the page can render a friendly banner
   // instead of mounting <PdfReader> against a 404. Hook MUST be called
   // unconditionally; rules-of-hooks forbids placing it after early returns.
   const pdfStatusQuery = usePdfStatus(id);
   const { data: typedDocuments } = useAllDocumentsByType(document?.document_type || "act");
-  const searchParams = useSearchParams();
   const from = searchParams.get("from");
   // Narrow returnTo to a same-origin path before any downstream use.
   // searchParams.get("returnTo") is fully user-controlled via URL; without
@@ -324,9 +376,20 @@ function DocumentContent({ id }: { id: string }) {
     return hash ? decodeURIComponent(hash) : null;
   });
   const [mobileTocOpen, setMobileTocOpen] = useState(false);
+  const [versionCompareOpen, setVersionCompareOpen] = useState(false);
   const [documentChatOpen, setDocumentChatOpen] = useState(false);
   const [manualHighlightId, setManualHighlightId] = useState<string | null>(null);
   const [activeSectionId, setActiveSectionId] = useState<string | null>(null);
+  const annotationContainerRef = useRef<HTMLDivElement>(null);
+  const {
+    annotations,
+    save: saveAnnotation,
+    remove: removeAnnotation,
+  } = useDocumentAnnotations(id, isAuthenticated);
+  const [annotationsOpen, setAnnotationsOpen] = useState(false);
+  const [activeAnnotation, setActiveAnnotation] = useState<{ id: string; scroll: boolean } | null>(null);
+  const [editingAnnotationId, setEditingAnnotationId] = useState<string | null>(null);
+  const [orphanedAnnotationIds, setOrphanedAnnotationIds] = useState<string[]>([]);
   const highlightedSectionId = manualHighlightId ?? hashSectionId ?? initialSectionId;
   const documentChat = useDocumentChat(document ?? null);
   const addToHistory = useLibraryStore((s) => s.addToHistory);
@@ -414,7 +477,7 @@ function DocumentContent({ id }: { id: string }) {
           ? new Date(item.publication_date).getFullYear()
           : null;
 
-        if (courtId && item.court_level !== courtId) {
+        if (courtId && getCourtRouteId(item.court_level) !== courtId) {
           return false;
         }
 
@@ -532,6 +595,28 @@ function DocumentContent({ id }: { id: string }) {
     router.push(collectionInfo?.collectionHref || "/browse");
   }, [router, returnTo, from, collectionInfo]);
 
+  const handleAsAtChange = useCallback((date: string | null) => {
+    const params = new URLSearchParams(searchParams.toString());
+    if (date) {
+      params.set("asAt", date);
+    } else {
+      params.delete("asAt");
+    }
+    const query = params.toString();
+    router.replace(`${pathname}${query ? `?${query}` : ""}`, { scroll: false });
+  }, [router, pathname, searchParams]);
+
+  // Citator links carry this so their back button returns here, point-in-time view included
+  const currentDocumentPath = `${pathname}${searchParams.toString() ? `?${searchParams.toString()}` : ""}`;
+
+  const asAtError = useMemo(() => {
+    if (!asAt || !asAtQuery.error) return null;
+    if (asAtQuery.error instanceof APIError && asAtQuery.error.status === 404) {
+      return `No version of this document was in force on ${formatDateOnly(asAt)}.`;
+    }
+    return getUserFriendlyError(asAtQuery.error, "Could not load the historical version.");
+  }, [asAt, asAtQuery.error]);
+
   const handleOpenDocumentChat = useCallback(() => {
     if (!isAuthenticated) {
       openLogin(`${pathname}${searchParams.toString() ? `?${searchParams.toString()}` : ""}`);
@@ -540,6 +625,29 @@ function DocumentContent({ id }: { id: string }) {
     setDocumentChatOpen(true);
   }, [isAuthenticated, openLogin, pathname, searchParams]);
 
+  const handleCreateAnnotation = useCallback(
+    (draft: AnnotationDraft, color: HighlightColor, withNote: boolean) => {
+      const annotationId = newAnnotationId();
+      saveAnnotation({ ...draft, id: annotationId, document_id: id, color, note: null });
+      if (withNote) {
+        setActiveAnnotation({ id: annotationId, scroll: false });
+        setEditingAnnotationId(annotationId);
+        setAnnotationsOpen(true);
+      }
+    },
+    [id, saveAnnotation]
+  );
+
+  const handleActivateAnnotation = useCallback((annotationId: string) => {
+    setActiveAnnotation({ id: annotationId, scroll: false });
+    setAnnotationsOpen(true);
+  }, []);
+
+  const handleNavigateToAnnotation = useCallback((annotationId: string) => {
+    setActiveAnnotation({ id: annotationId, scroll: true });
+    setAnnotationsOpen(false);
+  }, []);
+
   const handleSelectChatCitation = useCallback((sectionId?: string | null) => {
     if (!sectionId) return;
     setManualHighlightId(sectionId);
@@ -673,7 +781,7 @@ function DocumentContent({ id }: { id: string }) {
     window.print();
   };
 
-  if (isLoading) {
+  if (isLoading && !readingOffline && (isOnline || isOfflineLoading)) {
     return (
       <div className="p-4 md:p-6">
         <div className="mx-auto max-w-4xl space-y-6">
@@ -685,7 +793,28 @@ function DocumentContent({ id }: { id: string }) {
     );
   }
 
-  if (error || !document) {
+  if (!isOnline && !document) {
+    return (
+      <div className="p-4 md:p-6">
+        <div className="mx-auto max-w-4xl">
+          <Card>
+            <CardContent className="py-12 text-center">
+              <CloudOff className="mx-auto h-12 w-12 text-muted-foreground/50" />
+              <h3 className="mt-4 text-lg font-medium">Not available offline</h3>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Documents saved to your library can be read without a connection.
+              </p>
+              <Button asChild className="mt-4">
+                <Link href="/library">Open Library</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if ((error && !readingOffline) || !document) {
     return (
       <div className="p-4 md:p-6">
         <div className="mx-auto max-w-4xl">
@@ -707,15 +836,27 @@ function DocumentContent({ id }: { id: string }) {
   }
 
   const typeConfig = documentTypeConfig[document.document_type];
-  const pdfUrl = getDocumentPdfUrl(id);
+  const pdfUrl = !isOnline && offlinePdfUrl ? offlinePdfUrl : getDocumentPdfUrl(id);
   // Derived from pdfStatusQuery hoisted above. Treat unknown / loading as
-  // available so we don't flash the banner on initial render.
-  const pdfAvailable = pdfStatusQuery.data?.available !== false;
-  const pdfUnavailableMessage =
-    pdfStatusQuery.data && !pdfStatusQuery.data.available
+  // available so we don't flash the banner on initial render. Offline, the
+  // PDF is only there if it was downloaded with the saved copy.
+  const pdfAvailable = isOnline
+    ? pdfStatusQuery.data?.available !== false
+    : Boolean(offlinePdfUrl);
+  const pdfUnavailableMessage = !isOnline
+    ? "The PDF for this document wasn't saved for offline reading."
+    : pdfStatusQuery.data && !pdfStatusQuery.data.available
       ? pdfStatusQuery.data.message ??
         "The PDF for this document is temporarily unavailable."
       : undefined;
+  const savedDocumentMeta = {
+    id: document.id,
+    humanReadableId: document.human_readable_id,
+    title: document.title,
+    documentType: document.document_type,
+    shortTitle: document.short_title,
+    actYear: document.act_year,
+  };
   const browseBackLabel = document.document_type === "act"
     ? "Back to Acts"
     : `Back to ${collectionInfo?.collectionLabel || "Documents"}`;
@@ -779,6 +920,16 @@ function DocumentContent({ id }: { id: string }) {
             </div>
           </div>
 
+          {readingOffline && offline && (
+            <div className="border-t bg-muted/40 px-4 py-1.5 md:px-6">
+              <p className="mx-auto flex max-w-5xl items-center gap-2 text-xs text-muted-foreground">
+                <CloudOff className="h-3.5 w-3.5" />
+                Reading your offline copy, saved {formatDateOnly(offline.cachedAt)}.
+                Notes you make will sync when you&apos;re back online.
+              </p>
+            </div>
+          )}
+
           {/* Header */}
           <div className={cn("px-4 py-2 md:px-6", document.document_type === "judgment" && "border-t")}>
             <div className="mx-auto max-w-5xl">
@@ -802,6 +953,14 @@ function DocumentContent({ id }: { id: string }) {
                       }}
                       size="sm"
                     />
+                    <SaveButton document={savedDocumentMeta} size="sm" />
+                    <DocumentNotesButton documentId={document.id} />
+                    {offline && (
+                      <Badge variant="secondary" className="gap-1">
+                        <CloudOff className="h-3 w-3" />
+                        Available offline
+                      </Badge>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
@@ -866,6 +1025,14 @@ function DocumentContent({ id }: { id: string }) {
                         }}
                         size="sm"
                       />
+                      <SaveButton document={savedDocumentMeta} size="sm" />
+                      <DocumentNotesButton documentId={document.id} />
+                      {offline && (
+                        <Badge variant="secondary" className="gap-1">
+                          <CloudOff className="h-3 w-3" />
+                          Available offline
+                        </Badge>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
@@ -897,6 +1064,17 @@ function DocumentContent({ id }: { id: string }) {
                         <MessageSquare className="mr-2 h-4 w-4" />
                         Ask Ben
                       </Button>
+                      {isAuthenticated && document.hierarchical_structure && (
+                        <Button variant="ghost" size="sm" onClick={() => setAnnotationsOpen(true)}>
+                          <Highlighter className="mr-2 h-4 w-4" />
+                          Annotations
+                          {annotations.length > 0 && (
+                            <Badge variant="secondary" className="ml-2 px-1.5">
+                              {annotations.length}
+                            </Badge>
+                          )}
+                        </Button>
+                      )}
                       {prevDocument ? (
                         <Button variant="outline" size="sm" className="h-8 px-2.5" asChild>
                           <Link href={buildDocumentHref(prevDocument.id)}>
@@ -931,6 +1109,13 @@ function DocumentContent({ id }: { id: string }) {
                     {document.act_number && (
                       <Badge variant="outline">Act No. {document.act_number}</Badge>
                     )}
+                    {document.bill_stage && <BillStageBadge stage={document.bill_stage} />}
+                    {document.bill_year && (
+                      <Badge variant="outline">{document.bill_year}</Badge>
+                    )}
+                    {document.bill_number && (
+                      <Badge variant="outline">Bill No. {document.bill_number}</Badge>
+                    )}
                     {/* Original-format badge for non-PDF sources that
                         got auto-converted to PDF at ingestion. Lets
                         the public reader see the document's true
@@ -965,6 +1150,11 @@ function DocumentContent({ id }: { id: string }) {
                         Commenced {formatDateOnly(document.commencement_date)}
                       </span>
                     )}
+                    {document.bill_sponsor && (
+                      <span className="rounded-full border bg-muted/30 px-3 py-1">
+                        Sponsored by {document.bill_sponsor}
+                      </span>
+                    )}
                     {legalPath && (
                       <span className="rounded-full border bg-muted/30 px-3 py-1">
                         {legalPath}
@@ -1075,13 +1265,71 @@ function DocumentContent({ id }: { id: string }) {
                     )}
                   </CardContent>
                 </Card>
+                <CitatorPanel
+                  className="mt-6"
+                  documentId={document.id}
+                  documentType="judgment"
+                  returnTo={currentDocumentPath}
+                />
               </div>
             )}
 
-            {/* Acts, Regulations, Constitution: Show rendered AKN content with ToC */}
+            {/* Bills: legislative stage timeline above the bill text */}
+            {document.document_type === "bill" && (
+              <Card className="mb-4">
+                <CardContent className="py-4">
+                  <h3 className="mb-3 font-medium">Legislative Stages</h3>
+                  <BillStageTimeline
+                    stage={document.bill_stage}
+                    history={document.bill_stage_history}
+                    resultingAct={
+                      document.resulting_act_id
+                        ? {
+                            id: document.resulting_act_id,
+                            title: document.resulting_act_title,
+                          }
+                        : null
+                    }
+                  />
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Legislation: point-in-time controls */}
+            {isLegislation && (
+              <>
+                <VersionHistoryBar
+                  className="mb-4"
+                  document={document}
+                  versions={versions || []}
+                  asAt={asAt}
+                  onAsAtChange={handleAsAtChange}
+                  onCompare={() => setVersionCompareOpen(true)}
+                  asAtError={asAtError}
+                  isResolving={!!asAt && asAtQuery.isLoading}
+                />
+                {versions && versions.length > 1 && (
+                  <VersionCompareDialog
+                    key={document.version_number}
+                    documentId={id}
+                    versions={versions}
+                    open={versionCompareOpen}
+                    onOpenChange={setVersionCompareOpen}
+                    initialFrom={document.is_latest_version ? undefined : document.version_number}
+                    onSectionSelect={(eid) => {
+                      setVersionCompareOpen(false);
+                      handleSelectChatCitation(eid);
+                    }}
+                  />
+                )}
+              </>
+            )}
+
+            {/* Acts, Regulations, Constitution, Bills: Show rendered AKN content with ToC */}
             {(document.document_type === "act" ||
               document.document_type === "regulation" ||
-              document.document_type === "constitution") && (
+              document.document_type === "constitution" ||
+              document.document_type === "bill") && (
                 <>
                   <div className="mb-3 flex justify-end lg:hidden">
                     <Sheet open={mobileTocOpen} onOpenChange={setMobileTocOpen}>
@@ -1139,22 +1387,34 @@ function DocumentContent({ id }: { id: string }) {
                       <CardContent className="py-8 px-6 md:px-10">
                         {/* Render hierarchical structure if available */}
                         {document.hierarchical_structure ? (
-                          <HierarchyRenderer
-                            documentId={document.id}
-                            node={document.hierarchical_structure}
-                            document={{
-                              title: document.title,
-                              short_title: document.short_title,
-                              jurisdiction: document.jurisdiction,
-                              act_year: document.act_year,
-                              chapter: document.chapter,
-                              publication_date: document.publication_date,
-                              commencement_date: document.commencement_date,
-                            }}
-                            fontSize="medium"
-                            highlightedSectionId={highlightedSectionId}
-                            showDocumentHeader={false}
-                          />
+                          <div ref={annotationContainerRef} className="relative">
+                            <HierarchyRenderer
+                              documentId={document.id}
+                              node={document.hierarchical_structure}
+                              document={{
+                                title: document.title,
+                                short_title: document.short_title,
+                                jurisdiction: document.jurisdiction,
+                                act_year: document.act_year,
+                                chapter: document.chapter,
+                                publication_date: document.publication_date,
+                                commencement_date: document.commencement_date,
+                              }}
+                              fontSize="medium"
+                              highlightedSectionId={highlightedSectionId}
+                              showDocumentHeader={false}
+                            />
+                            <AnnotationLayer
+                              containerRef={annotationContainerRef}
+                              annotations={annotations}
+                              contentKey={`${document.id}:${document.version_number}`}
+                              canAnnotate={isAuthenticated}
+                              activeAnnotation={activeAnnotation}
+                              onCreate={handleCreateAnnotation}
+                              onActivate={handleActivateAnnotation}
+                              onOrphansChange={setOrphanedAnnotationIds}
+                            />
+                          </div>
                         ) : (
                           <div className="text-center py-8">
                             <FileText className="mx-auto h-12 w-12 text-muted-foreground/50" />
@@ -1176,6 +1436,22 @@ function DocumentContent({ id }: { id: string }) {
                       </CardContent>
                     </Card>
 
+                    {isAuthenticated && (
+                      <AnnotationsSidebar
+                        open={annotationsOpen}
+                        onOpenChange={setAnnotationsOpen}
+                        documentTitle={document.short_title || document.title}
+                        annotations={annotations}
+                        orphanedIds={orphanedAnnotationIds}
+                        activeId={activeAnnotation?.id ?? null}
+                        editingId={editingAnnotationId}
+                        onEditingChange={setEditingAnnotationId}
+                        onNavigate={handleNavigateToAnnotation}
+                        onSave={saveAnnotation}
+                        onDelete={removeAnnotation}
+                      />
+                    )}
+
                     {/* Related documents rail */}
                     {showRelatedDocumentsRail && (
                       <aside className="hidden xl:block sticky top-[148px] self-start">
@@ -1220,6 +1496,18 @@ function DocumentContent({ id }: { id: string }) {
                 </>
               )}
 
+            {/* Citator: judgments citing this Act, or the section being read */}
+            {isLegislation && (
+              <CitatorPanel
+                className="mt-6"
+                documentId={document.id}
+                documentType={document.document_type}
+                sectionEid={activeSectionId ?? highlightedSectionId}
+                onSectionSelect={handleSelectChatCitation}
+                returnTo={currentDocumentPath}
+              />
+            )}
+
             {/* Metadata */}
             <Card className="mt-6">
               <CardContent className="py-4">
@@ -1235,6 +1523,18 @@ function DocumentContent({ id }: { id: string }) {
                       <dd>{document.act_number}</dd>
                     </div>
                   )}
+                  {document.bill_number && (
+                    <div className="space-y-1">
+                      <dt className="text-muted-foreground">Bill Number:</dt>
+                      <dd>{document.bill_number}</dd>
+                    </div>
+                  )}
+                  {document.bill_sponsor && (
+                    <div className="space-y-1">
+                      <dt className="text-muted-foreground">Sponsor:</dt>
+                      <dd>{document.bill_sponsor}</dd>
+                    </div>
+                  )}
                   {document.chapter && (
                     <div className="space-y-1">
                       <dt className="text-muted-foreground">Chapter:</dt>
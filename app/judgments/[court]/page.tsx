@@ -34,6 +34,7 @@ import { useAllDocumentsByType } from "@/lib/hooks";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 import { formatDateOnly } from "@/lib/utils/date-formatter";
+import { getCourtRouteId, getJudgeProfileHref } from "@/lib/utils/court-routes";
 import type { LucideIcon } from "lucide-react";
 
 const DEFAULT_PAGE_SIZE = 18;
@@ -146,6 +147,7 @@ function CourtJudgmentsContent() {
   const year = searchParams.get("year") || "all";
   const sort = searchParams.get("sort") || "date_desc";
   const view = searchParams.get("view") === "list" ? "list" : "grid";
+  const judge = searchParams.get("judge") || "";
 
   const [searchInput, setSearchInput] = useState(query);
   const { data, isLoading, error } = useAllDocumentsByType("judgment");
@@ -170,8 +172,9 @@ function CourtJudgmentsContent() {
   };
 
   const judgments = useMemo(() => {
-    const items = (data || []).filter((item) => item.court_level === courtId);
+    const items = (data || []).filter((item) => getCourtRouteId(item.court_level) === courtId);
     const normalizedQuery = query.trim().toLowerCase();
+    const normalizedJudge = judge.trim().toLowerCase();
 
     const filtered = items.filter((item) => {
       const judgmentYear = getJudgmentYear(item.publication_date);
@@ -193,6 +196,13 @@ function CourtJudgmentsContent() {
         return false;
       }
 
+      if (
+        normalizedJudge &&
+        !item.judges?.some((member) => member.name.toLowerCase() === normalizedJudge)
+      ) {
+        return false;
+      }
+
       return true;
     });
 
@@ -214,7 +224,7 @@ function CourtJudgmentsContent() {
     });
 
     return filtered;
-  }, [data, courtId, query, year, sort]);
+  }, [data, courtId, query, year, sort, judge]);
 
   const totalPages = Math.max(Math.ceil(judgments.length / DEFAULT_PAGE_SIZE), 1);
   const safePage = Math.min(page, totalPages);
@@ -249,6 +259,27 @@ function CourtJudgmentsContent() {
             <Badge variant="secondary">{court.shortName}</Badge>
           </div>
           <p className="mt-2 text-sm text-muted-foreground">{court.description}</p>
+          {judge && (
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="gap-1.5">
+                <Gavel className="h-3.5 w-3.5" />
+                Coram: {judge}
+              </Badge>
+              <Link
+                href={getJudgeProfileHref(judge)}
+                className="text-xs font-medium text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+              >
+                Judge profile
+              </Link>
+              <button
+                type="button"
+                onClick={() => updateParams({ judge: undefined, page: "1" })}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                Clear
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="rounded-2xl border border-border/60 bg-muted/20 px-4 py-3 text-sm lg:min-w-[190px]">
@@ -354,7 +385,7 @@ function CourtJudgmentsContent() {
                 >
                   Apply search
                 </Button>
-                {(query || year !== "all" || sort !== "date_desc" || view !== "list") && (
+                {(query || judge || year !== "all" || sort !== "date_desc" || view !== "list") && (
                   <Button
                     variant="ghost"
                     size="sm"
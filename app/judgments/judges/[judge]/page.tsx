@@ -0,0 +1,311 @@
+"use client";
+
+import { Suspense, useMemo } from "react";
+import { useParams } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft, ArrowRight, Calendar, Gavel, Landmark } from "lucide-react";
+import { Breadcrumbs } from "@/components/navigation/breadcrumbs";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useAvailableJudges, useJudgeJudgments } from "@/lib/hooks";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
+import {
+  COURT_ROUTE_NAMES,
+  getCourtRouteId,
+  getJudgeProfileHref,
+} from "@/lib/utils/court-routes";
+import type { Document } from "@/lib/api/types";
+
+function safeDecode(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function getDecisionDate(judgment: Document) {
+  return judgment.judgment_date || judgment.publication_date || null;
+}
+
+function getDecisionYear(judgment: Document) {
+  const date = getDecisionDate(judgment);
+  if (!date) return null;
+  const year = new Date(date).getFullYear();
+  return Number.isFinite(year) ? year : null;
+}
+
+interface CourtBreakdown {
+  courtLevel: string;
+  routeId: ReturnType<typeof getCourtRouteId>;
+  count: number;
+}
+
+function JudgeProfileContent() {
+  const params = useParams();
+  const judgeName = safeDecode(params.judge as string);
+
+  const { data: judges, isLoading: judgesLoading } = useAvailableJudges();
+  const { data: judgments, isLoading, error } = useJudgeJudgments(judgeName);
+
+  const judge = useMemo(
+    () => judges?.find((j) => j.name.toLowerCase() === judgeName.toLowerCase()) ?? null,
+    [judges, judgeName]
+  );
+  const displayName = judge?.name ?? judgeName;
+
+  const byCourt = useMemo<CourtBreakdown[]>(() => {
+    const counts = new Map<string, number>();
+    for (const item of judgments || []) {
+      const court = item.court_level || "Unknown court";
+      counts.set(court, (counts.get(court) || 0) + 1);
+    }
+    return Array.from(counts, ([courtLevel, count]) => ({
+      courtLevel,
+      routeId: getCourtRouteId(courtLevel),
+      count,
+    })).sort((a, b) => b.count - a.count || a.courtLevel.localeCompare(b.courtLevel));
+  }, [judgments]);
+
+  // Newest year first; undated judgments collect at the end
+  const byYear = useMemo(() => {
+    const groups = new Map<number | null, Document[]>();
+    for (const item of judgments || []) {
+      const year = getDecisionYear(item);
+      const group = groups.get(year) || [];
+      group.push(item);
+      groups.set(year, group);
+    }
+    return Array.from(groups, ([year, items]) => ({ year, items })).sort((a, b) => {
+      if (a.year === null) return 1;
+      if (b.year === null) return -1;
+      return b.year - a.year;
+    });
+  }, [judgments]);
+
+  const maxYearCount = Math.max(1, ...byYear.map((group) => group.items.length));
+  const profileHref = getJudgeProfileHref(displayName);
+  const total = judgments?.length ?? judge?.count ?? 0;
+
+  return (
+    <div className="container mx-auto max-w-6xl px-4 py-6">
+      <Breadcrumbs
+        className="mb-6"
+        items={[
+          { label: "Case Law", href: "/judgments", isCurrentPage: false },
+          { label: displayName, href: profileHref, isCurrentPage: true },
+        ]}
+      />
+
+      <Button variant="ghost" size="sm" asChild className="mb-4 -ml-2">
+        <Link href="/judgments">
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          All judgments
+        </Link>
+      </Button>
+
+      <div className="mb-6 flex flex-col gap-4 lg:flex-row lg:items-end lg:justify-between">
+        <div className="max-w-2xl">
+          <div className="mb-3 inline-flex h-11 w-11 items-center justify-center rounded-2xl bg-muted">
+            <Gavel className="h-5 w-5 text-primary" />
+          </div>
+          {judgesLoading ? (
+            <Skeleton className="h-9 w-72" />
+          ) : (
+            <h1 className="text-3xl font-semibold tracking-tight">
+              {judge?.title ? `${judge.title} ` : ""}
+              {displayName}
+            </h1>
+          )}
+          <p className="mt-2 text-sm text-muted-foreground">
+            Published judgments on which this judge sat, by court and year.
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-border/60 bg-muted/20 px-4 py-3 text-sm lg:min-w-[190px]">
+          <p className="font-medium">
+            {total} judgment{total === 1 ? "" : "s"}
+          </p>
+          <p className="text-muted-foreground">
+            Across {byCourt.length} court{byCourt.length === 1 ? "" : "s"}
+          </p>
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-destructive/20 bg-destructive/5">
+          <CardContent className="pt-6">
+            <p className="text-sm text-destructive">Failed to load judgments. Please try again.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {!error && (
+        <div className="grid gap-6 lg:grid-cols-[300px_minmax(0,1fr)]">
+          <aside className="space-y-4 lg:sticky lg:top-24 lg:self-start">
+            <Card className="border-border/60">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-sm">
+                  <Landmark className="h-4 w-4" />
+                  By court
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1">
+                {isLoading
+                  ? Array.from({ length: 3 }).map((_, index) => (
+                      <Skeleton key={index} className="h-8 w-full" />
+                    ))
+                  : byCourt.map((court) => {
+                      const row = (
+                        <>
+                          <span className="min-w-0 truncate">{court.courtLevel}</span>
+                          <Badge variant="secondary" className="shrink-0 rounded-full">
+                            {court.count}
+                          </Badge>
+                        </>
+                      );
+                      return court.routeId ? (
+                        <Link
+                          key={court.courtLevel}
+                          href={`/judgments/${court.routeId}?judge=${encodeURIComponent(displayName)}`}
+                          title={`Browse ${COURT_ROUTE_NAMES[court.routeId]} judgments with ${displayName} on the coram`}
+                          className={cn(
+                            "flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 text-sm",
+                            surfaceClasses.rowInteractive
+                          )}
+                        >
+                          {row}
+                        </Link>
+                      ) : (
+                        <div
+                          key={court.courtLevel}
+                          className="flex items-center justify-between gap-2 px-2 py-1.5 text-sm"
+                        >
+                          {row}
+                        </div>
+                      );
+                    })}
+              </CardContent>
+            </Card>
+
+            <Card className="border-border/60">
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-sm">
+                  <Calendar className="h-4 w-4" />
+                  By year
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1.5">
+                {isLoading
+                  ? Array.from({ length: 4 }).map((_, index) => (
+                      <Skeleton key={index} className="h-5 w-full" />
+                    ))
+                  : byYear.map((group) => (
+                      <a
+                        key={group.year ?? "undated"}
+                        href={`#year-${group.year ?? "undated"}`}
+                        className="flex items-center gap-2 text-xs"
+                      >
+                        <span className="w-14 shrink-0 text-muted-foreground">
+                          {group.year ?? "Undated"}
+                        </span>
+                        <span className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+                          <span
+                            className="block h-full rounded-full bg-primary/70"
+                            style={{ width: `${(group.items.length / maxYearCount) * 100}%` }}
+                          />
+                        </span>
+                        <span className="w-6 shrink-0 text-right font-medium">{group.items.length}</span>
+                      </a>
+                    ))}
+              </CardContent>
+            </Card>
+          </aside>
+
+          <div className="min-w-0 space-y-8">
+            {isLoading &&
+              Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-20 w-full" />
+              ))}
+
+            {!isLoading && byYear.length === 0 && (
+              <Card>
+                <CardContent className="py-14 text-center">
+                  <Gavel className="mx-auto h-12 w-12 text-muted-foreground/40" />
+                  <h3 className="mt-4 text-lg font-medium">No published judgments</h3>
+                  <p className="mt-2 text-sm text-muted-foreground">
+                    We have no published judgments listing {displayName} on the coram.
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {byYear.map((group) => (
+              <section key={group.year ?? "undated"} id={`year-${group.year ?? "undated"}`}>
+                <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                  {group.year ?? "Undated"} · {group.items.length}
+                </h2>
+                <div className="space-y-3">
+                  {group.items.map((judgment) => {
+                    const decisionDate = getDecisionDate(judgment);
+                    const href = `/document/${judgment.id}?returnTo=${encodeURIComponent(profileHref)}&from=judgments`;
+                    return (
+                      <Link key={judgment.id} href={href} className="group block">
+                        <Card className={cn("border-border/60", surfaceClasses.pagePanelInteractive)}>
+                          <CardContent className="flex items-start justify-between gap-3 py-4">
+                            <div className="min-w-0 space-y-1.5">
+                              <div className="flex flex-wrap items-center gap-2 text-[11px] font-medium text-muted-foreground">
+                                {judgment.court_level && (
+                                  <Badge variant="outline" className="rounded-full text-[11px]">
+                                    {judgment.court_level}
+                                  </Badge>
+                                )}
+                                {judgment.case_number && <span>{judgment.case_number}</span>}
+                                {decisionDate && <span>{formatDateOnly(decisionDate)}</span>}
+                              </div>
+                              <h3 className="font-medium leading-tight">{judgment.title}</h3>
+                              {judgment.judges && judgment.judges.length > 1 && (
+                                <p className="text-xs text-muted-foreground">
+                                  Coram: {judgment.judges.map((j) => j.name).join(", ")}
+                                </p>
+                              )}
+                            </div>
+                            <ArrowRight className="ll-icon-muted mt-1 h-4 w-4 shrink-0 transition-transform group-hover:translate-x-1" />
+                          </CardContent>
+                        </Card>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function JudgeProfilePage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="container mx-auto max-w-6xl px-4 py-6">
+          <Skeleton className="mb-6 h-8 w-40" />
+          <Skeleton className="mb-6 h-32 w-full" />
+          <div className="space-y-3">
+            {Array.from({ length: 6 }).map((_, index) => (
+              <Skeleton key={index} className="h-20 w-full" />
+            ))}
+          </div>
+        </div>
+      }
+    >
+      <JudgeProfileContent />
+    </Suspense>
+  );
+}
@@ -15,13 +15,18 @@ import {
   Bookmark,
   Share2,
   Sparkles,
+  UserRound,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getDocuments, getJudgmentYears, getAvailableJudges } from "@/lib/api";
 import type { JudgeInfo } from "@/lib/api/documents";
-import type { Document } from "@/lib/api/types";
+import type { Document, LegalArea } from "@/lib/api/types";
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { formatDateOnly } from "@/lib/utils/date-formatter";
+import { getJudgeProfileHref } from "@/lib/utils/court-routes";
+import { LEGAL_AREA_LABELS } from "@/lib/utils/legal-areas";
+import { useLegalAreaCounts } from "@/lib/hooks";
+import { LegalAreaChips } from "@/components/legal-areas";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useIsDocumentSaved, useLibraryStore } from "@/lib/stores";
 
@@ -49,8 +54,6 @@ const courtLevels = [
   { id: "Uganda Human Rights Commission", label: "Uganda Human Rights Commission", icon: Landmark, group: "Tribunals" },
 ] as const;
 
-/* Legal area filter chips — TODO: re-enable when legal_area metadata available */
-
 /* Year options are now loaded dynamically from the API */
 
 /* ────────────────────────────────────────────────────────────
@@ -70,21 +73,25 @@ export default function JudgmentsPage() {
   const [selectedCourts, setSelectedCourts] = useState<string[]>([]);
   const [selectedYear, setSelectedYear] = useState<string>("");
   const [selectedJudge, setSelectedJudge] = useState<string>("");
+  const [selectedArea, setSelectedArea] = useState<LegalArea | "">("");
   const [sortBy, setSortBy] = useState("newest");
   const PAGE_SIZE = 20;
 
   // Dynamic filter data from API
   const [yearOptions, setYearOptions] = useState<{ label: string; value: string }[]>([]);
   const [availableJudges, setAvailableJudges] = useState<JudgeInfo[]>([]);
+  const { data: legalAreaCounts } = useLegalAreaCounts("judgment");
 
-  // Debounced search for API calls
+  // Debounced search and judge filter for API calls
   const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [debouncedJudge, setDebouncedJudge] = useState("");
   useEffect(() => {
     const timer = setTimeout(() => {
       setDebouncedSearch(searchQuery);
+      setDebouncedJudge(selectedJudge.trim());
     }, 300);
     return () => clearTimeout(timer);
-  }, [searchQuery]);
+  }, [searchQuery, selectedJudge]);
 
   // Map sort UI values to API params
   const sortParams = useMemo(() => {
@@ -110,6 +117,8 @@ export default function JudgmentsPage() {
       selectedCourts[0] || "",
       selectedYear,
       debouncedSearch,
+      debouncedJudge,
+      selectedArea,
       sortParams.sort_by,
       sortParams.sort_order,
     ],
@@ -121,6 +130,8 @@ export default function JudgmentsPage() {
         court_level: selectedCourts[0] || undefined,
         year_from: selectedYear ? parseInt(selectedYear, 10) : undefined,
         search: debouncedSearch || undefined,
+        judge: debouncedJudge || undefined,
+        legal_area: selectedArea || undefined,
         ...sortParams,
       }),
     initialPageParam: 1,
@@ -130,7 +141,7 @@ export default function JudgmentsPage() {
   });
 
   // Flatten all pages into a single array (derived, no setState needed)
-  const allItems = useMemo(
+  const judgments = useMemo(
     () => data?.pages.flatMap((p) => p.items) ?? [],
     [data]
   );
@@ -178,14 +189,12 @@ export default function JudgmentsPage() {
       .catch(() => setAvailableJudges([]));
   }, []);
 
-  // Apply client-side judge filter on accumulated items (judge filter not in API yet)
-  const judgments = useMemo(() => {
-    if (!selectedJudge) return allItems;
-    const q = selectedJudge.toLowerCase();
-    return allItems.filter((j) =>
-      j.judges?.some((judge: { name: string }) => judge.name.toLowerCase().includes(q))
-    );
-  }, [allItems, selectedJudge]);
+  // Offer the profile link once the filter names a known judge exactly
+  const matchedJudge = useMemo(() => {
+    const q = debouncedJudge.toLowerCase();
+    if (!q) return null;
+    return availableJudges.find((j) => j.name.toLowerCase() === q) ?? null;
+  }, [availableJudges, debouncedJudge]);
 
   const totalResults = data?.pages[0]?.total || 0;
 
@@ -207,6 +216,7 @@ export default function JudgmentsPage() {
     setSelectedCourts([]);
     setSelectedYear("");
     setSelectedJudge("");
+    setSelectedArea("");
     setSearchQuery("");
     // Filters changed — infinite query auto-resets via queryKey
   };
@@ -293,7 +303,16 @@ export default function JudgmentsPage() {
                 </select>
               </div>
 
-              {/* Legal Area — TODO: add back when legal_area metadata is available via LLM extraction */}
+              {/* Legal Area */}
+              <div>
+                <label className="ll-label-xs mb-3 block">Legal Area</label>
+                <LegalAreaChips
+                  value={selectedArea}
+                  onChange={setSelectedArea}
+                  counts={legalAreaCounts}
+                  size="sm"
+                />
+              </div>
 
               {/* Judge / Coram Filter */}
               <div>
@@ -322,16 +341,27 @@ export default function JudgmentsPage() {
                   </datalist>
                 </div>
                 {selectedJudge && (
-                  <button
-                    type="button"
-                    onClick={() => {
-                      setSelectedJudge("");
-                      // Filters changed — infinite query auto-resets via queryKey
-                    }}
-                    className="mt-2 text-xs text-muted-foreground hover:text-foreground ll-transition"
-                  >
-                    Clear judge filter
-                  </button>
+                  <div className="mt-2 flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setSelectedJudge("");
+                        // Filters changed — infinite query auto-resets via queryKey
+                      }}
+                      className="text-xs text-muted-foreground hover:text-foreground ll-transition"
+                    >
+                      Clear judge filter
+                    </button>
+                    {matchedJudge && (
+                      <Link
+                        href={getJudgeProfileHref(matchedJudge.name)}
+                        className="flex items-center gap-1 text-xs font-semibold text-brand-700 hover:underline dark:text-brand-gold"
+                      >
+                        <UserRound className="h-3.5 w-3.5" />
+                        View profile
+                      </Link>
+                    )}
+                  </div>
                 )}
               </div>
             </div>
@@ -540,10 +570,32 @@ function JudgmentCard({ judgment }: { judgment: Document }) {
             {judgment.judges && judgment.judges.length > 0 && (
               <span className="flex items-center gap-1.5">
                 <Gavel className="h-3.5 w-3.5" />
-                {judgment.judges.map((j) => j.name).join(", ")}
+                {judgment.judges.map((j, index) => (
+                  <span key={j.name}>
+                    <Link
+                      href={getJudgeProfileHref(j.name)}
+                      className="ll-transition hover:text-foreground hover:underline"
+                    >
+                      {j.name}
+                    </Link>
+                    {index < judgment.judges!.length - 1 ? "," : ""}
+                  </span>
+                ))}
               </span>
             )}
           </div>
+          {judgment.legal_areas && judgment.legal_areas.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-1.5">
+              {judgment.legal_areas.map((area) => (
+                <span
+                  key={area}
+                  className="rounded-full bg-surface-container-high px-2.5 py-0.5 text-[10px] font-semibold text-muted-foreground"
+                >
+                  {LEGAL_AREA_LABELS[area] ?? area}
+                </span>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Action buttons */}
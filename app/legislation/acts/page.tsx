@@ -12,11 +12,13 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { getDocuments } from "@/lib/api";
-import type { Document } from "@/lib/api/types";
+import type { Document, LegalArea } from "@/lib/api/types";
 import { useInfiniteQuery } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useIsDocumentSaved, useLibraryStore } from "@/lib/stores";
 import { Breadcrumbs } from "@/components/navigation/breadcrumbs";
+import { LegalAreaChips } from "@/components/legal-areas";
+import { useLegalAreaCounts } from "@/lib/hooks";
 
 const PAGE_SIZE = 20;
 
@@ -64,6 +66,8 @@ export default function ActsPage() {
   const [debouncedSearch, setDebouncedSearch] = useState("");
   const [sortBy, setSortBy] = useState("title_asc");
   const [selectedLetter, setSelectedLetter] = useState<string>("");
+  const [selectedArea, setSelectedArea] = useState<LegalArea | "">("");
+  const { data: legalAreaCounts } = useLegalAreaCounts("act");
   const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Debounce search
@@ -85,13 +89,14 @@ export default function ActsPage() {
     isFetchingNextPage,
     isLoading,
   } = useInfiniteQuery({
-    queryKey: ["acts", debouncedSearch, sortBy],
+    queryKey: ["acts", debouncedSearch, sortBy, selectedArea],
     queryFn: ({ pageParam }) =>
       getDocuments({
         document_type: "act",
         page: pageParam,
         size: PAGE_SIZE,
         search: debouncedSearch || undefined,
+        legal_area: selectedArea || undefined,
         ...sortParams,
       }),
     initialPageParam: 1,
@@ -195,6 +200,15 @@ export default function ActsPage() {
         </div>
       </div>
 
+      {/* ── Legal Area Chips ── */}
+      <div className="px-6 pb-3 lg:px-12">
+        <LegalAreaChips
+          value={selectedArea}
+          onChange={setSelectedArea}
+          counts={legalAreaCounts}
+        />
+      </div>
+
       {/* ── Alphabet Quick Jump ── */}
       <div className="px-6 pb-6 lg:px-12">
         <div className="flex flex-wrap gap-1">
@@ -246,7 +260,7 @@ export default function ActsPage() {
               <FileText className="mx-auto h-10 w-10 text-muted-foreground/40" />
               <h3 className="mt-4 text-lg font-semibold">No acts found</h3>
               <p className="mt-1 text-sm text-muted-foreground">
-                {searchQuery || selectedLetter
+                {searchQuery || selectedLetter || selectedArea
                   ? "Try adjusting your search or filter"
                   : "No acts have been published yet"}
               </p>
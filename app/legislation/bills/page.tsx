@@ -1,13 +1,140 @@
 "use client";
 
-import { FileText } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import {
+  Search,
+  FileText,
+  Calendar,
+  Hash,
+  User,
+  Bookmark,
+  Share2,
+  ArrowRight,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getDocuments } from "@/lib/api";
+import type { BillStage, Document } from "@/lib/api/types";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useIsDocumentSaved, useLibraryStore } from "@/lib/stores";
 import { Breadcrumbs } from "@/components/navigation/breadcrumbs";
+import {
+  BillStageBadge,
+  BILL_STAGE_LABELS,
+  BILL_STAGE_ORDER,
+  getFurthestStage,
+} from "@/components/bills";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
 
-/**
- * Bills page — placeholder for future implementation.
- * Will be structured like the Judgments page with bill summaries and metadata.
- */
+const PAGE_SIZE = 20;
+
+/* ────────────────────────────────────────────────────────────
+   Sort options
+   ──────────────────────────────────────────────────────────── */
+const sortOptions = [
+  { label: "Newest First", value: "newest", sort_by: "updated_at", sort_order: "desc" },
+  { label: "Oldest First", value: "oldest", sort_by: "updated_at", sort_order: "asc" },
+  { label: "Title A-Z", value: "title_asc", sort_by: "title", sort_order: "asc" },
+  { label: "Title Z-A", value: "title_desc", sort_by: "title", sort_order: "desc" },
+] as const;
+
+/* ────────────────────────────────────────────────────────────
+   Stage filter chips — procedural stages plus the two exits
+   ──────────────────────────────────────────────────────────── */
+const stageFilters: BillStage[] = [...BILL_STAGE_ORDER, "withdrawn", "lapsed"];
+
+/* ────────────────────────────────────────────────────────────
+   Helper: get the meaningful start of a title, stripping "The "
+   ──────────────────────────────────────────────────────────── */
+function titleForLetterFilter(title: string): string {
+  return title.replace(/^the\s+/i, "");
+}
+
+/* ────────────────────────────────────────────────────────────
+   Helper: date of the bill's most recent stage event
+   ──────────────────────────────────────────────────────────── */
+function latestStageDate(bill: Document): string | null {
+  const history = bill.bill_stage_history || [];
+  return history.length ? history[history.length - 1].date : null;
+}
+
+/* ════════════════════════════════════════════════════════════
+   PAGE COMPONENT
+   ════════════════════════════════════════════════════════════ */
 export default function BillsPage() {
+  const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sortBy, setSortBy] = useState("newest");
+  const [selectedLetter, setSelectedLetter] = useState<string>("");
+  const [selectedStage, setSelectedStage] = useState<BillStage | "">("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  const sortParams = useMemo(() => {
+    const opt = sortOptions.find((o) => o.value === sortBy) || sortOptions[0];
+    return { sort_by: opt.sort_by, sort_order: opt.sort_order };
+  }, [sortBy]);
+
+  // Fetch bills with infinite query
+  const {
+    data,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+    isLoading,
+  } = useInfiniteQuery({
+    queryKey: ["bills", debouncedSearch, sortBy, selectedStage],
+    queryFn: ({ pageParam }) =>
+      getDocuments({
+        document_type: "bill",
+        page: pageParam,
+        size: PAGE_SIZE,
+        search: debouncedSearch || undefined,
+        bill_stage: selectedStage || undefined,
+        ...sortParams,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) =>
+      lastPage.page < lastPage.total_pages ? lastPage.page + 1 : undefined,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  // Flatten pages into single array, with client-side letter filter as safety net
+  const allBills = useMemo(() => {
+    const items = data?.pages.flatMap((p) => p.items) || [];
+    if (selectedLetter) {
+      return items.filter((bill) =>
+        titleForLetterFilter(bill.title).toUpperCase().startsWith(selectedLetter)
+      );
+    }
+    return items;
+  }, [data, selectedLetter]);
+  const totalCount = data?.pages[0]?.total || 0;
+
+  // Infinite scroll observer
+  useEffect(() => {
+    if (!loadMoreRef.current || !hasNextPage) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasNextPage && !isFetchingNextPage) {
+          void fetchNextPage();
+        }
+      },
+      { threshold: 0.1 }
+    );
+    observer.observe(loadMoreRef.current);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Alphabet quick jump
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
+
   return (
     <div className="min-h-screen">
       {/* Breadcrumbs */}
@@ -21,29 +148,348 @@ export default function BillsPage() {
         />
       </div>
 
-      {/* Header */}
+      {/* ── Search Header ── */}
       <div className="px-6 pb-4 pt-6 lg:px-12">
-        <h1 className="text-2xl font-bold tracking-tight lg:text-3xl">
-          Bills
-        </h1>
-        <p className="mt-1 text-sm text-muted-foreground">
-          Track parliamentary bills through the legislative process
-        </p>
+        <div className="mx-auto max-w-2xl">
+          <div className="relative overflow-hidden rounded-full bg-card shadow-soft ring-1 ring-border/60 transition-all focus-within:ring-[3px] focus-within:ring-primary/50 dark:ring-glass dark:focus-within:ring-brand-gold/40">
+            <div className="flex items-center px-5 py-3">
+              <Search className="mr-3 h-5 w-5 shrink-0 text-muted-foreground" />
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => {
+                  setSearchQuery(e.target.value);
+                  setSelectedLetter("");
+                }}
+                placeholder="Search bills by title, bill number, or sponsor..."
+                className="min-w-0 flex-1 border-0 bg-transparent text-base font-sans shadow-none ring-0 placeholder:text-muted-foreground/60 focus:outline-none focus:ring-0"
+              />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* ── Results Header + Sort ── */}
+      <div className="px-6 pb-2 lg:px-12">
+        <div className="flex flex-wrap items-baseline justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight lg:text-3xl">
+              Bills
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              Showing {allBills.length} of {totalCount} bills
+            </p>
+          </div>
+          <div className="flex items-center gap-2 rounded-full bg-surface-container-high px-4 py-2">
+            <span className="text-[10px] font-bold uppercase tracking-widest text-muted-foreground">
+              Sort by:
+            </span>
+            <select
+              value={sortBy}
+              onChange={(e) => setSortBy(e.target.value)}
+              className="border-0 bg-transparent text-[10px] font-bold uppercase tracking-widest text-foreground focus:ring-0"
+            >
+              {sortOptions.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      {/* ── Stage Filter ── */}
+      <div className="px-6 pb-3 lg:px-12">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by legislative stage">
+          <button
+            type="button"
+            onClick={() => setSelectedStage("")}
+            className={cn(
+              "ll-transition rounded-full px-4 py-1.5 text-xs font-bold",
+              !selectedStage
+                ? "bg-primary text-primary-foreground"
+                : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+            )}
+          >
+            All Stages
+          </button>
+          {stageFilters.map((stage) => (
+            <button
+              key={stage}
+              type="button"
+              onClick={() => setSelectedStage(selectedStage === stage ? "" : stage)}
+              className={cn(
+                "ll-transition rounded-full px-4 py-1.5 text-xs font-bold",
+                selectedStage === stage
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+              )}
+            >
+              {BILL_STAGE_LABELS[stage]}
+            </button>
+          ))}
+        </div>
       </div>
 
-      {/* Coming Soon */}
+      {/* ── Alphabet Quick Jump ── */}
+      <div className="px-6 pb-6 lg:px-12">
+        <div className="flex flex-wrap gap-1">
+          <button
+            type="button"
+            onClick={() => {
+              setSelectedLetter("");
+              setSearchQuery("");
+            }}
+            className={cn(
+              "ll-transition h-8 w-8 rounded-full text-xs font-bold",
+              !selectedLetter
+                ? "bg-primary text-primary-foreground"
+                : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+            )}
+          >
+            All
+          </button>
+          {alphabet.map((letter) => (
+            <button
+              key={letter}
+              type="button"
+              onClick={() => {
+                setSelectedLetter(letter);
+                setSearchQuery("");
+              }}
+              className={cn(
+                "ll-transition h-8 w-8 rounded-full text-xs font-bold",
+                selectedLetter === letter
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+              )}
+            >
+              {letter}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* ── Bill Cards ── */}
       <div className="px-6 pb-16 lg:px-12">
-        <div className="rounded-xl border border-transparent bg-card p-12 text-center shadow-soft dark:border-glass">
-          <div className="mx-auto flex h-16 w-16 items-center justify-center rounded-2xl bg-brand-gold/10">
-            <FileText className="h-8 w-8 text-brand-gold" />
+        <div className="space-y-4">
+          {isLoading ? (
+            Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-28 w-full rounded-xl" />
+            ))
+          ) : allBills.length === 0 ? (
+            <div className="rounded-xl border border-transparent bg-card p-12 text-center shadow-soft dark:border-glass">
+              <FileText className="mx-auto h-10 w-10 text-muted-foreground/40" />
+              <h3 className="mt-4 text-lg font-semibold">No bills found</h3>
+              <p className="mt-1 text-sm text-muted-foreground">
+                {searchQuery || selectedLetter || selectedStage
+                  ? "Try adjusting your search or filter"
+                  : "No bills have been published yet"}
+              </p>
+            </div>
+          ) : (
+            allBills.map((bill) => <BillCard key={bill.id} bill={bill} />)
+          )}
+
+          {/* Infinite scroll sentinel */}
+          <div ref={loadMoreRef} className="h-1" />
+
+          {isFetchingNextPage && (
+            <div className="flex justify-center py-8">
+              <div className="flex flex-col items-center gap-2">
+                <div className="h-8 w-8 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+                <span className="text-xs text-muted-foreground">Loading more bills...</span>
+              </div>
+            </div>
+          )}
+
+          {!hasNextPage && allBills.length > 0 && allBills.length >= PAGE_SIZE && (
+            <p className="py-4 text-center text-xs text-muted-foreground">
+              All {totalCount} bills loaded
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/* ────────────────────────────────────────────────────────────
+   Stage progress bar — one segment per procedural stage
+   ──────────────────────────────────────────────────────────── */
+function StageProgress({ bill }: { bill: Document }) {
+  const furthest = getFurthestStage(bill.bill_stage, bill.bill_stage_history);
+  const furthestIndex = furthest ? BILL_STAGE_ORDER.indexOf(furthest) : -1;
+
+  return (
+    <div
+      className="flex gap-1"
+      role="img"
+      aria-label={
+        furthest
+          ? `Reached ${BILL_STAGE_LABELS[furthest]} (${furthestIndex + 1} of ${BILL_STAGE_ORDER.length} stages)`
+          : "No stage recorded"
+      }
+    >
+      {BILL_STAGE_ORDER.map((stage, index) => (
+        <span
+          key={stage}
+          title={BILL_STAGE_LABELS[stage]}
+          className={cn(
+            "h-1.5 flex-1 rounded-full",
+            index <= furthestIndex ? "bg-primary" : "bg-surface-container-highest"
+          )}
+        />
+      ))}
+    </div>
+  );
+}
+
+/* ────────────────────────────────────────────────────────────
+   Bill Card Component
+   ──────────────────────────────────────────────────────────── */
+function BillCard({ bill }: { bill: Document }) {
+  const [shareCopied, setShareCopied] = useState(false);
+
+  // Persistent bookmark
+  const isSaved = useIsDocumentSaved(bill.id);
+  const saveDocument = useLibraryStore((s) => s.saveDocument);
+  const unsaveDocument = useLibraryStore((s) => s.unsaveDocument);
+
+  const stageDate = latestStageDate(bill);
+  const documentHref = `/document/${bill.id}?returnTo=${encodeURIComponent("/legislation/bills")}&from=bills`;
+
+  const handleBookmark = () => {
+    if (isSaved) {
+      unsaveDocument(bill.id);
+    } else {
+      saveDocument({
+        id: bill.id,
+        humanReadableId: bill.human_readable_id,
+        title: bill.title,
+        documentType: bill.document_type,
+        actYear: bill.bill_year,
+      });
+    }
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}/document/${bill.id}`;
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: bill.title, url });
+        return;
+      } catch { /* cancelled */ }
+    }
+    try {
+      await navigator.clipboard.writeText(url);
+      setShareCopied(true);
+      setTimeout(() => setShareCopied(false), 2000);
+    } catch { /* clipboard unavailable */ }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-xl border border-transparent bg-card p-6 shadow-soft ll-transition hover:shadow-floating dark:border-glass">
+      {/* Top row: badge + stage + actions */}
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          {/* Badge row */}
+          <div className="mb-3 flex flex-wrap items-center gap-2">
+            <span className="inline-block rounded-full bg-primary text-primary-foreground px-3 py-1 text-[10px] font-bold uppercase tracking-widest">
+              Bill
+            </span>
+            {bill.bill_stage && <BillStageBadge stage={bill.bill_stage} />}
+            {bill.bill_year && (
+              <span className="inline-block rounded-full bg-brand-gold/15 text-brand-ink dark:text-brand-gold px-3 py-1 text-[10px] font-bold">
+                {bill.bill_year}
+              </span>
+            )}
+          </div>
+
+          {/* Title */}
+          <h3 className="text-xl font-extrabold leading-tight lg:text-2xl">
+            <Link href={documentHref} className="ll-transition hover:text-brand-gold">
+              {bill.title}
+            </Link>
+          </h3>
+
+          {/* Metadata row */}
+          <div className="mt-2 flex flex-wrap gap-4 text-xs font-bold uppercase tracking-widest text-muted-foreground">
+            {bill.bill_number && (
+              <span className="flex items-center gap-1.5">
+                <Hash className="h-3.5 w-3.5" />
+                Bill No. {bill.bill_number}
+              </span>
+            )}
+            {bill.bill_sponsor && (
+              <span className="flex items-center gap-1.5">
+                <User className="h-3.5 w-3.5" />
+                {bill.bill_sponsor}
+              </span>
+            )}
+            {stageDate && (
+              <span className="flex items-center gap-1.5">
+                <Calendar className="h-3.5 w-3.5" />
+                Last action {formatDateOnly(stageDate)}
+              </span>
+            )}
           </div>
-          <h3 className="mt-6 text-lg font-bold">Coming Soon</h3>
-          <p className="mx-auto mt-2 max-w-md text-sm text-muted-foreground">
-            The Bills tracking module is under development. You&apos;ll be able to
-            search bills, view summaries, track amendments, and monitor the
-            legislative process.
-          </p>
         </div>
+
+        {/* Action buttons */}
+        <div className="ml-4 flex gap-2">
+          <button
+            type="button"
+            title={isSaved ? "Remove from library" : "Save to library"}
+            onClick={handleBookmark}
+            className={cn(
+              "flex h-10 w-10 items-center justify-center rounded-full ll-transition",
+              isSaved
+                ? "bg-brand-gold/20 text-brand-gold"
+                : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+            )}
+          >
+            <Bookmark className={cn("h-4 w-4", isSaved && "fill-current")} />
+          </button>
+          <button
+            type="button"
+            title={shareCopied ? "Link copied!" : "Share"}
+            onClick={handleShare}
+            className={cn(
+              "flex h-10 w-10 items-center justify-center rounded-full ll-transition",
+              shareCopied
+                ? "bg-status-success-bg text-status-success-fg"
+                : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+            )}
+          >
+            <Share2 className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Stage progress */}
+      <div className="mt-4 max-w-md">
+        <StageProgress bill={bill} />
+      </div>
+
+      {/* Action buttons row */}
+      <div className="mt-5 flex flex-wrap items-center gap-4">
+        <Link
+          href={documentHref}
+          className="inline-flex items-center gap-2 rounded-xl bg-primary px-6 py-3 text-xs font-bold uppercase tracking-widest text-primary-foreground ll-transition hover:opacity-90"
+        >
+          View Bill
+        </Link>
+        {bill.resulting_act_id && (
+          <Link
+            href={`/document/${bill.resulting_act_id}`}
+            className="inline-flex items-center gap-1.5 text-xs font-bold uppercase tracking-widest text-brand-700 underline-offset-4 ll-transition hover:underline dark:text-brand-gold"
+          >
+            {bill.resulting_act_title ? `Became ${bill.resulting_act_title}` : "View resulting Act"}
+            <ArrowRight className="h-3.5 w-3.5" />
+          </Link>
+        )}
       </div>
     </div>
   );
@@ -33,6 +33,9 @@ import { useAllDocumentsByType } from "@/lib/hooks";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 import { resolveDocumentYear } from "@/lib/utils/document-year";
+import { LEGAL_AREA_LABELS, isLegalArea } from "@/lib/utils/legal-areas";
+import { LegalAreaChips } from "@/components/legal-areas";
+import type { LegalArea } from "@/lib/api/types";
 
 const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("");
 const DEFAULT_PAGE_SIZE = 20;
@@ -84,6 +87,8 @@ function RegulationsContent() {
   const page = Math.max(Number(searchParams.get("page") || "1"), 1);
   const letter = searchParams.get("letter") || "";
   const year = searchParams.get("year") || "all";
+  const areaParam = searchParams.get("area");
+  const area: LegalArea | "" = isLegalArea(areaParam) ? areaParam : "";
   const sort = searchParams.get("sort") || "title_asc";
   const query = searchParams.get("q") || "";
   const view = searchParams.get("view") === "list" ? "list" : "grid";
@@ -111,6 +116,16 @@ function RegulationsContent() {
     router.push(next ? `/legislation/regulations?${next}` : "/legislation/regulations");
   };
 
+  const legalAreaCounts = useMemo(() => {
+    const counts: Partial<Record<LegalArea, number>> = {};
+    for (const item of data || []) {
+      for (const itemArea of item.legal_areas || []) {
+        counts[itemArea] = (counts[itemArea] || 0) + 1;
+      }
+    }
+    return counts;
+  }, [data]);
+
   const regulations = useMemo(() => {
     const items = [...(data || [])];
 
@@ -136,6 +151,10 @@ function RegulationsContent() {
         return false;
       }
 
+      if (area && !item.legal_areas?.includes(area)) {
+        return false;
+      }
+
       if (normalizedQuery && !searchableText.includes(normalizedQuery)) {
         return false;
       }
@@ -161,7 +180,7 @@ function RegulationsContent() {
     });
 
     return filtered;
-  }, [data, letter, year, query, sort]);
+  }, [data, letter, year, area, query, sort]);
 
   const totalPages = Math.max(Math.ceil(regulations.length / DEFAULT_PAGE_SIZE), 1);
   const safePage = Math.min(page, totalPages);
@@ -175,6 +194,7 @@ function RegulationsContent() {
     year !== "all"
       ? { key: "year", label: yearBuckets.find((bucket) => bucket.value === year)?.label || year }
       : null,
+    area ? { key: "area", label: LEGAL_AREA_LABELS[area] } : null,
     query ? { key: "q", label: `Search: ${query}` } : null,
   ].filter(Boolean) as Array<{ key: string; label: string }>;
 
@@ -314,6 +334,20 @@ function RegulationsContent() {
             </div>
           </div>
 
+          {(area || Object.keys(legalAreaCounts).length > 0) && (
+            <div className="mt-4 space-y-2">
+              <label className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                Legal area
+              </label>
+              <LegalAreaChips
+                value={area}
+                onChange={(value) => updateParams({ area: value || undefined, page: "1" })}
+                counts={legalAreaCounts}
+                size="sm"
+              />
+            </div>
+          )}
+
           <div className="mt-3 flex flex-wrap items-center gap-2">
                 <Button
                   variant="brand"
@@ -5,6 +5,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
     ArrowLeft,
+    Briefcase,
     Trash2,
     FileText,
     Settings,
@@ -15,6 +16,8 @@ import {
     ScrollText,
     Gavel,
     FlaskConical,
+    Users,
+    LogOut,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -37,7 +40,9 @@ import {
     AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
-import { collectionsApi, type Collection } from "@/lib/api/collections";
+import { CollectionMembersDialog } from "@/components/collections/collection-members-dialog";
+import { AddToMatterDialog } from "@/components/matters";
+import { collectionsApi, type Collection, type CollectionItem } from "@/lib/api/collections";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 import { formatDateOnly } from "@/lib/utils/date-formatter";
@@ -65,10 +70,12 @@ export default function CollectionDetailPage(props: PageProps) {
     const params = use(props.params);
     const router = useRouter();
     const { isLoading: authLoading } = useRequireAuth();
-    const { isAuthenticated } = useAuth();
+    const { isAuthenticated, user } = useAuth();
     const [collection, setCollection] = useState<Collection | null>(null);
     const [loading, setLoading] = useState(true);
     const [deleting, setDeleting] = useState(false);
+    const [membersOpen, setMembersOpen] = useState(false);
+    const [matterOpen, setMatterOpen] = useState(false);
 
     const loadCollection = useCallback(async () => {
         setLoading(true);
@@ -105,6 +112,18 @@ export default function CollectionDetailPage(props: PageProps) {
         }
     };
 
+    const handleLeave = async () => {
+        if (!user) return;
+        try {
+            await collectionsApi.removeMember(params.id, user.id);
+            toast.success("You left the collection");
+            router.push("/library");
+        } catch (error) {
+            console.error("Failed to leave collection:", error);
+            toast.error("Failed to leave collection");
+        }
+    };
+
     const handleRemoveItem = async (itemId: string) => {
         try {
             await collectionsApi.removeItem(params.id, itemId);
@@ -132,6 +151,16 @@ export default function CollectionDetailPage(props: PageProps) {
 
     if (!collection) return null;
 
+    const isOwner = collection.my_role === "owner";
+    const canEdit = collection.my_role !== "viewer";
+    const isShared = collection.visibility === "organization";
+    const addedBy = (item: CollectionItem) => {
+        // Items saved before sharing existed have no author; only the owner could add them.
+        if (!item.added_by_user_id) return isOwner ? "you" : collection.owner_name ?? "the owner";
+        if (item.added_by_user_id === user?.id) return "you";
+        return item.added_by_name ?? "a former member";
+    };
+
     return (
         <div className="container py-8 mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
             <div className="mb-8">
@@ -157,6 +186,25 @@ export default function CollectionDetailPage(props: PageProps) {
                             </div>
                             <div>•</div>
                             <div>{collection.items?.length || 0} items</div>
+                            {isShared && (
+                                <>
+                                    <div>•</div>
+                                    <button
+                                        type="button"
+                                        className="flex items-center gap-1 hover:text-foreground"
+                                        onClick={() => setMembersOpen(true)}
+                                    >
+                                        <Users className="h-4 w-4" />
+                                        <span>{(collection.member_count ?? 0) + 1} people</span>
+                                    </button>
+                                    <Badge variant="info">Shared</Badge>
+                                    {!isOwner && (
+                                        <Badge variant="outline">
+                                            {canEdit ? "Editor" : "View only"}
+                                        </Badge>
+                                    )}
+                                </>
+                            )}
                         </div>
                     </div>
 
@@ -167,45 +215,87 @@ export default function CollectionDetailPage(props: PageProps) {
                             </Button>
                         </DropdownMenuTrigger>
                         <DropdownMenuContent align="end">
-                            <DropdownMenuItem disabled>
-                                <Settings className="mr-2 h-4 w-4" />
-                                Edit Details
-                            </DropdownMenuItem>
+                            {isOwner && (
+                                <DropdownMenuItem disabled>
+                                    <Settings className="mr-2 h-4 w-4" />
+                                    Edit Details
+                                </DropdownMenuItem>
+                            )}
+                            {((isOwner && user?.default_organization_id) || isShared) && (
+                                <DropdownMenuItem onSelect={() => setMembersOpen(true)}>
+                                    <Users className="mr-2 h-4 w-4" />
+                                    {isOwner ? "Manage access" : "Members"}
+                                </DropdownMenuItem>
+                            )}
+                            {user?.default_organization_id && (
+                                <DropdownMenuItem onSelect={() => setMatterOpen(true)}>
+                                    <Briefcase className="mr-2 h-4 w-4" />
+                                    Add to matter
+                                </DropdownMenuItem>
+                            )}
                             <DropdownMenuSeparator />
-                            <AlertDialog>
-                                <AlertDialogTrigger asChild>
-                                    <DropdownMenuItem
-                                        className="text-destructive focus:text-destructive"
-                                        onSelect={(e) => e.preventDefault()}
-                                    >
-                                        <Trash2 className="mr-2 h-4 w-4" />
-                                        Delete Collection
-                                    </DropdownMenuItem>
-                                </AlertDialogTrigger>
-                                <AlertDialogContent>
-                                    <AlertDialogHeader>
-                                        <AlertDialogTitle>Delete collection?</AlertDialogTitle>
-                                        <AlertDialogDescription>
-                                            This will permanently delete &quot;{collection.name}&quot; and all saved items within it.
-                                            This action cannot be undone.
-                                        </AlertDialogDescription>
-                                    </AlertDialogHeader>
-                                    <AlertDialogFooter>
-                                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                                            onClick={handleDeleteCollection}
-                                            className="bg-destructive"
-                                            disabled={deleting}
+                            {!isOwner && (
+                                <DropdownMenuItem
+                                    className="text-destructive focus:text-destructive"
+                                    onSelect={handleLeave}
+                                >
+                                    <LogOut className="mr-2 h-4 w-4" />
+                                    Leave Collection
+                                </DropdownMenuItem>
+                            )}
+                            {isOwner && (
+                                <AlertDialog>
+                                    <AlertDialogTrigger asChild>
+                                        <DropdownMenuItem
+                                            className="text-destructive focus:text-destructive"
+                                            onSelect={(e) => e.preventDefault()}
                                         >
-                                            {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                                            Delete
-                                        </AlertDialogAction>
-                                    </AlertDialogFooter>
-                                </AlertDialogContent>
-                            </AlertDialog>
+                                            <Trash2 className="mr-2 h-4 w-4" />
+                                            Delete Collection
+                                        </DropdownMenuItem>
+                                    </AlertDialogTrigger>
+                                    <AlertDialogContent>
+                                        <AlertDialogHeader>
+                                            <AlertDialogTitle>Delete collection?</AlertDialogTitle>
+                                            <AlertDialogDescription>
+                                                This will permanently delete &quot;{collection.name}&quot; and all saved items within it.
+                                                This action cannot be undone.
+                                            </AlertDialogDescription>
+                                        </AlertDialogHeader>
+                                        <AlertDialogFooter>
+                                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                            <AlertDialogAction
+                                                onClick={handleDeleteCollection}
+                                                className="bg-destructive"
+                                                disabled={deleting}
+                                            >
+                                                {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                                                Delete
+                                            </AlertDialogAction>
+                                        </AlertDialogFooter>
+                                    </AlertDialogContent>
+                                </AlertDialog>
+                            )}
                         </DropdownMenuContent>
                     </DropdownMenu>
                 </div>
+                <CollectionMembersDialog
+                    collection={collection}
+                    currentUserId={user?.id}
+                    open={membersOpen}
+                    onOpenChange={setMembersOpen}
+                    onChange={(updated) =>
+                        setCollection((prev) => (prev ? { ...prev, ...updated, items: prev.items } : prev))
+                    }
+                    onLeft={() => router.push("/library")}
+                />
+                <AddToMatterDialog
+                    open={matterOpen}
+                    onOpenChange={setMatterOpen}
+                    itemType="collection"
+                    itemId={collection.id}
+                    itemTitle={collection.name}
+                />
             </div>
 
             <div className="space-y-4">
@@ -252,7 +342,11 @@ export default function CollectionDetailPage(props: PageProps) {
                                                         {typeLabel}
                                                     </Badge>
                                                     <span>•</span>
-                                                    <span>Added {formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}</span>
+                                                    <span>
+                                                        Added
+                                                        {isShared && ` by ${addedBy(item)}`}
+                                                        {" "}{formatDistanceToNow(new Date(item.created_at), { addSuffix: true })}
+                                                    </span>
                                                 </div>
                                                 {isResearch && typeof item.meta?.session_query === "string" && item.meta.session_query && (
                                                     <p className="mt-1 line-clamp-1 text-xs text-muted-foreground">
@@ -265,14 +359,16 @@ export default function CollectionDetailPage(props: PageProps) {
                                                     </div>
                                                 )}
                                             </div>
-                                            <Button
-                                                variant="ghost"
-                                                size="icon"
-                                                className={cn("opacity-0 transition-opacity group-hover:opacity-100", surfaceClasses.iconButtonDanger)}
-                                                onClick={() => handleRemoveItem(item.id)}
-                                            >
-                                                <Trash2 className="h-4 w-4" />
-                                            </Button>
+                                            {canEdit && (
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className={cn("opacity-0 transition-opacity group-hover:opacity-100", surfaceClasses.iconButtonDanger)}
+                                                    onClick={() => handleRemoveItem(item.id)}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -2,7 +2,8 @@
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import { Plus, Book, FileText, Loader2, FolderOpen, Calendar } from "lucide-react";
+import { Plus, Book, FileText, Loader2, FolderOpen, Calendar, Users } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -23,6 +24,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import { collectionsApi, type Collection } from "@/lib/api/collections";
 import { toast } from "sonner";
@@ -30,17 +32,23 @@ import { formatDateOnly } from "@/lib/utils/date-formatter";
 import { cn } from "@/lib/utils";
 import { useAuth, useRequireAuth } from "@/components/providers";
 import { PageLoading } from "@/components/common";
+import { MatterFilter } from "@/components/matters";
+import { useMatterFilter } from "@/hooks/use-matter-filter";
+import { filterByMatter } from "@/lib/utils/matters";
 import { surfaceClasses } from "@/lib/design-system";
 
 export default function LibraryPage() {
   const { isLoading: authLoading } = useRequireAuth();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [collections, setCollections] = useState<Collection[]>([]);
   const [loading, setLoading] = useState(true);
   const [createOpen, setCreateOpen] = useState(false);
   const [creating, setCreating] = useState(false);
   const [newName, setNewName] = useState("");
   const [newDesc, setNewDesc] = useState("");
+  const [newShared, setNewShared] = useState(false);
+  const canShare = Boolean(user?.default_organization_id);
+  const matterFilter = useMatterFilter("collection");
 
   useEffect(() => {
     if (!isAuthenticated) {
@@ -75,11 +83,13 @@ export default function LibraryPage() {
         name: newName.trim(),
         description: newDesc.trim() || undefined,
         is_public: false,
+        visibility: canShare && newShared ? "organization" : "private",
       });
       setCollections([newCollection, ...collections]);
       setCreateOpen(false);
       setNewName("");
       setNewDesc("");
+      setNewShared(false);
       toast.success("Collection created");
     } catch (error) {
       console.error("Failed to create collection:", error);
@@ -89,6 +99,10 @@ export default function LibraryPage() {
     }
   };
 
+  const visible = filterByMatter(collections, (c) => c.id, matterFilter.matterItemIds);
+  const personal = visible.filter((c) => c.visibility !== "organization");
+  const shared = visible.filter((c) => c.visibility === "organization");
+
   if (authLoading || !isAuthenticated) {
     return <PageLoading message="Redirecting to login..." />;
   }
@@ -110,51 +124,65 @@ export default function LibraryPage() {
             Manage your saved documents and research collections
           </p>
         </div>
-        <Dialog open={createOpen} onOpenChange={setCreateOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="mr-2 h-4 w-4" />
-              New Collection
-            </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Create New Collection</DialogTitle>
-              <DialogDescription>
-                Create a collection to organize your research and saved documents.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="grid gap-4 py-4">
-              <div className="grid gap-2">
-                <Label htmlFor="name">Name</Label>
-                <Input
-                  id="name"
-                  value={newName}
-                  onChange={(e) => setNewName(e.target.value)}
-                  placeholder="e.g., Constitutional Law Research"
-                />
-              </div>
-              <div className="grid gap-2">
-                <Label htmlFor="description">Description (optional)</Label>
-                <Textarea
-                  id="description"
-                  value={newDesc}
-                  onChange={(e) => setNewDesc(e.target.value)}
-                  placeholder="What is this collection for?"
-                />
-              </div>
-            </div>
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setCreateOpen(false)}>
-                Cancel
-              </Button>
-              <Button onClick={handleCreate} disabled={creating}>
-                {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Create
+        <div className="flex items-center gap-2">
+          <MatterFilter value={matterFilter.matterId} onChange={matterFilter.setMatterId} />
+          <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="mr-2 h-4 w-4" />
+                New Collection
               </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Create New Collection</DialogTitle>
+                <DialogDescription>
+                  Create a collection to organize your research and saved documents.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="grid gap-4 py-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="name">Name</Label>
+                  <Input
+                    id="name"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="e.g., Constitutional Law Research"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="description">Description (optional)</Label>
+                  <Textarea
+                    id="description"
+                    value={newDesc}
+                    onChange={(e) => setNewDesc(e.target.value)}
+                    placeholder="What is this collection for?"
+                  />
+                </div>
+                {canShare && (
+                  <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <div>
+                      <Label htmlFor="shared">Share with my organization</Label>
+                      <p className="text-xs text-muted-foreground">
+                        You can choose who can view or edit once it&apos;s created.
+                      </p>
+                    </div>
+                    <Switch id="shared" checked={newShared} onCheckedChange={setNewShared} />
+                  </div>
+                )}
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setCreateOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={creating}>
+                  {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Create
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {collections.length === 0 ? (
@@ -173,39 +201,96 @@ export default function LibraryPage() {
             </Button>
           </CardContent>
         </Card>
+      ) : matterFilter.matterId && !matterFilter.isLoading && visible.length === 0 ? (
+        <p className="py-16 text-center text-sm text-muted-foreground">
+          No collections are filed in this matter.
+        </p>
       ) : (
-        <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
-          {collections.map((collection) => (
-            <Link key={collection.id} href={`/library/${collection.id}`} className="group block h-full">
-              <Card className={cn("h-full", surfaceClasses.pagePanelInteractive)}>
-                <CardHeader>
-                  <CardTitle className="flex items-start justify-between gap-2">
-                    <span className="truncate">{collection.name}</span>
-                    <FolderOpen className="ll-icon-muted h-5 w-5 shrink-0" />
-                  </CardTitle>
-                  <CardDescription className="line-clamp-2">
-                    {collection.description || "No description"}
-                  </CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    <div className="flex items-center gap-1">
-                      <FileText className="h-4 w-4" />
-                      <span>{collection.item_count || 0} items</span>
-                    </div>
-                  </div>
-                </CardContent>
-                <CardFooter className="text-xs text-muted-foreground border-t pt-4 mt-2">
-                  <div className="flex items-center gap-1">
-                    <Calendar className="h-3 w-3" />
-                    <span>Updated {formatDateOnly(collection.updated_at)}</span>
-                  </div>
-                </CardFooter>
-              </Card>
-            </Link>
-          ))}
+        <div className="space-y-10">
+          {personal.length > 0 && (
+            <CollectionSection title="Personal" collections={personal} />
+          )}
+          {shared.length > 0 && (
+            <CollectionSection title="Shared with your organization" collections={shared} />
+          )}
         </div>
       )}
     </div>
   );
 }
+
+const ROLE_LABELS: Record<Collection["my_role"], string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "View only",
+};
+
+function CollectionSection({
+  title,
+  collections,
+}: {
+  title: string;
+  collections: Collection[];
+}) {
+  return (
+    <section>
+      <h2 className="mb-4 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+        {title}
+      </h2>
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {collections.map((collection) => (
+          <CollectionCard key={collection.id} collection={collection} />
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function CollectionCard({ collection }: { collection: Collection }) {
+  const isShared = collection.visibility === "organization";
+
+  return (
+    <Link href={`/library/${collection.id}`} className="group block h-full">
+      <Card className={cn("h-full", surfaceClasses.pagePanelInteractive)}>
+        <CardHeader>
+          <CardTitle className="flex items-start justify-between gap-2">
+            <span className="truncate">{collection.name}</span>
+            <FolderOpen className="ll-icon-muted h-5 w-5 shrink-0" />
+          </CardTitle>
+          <CardDescription className="line-clamp-2">
+            {collection.description || "No description"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+            <div className="flex items-center gap-1">
+              <FileText className="h-4 w-4" />
+              <span>{collection.item_count || 0} items</span>
+            </div>
+            {isShared && (
+              <div className="flex items-center gap-1">
+                <Users className="h-4 w-4" />
+                <span>{(collection.member_count ?? 0) + 1} people</span>
+              </div>
+            )}
+          </div>
+          {isShared && (
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <Badge variant="info">Shared</Badge>
+              <Badge variant="outline">{ROLE_LABELS[collection.my_role]}</Badge>
+              {collection.my_role !== "owner" && collection.owner_name && (
+                <span className="text-xs text-muted-foreground">by {collection.owner_name}</span>
+              )}
+            </div>
+          )}
+        </CardContent>
+        <CardFooter className="text-xs text-muted-foreground border-t pt-4 mt-2">
+          <div className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            <span>Updated {formatDateOnly(collection.updated_at)}</span>
+          </div>
+        </CardFooter>
+      </Card>
+    </Link>
+  );
+}
@@ -0,0 +1,384 @@
+"use client";
+
+import { use, useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Activity,
+  ArrowLeft,
+  Archive,
+  ArchiveRestore,
+  BookOpen,
+  Briefcase,
+  FileText,
+  FlaskConical,
+  FolderOpen,
+  Loader2,
+  LogOut,
+  MessageSquareText,
+  MoreVertical,
+  Pencil,
+  Scale,
+  Trash2,
+  Users,
+  X,
+  type LucideIcon,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { PageLoading } from "@/components/common";
+import { MatterFormDialog, MatterMembersDialog, MatterTimeline } from "@/components/matters";
+import { useAuth, useRequireAuth } from "@/components/providers";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  deleteMatter,
+  getMatter,
+  listMatterItems,
+  removeMatterItem,
+  removeMatterMember,
+  updateMatter,
+  type Matter,
+  type MatterItem,
+  type MatterItemType,
+} from "@/lib/api/matters";
+import { MATTER_ITEM_LABELS, MATTER_ITEM_TYPES, matterItemHref } from "@/lib/utils/matters";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+
+const ITEM_ICONS: Record<MatterItemType, LucideIcon> = {
+  conversation: MessageSquareText,
+  research_session: FlaskConical,
+  contract_session: Scale,
+  kb_document: FileText,
+  collection: FolderOpen,
+};
+
+interface PageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default function MatterDetailPage(props: PageProps) {
+  const params = use(props.params);
+  const router = useRouter();
+  const { isLoading: authLoading } = useRequireAuth();
+  const { isAuthenticated, user } = useAuth();
+  const [matter, setMatter] = useState<Matter | null>(null);
+  const [items, setItems] = useState<MatterItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [deleting, setDeleting] = useState(false);
+  const [timelineKey, setTimelineKey] = useState(0);
+
+  const loadMatter = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [data, filed] = await Promise.all([getMatter(params.id), listMatterItems(params.id)]);
+      setMatter(data);
+      setItems(filed);
+    } catch (error) {
+      console.error("Failed to load matter:", error);
+      toast.error(getUserFriendlyError(error, "Failed to load matter"));
+      router.push("/matters");
+    } finally {
+      setLoading(false);
+    }
+  }, [params.id, router]);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setLoading(false);
+      return;
+    }
+    loadMatter();
+  }, [isAuthenticated, loadMatter]);
+
+  const groups = useMemo(
+    () =>
+      MATTER_ITEM_TYPES.map((type) => ({ type, items: items.filter((item) => item.item_type === type) })).filter(
+        (group) => group.items.length > 0
+      ),
+    [items]
+  );
+
+  const handleStatusChange = async () => {
+    if (!matter) return;
+    const status = matter.status === "open" ? "closed" : "open";
+    try {
+      const updated = await updateMatter(matter.id, { status });
+      setMatter(updated);
+      setTimelineKey((key) => key + 1);
+      toast.success(status === "closed" ? "Matter closed" : "Matter reopened");
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to update matter"));
+    }
+  };
+
+  const handleRemoveItem = async (item: MatterItem) => {
+    try {
+      await removeMatterItem(params.id, item.item_type, item.item_id);
+      setItems((prev) =>
+        prev.filter((i) => !(i.item_type === item.item_type && i.item_id === item.item_id))
+      );
+      setTimelineKey((key) => key + 1);
+      toast.success("Removed from matter");
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to remove item"));
+    }
+  };
+
+  const handleDelete = async () => {
+    setDeleting(true);
+    try {
+      await deleteMatter(params.id);
+      toast.success("Matter deleted");
+      router.push("/matters");
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to delete matter"));
+      setDeleting(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!user) return;
+    try {
+      await removeMatterMember(params.id, user.id);
+      toast.success("You left the matter");
+      router.push("/matters");
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to leave matter"));
+    }
+  };
+
+  if (authLoading || !isAuthenticated) {
+    return <PageLoading message="Redirecting to login..." />;
+  }
+
+  if (loading) {
+    return (
+      <div className="flex h-[50vh] items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!matter) return null;
+
+  const isOwner = matter.my_role === "owner";
+  const canEdit = matter.my_role !== "viewer";
+  const isClosed = matter.status === "closed";
+
+  return (
+    <div className="container mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8">
+        <Link href="/matters" className={cn("mb-4 inline-flex items-center text-sm", surfaceClasses.textLink)}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Matters
+        </Link>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-3">
+              <h1 className="text-3xl font-bold tracking-tight">{matter.name}</h1>
+              {isClosed && <Badge variant="secondary">Closed</Badge>}
+            </div>
+            {(matter.client_name || matter.reference) && (
+              <p className="mt-2 text-muted-foreground">
+                {[matter.client_name, matter.reference].filter(Boolean).join(" · ")}
+              </p>
+            )}
+            {matter.description && <p className="mt-2 max-w-3xl text-sm text-muted-foreground">{matter.description}</p>}
+            <div className="mt-4 flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+              <button
+                type="button"
+                className="flex items-center gap-1 hover:text-foreground"
+                onClick={() => setMembersOpen(true)}
+              >
+                <Users className="h-4 w-4" />
+                <span>{matter.member_count + 1} people</span>
+              </button>
+              {!isOwner && <Badge variant="outline">{canEdit ? "Editor" : "View only"}</Badge>}
+            </div>
+          </div>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" aria-label="Matter actions">
+                <MoreVertical className="ll-icon-muted h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {canEdit && (
+                <>
+                  <DropdownMenuItem onSelect={() => setEditOpen(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit details
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onSelect={handleStatusChange}>
+                    {isClosed ? (
+                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                    ) : (
+                      <Archive className="mr-2 h-4 w-4" />
+                    )}
+                    {isClosed ? "Reopen matter" : "Close matter"}
+                  </DropdownMenuItem>
+                </>
+              )}
+              <DropdownMenuItem onSelect={() => setMembersOpen(true)}>
+                <Users className="mr-2 h-4 w-4" />
+                {isOwner ? "Manage access" : "Members"}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              {!isOwner && (
+                <DropdownMenuItem className="text-destructive focus:text-destructive" onSelect={handleLeave}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Leave matter
+                </DropdownMenuItem>
+              )}
+              {isOwner && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onSelect={(e) => e.preventDefault()}
+                    >
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete matter
+                    </DropdownMenuItem>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete matter?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This deletes &quot;{matter.name}&quot; and its timeline. The conversations, research,
+                        contracts, documents and collections filed in it are kept.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={handleDelete} className="bg-destructive" disabled={deleting}>
+                        {deleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                        Delete
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        <div className="space-y-8 lg:col-span-2">
+          {groups.length === 0 ? (
+            <div className="rounded-lg border-2 border-dashed py-12 text-center">
+              <Briefcase className="mx-auto h-8 w-8 text-muted-foreground/40" />
+              <p className="mt-3 text-muted-foreground">Nothing is filed in this matter yet.</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Use &quot;Add to matter&quot; on a conversation, research run, contract, document or collection.
+              </p>
+            </div>
+          ) : (
+            groups.map((group) => {
+              const Icon = ITEM_ICONS[group.type];
+              return (
+                <section key={group.type}>
+                  <h2 className="mb-3 flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                    <Icon className="h-4 w-4" />
+                    {MATTER_ITEM_LABELS[group.type].plural}
+                    <Badge variant="secondary" className="text-xs">
+                      {group.items.length}
+                    </Badge>
+                  </h2>
+                  <ul className="divide-y rounded-xl border bg-card">
+                    {group.items.map((item) => (
+                      <li key={item.item_id} className="group flex items-center gap-3 px-4 py-3">
+                        <div className="min-w-0 flex-1">
+                          <Link
+                            href={matterItemHref(item.item_type, item.item_id)}
+                            className="block truncate text-sm font-medium hover:underline"
+                          >
+                            {item.title}
+                          </Link>
+                          <p className="text-xs text-muted-foreground">
+                            Added
+                            {item.added_by_name && ` by ${item.added_by_name}`}{" "}
+                            {formatDistanceToNow(new Date(item.added_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                        {canEdit && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+                            onClick={() => handleRemoveItem(item)}
+                            title="Remove from matter"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })
+          )}
+          <p className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <BookOpen className="h-3.5 w-3.5" />
+            Filing an item here doesn&apos;t change who can open it; members still need access to each item.
+          </p>
+        </div>
+
+        <aside className="rounded-xl border border-transparent bg-card p-5 shadow-soft dark:border-glass">
+          <h2 className="mb-4 flex items-center gap-2 text-base font-semibold">
+            <Activity className="h-4 w-4 text-muted-foreground" />
+            Timeline
+          </h2>
+          <MatterTimeline matterId={matter.id} refreshKey={timelineKey} />
+        </aside>
+      </div>
+
+      <MatterFormDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        matter={matter}
+        onSaved={(updated) => {
+          setMatter(updated);
+          setTimelineKey((key) => key + 1);
+        }}
+      />
+      <MatterMembersDialog
+        matter={matter}
+        currentUserId={user?.id}
+        open={membersOpen}
+        onOpenChange={setMembersOpen}
+        onChange={(updated) => {
+          setMatter(updated);
+          setTimelineKey((key) => key + 1);
+        }}
+        onLeft={() => router.push("/matters")}
+      />
+    </div>
+  );
+}
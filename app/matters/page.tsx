@@ -0,0 +1,200 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Briefcase, Calendar, Loader2, Plus, Search, Users } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertBanner, EmptyState, PageLoading } from "@/components/common";
+import { MatterFormDialog } from "@/components/matters";
+import { useAuth, useRequireAuth } from "@/components/providers";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import { listMatters, type Matter, type MatterStatus } from "@/lib/api/matters";
+import { MATTER_ITEM_LABELS, MATTER_ITEM_TYPES } from "@/lib/utils/matters";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+
+export default function MattersPage() {
+  const { isLoading: authLoading } = useRequireAuth();
+  const { isAuthenticated, user } = useAuth();
+  const [status, setStatus] = useState<MatterStatus>("open");
+  const [loaded, setLoaded] = useState<{ status: MatterStatus; matters: Matter[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [createOpen, setCreateOpen] = useState(false);
+  const hasOrganization = Boolean(user?.default_organization_id);
+
+  useEffect(() => {
+    if (!isAuthenticated || !hasOrganization) return;
+    let cancelled = false;
+    listMatters({ status })
+      .then((matters) => {
+        if (cancelled) return;
+        setLoaded({ status, matters });
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setLoaded({ status, matters: [] });
+        setError(
+          err instanceof APIError && err.status === 403
+            ? "You don't have access to matters in this organization."
+            : getUserFriendlyError(err, "Failed to load matters")
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, hasOrganization, status]);
+
+  const matters = useMemo(() => {
+    const list = loaded?.status === status ? loaded.matters : [];
+    const q = search.trim().toLowerCase();
+    if (!q) return list;
+    return list.filter((matter) =>
+      [matter.name, matter.client_name, matter.reference].some((field) => field?.toLowerCase().includes(q))
+    );
+  }, [loaded, status, search]);
+
+  if (authLoading || !isAuthenticated) {
+    return <PageLoading message="Redirecting to login..." />;
+  }
+
+  const loading = hasOrganization && loaded?.status !== status;
+
+  return (
+    <div className="container mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
+      <div className="mb-8 flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Matters</h1>
+          <p className="mt-2 text-muted-foreground">
+            Keep the chats, research, contracts, documents and collections for each client engagement together.
+          </p>
+        </div>
+        {hasOrganization && (
+          <Button onClick={() => setCreateOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Matter
+          </Button>
+        )}
+      </div>
+
+      {!hasOrganization ? (
+        <EmptyState
+          icon={Briefcase}
+          title="Matters are shared within an organization"
+          description="Create or join an organization to open matters and work on them with your colleagues."
+          action={{ label: "Set up organization", href: "/settings/organization" }}
+        />
+      ) : (
+        <>
+          <div className="mb-6 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <Tabs value={status} onValueChange={(value) => setStatus(value as MatterStatus)}>
+              <TabsList>
+                <TabsTrigger value="open">Open</TabsTrigger>
+                <TabsTrigger value="closed">Closed</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="relative sm:w-72">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, client or reference"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+          </div>
+
+          {error && <AlertBanner variant="error" message={error} className="mb-6" />}
+
+          {loading ? (
+            <div className="flex h-[30vh] items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : matters.length === 0 ? (
+            !error && (
+              <EmptyState
+                icon={Briefcase}
+                title={search.trim() ? "No matching matters" : status === "open" ? "No open matters" : "No closed matters"}
+                description={
+                  status === "open" && !search.trim()
+                    ? "Open a matter for each client engagement, then file conversations, research and contracts under it."
+                    : undefined
+                }
+              />
+            )
+          ) : (
+            <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {matters.map((matter) => (
+                <MatterCard key={matter.id} matter={matter} />
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <MatterFormDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onSaved={(matter) =>
+          setLoaded((current) =>
+            current && current.status === "open" ? { ...current, matters: [matter, ...current.matters] } : current
+          )
+        }
+      />
+    </div>
+  );
+}
+
+const ROLE_LABELS: Record<Matter["my_role"], string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "View only",
+};
+
+function MatterCard({ matter }: { matter: Matter }) {
+  const counts = MATTER_ITEM_TYPES.filter((type) => (matter.item_counts[type] ?? 0) > 0).map(
+    (type) => `${matter.item_counts[type]} ${MATTER_ITEM_LABELS[type].plural.toLowerCase()}`
+  );
+
+  return (
+    <Link href={`/matters/${matter.id}`} className="group block h-full">
+      <Card className={cn("h-full", surfaceClasses.pagePanelInteractive)}>
+        <CardHeader>
+          <CardTitle className="flex items-start justify-between gap-2">
+            <span className="truncate">{matter.name}</span>
+            <Briefcase className="ll-icon-muted h-5 w-5 shrink-0" />
+          </CardTitle>
+          <CardDescription className="line-clamp-2">
+            {[matter.client_name, matter.reference].filter(Boolean).join(" · ") || "No client recorded"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <p className="text-sm text-muted-foreground">{counts.length > 0 ? counts.join(", ") : "Nothing filed yet"}</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline">{ROLE_LABELS[matter.my_role]}</Badge>
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Users className="h-3.5 w-3.5" />
+              {matter.member_count + 1} people
+            </span>
+          </div>
+        </CardContent>
+        <CardFooter className="mt-2 border-t pt-4 text-xs text-muted-foreground">
+          <div className="flex items-center gap-1">
+            <Calendar className="h-3 w-3" />
+            <span>
+              {matter.last_activity_at
+                ? `Active ${formatDistanceToNow(new Date(matter.last_activity_at), { addSuffix: true })}`
+                : `Opened ${formatDistanceToNow(new Date(matter.created_at), { addSuffix: true })}`}
+            </span>
+          </div>
+        </CardFooter>
+      </Card>
+    </Link>
+  );
+}
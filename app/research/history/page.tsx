@@ -5,6 +5,7 @@ import Link from "next/link";
 import { useRouter } from "next/navigation";
 import {
   AlertCircle,
+  Briefcase,
   CheckCircle2,
   ChevronRight,
   Clock,
@@ -30,12 +31,16 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { AlertBanner, EmptyState } from "@/components/common";
+import { ResearchExportMenu } from "@/components/research/research-export-menu";
+import { AddToMatterDialog, MatterFilter } from "@/components/matters";
+import { useMatterFilter } from "@/hooks/use-matter-filter";
 import {
   deleteResearchSession,
   getMyResearchSessions,
   type ResearchSessionListItem,
   type ResearchStatus,
 } from "@/lib/api/research";
+import { filterByMatter } from "@/lib/utils/matters";
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 
@@ -66,9 +71,11 @@ const IN_PROGRESS_STATUSES = new Set<ResearchStatus>([
 function SessionCard({
   session,
   onDelete,
+  onAddToMatter,
 }: {
   session: ResearchSessionListItem;
   onDelete: (id: string) => void;
+  onAddToMatter: (session: ResearchSessionListItem) => void;
 }) {
   const config = statusConfig[session.status] || statusConfig.created;
   const StatusIcon = config.icon;
@@ -111,6 +118,19 @@ function SessionCard({
             </div>
           </div>
           <div className="flex shrink-0 items-center gap-2">
+            {session.status === "complete" && session.has_report && (
+              <ResearchExportMenu sessionId={session.session_id} compact className="h-8 w-8" />
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="ll-icon-button h-8 w-8"
+              onClick={() => onAddToMatter(session)}
+              aria-label={`Add to matter: ${displayTitle}`}
+              title="Add to matter"
+            >
+              <Briefcase className="h-4 w-4" aria-hidden="true" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -136,6 +156,8 @@ export default function ResearchHistoryPage() {
   const [filter, setFilter] = useState<FilterKey>("all");
   const [search, setSearch] = useState("");
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [matterTarget, setMatterTarget] = useState<ResearchSessionListItem | null>(null);
+  const matterFilter = useMatterFilter("research_session");
   const tabRefs = useRef<Record<FilterKey, HTMLButtonElement | null>>({
     all: null,
     complete: null,
@@ -159,7 +181,11 @@ export default function ResearchHistoryPage() {
     void loadSessions();
   }, [loadSessions]);
 
-  const filteredSessions = sessions.filter((s) => {
+  const filteredSessions = filterByMatter(
+    sessions,
+    (s) => s.session_id,
+    matterFilter.matterItemIds
+  ).filter((s) => {
     if (filter === "complete" && s.status !== "complete") return false;
     if (filter === "in_progress" && !IN_PROGRESS_STATUSES.has(s.status)) return false;
     if (search.trim()) {
@@ -283,8 +309,8 @@ export default function ResearchHistoryPage() {
               })}
             </div>
 
-            <div className="mb-6">
-              <div className="relative">
+            <div className="mb-6 flex flex-col gap-2 sm:flex-row">
+              <div className="relative flex-1">
                 <Search
                   className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
                   aria-hidden="true"
@@ -298,15 +324,23 @@ export default function ResearchHistoryPage() {
                   aria-label="Search research sessions"
                 />
               </div>
+              <MatterFilter value={matterFilter.matterId} onChange={matterFilter.setMatterId} />
             </div>
 
-            {filteredSessions.length === 0 ? (
+            {matterFilter.isLoading ? (
+              <div className="flex items-center justify-center py-16 text-muted-foreground">
+                <Loader2 className="mr-2 h-5 w-5 animate-spin" />
+                Loading matter…
+              </div>
+            ) : filteredSessions.length === 0 ? (
               <div className="mt-8">
                 <EmptyState
                   icon={FileSearch}
                   title="No matches"
                   description={
-                    filter === "complete"
+                    matterFilter.matterId
+                      ? "No sessions in this matter match your filters."
+                      : filter === "complete"
                       ? "No completed sessions match your search."
                       : filter === "in_progress"
                         ? "No in-progress sessions match your search."
@@ -321,6 +355,7 @@ export default function ResearchHistoryPage() {
                     key={session.session_id}
                     session={session}
                     onDelete={handleDelete}
+                    onAddToMatter={setMatterTarget}
                   />
                 ))}
               </div>
@@ -328,6 +363,19 @@ export default function ResearchHistoryPage() {
           </>
         )}
 
+        {matterTarget && (
+          <AddToMatterDialog
+            open
+            onOpenChange={(open) => {
+              if (!open) setMatterTarget(null);
+            }}
+            itemType="research_session"
+            itemId={matterTarget.session_id}
+            itemTitle={matterTarget.title?.trim() || matterTarget.query.slice(0, 80)}
+            onChange={matterFilter.refresh}
+          />
+        )}
+
         <AlertDialog open={!!deleteId} onOpenChange={() => setDeleteId(null)}>
           <AlertDialogContent>
             <AlertDialogHeader>
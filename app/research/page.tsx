@@ -12,7 +12,6 @@ import {
   CheckCircle2,
   FileText,
   AlertCircle,
-  Download,
   BookOpen,
   Clock,
   Sparkles,
@@ -50,7 +49,6 @@ import {
   approveResearchBrief,
   saveResearchBrief,
   getResearchReport,
-  getResearchDownloadUrl,
   resetResearchToStage,
   cancelResearchSession,
   saveResearchReport,
@@ -75,6 +73,7 @@ import { SaveToCollectionButton } from "@/components/collections/save-to-collect
 import { getToolSuggestedQuestions } from "@/components/chat/tools-dropdown";
 import { ClaimVerificationBadge } from "@/components/research/claim-verification-badge";
 import { WeakResearchBanner } from "@/components/research/weak-research-banner";
+import { ResearchExportMenu } from "@/components/research/research-export-menu";
 import { DocumentPanel, DocumentWorkspaceShell } from "@/components/canvas/document-workspace-shell";
 import { RichTextToolbar } from "@/components/canvas/rich-text-toolbar";
 import { useEntitlements } from "@/hooks/use-entitlements";
@@ -2520,12 +2519,11 @@ function ResearchContent() {
                     className="rounded-full"
                     showLabel
                   />
-                  <Button variant="outline" size="sm" asChild className="rounded-full">
-                    <a href={getResearchDownloadUrl(session.session_id)} download>
-                      <Download className="mr-2 h-4 w-4" />
-                      Export to Word
-                    </a>
-                  </Button>
+                  <ResearchExportMenu
+                    sessionId={session.session_id}
+                    disabled={reportSaveState === "saving"}
+                    className="rounded-full"
+                  />
                 </div>
               }
               toolbar={<RichTextToolbar editor={reportEditor} disabled={!reportEditor && !activeReportSection} />}
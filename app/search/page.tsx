@@ -36,9 +36,16 @@ import { sanitizeSearchHighlight } from "@/lib/utils/sanitize";
 import { useSearch, type SearchMode } from "@/lib/hooks";
 import { Breadcrumbs } from "@/components/navigation/breadcrumbs";
 import { SearchSuggestions, saveRecentSearch } from "@/components/search";
-import type { DocumentType, SearchResult, SemanticResult, HybridResult } from "@/lib/api/types";
+import type {
+  DocumentType,
+  HybridResult,
+  LegalArea,
+  SearchResult,
+  SemanticResult,
+} from "@/lib/api/types";
 import { useAuth, useRequireAuth } from "@/components/providers";
 import { PageLoading } from "@/components/common";
+import { LEGAL_AREA_LABELS, LEGAL_AREA_ORDER } from "@/lib/utils/legal-areas";
 
 const documentTypeConfig: Record<
   DocumentType,
@@ -76,6 +83,14 @@ const documentTypeConfig: Record<
     color: "text-primary",
     bgColor: "bg-card",
   },
+  bill: {
+    label: "Bill",
+    pluralLabel: "Bills",
+    icon: FileText,
+    className: "badge-bill",
+    color: "text-primary",
+    bgColor: "bg-card",
+  },
   // Internal KB docs aren't indexed by the public-corpus search, but the
   // type contract requires an entry. If this label ever surfaces here it's
   // a UX bug — kept neutral so it degrades gracefully.
@@ -153,12 +168,20 @@ function SearchContent() {
     });
   };
 
+  const toggleLegalArea = (area: LegalArea) => {
+    const next = filters.legalAreas.includes(area)
+      ? filters.legalAreas.filter((a) => a !== area)
+      : [...filters.legalAreas, area];
+    updateSearchParams({ area: next.join(","), page: "1" });
+  };
+
   const clearFilters = () => {
     updateSearchParams({
       type: undefined,
       year_from: undefined,
       year_to: undefined,
       court: undefined,
+      area: undefined,
       page: "1",
     });
   };
@@ -167,7 +190,17 @@ function SearchContent() {
     filters.documentTypes?.length ||
     filters.yearFrom ||
     filters.yearTo ||
-    filters.courtLevels?.length;
+    filters.courtLevels?.length ||
+    filters.legalAreas.length;
+
+  // Until facet counts arrive, list every area so the filter stays usable
+  const legalAreaFacets =
+    data && "facets" in data ? data.facets?.legal_areas : undefined;
+  const legalAreaOptions = legalAreaFacets
+    ? LEGAL_AREA_ORDER.filter(
+        (area) => (legalAreaFacets[area] ?? 0) > 0 || filters.legalAreas.includes(area)
+      )
+    : LEGAL_AREA_ORDER;
 
   // Get results based on mode
   const results = data
@@ -370,6 +403,35 @@ function SearchContent() {
               </Select>
             </div>
           </div>
+
+          <Separator />
+
+          {/* Legal Area Filter */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Legal Area</h3>
+            <div className="space-y-1">
+              {legalAreaOptions.map((area) => {
+                const selected = filters.legalAreas.includes(area);
+                return (
+                  <Button
+                    key={area}
+                    variant={selected ? "secondary" : "ghost"}
+                    size="sm"
+                    className="w-full justify-between"
+                    onClick={() => toggleLegalArea(area)}
+                    aria-pressed={selected}
+                  >
+                    <span className="truncate">{LEGAL_AREA_LABELS[area]}</span>
+                    {legalAreaFacets?.[area] !== undefined && (
+                      <span className="text-xs text-muted-foreground">
+                        {legalAreaFacets[area].toLocaleString()}
+                      </span>
+                    )}
+                  </Button>
+                );
+              })}
+            </div>
+          </div>
         </aside>
 
         {/* Results */}
@@ -400,6 +462,19 @@ function SearchContent() {
                       </button>
                     </Badge>
                   ))}
+                  {filters.legalAreas.map((area) => (
+                    <Badge key={area} variant="secondary" className="gap-1">
+                      {LEGAL_AREA_LABELS[area]}
+                      <button
+                        type="button"
+                        onClick={() => toggleLegalArea(area)}
+                        className={cn("rounded-full", surfaceClasses.iconButton)}
+                        aria-label={`Remove ${LEGAL_AREA_LABELS[area]} filter`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
                 </div>
               )}
             </div>
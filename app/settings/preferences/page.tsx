@@ -1,8 +1,9 @@
 "use client";
 
-import { useState } from "react";
-import { Bell, Moon, Sun, Monitor, Globe } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Bell, Moon, Sun, Monitor, Globe, MessageSquare } from "lucide-react";
 import { useTheme } from "next-themes";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 
 import {
   Card,
@@ -11,7 +12,13 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import {
   Select,
@@ -22,61 +29,382 @@ import {
 } from "@/components/ui/select";
 import { useRequireAuth } from "@/components/providers";
 import { PageHeader, AlertBanner, PageLoading } from "@/components/common";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  type AlertSeverity,
+  type CategoryPreference,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationPreferencesUpdate,
+  type QuietHours,
+} from "@/lib/api/notifications";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { getUserTimezone } from "@/lib/utils/date-formatter";
+import { validateUgandaPhone } from "@/lib/utils/phone-validation";
 
-// Local storage keys for preferences
-const NOTIFICATION_PREFS_KEY = "user_notification_prefs";
+const NOTIFICATION_PREFS_QUERY_KEY = ["notification-preferences"] as const;
 
-interface NotificationPrefs {
-  emailDigest: boolean;
-  researchUpdates: boolean;
-  productNews: boolean;
-  securityAlerts: boolean;
-}
+// Preferences used to live in localStorage under this key. They are pushed
+// to the server once and removed after the save succeeds.
+const LEGACY_NOTIFICATION_PREFS_KEY = "user_notification_prefs";
 
-const defaultNotificationPrefs: NotificationPrefs = {
-  emailDigest: true,
-  researchUpdates: true,
-  productNews: false,
-  securityAlerts: true,
-};
+// `researchUpdates` ("new cases in your areas of interest") is not carried
+// over: the server has no matching category. `research_completed` covers
+// finished research jobs, which is a different notification.
+interface LegacyNotificationPrefs {
+  emailDigest?: boolean;
+  productNews?: boolean;
+  securityAlerts?: boolean;
+}
 
-function loadNotificationPrefs(): NotificationPrefs {
-  if (typeof window === "undefined") return defaultNotificationPrefs;
-  const stored = localStorage.getItem(NOTIFICATION_PREFS_KEY);
-  if (!stored) return defaultNotificationPrefs;
+/**
+ * The legacy preferences as a server update, or null when there are none
+ * to migrate. An empty update means the key holds nothing usable.
+ */
+function readLegacyNotificationPrefs(): NotificationPreferencesUpdate | null {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(LEGACY_NOTIFICATION_PREFS_KEY);
+  if (!stored) return null;
   try {
-    return JSON.parse(stored);
+    const legacy = JSON.parse(stored) as LegacyNotificationPrefs;
+    const update: NotificationPreferencesUpdate = {};
+    if (typeof legacy.emailDigest === "boolean") update.email_digest = legacy.emailDigest;
+    if (typeof legacy.productNews === "boolean") update.product_news = legacy.productNews;
+    if (typeof legacy.securityAlerts === "boolean") update.security_alerts = legacy.securityAlerts;
+    return update;
   } catch {
-    return defaultNotificationPrefs;
+    return {};
   }
 }
 
-function saveNotificationPrefs(prefs: NotificationPrefs) {
-  if (typeof window === "undefined") return;
-  localStorage.setItem(NOTIFICATION_PREFS_KEY, JSON.stringify(prefs));
+function clearLegacyNotificationPrefs() {
+  localStorage.removeItem(LEGACY_NOTIFICATION_PREFS_KEY);
+}
+
+const CHANNEL_OPTIONS: { value: NotificationChannel; label: string }[] = [
+  { value: "email", label: "Email" },
+  { value: "in_app", label: "In-app" },
+  { value: "sms", label: "SMS" },
+];
+
+const SEVERITIES: { value: AlertSeverity; label: string }[] = [
+  { value: "critical", label: "Critical" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const REMINDER_LEAD_DAYS = [30, 14, 7, 3, 1];
+
+type RoutedCategory =
+  | "research_completed"
+  | "compliance_alerts"
+  | "obligation_reminders"
+  | "invitations";
+
+const CATEGORY_COPY: Record<RoutedCategory, { title: string; description: string }> = {
+  research_completed: {
+    title: "Research Completed",
+    description: "When a deep research report you started has finished",
+  },
+  compliance_alerts: {
+    title: "Compliance Alerts",
+    description: "New findings from regulatory changes, routed by severity",
+  },
+  obligation_reminders: {
+    title: "Obligation Due Reminders",
+    description: "Reminders ahead of compliance obligation deadlines",
+  },
+  invitations: {
+    title: "Invitations",
+    description: "Organization invitations and changes to your membership",
+  },
+};
+
+function toggleChannel(channels: NotificationChannel[], channel: NotificationChannel, on: boolean) {
+  return on ? Array.from(new Set([...channels, channel])) : channels.filter((c) => c !== channel);
+}
+
+function ChannelPicker({
+  idPrefix,
+  value,
+  onChange,
+  smsAvailable,
+  disabled,
+}: {
+  idPrefix: string;
+  value: NotificationChannel[];
+  onChange: (channels: NotificationChannel[]) => void;
+  smsAvailable: boolean;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap gap-4">
+      {CHANNEL_OPTIONS.map((option) => {
+        const id = `${idPrefix}-${option.value}`;
+        const unavailable = option.value === "sms" && !smsAvailable;
+        return (
+          <div key={option.value} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={value.includes(option.value)}
+              disabled={disabled || unavailable}
+              onCheckedChange={(checked) =>
+                onChange(toggleChannel(value, option.value, checked === true))
+              }
+            />
+            <Label
+              htmlFor={id}
+              className="text-sm font-normal"
+              title={unavailable ? "Add a verified phone number to enable SMS" : undefined}
+            >
+              {option.label}
+            </Label>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function QuietHoursEditor({
+  idPrefix,
+  value,
+  onChange,
+  disabled,
+}: {
+  idPrefix: string;
+  value: QuietHours;
+  onChange: (quietHours: QuietHours) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`${idPrefix}-quiet`}
+          checked={value.enabled}
+          disabled={disabled}
+          onCheckedChange={(enabled) =>
+            onChange({ ...value, enabled, timezone: value.timezone || getUserTimezone() })
+          }
+        />
+        <Label htmlFor={`${idPrefix}-quiet`} className="text-sm font-normal">
+          Quiet hours
+        </Label>
+      </div>
+      {value.enabled && (
+        <>
+          <Input
+            type="time"
+            aria-label="Quiet hours start"
+            value={value.start}
+            disabled={disabled}
+            onChange={(e) => e.target.value && onChange({ ...value, start: e.target.value })}
+            className="h-8 w-[120px]"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="time"
+            aria-label="Quiet hours end"
+            value={value.end}
+            disabled={disabled}
+            onChange={(e) => e.target.value && onChange({ ...value, end: e.target.value })}
+            className="h-8 w-[120px]"
+          />
+          <span className="text-xs text-muted-foreground">{value.timezone}</span>
+        </>
+      )}
+    </div>
+  );
+}
+
+function CategorySection<K extends RoutedCategory>({
+  category,
+  prefs,
+  onUpdate,
+  smsAvailable,
+  children,
+}: {
+  category: K;
+  prefs: NotificationPreferences;
+  onUpdate: (update: NotificationPreferencesUpdate) => void;
+  smsAvailable: boolean;
+  children?: React.ReactNode;
+}) {
+  const value = prefs[category];
+  const copy = CATEGORY_COPY[category];
+  const update = (patch: Partial<CategoryPreference>) =>
+    onUpdate({ [category]: { ...value, ...patch } } as NotificationPreferencesUpdate);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label htmlFor={`${category}-enabled`}>{copy.title}</Label>
+          <p className="text-sm text-muted-foreground">{copy.description}</p>
+        </div>
+        <Switch
+          id={`${category}-enabled`}
+          checked={value.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+        />
+      </div>
+      {value.enabled && (
+        <div className="space-y-3 rounded-lg border bg-muted/20 p-3">
+          {category !== "compliance_alerts" && (
+            <ChannelPicker
+              idPrefix={category}
+              value={value.channels}
+              onChange={(channels) => update({ channels })}
+              smsAvailable={smsAvailable}
+            />
+          )}
+          {children}
+          <QuietHoursEditor
+            idPrefix={category}
+            value={value.quiet_hours}
+            onChange={(quiet_hours) => update({ quiet_hours })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SmsNumberField({
+  prefs,
+  onSave,
+  isSaving,
+}: {
+  prefs: NotificationPreferences;
+  onSave: (phone: string | null) => void;
+  isSaving: boolean;
+}) {
+  const [phone, setPhone] = useState(prefs.sms_phone_number ?? "");
+  const [error, setError] = useState<string | null>(null);
+  const dirty = phone.trim() !== (prefs.sms_phone_number ?? "");
+
+  const handleSave = () => {
+    if (!phone.trim()) {
+      setError(null);
+      onSave(null);
+      return;
+    }
+    const result = validateUgandaPhone(phone);
+    if (!result.isValid) {
+      setError(result.error || "Enter a valid Ugandan mobile number");
+      return;
+    }
+    setError(null);
+    setPhone(result.formatted);
+    onSave(result.formatted);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-4">
+        <div className="space-y-0.5">
+          <Label htmlFor="sms-phone" className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            SMS Number
+            {prefs.sms_phone_number && (
+              <Badge variant={prefs.sms_phone_verified ? "success" : "warning"}>
+                {prefs.sms_phone_verified ? "Verified" : "Awaiting verification"}
+              </Badge>
+            )}
+          </Label>
+          <p className="text-sm text-muted-foreground">
+            Needed for SMS alerts. We send a verification code when it changes.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Input
+            id="sms-phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="0772 123 456"
+            className="h-9 w-[180px]"
+          />
+          <Button size="sm" variant="outline" onClick={handleSave} disabled={!dirty || isSaving}>
+            Save
+          </Button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
 }
 
 export default function PreferencesPage() {
   const { isLoading: authLoading } = useRequireAuth();
   const { theme, setTheme } = useTheme();
+  const queryClient = useQueryClient();
 
-  const [notificationPrefs, setNotificationPrefs] = useState<NotificationPrefs>(
-    loadNotificationPrefs
-  );
   const [success, setSuccess] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleNotificationChange = (key: keyof NotificationPrefs, value: boolean) => {
-    const newPrefs = { ...notificationPrefs, [key]: value };
-    setNotificationPrefs(newPrefs);
-    saveNotificationPrefs(newPrefs);
-    setSuccess("Preferences saved");
-    setTimeout(() => setSuccess(null), 2000);
-  };
+  const {
+    data: notificationPrefs,
+    isLoading: prefsLoading,
+    error: loadError,
+  } = useQuery({
+    queryKey: NOTIFICATION_PREFS_QUERY_KEY,
+    queryFn: getNotificationPreferences,
+    enabled: !authLoading,
+    staleTime: 60_000,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: updateNotificationPreferences,
+    // Optimistic: toggles should feel instant; roll back if the save fails
+    onMutate: async (update: NotificationPreferencesUpdate) => {
+      await queryClient.cancelQueries({ queryKey: NOTIFICATION_PREFS_QUERY_KEY });
+      const previous = queryClient.getQueryData<NotificationPreferences>(NOTIFICATION_PREFS_QUERY_KEY);
+      if (previous) {
+        queryClient.setQueryData(NOTIFICATION_PREFS_QUERY_KEY, { ...previous, ...update });
+      }
+      return { previous };
+    },
+    onError: (err, _update, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(NOTIFICATION_PREFS_QUERY_KEY, context.previous);
+      }
+      setError(getUserFriendlyError(err, "Failed to save notification preferences"));
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(NOTIFICATION_PREFS_QUERY_KEY, saved);
+      setError(null);
+      setSuccess("Preferences saved");
+      setTimeout(() => setSuccess(null), 2000);
+    },
+  });
+  const { mutate: saveNotificationPrefs } = saveMutation;
+
+  // One-time migration of preferences saved by older versions of this page.
+  // The old key stays until the server has them, so a failed save is
+  // retried on the next visit.
+  const legacyMigrationStarted = useRef(false);
+  useEffect(() => {
+    if (!notificationPrefs || legacyMigrationStarted.current) return;
+    const legacy = readLegacyNotificationPrefs();
+    if (!legacy) return;
+    legacyMigrationStarted.current = true;
+    if (Object.keys(legacy).length === 0) {
+      clearLegacyNotificationPrefs();
+      return;
+    }
+    saveNotificationPrefs(legacy, { onSuccess: clearLegacyNotificationPrefs });
+  }, [notificationPrefs, saveNotificationPrefs]);
 
   if (authLoading) {
     return <PageLoading message="Loading preferences..." />;
   }
 
+  const smsAvailable = !!notificationPrefs?.sms_phone_number && notificationPrefs.sms_phone_verified;
+
   return (
     <div className="space-y-6">
       <PageHeader
@@ -92,6 +420,14 @@ export default function PreferencesPage() {
         />
       )}
 
+      {error && (
+        <AlertBanner
+          variant="error"
+          message={error}
+          onDismiss={() => setError(null)}
+        />
+      )}
+
       {/* Appearance */}
       <Card>
         <CardHeader>
@@ -148,73 +484,198 @@ export default function PreferencesPage() {
             <CardTitle>Notifications</CardTitle>
           </div>
           <CardDescription>
-            Manage how you receive updates and alerts
+            Choose what you hear about and where. Saved to your account, so these apply on
+            every device.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="email-digest">Weekly Email Digest</Label>
-              <p className="text-sm text-muted-foreground">
-                Receive a weekly summary of your research activity
-              </p>
+          {prefsLoading ? (
+            <div className="space-y-4">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-12 w-full" />
+              ))}
             </div>
-            <Switch
-              id="email-digest"
-              checked={notificationPrefs.emailDigest}
-              onCheckedChange={(checked) =>
-                handleNotificationChange("emailDigest", checked)
-              }
+          ) : loadError || !notificationPrefs ? (
+            <AlertBanner
+              variant="error"
+              message={getUserFriendlyError(loadError, "Failed to load notification preferences")}
+              action={{
+                label: "Retry",
+                onClick: () =>
+                  queryClient.invalidateQueries({ queryKey: NOTIFICATION_PREFS_QUERY_KEY }),
+              }}
             />
-          </div>
+          ) : (
+            <>
+              <SmsNumberField
+                key={notificationPrefs.sms_phone_number ?? ""}
+                prefs={notificationPrefs}
+                onSave={(sms_phone_number) => saveNotificationPrefs({ sms_phone_number })}
+                isSaving={saveMutation.isPending}
+              />
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="research-updates">Research Updates</Label>
-              <p className="text-sm text-muted-foreground">
-                Get notified when new cases are added to your areas of interest
-              </p>
-            </div>
-            <Switch
-              id="research-updates"
-              checked={notificationPrefs.researchUpdates}
-              onCheckedChange={(checked) =>
-                handleNotificationChange("researchUpdates", checked)
-              }
-            />
-          </div>
+              <Separator />
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="product-news">Product News</Label>
-              <p className="text-sm text-muted-foreground">
-                Stay informed about new features and improvements
-              </p>
-            </div>
-            <Switch
-              id="product-news"
-              checked={notificationPrefs.productNews}
-              onCheckedChange={(checked) =>
-                handleNotificationChange("productNews", checked)
-              }
-            />
-          </div>
+              <CategorySection
+                category="research_completed"
+                prefs={notificationPrefs}
+                onUpdate={saveNotificationPrefs}
+                smsAvailable={smsAvailable}
+              />
 
-          <div className="flex items-center justify-between">
-            <div className="space-y-0.5">
-              <Label htmlFor="security-alerts">Security Alerts</Label>
-              <p className="text-sm text-muted-foreground">
-                Important notifications about your account security
-              </p>
-            </div>
-            <Switch
-              id="security-alerts"
-              checked={notificationPrefs.securityAlerts}
-              onCheckedChange={(checked) =>
-                handleNotificationChange("securityAlerts", checked)
-              }
-            />
-          </div>
+              <Separator />
+
+              <CategorySection
+                category="compliance_alerts"
+                prefs={notificationPrefs}
+                onUpdate={saveNotificationPrefs}
+                smsAvailable={smsAvailable}
+              >
+                <div className="space-y-2">
+                  {SEVERITIES.map((severity) => (
+                    <div
+                      key={severity.value}
+                      className="flex flex-wrap items-center justify-between gap-2"
+                    >
+                      <span className="w-20 text-sm font-medium">{severity.label}</span>
+                      <ChannelPicker
+                        idPrefix={`compliance-${severity.value}`}
+                        value={notificationPrefs.compliance_alerts.severity_channels[severity.value]}
+                        onChange={(channels) =>
+                          saveNotificationPrefs({
+                            compliance_alerts: {
+                              ...notificationPrefs.compliance_alerts,
+                              severity_channels: {
+                                ...notificationPrefs.compliance_alerts.severity_channels,
+                                [severity.value]: channels,
+                              },
+                            },
+                          })
+                        }
+                        smsAvailable={smsAvailable}
+                      />
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Leave every channel unticked to mute a severity.
+                  </p>
+                </div>
+                {notificationPrefs.compliance_alerts.quiet_hours.enabled && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="critical-bypass"
+                      checked={notificationPrefs.compliance_alerts.critical_bypasses_quiet_hours}
+                      onCheckedChange={(checked) =>
+                        saveNotificationPrefs({
+                          compliance_alerts: {
+                            ...notificationPrefs.compliance_alerts,
+                            critical_bypasses_quiet_hours: checked === true,
+                          },
+                        })
+                      }
+                    />
+                    <Label htmlFor="critical-bypass" className="text-sm font-normal">
+                      Deliver critical alerts during quiet hours
+                    </Label>
+                  </div>
+                )}
+              </CategorySection>
+
+              <Separator />
+
+              <CategorySection
+                category="obligation_reminders"
+                prefs={notificationPrefs}
+                onUpdate={saveNotificationPrefs}
+                smsAvailable={smsAvailable}
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Remind me</span>
+                  {REMINDER_LEAD_DAYS.map((days) => {
+                    const selected = notificationPrefs.obligation_reminders.lead_days.includes(days);
+                    return (
+                      <Button
+                        key={days}
+                        type="button"
+                        size="sm"
+                        variant={selected ? "default" : "outline"}
+                        className="h-7 px-2.5 text-xs"
+                        aria-pressed={selected}
+                        onClick={() =>
+                          saveNotificationPrefs({
+                            obligation_reminders: {
+                              ...notificationPrefs.obligation_reminders,
+                              lead_days: selected
+                                ? notificationPrefs.obligation_reminders.lead_days.filter((d) => d !== days)
+                                : [...notificationPrefs.obligation_reminders.lead_days, days].sort(
+                                    (a, b) => b - a
+                                  ),
+                            },
+                          })
+                        }
+                      >
+                        {days === 1 ? "1 day" : `${days} days`}
+                      </Button>
+                    );
+                  })}
+                  <span className="text-sm text-muted-foreground">before the due date</span>
+                </div>
+              </CategorySection>
+
+              <Separator />
+
+              <CategorySection
+                category="invitations"
+                prefs={notificationPrefs}
+                onUpdate={saveNotificationPrefs}
+                smsAvailable={smsAvailable}
+              />
+
+              <Separator />
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="email-digest">Weekly Email Digest</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Receive a weekly summary of your research activity
+                  </p>
+                </div>
+                <Switch
+                  id="email-digest"
+                  checked={notificationPrefs.email_digest}
+                  onCheckedChange={(email_digest) => saveNotificationPrefs({ email_digest })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="product-news">Product News</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Stay informed about new features and improvements
+                  </p>
+                </div>
+                <Switch
+                  id="product-news"
+                  checked={notificationPrefs.product_news}
+                  onCheckedChange={(product_news) => saveNotificationPrefs({ product_news })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-0.5">
+                  <Label htmlFor="security-alerts">Security Alerts</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Important notifications about your account security
+                  </p>
+                </div>
+                <Switch
+                  id="security-alerts"
+                  checked={notificationPrefs.security_alerts}
+                  onCheckedChange={(security_alerts) => saveNotificationPrefs({ security_alerts })}
+                />
+              </div>
+            </>
+          )}
         </CardContent>
       </Card>
 
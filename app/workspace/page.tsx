@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import {
   BookMarked,
+  Briefcase,
   FlaskConical,
   PenTool,
   Clock,
@@ -30,6 +31,7 @@ import { PageLoading } from "@/components/common";
 import { useSavedDocuments } from "@/lib/stores";
 import { getMyResearchSessions, type ResearchSessionListItem } from "@/lib/api/research";
 import { getMyContracts, type ContractListItem } from "@/lib/api/contracts";
+import { listMatters, type Matter } from "@/lib/api/matters";
 import { surfaceClasses } from "@/lib/design-system";
 import { formatDistanceToNow } from "date-fns";
 
@@ -95,6 +97,7 @@ export default function WorkspacePage() {
   const savedDocuments = useSavedDocuments();
   const [recentRuns, setRecentRuns] = useState<RecentRun[]>([]);
   const [recentLoading, setRecentLoading] = useState(true);
+  const [matters, setMatters] = useState<Matter[]>([]);
 
   useEffect(() => {
     refreshEntitlements();
@@ -131,6 +134,26 @@ export default function WorkspacePage() {
     };
   }, []);
 
+  // Open matters, most recently active first. Users outside an
+  // organization get a 403 and simply see the empty panel.
+  useEffect(() => {
+    let cancelled = false;
+    listMatters({ status: "open" })
+      .then((data) => {
+        if (cancelled) return;
+        const byActivity = [...data].sort(
+          (a, b) =>
+            new Date(b.last_activity_at ?? b.updated_at).getTime() -
+            new Date(a.last_activity_at ?? a.updated_at).getTime()
+        );
+        setMatters(byActivity);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   if (!canShowContent || entitlementsLoading) return <PageLoading />;
 
   const currentTier = entitlements?.tier || "free";
@@ -357,6 +380,49 @@ export default function WorkspacePage() {
             )}
           </div>
 
+          {/* Matters */}
+          <div className="rounded-xl border border-transparent bg-card p-5 shadow-soft dark:border-glass">
+            <div className="mb-3 flex items-center justify-between">
+              <h3 className="flex items-center gap-2 text-sm font-semibold">
+                <Briefcase className="h-4 w-4 text-muted-foreground" />
+                Matters
+              </h3>
+              <Link
+                href="/matters"
+                className="text-xs text-brand-gold ll-transition hover:text-brand-gold-soft"
+              >
+                {matters.length > 0 ? "View all" : "Set up"}
+              </Link>
+            </div>
+
+            {matters.length > 0 ? (
+              <div className="space-y-1">
+                {matters.slice(0, 5).map((matter) => (
+                  <Link
+                    key={matter.id}
+                    href={`/matters/${matter.id}`}
+                    className={cn(
+                      "group flex items-center gap-2 rounded-md p-2 text-sm",
+                      surfaceClasses.rowInteractive
+                    )}
+                  >
+                    <Briefcase className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                    <span className="flex-1 truncate">{matter.name}</span>
+                    {matter.last_activity_at && (
+                      <span className="shrink-0 text-[11px] text-muted-foreground">
+                        {formatDistanceToNow(new Date(matter.last_activity_at), { addSuffix: true })}
+                      </span>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            ) : (
+              <p className="py-3 text-center text-xs text-muted-foreground">
+                Group chats, research, contracts and documents by client matter.
+              </p>
+            )}
+          </div>
+
           {/* Saved Legislation
               Honest naming. The "library" only holds bookmarks of
               legislation sections (added via the bookmark icon in
@@ -306,6 +306,11 @@ function getHeading(element: Element): string | null {
   return heading?.textContent?.trim() || null;
 }
 
+/** The element's AKN eId, used as its DOM id for linking and annotation anchors. */
+function getEid(element: Element): string | undefined {
+  return element.getAttribute("eId") || undefined;
+}
+
 function getContentChildren(element: Element): Element[] {
   return Array.from(element.children).filter(
     (child) => !["num", "heading"].includes(child.tagName.toLowerCase())
@@ -357,7 +362,7 @@ function Part({ element }: { element: Element }) {
   const heading = getHeading(element);
 
   return (
-    <section className="mt-10 first:mt-0">
+    <section id={getEid(element)} className="mt-10 first:mt-0">
       <h2 className="text-center font-bold text-lg mb-6">
         {num}
         {num && heading && " – "}
@@ -375,7 +380,7 @@ function Chapter({ element }: { element: Element }) {
   const heading = getHeading(element);
 
   return (
-    <section className="mt-8">
+    <section id={getEid(element)} className="mt-8">
       <h3 className="text-center font-bold mb-4">
         {num}
         {num && heading && " – "}
@@ -393,7 +398,7 @@ function Section({ element }: { element: Element }) {
   const heading = getHeading(element);
 
   return (
-    <section className="mt-6">
+    <section id={getEid(element)} className="mt-6">
       <div className="font-bold mb-2">
         {num} {heading}
       </div>
@@ -408,7 +413,7 @@ function Subsection({ element }: { element: Element }) {
   const num = getNum(element);
 
   return (
-    <div className="flex mt-3">
+    <div id={getEid(element)} className="flex mt-3">
       <div className="w-12 flex-shrink-0 text-left">{num}</div>
       <div className="flex-1">
         {getContentChildren(element).map((child, i) => (
@@ -423,7 +428,7 @@ function LegalParagraph({ element }: { element: Element }) {
   const num = getNum(element);
 
   return (
-    <div className="flex mt-2 ml-12">
+    <div id={getEid(element)} className="flex mt-2 ml-12">
       <div className="w-10 flex-shrink-0 text-left">{num}</div>
       <div className="flex-1">
         {getContentChildren(element).map((child, i) => (
@@ -438,7 +443,7 @@ function Subparagraph({ element }: { element: Element }) {
   const num = getNum(element);
 
   return (
-    <div className="flex mt-1 ml-10">
+    <div id={getEid(element)} className="flex mt-1 ml-10">
       <div className="w-10 flex-shrink-0 text-left">{num}</div>
       <div className="flex-1">
         {getContentChildren(element).map((child, i) => (
@@ -0,0 +1,335 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from "react";
+import { createPortal } from "react-dom";
+import { StickyNote } from "lucide-react";
+import type { Annotation, AnnotationAnchor, HighlightColor } from "@/lib/api/annotations";
+import { HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_LABELS, buildAnchor, reanchor } from "@/lib/utils/annotations";
+import { cn } from "@/lib/utils";
+import { HIGHLIGHT_SWATCH_CLASSES } from "./highlight-swatch";
+
+export interface AnnotationDraft extends AnnotationAnchor {
+  section_label: string | null;
+}
+
+interface AnnotationLayerProps {
+  /** Element wrapping the rendered document text. Must be `position: relative`. */
+  containerRef: RefObject<HTMLElement | null>;
+  annotations: Annotation[];
+  /** Changes whenever the rendered text changes (e.g. the document version), to re-anchor. */
+  contentKey: string;
+  /** Whether selecting text offers to highlight it (signed-in users). */
+  canAnnotate: boolean;
+  activeAnnotation: { id: string; scroll: boolean } | null;
+  onCreate: (draft: AnnotationDraft, color: HighlightColor, withNote: boolean) => void;
+  onActivate: (annotationId: string) => void;
+  /** Called with the ids of annotations whose text can no longer be found. */
+  onOrphansChange?: (annotationIds: string[]) => void;
+}
+
+interface NoteMarker {
+  id: string;
+  top: number;
+  note: string;
+}
+
+interface SelectionToolbar {
+  draft: AnnotationDraft;
+  top: number;
+  left: number;
+}
+
+// ============ Text offsets ============
+
+function textOffsetWithin(root: Node, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function rangeFromOffsets(root: Node, start: number, end: number): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = (node as Text).data.length;
+    if (!started && start <= position + length) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && end <= position + length) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position += length;
+  }
+  return null;
+}
+
+function findAnchorElement(container: HTMLElement, aknEid: string | null): HTMLElement {
+  if (!aknEid) return container;
+  const element = container.querySelector<HTMLElement>(`[id="${CSS.escape(aknEid)}"]`);
+  return element ?? container;
+}
+
+/** Resolve each annotation to a live DOM range, re-anchoring on its quote when needed. */
+function resolveRanges(container: HTMLElement, annotations: Annotation[]): Map<string, Range> {
+  const ranges = new Map<string, Range>();
+  for (const annotation of annotations) {
+    let root = findAnchorElement(container, annotation.akn_eid);
+    let position = reanchor(root.textContent ?? "", annotation);
+    // The section may have been renumbered on re-ingestion: look document-wide
+    if (!position && root !== container) {
+      root = container;
+      position = reanchor(container.textContent ?? "", annotation);
+    }
+    const range = position ? rangeFromOffsets(root, position.start, position.end) : null;
+    if (range) ranges.set(annotation.id, range);
+  }
+  return ranges;
+}
+
+function draftFromSelection(container: HTMLElement, range: Range): AnnotationDraft | null {
+  const common = range.commonAncestorContainer;
+  const commonElement = common instanceof Element ? common : common.parentElement;
+  if (!commonElement || !container.contains(commonElement)) return null;
+
+  const anchored = commonElement.closest<HTMLElement>("[id]");
+  const root = anchored && container.contains(anchored) && anchored !== container ? anchored : container;
+  const text = root.textContent ?? "";
+  let start = textOffsetWithin(root, range.startContainer, range.startOffset);
+  let end = textOffsetWithin(root, range.endContainer, range.endOffset);
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start === end) return null;
+
+  const labelled =
+    root.closest<HTMLElement>("[data-toc-id][data-section-title]") ??
+    root.closest<HTMLElement>("[data-section-title]");
+  return {
+    ...buildAnchor(text, start, end, root === container ? null : root.id),
+    section_label: labelled?.dataset.sectionTitle ?? null,
+  };
+}
+
+function caretFromPoint(x: number, y: number): { node: Node; offset: number } | null {
+  if (typeof document.caretPositionFromPoint === "function") {
+    const position = document.caretPositionFromPoint(x, y);
+    return position ? { node: position.offsetNode, offset: position.offset } : null;
+  }
+  // Safari before 17.4
+  const range = document.caretRangeFromPoint?.(x, y);
+  return range ? { node: range.startContainer, offset: range.startOffset } : null;
+}
+
+function supportsCustomHighlights(): boolean {
+  return typeof CSS !== "undefined" && "highlights" in CSS && typeof Highlight !== "undefined";
+}
+
+const ACTIVE_HIGHLIGHT = "annotation-active";
+
+// ============ Layer ============
+
+/**
+ * Paints a document's highlights over its rendered text and turns text
+ * selections into new highlights. Highlights use the CSS Custom Highlight
+ * API, so the renderer's DOM is never modified; browsers without it still
+ * get the selection toolbar, margin notes and the annotations sidebar.
+ */
+export function AnnotationLayer({
+  containerRef,
+  annotations,
+  contentKey,
+  canAnnotate,
+  activeAnnotation,
+  onCreate,
+  onActivate,
+  onOrphansChange,
+}: AnnotationLayerProps) {
+  const rangesRef = useRef<Map<string, Range>>(new Map());
+  const [markers, setMarkers] = useState<NoteMarker[]>([]);
+  const [toolbar, setToolbar] = useState<SelectionToolbar | null>(null);
+
+  const measureMarkers = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const origin = container.getBoundingClientRect().top;
+    const next: NoteMarker[] = [];
+    for (const annotation of annotations) {
+      const range = rangesRef.current.get(annotation.id);
+      if (!range || !annotation.note?.trim()) continue;
+      next.push({
+        id: annotation.id,
+        top: range.getBoundingClientRect().top - origin,
+        note: annotation.note.trim(),
+      });
+    }
+    setMarkers(next);
+  }, [annotations, containerRef]);
+
+  // Resolve anchors and paint highlights
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const ranges = resolveRanges(container, annotations);
+    rangesRef.current = ranges;
+
+    const names: string[] = [];
+    if (supportsCustomHighlights()) {
+      for (const color of HIGHLIGHT_COLORS) {
+        const colorRanges = annotations
+          .filter((a) => a.color === color)
+          .map((a) => ranges.get(a.id))
+          .filter((range): range is Range => Boolean(range));
+        const name = `annotation-${color}`;
+        CSS.highlights.set(name, new Highlight(...colorRanges));
+        names.push(name);
+      }
+    }
+
+    const frame = requestAnimationFrame(() => {
+      measureMarkers();
+      onOrphansChange?.(annotations.filter((a) => !ranges.has(a.id)).map((a) => a.id));
+    });
+    return () => {
+      cancelAnimationFrame(frame);
+      for (const name of names) CSS.highlights.delete(name);
+    };
+  }, [annotations, contentKey, containerRef, measureMarkers, onOrphansChange]);
+
+  // Outline the active annotation and bring it into view
+  useEffect(() => {
+    if (!activeAnnotation) return;
+    const range = rangesRef.current.get(activeAnnotation.id);
+    if (!range) return;
+    if (activeAnnotation.scroll) {
+      const target = range.startContainer.parentElement;
+      target?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+    if (!supportsCustomHighlights()) return;
+    CSS.highlights.set(ACTIVE_HIGHLIGHT, new Highlight(range));
+    return () => {
+      CSS.highlights.delete(ACTIVE_HIGHLIGHT);
+    };
+  }, [activeAnnotation, annotations, contentKey]);
+
+  // Keep margin notes aligned when the text reflows
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => measureMarkers());
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef, measureMarkers]);
+
+  // Selection toolbar and clicks on existing highlights
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const handleSelectionEnd = () => {
+      if (!canAnnotate) return;
+      const selection = window.getSelection();
+      if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+      const range = selection.getRangeAt(0);
+      const draft = draftFromSelection(container, range);
+      if (!draft) return;
+      const rect = range.getBoundingClientRect();
+      setToolbar({ draft, top: Math.max(8, rect.top - 48), left: rect.left + rect.width / 2 });
+    };
+
+    const handleClick = (event: MouseEvent) => {
+      const selection = window.getSelection();
+      if (selection && !selection.isCollapsed) return;
+      const caret = caretFromPoint(event.clientX, event.clientY);
+      if (!caret) return;
+      for (const [id, range] of rangesRef.current) {
+        if (range.isPointInRange(caret.node, caret.offset)) {
+          onActivate(id);
+          return;
+        }
+      }
+    };
+
+    const handleSelectionChange = () => {
+      if (window.getSelection()?.isCollapsed) setToolbar(null);
+    };
+    const handleScroll = () => setToolbar(null);
+
+    container.addEventListener("mouseup", handleSelectionEnd);
+    container.addEventListener("keyup", handleSelectionEnd);
+    container.addEventListener("click", handleClick);
+    document.addEventListener("selectionchange", handleSelectionChange);
+    window.addEventListener("scroll", handleScroll, true);
+    return () => {
+      container.removeEventListener("mouseup", handleSelectionEnd);
+      container.removeEventListener("keyup", handleSelectionEnd);
+      container.removeEventListener("click", handleClick);
+      document.removeEventListener("selectionchange", handleSelectionChange);
+      window.removeEventListener("scroll", handleScroll, true);
+    };
+  }, [canAnnotate, containerRef, onActivate]);
+
+  const handleCreate = (color: HighlightColor, withNote: boolean) => {
+    if (!toolbar) return;
+    onCreate(toolbar.draft, color, withNote);
+    window.getSelection()?.removeAllRanges();
+    setToolbar(null);
+  };
+
+  return (
+    <>
+      {markers.map((marker) => (
+        <button
+          key={marker.id}
+          type="button"
+          onClick={() => onActivate(marker.id)}
+          title={marker.note}
+          aria-label={`Note: ${marker.note}`}
+          className={cn(
+            "absolute -right-6 flex h-5 w-5 items-center justify-center rounded text-muted-foreground hover:bg-muted hover:text-foreground md:-right-9",
+            activeAnnotation?.id === marker.id && "bg-muted text-foreground"
+          )}
+          style={{ top: marker.top }}
+        >
+          <StickyNote className="h-3.5 w-3.5" />
+        </button>
+      ))}
+
+      {toolbar &&
+        createPortal(
+          <div
+            role="toolbar"
+            aria-label="Highlight selection"
+            className="fixed z-50 flex -translate-x-1/2 items-center gap-1 rounded-full border bg-popover px-2 py-1 shadow-lg"
+            style={{ top: toolbar.top, left: toolbar.left }}
+            // Keep the text selection while clicking the toolbar
+            onMouseDown={(event) => event.preventDefault()}
+          >
+            {HIGHLIGHT_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => handleCreate(color, false)}
+                className={cn("h-5 w-5 rounded-full border border-black/10", HIGHLIGHT_SWATCH_CLASSES[color])}
+                aria-label={`Highlight ${HIGHLIGHT_COLOR_LABELS[color].toLowerCase()}`}
+                title={HIGHLIGHT_COLOR_LABELS[color]}
+              />
+            ))}
+            <span className="mx-1 h-4 w-px bg-border" aria-hidden="true" />
+            <button
+              type="button"
+              onClick={() => handleCreate("yellow", true)}
+              className="flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium hover:bg-muted"
+            >
+              <StickyNote className="h-3.5 w-3.5" />
+              Note
+            </button>
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,296 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Download, Highlighter, LocateFixed, Pencil, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { EmptyState } from "@/components/common/empty-state";
+import type { Annotation, HighlightColor } from "@/lib/api/annotations";
+import {
+  HIGHLIGHT_COLORS,
+  HIGHLIGHT_COLOR_LABELS,
+  annotationsToCsv,
+  annotationsToMarkdown,
+  filterAnnotations,
+  type AnnotationFilters,
+} from "@/lib/utils/annotations";
+import { downloadFile, generateFilename } from "@/lib/utils/export-conversation";
+import { cn } from "@/lib/utils";
+import { HIGHLIGHT_SWATCH_CLASSES } from "./highlight-swatch";
+
+interface AnnotationsSidebarProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  documentTitle: string;
+  annotations: Annotation[];
+  /** Annotations whose text could not be found in the current version. */
+  orphanedIds: string[];
+  activeId: string | null;
+  editingId: string | null;
+  onEditingChange: (annotationId: string | null) => void;
+  onNavigate: (annotationId: string) => void;
+  onSave: (annotation: Annotation) => void;
+  onDelete: (annotationId: string) => void;
+}
+
+const DEFAULT_FILTERS: AnnotationFilters = { color: "all", withNotesOnly: false, query: "" };
+
+/**
+ * Lists a document's highlights and notes with filtering, note editing
+ * and Markdown/CSV export.
+ */
+export function AnnotationsSidebar({
+  open,
+  onOpenChange,
+  documentTitle,
+  annotations,
+  orphanedIds,
+  activeId,
+  editingId,
+  onEditingChange,
+  onNavigate,
+  onSave,
+  onDelete,
+}: AnnotationsSidebarProps) {
+  const [filters, setFilters] = useState<AnnotationFilters>(DEFAULT_FILTERS);
+  const [draft, setDraft] = useState<{ id: string; text: string } | null>(null);
+
+  const filtered = useMemo(() => filterAnnotations(annotations, filters), [annotations, filters]);
+  const orphaned = useMemo(() => new Set(orphanedIds), [orphanedIds]);
+
+  const handleExport = (format: "md" | "csv") => {
+    const content =
+      format === "md" ? annotationsToMarkdown(filtered, documentTitle) : annotationsToCsv(filtered);
+    downloadFile(
+      content,
+      generateFilename(`${documentTitle} annotations`, format),
+      format === "md" ? "text/markdown" : "text/csv"
+    );
+  };
+
+  const startEditing = (annotation: Annotation) => {
+    setDraft({ id: annotation.id, text: annotation.note ?? "" });
+    onEditingChange(annotation.id);
+  };
+
+  const saveNote = (annotation: Annotation) => {
+    const text = draft?.id === annotation.id ? draft.text : annotation.note ?? "";
+    onSave({ ...annotation, note: text.trim() || null });
+    setDraft(null);
+    onEditingChange(null);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="flex w-[92vw] flex-col gap-0 p-0 sm:max-w-md">
+        <SheetHeader className="border-b px-4 py-3">
+          <SheetTitle>Annotations</SheetTitle>
+          <SheetDescription>
+            Select text in the document to highlight it or add a note.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3 border-b px-4 py-3">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              value={filters.query}
+              onChange={(e) => setFilters((f) => ({ ...f, query: e.target.value }))}
+              placeholder="Search highlights and notes"
+              className="pl-8"
+              aria-label="Search annotations"
+            />
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <Select
+              value={filters.color}
+              onValueChange={(value) =>
+                setFilters((f) => ({ ...f, color: value as HighlightColor | "all" }))
+              }
+            >
+              <SelectTrigger className="h-8 w-[130px]" aria-label="Filter by colour">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All colours</SelectItem>
+                {HIGHLIGHT_COLORS.map((color) => (
+                  <SelectItem key={color} value={color}>
+                    {HIGHLIGHT_COLOR_LABELS[color]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="annotations-notes-only"
+                checked={filters.withNotesOnly}
+                onCheckedChange={(checked) => setFilters((f) => ({ ...f, withNotesOnly: checked }))}
+              />
+              <Label htmlFor="annotations-notes-only" className="text-sm font-normal">
+                With notes
+              </Label>
+            </div>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="sm" disabled={filtered.length === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport("md")}>Markdown (.md)</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport("csv")}>Spreadsheet (.csv)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-3">
+          {filtered.length === 0 ? (
+            <EmptyState
+              icon={Highlighter}
+              title={annotations.length === 0 ? "No annotations yet" : "No matching annotations"}
+              description={
+                annotations.length === 0
+                  ? "Highlights and notes you add to this document appear here."
+                  : "Try a different colour or search."
+              }
+              compact
+            />
+          ) : (
+            <ul className="space-y-3">
+              {filtered.map((annotation) => {
+                const isEditing = editingId === annotation.id;
+                const isOrphaned = orphaned.has(annotation.id);
+                return (
+                  <li
+                    key={annotation.id}
+                    className={cn(
+                      "rounded-lg border p-3 text-sm",
+                      activeId === annotation.id && "border-primary/60 bg-muted/40"
+                    )}
+                  >
+                    <div className="mb-2 flex items-center gap-2">
+                      <span
+                        className={cn("h-3 w-3 shrink-0 rounded-full", HIGHLIGHT_SWATCH_CLASSES[annotation.color])}
+                        aria-label={HIGHLIGHT_COLOR_LABELS[annotation.color]}
+                      />
+                      <span className="min-w-0 flex-1 truncate text-xs font-medium text-muted-foreground">
+                        {annotation.section_label || "Document"}
+                      </span>
+                      {isOrphaned && (
+                        <Badge variant="warning" title="This text wasn't found in the current version of the document">
+                          Not found
+                        </Badge>
+                      )}
+                    </div>
+                    <blockquote className="line-clamp-4 border-l-2 pl-2 italic text-foreground/90">
+                      {annotation.quote}
+                    </blockquote>
+
+                    {isEditing ? (
+                      <div className="mt-2 space-y-2">
+                        <Textarea
+                          value={draft?.id === annotation.id ? draft.text : annotation.note ?? ""}
+                          onChange={(e) => setDraft({ id: annotation.id, text: e.target.value })}
+                          placeholder="Add a note"
+                          rows={3}
+                          autoFocus
+                          aria-label="Note"
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => onEditingChange(null)}>
+                            Cancel
+                          </Button>
+                          <Button size="sm" onClick={() => saveNote(annotation)}>
+                            Save note
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      annotation.note && (
+                        <p className="mt-2 whitespace-pre-wrap text-muted-foreground">{annotation.note}</p>
+                      )
+                    )}
+
+                    {!isEditing && (
+                      <div className="mt-2 flex items-center gap-1">
+                        {HIGHLIGHT_COLORS.map((color) => (
+                          <button
+                            key={color}
+                            type="button"
+                            onClick={() => onSave({ ...annotation, color })}
+                            className={cn(
+                              "h-4 w-4 rounded-full border border-black/10",
+                              HIGHLIGHT_SWATCH_CLASSES[color],
+                              annotation.color === color && "ring-2 ring-primary ring-offset-1"
+                            )}
+                            aria-label={`Change to ${HIGHLIGHT_COLOR_LABELS[color].toLowerCase()}`}
+                          />
+                        ))}
+                        <div className="ml-auto flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => onNavigate(annotation.id)}
+                            disabled={isOrphaned}
+                            aria-label="Go to highlight"
+                          >
+                            <LocateFixed className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => startEditing(annotation)}
+                            aria-label={annotation.note ? "Edit note" : "Add note"}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            onClick={() => onDelete(annotation.id)}
+                            aria-label="Delete annotation"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
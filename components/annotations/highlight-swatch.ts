@@ -0,0 +1,10 @@
+import type { HighlightColor } from "@/lib/api/annotations";
+
+/** Swatch backgrounds matching the `::highlight(annotation-*)` colours in globals.css. */
+export const HIGHLIGHT_SWATCH_CLASSES: Record<HighlightColor, string> = {
+  yellow: "bg-yellow-300",
+  green: "bg-green-300",
+  blue: "bg-sky-300",
+  pink: "bg-pink-300",
+  purple: "bg-violet-300",
+};
@@ -0,0 +1,2 @@
+export { AnnotationLayer, type AnnotationDraft } from "./annotation-layer";
+export { AnnotationsSidebar } from "./annotations-sidebar";
@@ -0,0 +1,131 @@
+"use client";
+
+import Link from "next/link";
+import { CheckCircle2, Circle, XCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
+import type { BillStage, BillStageEvent } from "@/lib/api/types";
+import {
+  BILL_STAGE_BADGE_VARIANTS,
+  BILL_STAGE_LABELS,
+  BILL_STAGE_ORDER,
+  getFurthestStage,
+  isTerminalExitStage,
+} from "./bill-stages";
+
+export function BillStageBadge({
+  stage,
+  className,
+}: {
+  stage: BillStage;
+  className?: string;
+}) {
+  return (
+    <Badge variant={BILL_STAGE_BADGE_VARIANTS[stage]} className={className}>
+      {BILL_STAGE_LABELS[stage]}
+    </Badge>
+  );
+}
+
+interface BillStageTimelineProps {
+  stage?: BillStage;
+  history?: BillStageEvent[];
+  /** Set once the bill has been assented and consolidated as an Act. */
+  resultingAct?: { id: string; title?: string } | null;
+  className?: string;
+}
+
+/**
+ * Vertical timeline of a bill's legislative stages.
+ *
+ * Every procedural stage is listed so readers can see what is still to
+ * come; reached stages show the date (and note) from the stage history.
+ * A withdrawn or lapsed bill gets a closing entry after the last stage
+ * it reached.
+ */
+export function BillStageTimeline({
+  stage,
+  history = [],
+  resultingAct,
+  className,
+}: BillStageTimelineProps) {
+  const furthest = getFurthestStage(stage, history);
+  const furthestIndex = furthest ? BILL_STAGE_ORDER.indexOf(furthest) : -1;
+  const exitEvent =
+    stage && isTerminalExitStage(stage)
+      ? history.find((event) => event.stage === stage) ?? { stage, date: "" }
+      : null;
+
+  // Latest entry per stage (a bill can be re-committed)
+  const eventsByStage = new Map<BillStage, BillStageEvent>();
+  history.forEach((event) => eventsByStage.set(event.stage, event));
+
+  return (
+    <ol className={cn("space-y-0", className)} aria-label="Legislative stages">
+      {BILL_STAGE_ORDER.map((step, index) => {
+        const reached = index <= furthestIndex;
+        const isCurrent = step === stage;
+        const event = eventsByStage.get(step);
+        const isLast = index === BILL_STAGE_ORDER.length - 1 && !exitEvent;
+
+        return (
+          <li key={step} className="relative flex gap-3 pb-4 last:pb-0">
+            {!isLast && (
+              <span
+                aria-hidden
+                className={cn(
+                  "absolute left-[9px] top-5 h-[calc(100%-12px)] w-px",
+                  index < furthestIndex ? "bg-primary/50" : "bg-border"
+                )}
+              />
+            )}
+            {reached ? (
+              <CheckCircle2 className="relative h-[18px] w-[18px] shrink-0 text-primary" />
+            ) : (
+              <Circle className="relative h-[18px] w-[18px] shrink-0 text-muted-foreground/40" />
+            )}
+            <div className="min-w-0 text-sm">
+              <p
+                className={cn(
+                  "font-medium leading-tight",
+                  !reached && "text-muted-foreground",
+                  isCurrent && "text-primary"
+                )}
+                aria-current={isCurrent ? "step" : undefined}
+              >
+                {BILL_STAGE_LABELS[step]}
+              </p>
+              {event?.date && (
+                <p className="text-xs text-muted-foreground">{formatDateOnly(event.date)}</p>
+              )}
+              {event?.note && <p className="text-xs text-muted-foreground">{event.note}</p>}
+              {step === "assented" && reached && resultingAct && (
+                <Link
+                  href={`/document/${resultingAct.id}`}
+                  className="mt-1 inline-block text-xs font-semibold text-brand-700 underline-offset-4 hover:underline dark:text-brand-gold"
+                >
+                  Became {resultingAct.title || "an Act"} →
+                </Link>
+              )}
+            </div>
+          </li>
+        );
+      })}
+      {exitEvent && (
+        <li className="relative flex gap-3">
+          <XCircle className="relative h-[18px] w-[18px] shrink-0 text-destructive" />
+          <div className="min-w-0 text-sm">
+            <p className="font-medium leading-tight text-destructive" aria-current="step">
+              {BILL_STAGE_LABELS[exitEvent.stage]}
+            </p>
+            {exitEvent.date && (
+              <p className="text-xs text-muted-foreground">{formatDateOnly(exitEvent.date)}</p>
+            )}
+            {exitEvent.note && <p className="text-xs text-muted-foreground">{exitEvent.note}</p>}
+          </div>
+        </li>
+      )}
+    </ol>
+  );
+}
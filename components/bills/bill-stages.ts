@@ -0,0 +1,58 @@
+import type { BillStage, BillStageEvent } from "@/lib/api/types";
+
+/**
+ * Procedural order of the stages a bill normally passes through.
+ * "withdrawn" and "lapsed" are off-path exits and are not listed.
+ */
+export const BILL_STAGE_ORDER: BillStage[] = [
+  "first_reading",
+  "committee",
+  "second_reading",
+  "third_reading",
+  "passed",
+  "assented",
+];
+
+export const BILL_STAGE_LABELS: Record<BillStage, string> = {
+  first_reading: "First Reading",
+  committee: "Committee",
+  second_reading: "Second Reading",
+  third_reading: "Third Reading",
+  passed: "Passed",
+  assented: "Assented",
+  withdrawn: "Withdrawn",
+  lapsed: "Lapsed",
+};
+
+export const BILL_STAGE_BADGE_VARIANTS: Record<
+  BillStage,
+  "info" | "warning" | "success" | "neutral" | "danger"
+> = {
+  first_reading: "info",
+  committee: "warning",
+  second_reading: "info",
+  third_reading: "info",
+  passed: "success",
+  assented: "success",
+  withdrawn: "danger",
+  lapsed: "neutral",
+};
+
+export function isTerminalExitStage(stage: BillStage): boolean {
+  return stage === "withdrawn" || stage === "lapsed";
+}
+
+/**
+ * Last procedural stage the bill reached. For withdrawn/lapsed bills
+ * this is where they stopped, taken from the history.
+ */
+export function getFurthestStage(
+  stage: BillStage | undefined,
+  history: BillStageEvent[] = []
+): BillStage | null {
+  if (stage && !isTerminalExitStage(stage)) return stage;
+  const reached = history
+    .map((event) => BILL_STAGE_ORDER.indexOf(event.stage))
+    .filter((index) => index >= 0);
+  return reached.length ? BILL_STAGE_ORDER[Math.max(...reached)] : null;
+}
@@ -0,0 +1,8 @@
+export { BillStageBadge, BillStageTimeline } from "./bill-stage-timeline";
+export {
+  BILL_STAGE_BADGE_VARIANTS,
+  BILL_STAGE_LABELS,
+  BILL_STAGE_ORDER,
+  getFurthestStage,
+  isTerminalExitStage,
+} from "./bill-stages";
@@ -20,6 +20,9 @@ import {
   Lock,
   Scale,
   Sparkles,
+  FolderOpen,
+  Hash,
+  Loader2,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { useDebouncedValue } from "@/hooks/use-debounced-value";
@@ -41,6 +44,18 @@ import {
 import { surfaceClasses } from "@/lib/design-system";
 import { cn } from "@/lib/utils";
 import type { Conversation } from "@/lib/stores";
+import type { ConversationSearchHit } from "@/lib/api/chat";
+import { useConversationSearch } from "@/hooks/use-conversation-search";
+import { useMatterFilter } from "@/hooks/use-matter-filter";
+import { MatterFilter } from "@/components/matters";
+import { filterByMatter } from "@/lib/utils/matters";
+import {
+  highlightMatches,
+  summarizeFolders,
+  summarizeTags,
+  type LabelCount,
+} from "@/lib/utils/conversation-organization";
+import { OrganizeConversationDialog } from "./organize-conversation-dialog";
 
 // Helper to strip markdown from titles for display
 export const stripMarkdownFromTitle = (title: string): string => {
@@ -126,8 +141,12 @@ interface ConversationListProps {
   onUnstar: (id: string) => void;
   onArchive: (id: string) => void;
   onUnarchive: (id: string) => void;
+  /** Opens the folder/tags dialog; the action is hidden when omitted. */
+  onOrganize?: (conv: Conversation) => void;
   collapsed?: boolean;
   searchQuery?: string;
+  /** Server full-text hits, shown as snippets under matching rows. */
+  searchHits?: Map<string, ConversationSearchHit>;
 }
 
 export function ConversationList({
@@ -141,8 +160,10 @@ export function ConversationList({
   onUnstar,
   onArchive,
   onUnarchive,
+  onOrganize,
   collapsed = false,
   searchQuery = "",
+  searchHits,
 }: ConversationListProps) {
   // Edit state for inline renaming
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -261,6 +282,35 @@ export function ConversationList({
     onUnarchive(conv.id);
   };
 
+  // Server search hits: the first matching message passage, plus any
+  // cited documents whose title matched.
+  const renderSearchHit = (hit: ConversationSearchHit | undefined) => {
+    if (!hit || !searchQuery.trim()) return null;
+    const snippet = hit.snippets[0];
+    return (
+      <div className="mt-1 space-y-0.5 whitespace-normal text-[11px] leading-snug text-muted-foreground">
+        {snippet && (
+          <p className="line-clamp-2">
+            {highlightMatches(snippet.text, searchQuery).map((segment, index) =>
+              segment.match ? (
+                <mark key={index} className="rounded-sm bg-primary/15 px-0.5 text-foreground">
+                  {segment.text}
+                </mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )}
+          </p>
+        )}
+        {hit.matched_documents.length > 0 && (
+          <p className="truncate">
+            Cites {hit.matched_documents.map((doc) => doc.title).join(", ")}
+          </p>
+        )}
+      </div>
+    );
+  };
+
   // Render a single conversation row. The row is the same regardless of
   // sidebar state; only the collapsed variant wraps in <Tooltip>. The
   // TooltipProvider is hoisted to the list root so we don't spin up one
@@ -337,7 +387,14 @@ export function ConversationList({
                       </p>
                       <p className="truncate text-[10px] text-muted-foreground/60 mt-0.5">
                         {formatRelativeTime(conv.updatedAt || conv.createdAt)}
+                        {conv.folder && <> · {conv.folder}</>}
                       </p>
+                      {conv.tags && conv.tags.length > 0 && (
+                        <p className="truncate text-[10px] text-muted-foreground mt-0.5">
+                          {conv.tags.map((tag) => `#${tag}`).join(" ")}
+                        </p>
+                      )}
+                      {renderSearchHit(searchHits?.get(conv.id))}
                     </div>
                     <div className="ml-auto flex gap-0.5 opacity-0 transition-opacity group-hover:opacity-100">
                     <Button
@@ -365,6 +422,19 @@ export function ConversationList({
                         <Pencil className="h-3 w-3" />
                         <span className="sr-only">Rename</span>
                       </Button>
+                    {onOrganize && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        type="button"
+                        className="ll-icon-button h-6 w-6"
+                        onClick={(e) => { e.stopPropagation(); onOrganize(conv); }}
+                        title="Folder and tags"
+                      >
+                        <FolderOpen className="h-3 w-3" />
+                        <span className="sr-only">Folder and tags</span>
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="icon"
@@ -549,6 +619,8 @@ interface ConversationSidebarProps {
   onUnstarConversation: (id: string) => void;
   onArchiveConversation: (id: string) => void;
   onUnarchiveConversation: (id: string) => void;
+  onMoveConversationToFolder: (id: string, folder: string | null) => void;
+  onSetConversationTags: (id: string, tags: string[]) => void;
   onNewConversation: () => void;
 }
 
@@ -618,45 +690,102 @@ function CorpusFilterRow({ value, onChange, counts }: CorpusFilterRowProps) {
   );
 }
 
-export function ConversationSidebar({
-  conversations,
-  archivedConversations,
-  currentConversationId,
-  isFetchingHistory = false,
-  onSelectConversation,
-  onDeleteConversation,
-  onRenameConversation,
-  onStarConversation,
-  onUnstarConversation,
-  onArchiveConversation,
-  onUnarchiveConversation,
-  onNewConversation,
-}: ConversationSidebarProps) {
-  const [isCollapsed, setIsCollapsed] = useState(false);
+/**
+ * FolderTagFilterRow — narrows history to one folder and/or tag. Only
+ * rendered once the user has filed or tagged something.
+ */
+interface FolderTagFilterRowProps {
+  folders: LabelCount[];
+  tags: LabelCount[];
+  folder: string | null;
+  tag: string | null;
+  onFolderChange: (next: string | null) => void;
+  onTagChange: (next: string | null) => void;
+}
+
+function FolderTagFilterRow({ folders, tags, folder, tag, onFolderChange, onTagChange }: FolderTagFilterRowProps) {
+  const chipClass = (isActive: boolean) =>
+    cn(
+      "inline-flex max-w-full items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-medium transition-colors",
+      isActive ? "bg-foreground text-background" : "bg-muted/60 text-muted-foreground hover:bg-muted",
+    );
+
+  return (
+    <div className="flex flex-wrap gap-1 px-3 pb-3">
+      {folders.map((item) => (
+        <button
+          key={`folder:${item.name}`}
+          type="button"
+          onClick={() => onFolderChange(folder === item.name ? null : item.name)}
+          aria-pressed={folder === item.name}
+          className={chipClass(folder === item.name)}
+        >
+          <FolderOpen className="h-3 w-3 shrink-0" />
+          <span className="truncate">{item.name}</span>
+          <span className="tabular-nums opacity-70">{item.count}</span>
+        </button>
+      ))}
+      {tags.map((item) => (
+        <button
+          key={`tag:${item.name}`}
+          type="button"
+          onClick={() => onTagChange(tag === item.name ? null : item.name)}
+          aria-pressed={tag === item.name}
+          className={chipClass(tag === item.name)}
+        >
+          <Hash className="h-3 w-3 shrink-0" />
+          <span className="truncate">{item.name}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// Derive each conversation's "primary" corpus from its messages.
+// We use the first user message's corpus_scope tag — that's what the
+// user picked when starting the thread. Conversations from before
+// corpus tagging shipped have undefined → treated as legal_corpus
+// (the original Ask Ben default), which matches user expectation.
+const inferConvScope = (conv: Conversation): "legal_corpus" | "org_kb" | "both" => {
+  for (const msg of conv.messages) {
+    if (msg.role === "user" && msg.corpus_scope) {
+      return msg.corpus_scope;
+    }
+  }
+  return "legal_corpus";
+};
+
+/**
+ * Search, corpus, folder, tag and matter filtering shared by the desktop sidebar
+ * and the mobile sheet. Text search matches titles and loaded messages
+ * locally, plus anything the server's full-text search found (message
+ * content of unloaded threads and cited documents).
+ */
+function useHistoryFilters(conversations: Conversation[]) {
   const [searchQuery, setSearchQuery] = useState("");
-  const [corpusFilter, setCorpusFilter] = useState<"all" | "legal_corpus" | "org_kb" | "both">("all");
+  const [corpusFilter, setCorpusFilter] = useState<CorpusFilterValue>("all");
+  const [folderFilter, setFolderFilter] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [organizingId, setOrganizingId] = useState<string | null>(null);
   const debouncedQuery = useDebouncedValue(searchQuery, 300);
+  const { hits: searchHits, isSearching } = useConversationSearch(debouncedQuery);
+  const matterFilter = useMatterFilter("conversation");
 
-  // Derive each conversation's "primary" corpus from its messages.
-  // We use the first user message's corpus_scope tag — that's what the
-  // user picked when starting the thread. Conversations from before
-  // corpus tagging shipped have undefined → treated as legal_corpus
-  // (the original Ask Ben default), which matches user expectation.
-  const inferConvScope = (conv: Conversation): "legal_corpus" | "org_kb" | "both" => {
-    for (const msg of conv.messages) {
-      if (msg.role === "user" && msg.corpus_scope) {
-        return msg.corpus_scope;
-      }
-    }
-    return "legal_corpus";
-  };
+  const folders = useMemo(() => summarizeFolders(conversations), [conversations]);
+  const tags = useMemo(() => summarizeTags(conversations), [conversations]);
+  // A filter pointing at a folder/tag that no longer exists (e.g. the
+  // last conversation was moved out) is treated as cleared.
+  const activeFolder = folders.some((f) => f.name === folderFilter) ? folderFilter : null;
+  const activeTag = tags.some((t) => t.name === tagFilter) ? tagFilter : null;
 
-  // Filter pipeline: search query first, then corpus filter.
+  // Filter pipeline: matter first, then search query, corpus, folder and tag.
+  const { matterItemIds } = matterFilter;
   const filteredConversations = useMemo(() => {
-    let out = conversations;
+    let out = filterByMatter(conversations, (conv) => conv.id, matterItemIds);
     if (debouncedQuery.trim()) {
       const query = debouncedQuery.toLowerCase();
       out = out.filter(conv =>
+        searchHits.has(conv.id) ||
         stripMarkdownFromTitle(conv.title).toLowerCase().includes(query) ||
         conv.messages.some(m => m.content.toLowerCase().includes(query))
       );
@@ -664,20 +793,69 @@ export function ConversationSidebar({
     if (corpusFilter !== "all") {
       out = out.filter(conv => inferConvScope(conv) === corpusFilter);
     }
+    if (activeFolder) {
+      out = out.filter(conv => conv.folder === activeFolder);
+    }
+    if (activeTag) {
+      out = out.filter(conv => conv.tags?.includes(activeTag));
+    }
     return out;
-  }, [conversations, debouncedQuery, corpusFilter]);
+  }, [conversations, matterItemIds, debouncedQuery, searchHits, corpusFilter, activeFolder, activeTag]);
 
   // Counts per corpus drive the filter chip badges so users can see
   // at a glance how many threads each corpus has.
   const corpusCounts = useMemo(() => {
     const c = { legal_corpus: 0, org_kb: 0, both: 0 };
     for (const conv of conversations) {
-      const scope = inferConvScope(conv);
-      c[scope]++;
+      c[inferConvScope(conv)]++;
     }
     return c;
   }, [conversations]);
 
+  return {
+    searchQuery,
+    setSearchQuery,
+    debouncedQuery,
+    searchHits,
+    isSearching,
+    corpusFilter,
+    setCorpusFilter,
+    corpusCounts,
+    folderFilter: activeFolder,
+    setFolderFilter,
+    tagFilter: activeTag,
+    setTagFilter,
+    folders,
+    tags,
+    filteredConversations,
+    matterId: matterFilter.matterId,
+    setMatterId: matterFilter.setMatterId,
+    refreshMatter: matterFilter.refresh,
+    organizingConversation: conversations.find((conv) => conv.id === organizingId) ?? null,
+    setOrganizingId,
+  };
+}
+
+export function ConversationSidebar({
+  conversations,
+  archivedConversations,
+  currentConversationId,
+  isFetchingHistory = false,
+  onSelectConversation,
+  onDeleteConversation,
+  onRenameConversation,
+  onStarConversation,
+  onUnstarConversation,
+  onArchiveConversation,
+  onUnarchiveConversation,
+  onMoveConversationToFolder,
+  onSetConversationTags,
+  onNewConversation,
+}: ConversationSidebarProps) {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const filters = useHistoryFilters(conversations);
+  const { searchQuery, setSearchQuery, corpusCounts, filteredConversations } = filters;
+
   return (
     <div
       className={cn(
@@ -752,12 +930,38 @@ export function ConversationSidebar({
           history don't see clutter. */}
       {!isCollapsed && (corpusCounts.org_kb > 0 || corpusCounts.both > 0) && (
         <CorpusFilterRow
-          value={corpusFilter}
-          onChange={setCorpusFilter}
+          value={filters.corpusFilter}
+          onChange={filters.setCorpusFilter}
           counts={corpusCounts}
         />
       )}
 
+      {!isCollapsed && (
+        <MatterFilter
+          value={filters.matterId}
+          onChange={filters.setMatterId}
+          className="mx-3 mb-2 h-8 w-[calc(100%-1.5rem)] text-xs"
+        />
+      )}
+
+      {!isCollapsed && (filters.folders.length > 0 || filters.tags.length > 0) && (
+        <FolderTagFilterRow
+          folders={filters.folders}
+          tags={filters.tags}
+          folder={filters.folderFilter}
+          tag={filters.tagFilter}
+          onFolderChange={filters.setFolderFilter}
+          onTagChange={filters.setTagFilter}
+        />
+      )}
+
+      {!isCollapsed && filters.isSearching && (
+        <p className="flex items-center gap-1.5 px-3 pb-2 text-[11px] text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Searching messages…
+        </p>
+      )}
+
       {/* List */}
       <div className="flex-1 overflow-y-auto px-2 py-2 scrollbar-thin">
         {isFetchingHistory && filteredConversations.length === 0 ? (
@@ -778,11 +982,23 @@ export function ConversationSidebar({
             onUnstar={onUnstarConversation}
             onArchive={onArchiveConversation}
             onUnarchive={onUnarchiveConversation}
+            onOrganize={(conv) => filters.setOrganizingId(conv.id)}
             collapsed={isCollapsed}
-            searchQuery={debouncedQuery}
+            searchQuery={filters.debouncedQuery}
+            searchHits={filters.searchHits}
           />
         )}
       </div>
+
+      <OrganizeConversationDialog
+        conversation={filters.organizingConversation}
+        onOpenChange={(isOpen) => !isOpen && filters.setOrganizingId(null)}
+        folders={filters.folders.map((folder) => folder.name)}
+        tags={filters.tags.map((tag) => tag.name)}
+        onMoveToFolder={onMoveConversationToFolder}
+        onSetTags={onSetConversationTags}
+        onMatterChange={filters.refreshMatter}
+      />
     </div>
   );
 }
@@ -802,6 +1018,8 @@ interface MobileHistorySheetProps {
   onUnstarConversation: (id: string) => void;
   onArchiveConversation: (id: string) => void;
   onUnarchiveConversation: (id: string) => void;
+  onMoveConversationToFolder: (id: string, folder: string | null) => void;
+  onSetConversationTags: (id: string, tags: string[]) => void;
 }
 
 export function MobileHistorySheet({
@@ -818,43 +1036,11 @@ export function MobileHistorySheet({
   onUnstarConversation,
   onArchiveConversation,
   onUnarchiveConversation,
+  onMoveConversationToFolder,
+  onSetConversationTags,
 }: MobileHistorySheetProps) {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [corpusFilter, setCorpusFilter] = useState<CorpusFilterValue>("all");
-  const debouncedQuery = useDebouncedValue(searchQuery, 300);
-
-  // Same scope-inference logic as the desktop sidebar.
-  const inferConvScope = (conv: Conversation): "legal_corpus" | "org_kb" | "both" => {
-    for (const msg of conv.messages) {
-      if (msg.role === "user" && msg.corpus_scope) {
-        return msg.corpus_scope;
-      }
-    }
-    return "legal_corpus";
-  };
-
-  const filteredConversations = useMemo(() => {
-    let out = conversations;
-    if (debouncedQuery.trim()) {
-      const query = debouncedQuery.toLowerCase();
-      out = out.filter(conv =>
-        stripMarkdownFromTitle(conv.title).toLowerCase().includes(query) ||
-        conv.messages.some(m => m.content.toLowerCase().includes(query))
-      );
-    }
-    if (corpusFilter !== "all") {
-      out = out.filter(conv => inferConvScope(conv) === corpusFilter);
-    }
-    return out;
-  }, [conversations, debouncedQuery, corpusFilter]);
-
-  const corpusCounts = useMemo(() => {
-    const c = { legal_corpus: 0, org_kb: 0, both: 0 };
-    for (const conv of conversations) {
-      c[inferConvScope(conv)]++;
-    }
-    return c;
-  }, [conversations]);
+  const filters = useHistoryFilters(conversations);
+  const { searchQuery, setSearchQuery, corpusCounts, filteredConversations } = filters;
 
   return (
     <Sheet open={open} onOpenChange={onOpenChange}>
@@ -911,13 +1097,39 @@ export function MobileHistorySheet({
         {(corpusCounts.org_kb > 0 || corpusCounts.both > 0) && (
           <div className="px-1">
             <CorpusFilterRow
-              value={corpusFilter}
-              onChange={setCorpusFilter}
+              value={filters.corpusFilter}
+              onChange={filters.setCorpusFilter}
               counts={corpusCounts}
             />
           </div>
         )}
 
+        <MatterFilter
+          value={filters.matterId}
+          onChange={filters.setMatterId}
+          className="mx-4 mb-2 h-8 w-[calc(100%-2rem)] text-xs"
+        />
+
+        {(filters.folders.length > 0 || filters.tags.length > 0) && (
+          <div className="px-1">
+            <FolderTagFilterRow
+              folders={filters.folders}
+              tags={filters.tags}
+              folder={filters.folderFilter}
+              tag={filters.tagFilter}
+              onFolderChange={filters.setFolderFilter}
+              onTagChange={filters.setTagFilter}
+            />
+          </div>
+        )}
+
+        {filters.isSearching && (
+          <p className="flex items-center gap-1.5 px-4 pb-2 text-[11px] text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Searching messages…
+          </p>
+        )}
+
         <div className="flex-1 overflow-y-auto px-4 pb-4">
           {isFetchingHistory && filteredConversations.length === 0 ? (
             <div className="space-y-2 py-1">
@@ -940,10 +1152,22 @@ export function MobileHistorySheet({
               onUnstar={onUnstarConversation}
               onArchive={onArchiveConversation}
               onUnarchive={onUnarchiveConversation}
-              searchQuery={debouncedQuery}
+              onOrganize={(conv) => filters.setOrganizingId(conv.id)}
+              searchQuery={filters.debouncedQuery}
+              searchHits={filters.searchHits}
             />
           )}
         </div>
+
+        <OrganizeConversationDialog
+          conversation={filters.organizingConversation}
+          onOpenChange={(isOpen) => !isOpen && filters.setOrganizingId(null)}
+          folders={filters.folders.map((folder) => folder.name)}
+          tags={filters.tags.map((tag) => tag.name)}
+          onMoveToFolder={onMoveConversationToFolder}
+          onSetTags={onSetConversationTags}
+          onMatterChange={filters.refreshMatter}
+        />
       </SheetContent>
     </Sheet>
   );
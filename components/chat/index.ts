@@ -29,3 +29,4 @@ export { ChatMessage, TypingIndicator, MessageEditForm } from "./chat-message";
 export { VirtualizedMessageList } from "./virtualized-message-list";
 export { KeyboardShortcutsDialog } from "./keyboard-shortcuts-dialog";
 export { ExportDialog } from "./export-dialog";
+export { OrganizeConversationDialog } from "./organize-conversation-dialog";
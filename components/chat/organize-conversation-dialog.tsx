@@ -0,0 +1,199 @@
+"use client";
+
+import { useState } from "react";
+import { Briefcase, FolderOpen, X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { AddToMatterDialog } from "@/components/matters";
+import type { Conversation } from "@/lib/stores/chat-store";
+import {
+  MAX_FOLDER_NAME_LENGTH,
+  normalizeFolderName,
+  parseTags,
+} from "@/lib/utils/conversation-organization";
+
+interface OrganizeConversationDialogProps {
+  conversation: Conversation | null;
+  onOpenChange: (open: boolean) => void;
+  /** Folder names already in use, offered as suggestions. */
+  folders: string[];
+  /** Tags already in use, offered as one-click additions. */
+  tags: string[];
+  onMoveToFolder: (id: string, folder: string | null) => void;
+  onSetTags: (id: string, tags: string[]) => void;
+  /** Called after the conversation was filed in or removed from a matter. */
+  onMatterChange?: () => void;
+}
+
+export function OrganizeConversationDialog({
+  conversation,
+  onOpenChange,
+  ...formProps
+}: OrganizeConversationDialogProps) {
+  return (
+    <Dialog open={conversation !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {conversation && (
+          <OrganizeConversationForm
+            key={conversation.id}
+            conversation={conversation}
+            onOpenChange={onOpenChange}
+            {...formProps}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function OrganizeConversationForm({
+  conversation,
+  onOpenChange,
+  folders,
+  tags,
+  onMoveToFolder,
+  onSetTags,
+  onMatterChange,
+}: OrganizeConversationDialogProps & { conversation: Conversation }) {
+  const [folder, setFolder] = useState(conversation.folder ?? "");
+  const [selectedTags, setSelectedTags] = useState<string[]>(conversation.tags ?? []);
+  const [tagInput, setTagInput] = useState("");
+  const [matterOpen, setMatterOpen] = useState(false);
+
+  const addTags = (input: string) => {
+    const parsed = parseTags(input);
+    if (parsed.length === 0) return;
+    setSelectedTags((current) => Array.from(new Set([...current, ...parsed])));
+    setTagInput("");
+  };
+
+  const handleSave = () => {
+    // Pick up a tag typed but not yet committed with Enter or a comma.
+    const nextTags = Array.from(new Set([...selectedTags, ...parseTags(tagInput)]));
+    const nextFolder = normalizeFolderName(folder);
+    if (nextFolder !== (conversation.folder ?? null)) {
+      onMoveToFolder(conversation.id, nextFolder);
+    }
+    const currentTags = conversation.tags ?? [];
+    if (nextTags.length !== currentTags.length || nextTags.some((tag) => !currentTags.includes(tag))) {
+      onSetTags(conversation.id, nextTags);
+    }
+    onOpenChange(false);
+  };
+
+  const unusedTags = tags.filter((tag) => !selectedTags.includes(tag));
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <FolderOpen className="h-5 w-5" />
+          Organize conversation
+        </DialogTitle>
+        <DialogDescription>
+          Put it in a folder and tag it so you can find it later, or file it under a client matter.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="conversation-folder">Folder</Label>
+          <Input
+            id="conversation-folder"
+            list="conversation-folder-options"
+            placeholder="e.g., Acme Ltd – land acquisition"
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            maxLength={MAX_FOLDER_NAME_LENGTH}
+          />
+          <datalist id="conversation-folder-options">
+            {folders.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <p className="text-xs text-muted-foreground">Leave empty to keep the conversation unfiled.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="conversation-tags">Tags</Label>
+          {selectedTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {selectedTags.map((tag) => (
+                <Badge key={tag} variant="secondary" className="gap-1">
+                  #{tag}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedTags((current) => current.filter((t) => t !== tag))}
+                    aria-label={`Remove tag ${tag}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            id="conversation-tags"
+            placeholder="Add tags, separated by commas"
+            value={tagInput}
+            onChange={(e) => {
+              const value = e.target.value;
+              if (value.endsWith(",")) {
+                addTags(value);
+              } else {
+                setTagInput(value);
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                addTags(tagInput);
+              }
+            }}
+          />
+          {unusedTags.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {unusedTags.slice(0, 12).map((tag) => (
+                <button key={tag} type="button" onClick={() => addTags(tag)}>
+                  <Badge variant="outline">#{tag}</Badge>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <DialogFooter className="sm:justify-between">
+        <Button variant="ghost" onClick={() => setMatterOpen(true)}>
+          <Briefcase className="mr-2 h-4 w-4" />
+          Add to matter
+        </Button>
+        <div className="flex flex-col-reverse gap-2 sm:flex-row">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </div>
+      </DialogFooter>
+
+      <AddToMatterDialog
+        open={matterOpen}
+        onOpenChange={setMatterOpen}
+        itemType="conversation"
+        itemId={conversation.id}
+        itemTitle={conversation.title}
+        onChange={onMatterChange}
+      />
+    </>
+  );
+}
@@ -80,6 +80,12 @@ function getDocTypeInfo(type: DocumentType): {
         label: "Judgments",
         color: getDocumentAccentClass(type),
       };
+    case "bill":
+      return {
+        icon: FileText,
+        label: "Bills",
+        color: getDocumentAccentClass(type),
+      };
     case "web":
       return {
         icon: ExternalLink,
@@ -104,6 +110,7 @@ function groupSourcesByType(sources: ChatSource[]): SourcesByType[] {
     act: 0,
     regulation: 0,
     judgment: 0,
+    bill: 0,
     organization_document: 0,
     web: 0,
   };
@@ -120,6 +127,7 @@ function groupSourcesByType(sources: ChatSource[]): SourcesByType[] {
     "act",
     "regulation",
     "judgment",
+    "bill",
     "organization_document",
     "web",
   ];
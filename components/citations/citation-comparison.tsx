@@ -26,6 +26,7 @@ const documentIconMap: Record<DocumentType, LucideIcon> = {
   judgment: Gavel,
   regulation: ScrollText,
   constitution: Scale,
+  bill: FileText,
   // Internal KB docs get Lock to mark "your private corpus".
   organization_document: Lock,
   web: ExternalLink,
@@ -35,6 +35,7 @@ const documentIconMap: Record<DocumentType, LucideIcon> = {
   judgment: Gavel,
   regulation: ScrollText,
   constitution: Scale,
+  bill: FileText,
   organization_document: Lock,
   web: ExternalLink,
 };
@@ -42,6 +42,7 @@ const documentIconMap: Record<DocumentType, LucideIcon> = {
   judgment: Gavel,
   regulation: ScrollText,
   constitution: Scale,
+  bill: FileText,
   // Internal KB docs get a Lock to signal "your private corpus" — the
   // visual cue is meant to read at a glance: legal authority vs. your
   // own org's docs. Same metaphor Glean / Notion AI use.
@@ -39,6 +39,7 @@ const documentIconMap: Record<DocumentType, LucideIcon> = {
   judgment: Gavel,
   regulation: ScrollText,
   constitution: Scale,
+  bill: FileText,
   organization_document: Lock,
   web: ExternalLink,
 };
@@ -0,0 +1,62 @@
+import {
+  countTreatments,
+  filterCitingDocuments,
+  getCitingFilterOptions,
+  getOverruledBy,
+} from "../citator-utils";
+import type { CitingDocument } from "@/lib/api/citations";
+
+function citing(overrides: Partial<CitingDocument>): CitingDocument {
+  return {
+    document_id: "doc",
+    human_readable_id: "doc",
+    title: "Case",
+    document_type: "judgment",
+    court_level: "High Court",
+    judgment_date: "2020-05-01",
+    treatment: "cited",
+    ...overrides,
+  };
+}
+
+const items = [
+  citing({ document_id: "a", court_level: "Supreme Court", judgment_date: "2019-03-10", treatment: "followed" }),
+  citing({ document_id: "b", court_level: "High Court", judgment_date: "2021-07-02", treatment: "distinguished" }),
+  citing({ document_id: "c", court_level: "Court of Appeal", judgment_date: "2021-01-15", treatment: "overruled" }),
+  citing({ document_id: "d", court_level: "Supreme Court", judgment_date: "2023-09-30", treatment: "overruled" }),
+  citing({ document_id: "e", court_level: null, judgment_date: null, treatment: "followed" }),
+];
+
+describe("citator utils", () => {
+  it("filters by court, year and treatment together", () => {
+    expect(filterCitingDocuments(items, { court: "Supreme Court" }).map((i) => i.document_id)).toEqual([
+      "a",
+      "d",
+    ]);
+    expect(filterCitingDocuments(items, { year: 2021 }).map((i) => i.document_id)).toEqual(["b", "c"]);
+    expect(
+      filterCitingDocuments(items, { year: 2021, treatment: "overruled" }).map((i) => i.document_id)
+    ).toEqual(["c"]);
+    expect(filterCitingDocuments(items, {})).toHaveLength(items.length);
+  });
+
+  it("lists courts alphabetically and years newest first, skipping missing values", () => {
+    expect(getCitingFilterOptions(items)).toEqual({
+      courts: ["Court of Appeal", "High Court", "Supreme Court"],
+      years: [2023, 2021, 2019],
+    });
+  });
+
+  it("counts treatments in display order", () => {
+    expect(countTreatments(items)).toEqual([
+      { treatment: "followed", count: 2 },
+      { treatment: "distinguished", count: 1 },
+      { treatment: "overruled", count: 2 },
+    ]);
+  });
+
+  it("returns the most recent overruling", () => {
+    expect(getOverruledBy(items)?.document_id).toBe("d");
+    expect(getOverruledBy(items.filter((i) => i.treatment !== "overruled"))).toBeNull();
+  });
+});
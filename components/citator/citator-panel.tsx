@@ -0,0 +1,370 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, Quote } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { surfaceClasses } from "@/lib/design-system";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
+import { eIdToCitation } from "@/lib/utils/citation-parser";
+import { useCitedAuthorities, useCitingDocuments } from "@/lib/hooks";
+import type { CitationTreatment, CitingDocument, CitedAuthority } from "@/lib/api/citations";
+import type { DocumentType } from "@/lib/api/types";
+import {
+  TREATMENT_BADGE_VARIANTS,
+  TREATMENT_LABELS,
+  countTreatments,
+  filterCitingDocuments,
+  getCitingFilterOptions,
+  getOverruledBy,
+} from "./citator-utils";
+
+const ALL = "all";
+
+interface CitatorPanelProps {
+  documentId: string;
+  documentType: DocumentType;
+  /** Section the reader is in; enables the "this section" scope for legislation. */
+  sectionEid?: string | null;
+  /** Jump to a section of the current document. */
+  onSectionSelect?: (eid: string) => void;
+  /** Where links out of the panel should return to. */
+  returnTo?: string;
+  className?: string;
+}
+
+function TreatmentBadge({ treatment }: { treatment: CitationTreatment }) {
+  return (
+    <Badge variant={TREATMENT_BADGE_VARIANTS[treatment]} className="shrink-0">
+      {TREATMENT_LABELS[treatment]}
+    </Badge>
+  );
+}
+
+function documentHref(id: string, eid: string | null | undefined, returnTo?: string) {
+  const params = new URLSearchParams();
+  if (eid) params.set("section", eid);
+  if (returnTo) params.set("returnTo", returnTo);
+  const query = params.toString();
+  return query ? `/document/${id}?${query}` : `/document/${id}`;
+}
+
+function CitingRow({
+  item,
+  showPinpoint,
+  onSectionSelect,
+  returnTo,
+}: {
+  item: CitingDocument;
+  showPinpoint: boolean;
+  onSectionSelect?: (eid: string) => void;
+  returnTo?: string;
+}) {
+  return (
+    <li className="py-3">
+      <div className="flex items-start justify-between gap-3">
+        <Link
+          href={documentHref(item.document_id, item.citing_eid, returnTo)}
+          className="group min-w-0 flex-1"
+        >
+          <p className="font-medium leading-snug group-hover:underline">{item.title}</p>
+          <p className="mt-0.5 text-xs text-muted-foreground">
+            {[item.case_number, item.court_level, item.judgment_date && formatDateOnly(item.judgment_date)]
+              .filter(Boolean)
+              .join(" · ")}
+          </p>
+        </Link>
+        <TreatmentBadge treatment={item.treatment} />
+      </div>
+      {item.context && (
+        <p className="mt-2 border-l-2 border-border/60 pl-3 text-xs italic leading-relaxed text-muted-foreground">
+          {item.context}
+        </p>
+      )}
+      {showPinpoint && item.cited_eid && (
+        <button
+          type="button"
+          onClick={() => onSectionSelect?.(item.cited_eid!)}
+          disabled={!onSectionSelect}
+          className="mt-2 text-xs font-medium text-primary underline-offset-4 hover:underline disabled:no-underline"
+        >
+          On {eIdToCitation(item.cited_eid)}
+        </button>
+      )}
+    </li>
+  );
+}
+
+function AuthorityRow({ item, returnTo }: { item: CitedAuthority; returnTo?: string }) {
+  const meta = [
+    item.cited_eid && eIdToCitation(item.cited_eid),
+    item.court_level,
+    item.judgment_date && formatDateOnly(item.judgment_date),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  return (
+    <li className="flex items-start justify-between gap-3 py-3">
+      <div className="min-w-0 flex-1">
+        {item.document_id ? (
+          <Link
+            href={documentHref(item.document_id, item.cited_eid, returnTo)}
+            className="font-medium leading-snug hover:underline"
+          >
+            {item.title}
+          </Link>
+        ) : (
+          <p className="font-medium leading-snug">{item.title}</p>
+        )}
+        <p className="mt-0.5 text-xs text-muted-foreground">
+          {meta || item.citation_text}
+          {!item.document_id && " · not in the Law Lens library"}
+        </p>
+      </div>
+      <TreatmentBadge treatment={item.treatment} />
+    </li>
+  );
+}
+
+/**
+ * Citator for a judgment or an Act: later documents citing it, with how
+ * each treated it, and the authorities it relies on. Legislation can be
+ * narrowed to citations pinpointed at the section being read.
+ */
+export function CitatorPanel({
+  documentId,
+  documentType,
+  sectionEid,
+  onSectionSelect,
+  returnTo,
+  className,
+}: CitatorPanelProps) {
+  const isJudgment = documentType === "judgment";
+  const [scope, setScope] = useState<"document" | "section">("document");
+  const [court, setCourt] = useState(ALL);
+  const [year, setYear] = useState(ALL);
+  const [treatment, setTreatment] = useState(ALL);
+
+  const scopedEid = !isJudgment && scope === "section" ? sectionEid ?? null : null;
+  const citingQuery = useCitingDocuments(documentId, scopedEid);
+  const authoritiesQuery = useCitedAuthorities(isJudgment ? documentId : null);
+
+  const citing = useMemo(() => citingQuery.data?.items ?? [], [citingQuery.data]);
+  const options = useMemo(() => getCitingFilterOptions(citing), [citing]);
+  const treatmentCounts = useMemo(() => countTreatments(citing), [citing]);
+  const overruledBy = isJudgment ? getOverruledBy(citing) : null;
+  const visible = useMemo(
+    () =>
+      filterCitingDocuments(citing, {
+        court: court === ALL ? undefined : court,
+        year: year === ALL ? undefined : Number(year),
+        treatment: treatment === ALL ? undefined : (treatment as CitationTreatment),
+      }),
+    [citing, court, year, treatment]
+  );
+  const hasFilters = court !== ALL || year !== ALL || treatment !== ALL;
+  const authorities = authoritiesQuery.data ?? [];
+
+  const citedBy = (
+    <div className="space-y-3">
+      {!isJudgment && sectionEid && (
+        <ToggleGroup
+          type="single"
+          value={scope}
+          onValueChange={(value) => {
+            if (!value) return;
+            setScope(value as "document" | "section");
+            // The options differ per scope, so start the new list unfiltered
+            setCourt(ALL);
+            setYear(ALL);
+            setTreatment(ALL);
+          }}
+          className="justify-start"
+          aria-label="Citation scope"
+        >
+          <ToggleGroupItem value="document" size="sm">
+            Whole document
+          </ToggleGroupItem>
+          <ToggleGroupItem value="section" size="sm">
+            {eIdToCitation(sectionEid)}
+          </ToggleGroupItem>
+        </ToggleGroup>
+      )}
+
+      {overruledBy && (
+        <div className="flex items-start gap-2 rounded-lg border border-red-500/30 bg-red-500/5 px-3 py-2 text-sm text-red-800 dark:text-red-300">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+          <p>
+            Overruled by{" "}
+            <Link
+              href={documentHref(overruledBy.document_id, overruledBy.citing_eid, returnTo)}
+              className="font-medium underline underline-offset-4"
+            >
+              {overruledBy.title}
+            </Link>
+            {overruledBy.judgment_date && ` (${formatDateOnly(overruledBy.judgment_date)})`}
+          </p>
+        </div>
+      )}
+
+      {treatmentCounts.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 text-xs text-muted-foreground">
+          {treatmentCounts.map(({ treatment: t, count }) => (
+            <span key={t} className={cn("rounded-full px-2.5 py-0.5", surfaceClasses.chipMuted)}>
+              {TREATMENT_LABELS[t]} {count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {citing.length > 0 && (
+        <div className="grid gap-2 sm:grid-cols-3">
+          <Select value={court} onValueChange={setCourt}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Filter by court">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All courts</SelectItem>
+              {options.courts.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={year} onValueChange={setYear}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Filter by year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All years</SelectItem>
+              {options.years.map((value) => (
+                <SelectItem key={value} value={String(value)}>
+                  {value}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={treatment} onValueChange={setTreatment}>
+            <SelectTrigger className="h-8 text-xs" aria-label="Filter by treatment">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All treatments</SelectItem>
+              {treatmentCounts.map(({ treatment: t }) => (
+                <SelectItem key={t} value={t}>
+                  {TREATMENT_LABELS[t]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {citingQuery.isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-14 w-full" />
+          ))}
+        </div>
+      ) : citingQuery.isError ? (
+        <p className="py-4 text-sm text-destructive">
+          Citing documents could not be loaded. Please try again.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="py-4 text-sm text-muted-foreground">
+          {hasFilters
+            ? "No citing documents match these filters."
+            : scopedEid
+              ? `No judgments cite ${eIdToCitation(scopedEid)} yet.`
+              : "No later documents cite this one yet."}
+        </p>
+      ) : (
+        <ul className="divide-y divide-border/50">
+          {visible.map((item) => (
+            <CitingRow
+              key={`${item.document_id}-${item.citing_eid ?? ""}-${item.cited_eid ?? ""}`}
+              item={item}
+              showPinpoint={!isJudgment && !scopedEid}
+              onSectionSelect={onSectionSelect}
+              returnTo={returnTo}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className={className}>
+      <CardContent className="py-4">
+        <h3 className="mb-3 flex items-center gap-2 font-medium">
+          <Quote className="h-4 w-4" />
+          Citator
+        </h3>
+        {isJudgment ? (
+          <Tabs defaultValue="cited-by">
+            <TabsList>
+              <TabsTrigger value="cited-by">
+                Cited by{citingQuery.data ? ` (${citingQuery.data.total})` : ""}
+              </TabsTrigger>
+              <TabsTrigger value="cites">
+                Cites{authoritiesQuery.data ? ` (${authorities.length})` : ""}
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="cited-by" className="mt-3">
+              {citedBy}
+            </TabsContent>
+            <TabsContent value="cites" className="mt-3">
+              {authoritiesQuery.isLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-12 w-full" />
+                  ))}
+                </div>
+              ) : authoritiesQuery.isError ? (
+                <p className="py-4 text-sm text-destructive">
+                  Cited authorities could not be loaded. Please try again.
+                </p>
+              ) : authorities.length === 0 ? (
+                <p className="py-4 text-sm text-muted-foreground">
+                  No authorities were extracted from this judgment.
+                </p>
+              ) : (
+                <ul className="divide-y divide-border/50">
+                  {authorities.map((item, index) => (
+                    <AuthorityRow
+                      key={`${item.document_id ?? item.citation_text}-${index}`}
+                      item={item}
+                      returnTo={returnTo}
+                    />
+                  ))}
+                </ul>
+              )}
+            </TabsContent>
+          </Tabs>
+        ) : (
+          citedBy
+        )}
+        {citingQuery.data && citingQuery.data.total > citing.length && (
+          <p className="mt-3 text-xs text-muted-foreground">
+            Showing the {citing.length} most recent of {citingQuery.data.total} citing documents.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import type { CitationTreatment, CitingDocument } from "@/lib/api/citations";
+
+/** Positive treatments first, then neutral, then negative. */
+export const TREATMENT_ORDER: CitationTreatment[] = [
+  "followed",
+  "applied",
+  "approved",
+  "considered",
+  "cited",
+  "distinguished",
+  "doubted",
+  "overruled",
+];
+
+export const TREATMENT_LABELS: Record<CitationTreatment, string> = {
+  followed: "Followed",
+  applied: "Applied",
+  approved: "Approved",
+  considered: "Considered",
+  cited: "Cited",
+  distinguished: "Distinguished",
+  doubted: "Doubted",
+  overruled: "Overruled",
+};
+
+export const TREATMENT_BADGE_VARIANTS: Record<
+  CitationTreatment,
+  "success" | "info" | "neutral" | "warning" | "danger"
+> = {
+  followed: "success",
+  applied: "success",
+  approved: "success",
+  considered: "info",
+  cited: "neutral",
+  distinguished: "warning",
+  doubted: "warning",
+  overruled: "danger",
+};
+
+export interface CitingFilters {
+  court?: string;
+  year?: number;
+  treatment?: CitationTreatment;
+}
+
+export function getCitingYear(item: CitingDocument): number | null {
+  if (!item.judgment_date) return null;
+  const year = new Date(item.judgment_date).getFullYear();
+  return Number.isFinite(year) ? year : null;
+}
+
+export function filterCitingDocuments(
+  items: CitingDocument[],
+  filters: CitingFilters
+): CitingDocument[] {
+  return items.filter((item) => {
+    if (filters.court && item.court_level !== filters.court) return false;
+    if (filters.year && getCitingYear(item) !== filters.year) return false;
+    if (filters.treatment && item.treatment !== filters.treatment) return false;
+    return true;
+  });
+}
+
+/** Courts and years present in the list, for the filter selects. */
+export function getCitingFilterOptions(items: CitingDocument[]) {
+  const courts = new Set<string>();
+  const years = new Set<number>();
+  for (const item of items) {
+    if (item.court_level) courts.add(item.court_level);
+    const year = getCitingYear(item);
+    if (year) years.add(year);
+  }
+  return {
+    courts: Array.from(courts).sort((a, b) => a.localeCompare(b)),
+    years: Array.from(years).sort((a, b) => b - a),
+  };
+}
+
+/** Count per treatment, in display order, omitting treatments with none. */
+export function countTreatments(
+  items: CitingDocument[]
+): Array<{ treatment: CitationTreatment; count: number }> {
+  const counts = new Map<CitationTreatment, number>();
+  for (const item of items) {
+    counts.set(item.treatment, (counts.get(item.treatment) || 0) + 1);
+  }
+  return TREATMENT_ORDER.filter((treatment) => counts.has(treatment)).map((treatment) => ({
+    treatment,
+    count: counts.get(treatment)!,
+  }));
+}
+
+/**
+ * The most recent overruling, if any. A later overruling outranks every
+ * positive treatment, so the panel flags it above the list.
+ */
+export function getOverruledBy(items: CitingDocument[]): CitingDocument | null {
+  let latest: CitingDocument | null = null;
+  for (const item of items) {
+    if (item.treatment !== "overruled") continue;
+    if (!latest || (item.judgment_date || "") > (latest.judgment_date || "")) {
+      latest = item;
+    }
+  }
+  return latest;
+}
@@ -0,0 +1,6 @@
+export { CitatorPanel } from "./citator-panel";
+export {
+  TREATMENT_BADGE_VARIANTS,
+  TREATMENT_LABELS,
+  TREATMENT_ORDER,
+} from "./citator-utils";
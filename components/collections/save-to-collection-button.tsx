@@ -18,7 +18,9 @@ import {
 import {
     Select,
     SelectContent,
+    SelectGroup,
     SelectItem,
+    SelectLabel,
     SelectTrigger,
     SelectValue,
 } from "@/components/ui/select";
@@ -94,7 +96,9 @@ export function SaveToCollectionButton({
     const loadCollections = React.useCallback(async () => {
         setLoading(true);
         try {
-            const data = await collectionsApi.getAll();
+            // Viewers can't add items, so shared collections where we only
+            // have read access never appear as save targets.
+            const data = (await collectionsApi.getAll()).filter((c) => c.my_role !== "viewer");
             setCollections(data);
             if (data.length > 0 && !selectedCollectionId) {
                 setSelectedCollectionId(data[0].id);
@@ -113,6 +117,9 @@ export function SaveToCollectionButton({
         }
     }, [open, loadCollections]);
 
+    const personalCollections = collections.filter((c) => c.visibility !== "organization");
+    const sharedCollections = collections.filter((c) => c.visibility === "organization");
+
     const handleSave = async () => {
         if (isCreatingNew && !newCollectionName.trim()) {
             toast.error("Please enter a collection name");
@@ -229,11 +236,31 @@ export function SaveToCollectionButton({
                                             />
                                         </SelectTrigger>
                                         <SelectContent>
-                                            {collections.map((col) => (
-                                                <SelectItem key={col.id} value={col.id}>
-                                                    {col.name}
-                                                </SelectItem>
-                                            ))}
+                                            {personalCollections.length > 0 && (
+                                                <SelectGroup>
+                                                    <SelectLabel>Personal</SelectLabel>
+                                                    {personalCollections.map((col) => (
+                                                        <SelectItem key={col.id} value={col.id}>
+                                                            {col.name}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectGroup>
+                                            )}
+                                            {sharedCollections.length > 0 && (
+                                                <SelectGroup>
+                                                    <SelectLabel>Shared</SelectLabel>
+                                                    {sharedCollections.map((col) => (
+                                                        <SelectItem key={col.id} value={col.id}>
+                                                            {col.name}
+                                                            {col.owner_name && col.my_role !== "owner" && (
+                                                                <span className="ml-1 text-muted-foreground">
+                                                                    · {col.owner_name}
+                                                                </span>
+                                                            )}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectGroup>
+                                            )}
                                         </SelectContent>
                                     </Select>
                                     <Button
@@ -1,7 +1,7 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
-import { useRouter } from "next/navigation";
+import { useEffect, useState, useCallback, useMemo } from "react";
+import { usePathname, useRouter } from "next/navigation";
 import {
   Search,
   MessageSquare,
@@ -15,7 +15,14 @@ import {
   Moon,
   Sun,
   Home,
+  History,
+  Building2,
+  Layers,
+  FolderOpen,
+  Loader2,
+  type LucideIcon,
 } from "lucide-react";
+import { toast } from "sonner";
 import {
   CommandDialog,
   CommandEmpty,
@@ -28,16 +35,108 @@ import {
 } from "@/components/ui/command";
 import { useTheme } from "next-themes";
 import { getModifierKey } from "@/lib/hooks/use-keyboard-shortcuts";
+import { useAuth } from "@/components/providers/auth-provider";
+import { useEntitlements } from "@/hooks/use-entitlements";
+import { useCorpusScope } from "@/hooks/use-corpus-scope";
+import { useChatStore, useResearchSessionsStore, useUIStore } from "@/lib/stores";
+import { getSearchSuggestions } from "@/lib/api/search";
+import { findActByChapter } from "@/lib/api/documents";
+import { collectionsApi, type Collection } from "@/lib/api/collections";
+import { listOrganizations, switchOrganization, type Organization } from "@/lib/api/organizations";
+import { getUserFriendlyError } from "@/lib/api/client";
+import type { CorpusScope } from "@/lib/api/types";
+import {
+  matchesQuery,
+  parsePaletteIntents,
+  rankByRecency,
+  type RecentPaletteEntry,
+} from "@/lib/utils/command-palette";
 
 interface CommandPaletteProps {
   onNewChat?: () => void;
 }
 
+interface StaticCommand {
+  label: string;
+  href: string;
+  icon: LucideIcon;
+}
+
+const NAVIGATION_COMMANDS: StaticCommand[] = [
+  { label: "Home", href: "/", icon: Home },
+  { label: "Legal Assistant", href: "/chat", icon: MessageSquare },
+  { label: "Browse Documents", href: "/browse", icon: BookOpen },
+  { label: "My Library", href: "/library", icon: Library },
+];
+
+const DOCUMENT_TYPE_COMMANDS: StaticCommand[] = [
+  { label: "Acts of Parliament", href: "/legislation/acts", icon: FileText },
+  { label: "Court Judgments", href: "/judgments", icon: Scale },
+  { label: "Regulations", href: "/legislation/regulations", icon: FileText },
+  { label: "Constitution", href: "/legislation/constitution", icon: BookOpen },
+];
+
+const SCOPE_LABELS: Record<CorpusScope, string> = {
+  legal_corpus: "Law Lens",
+  org_kb: "Internal knowledge base",
+  both: "Law Lens + Internal",
+};
+
+const RECENT_ICONS: Record<RecentPaletteEntry["kind"], LucideIcon> = {
+  search: Search,
+  document: FileText,
+  conversation: MessageSquare,
+  research: Sparkles,
+  collection: FolderOpen,
+  page: History,
+};
+
+const RESULT_LIMIT = 5;
+const SUGGESTION_DEBOUNCE_MS = 200;
+const MIN_SUGGESTION_QUERY_LENGTH = 2;
+
 export function CommandPalette({ onNewChat }: CommandPaletteProps) {
-  const [open, setOpen] = useState(false);
   const router = useRouter();
+  const pathname = usePathname();
   const { setTheme, theme } = useTheme();
   const modKey = getModifierKey();
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const { entitlements } = useEntitlements();
+  const { corpusScope, setCorpusScope, allowedScopes } = useCorpusScope(entitlements?.tier);
+  const {
+    commandPalette: { isOpen: open, recent },
+    setCommandPaletteOpen,
+    toggleCommandPalette,
+    recordCommandPaletteUse,
+    setCommandPaletteUser,
+  } = useUIStore();
+  const conversations = useChatStore((state) => state.conversations);
+  const researchSessions = useResearchSessionsStore((state) => state.sessions);
+
+  const [query, setQuery] = useState("");
+  // Suggestions are kept with the query they answer so a stale response
+  // never shows under newer text.
+  const [suggestions, setSuggestions] = useState<{ query: string; items: string[] }>({
+    query: "",
+    items: [],
+  });
+  // Collections and organizations are cached with the user and active
+  // organization they were fetched for, and ignored once either changes.
+  const [collectionsCache, setCollectionsCache] = useState<{ key: string; items: Collection[] } | null>(null);
+  const [organizationsCache, setOrganizationsCache] = useState<{ key: string; items: Organization[] } | null>(null);
+  const [pendingChapter, setPendingChapter] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+  const selectedOrgId =
+    typeof window === "undefined" ? null : localStorage.getItem("selected_organization_id");
+  const directoryKey = `${user?.id ?? ""}:${selectedOrgId ?? ""}`;
+  const collections = collectionsCache?.key === directoryKey ? collectionsCache.items : null;
+  const organizations = organizationsCache?.key === directoryKey ? organizationsCache.items : null;
+
+  // Recents are the signed-in user's; switching accounts clears them.
+  useEffect(() => {
+    if (!authLoading) setCommandPaletteUser(user?.id ?? null);
+  }, [authLoading, user?.id, setCommandPaletteUser]);
 
   // Global keyboard shortcut for opening command palette
   useEffect(() => {
@@ -45,18 +144,66 @@ export function CommandPalette({ onNewChat }: CommandPaletteProps) {
       // Cmd+K or Ctrl+K to open command palette
       if ((e.metaKey || e.ctrlKey) && e.key === "k") {
         e.preventDefault();
-        setOpen((prev) => !prev);
+        toggleCommandPalette();
       }
     };
 
     document.addEventListener("keydown", handleKeyDown);
     return () => document.removeEventListener("keydown", handleKeyDown);
-  }, []);
+  }, [toggleCommandPalette]);
 
-  const runCommand = useCallback((command: () => void) => {
-    setOpen(false);
-    command();
-  }, []);
+  // Live search suggestions, debounced while the user types.
+  useEffect(() => {
+    if (!open || trimmedQuery.length < MIN_SUGGESTION_QUERY_LENGTH) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const items = await getSearchSuggestions(trimmedQuery, RESULT_LIMIT);
+        if (!cancelled) setSuggestions({ query: trimmedQuery, items });
+      } catch {
+        // Suggestions are a nicety; the palette still works without them.
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, trimmedQuery]);
+
+  // Collections and organizations are fetched the first time the palette
+  // opens for each user and organization.
+  useEffect(() => {
+    if (!open || !isAuthenticated) return;
+    const key = directoryKey;
+    if (collections === null) {
+      collectionsApi.getAll().then(
+        (items) => setCollectionsCache({ key, items }),
+        () => setCollectionsCache({ key, items: [] })
+      );
+    }
+    if (organizations === null) {
+      listOrganizations().then(
+        (data) => setOrganizationsCache({ key, items: data.items }),
+        () => setOrganizationsCache({ key, items: [] })
+      );
+    }
+  }, [open, isAuthenticated, directoryKey, collections, organizations]);
+
+  const handleOpenChange = useCallback(
+    (next: boolean) => {
+      setCommandPaletteOpen(next);
+      if (!next) setQuery("");
+    },
+    [setCommandPaletteOpen]
+  );
+
+  const runCommand = useCallback(
+    (command: () => void) => {
+      handleOpenChange(false);
+      command();
+    },
+    [handleOpenChange]
+  );
 
   const navigateTo = useCallback(
     (path: string) => {
@@ -65,6 +212,15 @@ export function CommandPalette({ onNewChat }: CommandPaletteProps) {
     [router, runCommand]
   );
 
+  /** Navigate and remember the destination under "Recent". */
+  const openEntry = useCallback(
+    (entry: Omit<RecentPaletteEntry, "usedAt">) => {
+      recordCommandPaletteUse(entry);
+      navigateTo(entry.href);
+    },
+    [recordCommandPaletteUse, navigateTo]
+  );
+
   const handleNewChat = useCallback(() => {
     if (onNewChat) {
       runCommand(onNewChat);
@@ -77,87 +233,390 @@ export function CommandPalette({ onNewChat }: CommandPaletteProps) {
     runCommand(() => setTheme(theme === "dark" ? "light" : "dark"));
   }, [theme, setTheme, runCommand]);
 
+  const openChapter = useCallback(
+    async (chapter: string) => {
+      setPendingChapter(chapter);
+      try {
+        const act = await findActByChapter(chapter);
+        if (act) {
+          openEntry({ id: `document:${act.id}`, label: act.title, href: `/document/${act.id}`, kind: "document" });
+        } else {
+          toast.info(`No Act found for Cap. ${chapter}. Showing search results instead.`);
+          openEntry({
+            id: `search:Cap. ${chapter}`,
+            label: `Cap. ${chapter}`,
+            href: `/search?q=${encodeURIComponent(`Cap. ${chapter}`)}`,
+            kind: "search",
+          });
+        }
+      } catch (err) {
+        toast.error(getUserFriendlyError(err, "Couldn't look up that chapter"));
+      } finally {
+        setPendingChapter(null);
+      }
+    },
+    [openEntry]
+  );
+
+  const changeCorpusScope = useCallback(
+    (scope: CorpusScope) => {
+      runCommand(() => {
+        setCorpusScope(scope);
+        // The chat page keeps its own scope state and follows ?scope=,
+        // so nudge it when it is open; elsewhere the stored choice is
+        // picked up the next time chat loads.
+        if (pathname === "/chat") {
+          const params = new URLSearchParams(window.location.search);
+          params.set("scope", scope);
+          router.replace(`/chat?${params.toString()}`, { scroll: false });
+        }
+        toast.success(`Searching ${SCOPE_LABELS[scope]}`);
+      });
+    },
+    [runCommand, setCorpusScope, pathname, router]
+  );
+
+  const changeOrganization = useCallback(
+    (org: Organization) => {
+      runCommand(async () => {
+        try {
+          await switchOrganization(org.id);
+          localStorage.setItem("selected_organization_id", org.id);
+          // Reload the page to refresh data with new org context
+          window.location.reload();
+        } catch (err) {
+          toast.error(getUserFriendlyError(err, "Couldn't switch organization"));
+        }
+      });
+    },
+    [runCommand]
+  );
+
+  const intents = useMemo(() => parsePaletteIntents(query), [query]);
+
+  const recentEntries = useMemo(
+    () => recent.filter((entry) => matchesQuery(entry.label, trimmedQuery)).slice(0, RESULT_LIMIT),
+    [recent, trimmedQuery]
+  );
+
+  const conversationResults = useMemo(
+    () =>
+      rankByRecency(
+        conversations.filter((conversation) => !conversation.isArchived),
+        {
+          query: trimmedQuery,
+          text: (conversation) => conversation.title,
+          timestamp: (conversation) => conversation.updatedAt,
+          limit: RESULT_LIMIT,
+        }
+      ),
+    [conversations, trimmedQuery]
+  );
+
+  const researchResults = useMemo(
+    () =>
+      rankByRecency(researchSessions, {
+        query: trimmedQuery,
+        text: (session) => `${session.title} ${session.query}`,
+        timestamp: (session) => session.updatedAt,
+        limit: RESULT_LIMIT,
+      }),
+    [researchSessions, trimmedQuery]
+  );
+
+  const collectionResults = useMemo(
+    () =>
+      rankByRecency(collections ?? [], {
+        query: trimmedQuery,
+        text: (collection) => `${collection.name} ${collection.description ?? ""}`,
+        timestamp: (collection) => collection.updated_at,
+        limit: RESULT_LIMIT,
+      }),
+    [collections, trimmedQuery]
+  );
+
+  const scopeActions = allowedScopes.filter(
+    (scope) => scope !== corpusScope && matchesQuery(`corpus scope search ${SCOPE_LABELS[scope]}`, trimmedQuery)
+  );
+
+  // The org switcher stores the active organization; without one the
+  // first organization is active.
+  const currentOrgId = selectedOrgId ?? organizations?.[0]?.id ?? null;
+  const organizationActions = (organizations ?? []).filter(
+    (org) =>
+      organizations!.length > 1 &&
+      org.id !== currentOrgId &&
+      matchesQuery(`switch organization ${org.name}`, trimmedQuery)
+  );
+
+  const suggestionResults =
+    suggestions.query === trimmedQuery
+      ? suggestions.items.filter((suggestion) => suggestion.toLowerCase() !== trimmedQuery.toLowerCase())
+      : [];
+
+  const quickActions = [
+    { label: "New Chat", icon: Plus, onSelect: handleNewChat, shortcut: `${modKey}N` },
+    { label: "Search Documents", icon: Search, onSelect: () => navigateTo("/search"), shortcut: `${modKey}S` },
+    { label: "New Research", icon: Sparkles, onSelect: () => navigateTo("/research") },
+  ].filter((action) => matchesQuery(action.label, trimmedQuery));
+  const navigationCommands = NAVIGATION_COMMANDS.filter((command) => matchesQuery(command.label, trimmedQuery));
+  const documentTypeCommands = DOCUMENT_TYPE_COMMANDS.filter((command) =>
+    matchesQuery(command.label, trimmedQuery)
+  );
+  const themeLabel = `Toggle ${theme === "dark" ? "Light" : "Dark"} Mode`;
+  const settingsCommands = {
+    theme: matchesQuery(themeLabel, trimmedQuery),
+    help: matchesQuery("Help & Support", trimmedQuery),
+  };
+
+  const hasTypedActions =
+    trimmedQuery.length > 0 || scopeActions.length > 0 || organizationActions.length > 0;
+
   return (
-    <CommandDialog open={open} onOpenChange={setOpen}>
-      <CommandInput placeholder="Type a command or search..." />
+    <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+      <CommandInput
+        placeholder="Search, jump to a conversation, or type “cap 95”…"
+        value={query}
+        onValueChange={setQuery}
+      />
       <CommandList>
         <CommandEmpty>No results found.</CommandEmpty>
 
-        <CommandGroup heading="Quick Actions">
-          <CommandItem onSelect={handleNewChat}>
-            <Plus className="mr-2 h-4 w-4" />
-            <span>New Chat</span>
-            <CommandShortcut>{modKey}N</CommandShortcut>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/search")}>
-            <Search className="mr-2 h-4 w-4" />
-            <span>Search Documents</span>
-            <CommandShortcut>{modKey}S</CommandShortcut>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/research")}>
-            <Sparkles className="mr-2 h-4 w-4" />
-            <span>New Research</span>
-          </CommandItem>
-        </CommandGroup>
-
-        <CommandSeparator />
-
-        <CommandGroup heading="Navigation">
-          <CommandItem onSelect={() => navigateTo("/")}>
-            <Home className="mr-2 h-4 w-4" />
-            <span>Home</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/chat")}>
-            <MessageSquare className="mr-2 h-4 w-4" />
-            <span>Legal Assistant</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/browse")}>
-            <BookOpen className="mr-2 h-4 w-4" />
-            <span>Browse Documents</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/library")}>
-            <Library className="mr-2 h-4 w-4" />
-            <span>My Library</span>
-          </CommandItem>
-        </CommandGroup>
-
-        <CommandSeparator />
-
-        <CommandGroup heading="Document Types">
-          <CommandItem onSelect={() => navigateTo("/legislation/acts")}>
-            <FileText className="mr-2 h-4 w-4" />
-            <span>Acts of Parliament</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/judgments")}>
-            <Scale className="mr-2 h-4 w-4" />
-            <span>Court Judgments</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/legislation/regulations")}>
-            <FileText className="mr-2 h-4 w-4" />
-            <span>Regulations</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/legislation/constitution")}>
-            <BookOpen className="mr-2 h-4 w-4" />
-            <span>Constitution</span>
-          </CommandItem>
-        </CommandGroup>
-
-        <CommandSeparator />
-
-        <CommandGroup heading="Settings">
-          <CommandItem onSelect={toggleTheme}>
-            {theme === "dark" ? (
-              <Sun className="mr-2 h-4 w-4" />
-            ) : (
-              <Moon className="mr-2 h-4 w-4" />
+        {recentEntries.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentEntries.map((entry) => {
+              const Icon = RECENT_ICONS[entry.kind];
+              return (
+                <CommandItem key={entry.id} value={`recent:${entry.id}`} onSelect={() => openEntry(entry)}>
+                  <Icon className="mr-2 h-4 w-4" />
+                  <span className="truncate">{entry.label}</span>
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {hasTypedActions && (
+          <CommandGroup heading="Actions">
+            {intents.map((intent) =>
+              intent.kind === "open_chapter" ? (
+                <CommandItem
+                  key={`chapter:${intent.chapter}`}
+                  value={`chapter:${intent.chapter}`}
+                  onSelect={() => openChapter(intent.chapter)}
+                  disabled={pendingChapter !== null}
+                >
+                  {pendingChapter === intent.chapter ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <FileText className="mr-2 h-4 w-4" />
+                  )}
+                  <span>Open Act Cap. {intent.chapter}</span>
+                </CommandItem>
+              ) : (
+                <CommandItem
+                  key={`research:${intent.topic}`}
+                  value={`research-topic:${intent.topic}`}
+                  onSelect={() =>
+                    openEntry({
+                      id: `research-topic:${intent.topic}`,
+                      label: `Research: ${intent.topic}`,
+                      href: `/research?q=${encodeURIComponent(intent.topic)}`,
+                      kind: "research",
+                    })
+                  }
+                >
+                  <Sparkles className="mr-2 h-4 w-4" />
+                  <span className="truncate">Start deep research on “{intent.topic}”</span>
+                </CommandItem>
+              )
+            )}
+            {trimmedQuery && (
+              <CommandItem
+                value={`search:${trimmedQuery}`}
+                onSelect={() =>
+                  openEntry({
+                    id: `search:${trimmedQuery}`,
+                    label: trimmedQuery,
+                    href: `/search?q=${encodeURIComponent(trimmedQuery)}`,
+                    kind: "search",
+                  })
+                }
+              >
+                <Search className="mr-2 h-4 w-4" />
+                <span className="truncate">Search documents for “{trimmedQuery}”</span>
+              </CommandItem>
             )}
-            <span>Toggle {theme === "dark" ? "Light" : "Dark"} Mode</span>
-          </CommandItem>
-          <CommandItem onSelect={() => navigateTo("/help")}>
-            <HelpCircle className="mr-2 h-4 w-4" />
-            <span>Help & Support</span>
-          </CommandItem>
-        </CommandGroup>
+            {scopeActions.map((scope) => (
+              <CommandItem key={scope} value={`scope:${scope}`} onSelect={() => changeCorpusScope(scope)}>
+                <Layers className="mr-2 h-4 w-4" />
+                <span>Search {SCOPE_LABELS[scope]}</span>
+                <CommandShortcut>Now: {SCOPE_LABELS[corpusScope]}</CommandShortcut>
+              </CommandItem>
+            ))}
+            {organizationActions.map((org) => (
+              <CommandItem key={org.id} value={`organization:${org.id}`} onSelect={() => changeOrganization(org)}>
+                <Building2 className="mr-2 h-4 w-4" />
+                <span className="truncate">Switch to {org.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {conversationResults.length > 0 && (
+          <CommandGroup heading="Conversations">
+            {conversationResults.map((conversation) => (
+              <CommandItem
+                key={conversation.id}
+                value={`conversation:${conversation.id}`}
+                onSelect={() =>
+                  openEntry({
+                    id: `conversation:${conversation.id}`,
+                    label: conversation.title,
+                    href: `/chat?conversation=${conversation.id}`,
+                    kind: "conversation",
+                  })
+                }
+              >
+                <MessageSquare className="mr-2 h-4 w-4" />
+                <span className="truncate">{conversation.title}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {researchResults.length > 0 && (
+          <CommandGroup heading="Research">
+            {researchResults.map((session) => (
+              <CommandItem
+                key={session.id}
+                value={`research:${session.id}`}
+                onSelect={() =>
+                  openEntry({
+                    id: `research:${session.id}`,
+                    label: session.title,
+                    href: `/research?session=${session.id}`,
+                    kind: "research",
+                  })
+                }
+              >
+                <Sparkles className="mr-2 h-4 w-4" />
+                <span className="truncate">{session.title}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {collectionResults.length > 0 && (
+          <CommandGroup heading="Collections">
+            {collectionResults.map((collection) => (
+              <CommandItem
+                key={collection.id}
+                value={`collection:${collection.id}`}
+                onSelect={() =>
+                  openEntry({
+                    id: `collection:${collection.id}`,
+                    label: collection.name,
+                    href: `/library/${collection.id}`,
+                    kind: "collection",
+                  })
+                }
+              >
+                <FolderOpen className="mr-2 h-4 w-4" />
+                <span className="truncate">{collection.name}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {suggestionResults.length > 0 && (
+          <CommandGroup heading="Suggestions">
+            {suggestionResults.map((suggestion) => (
+              <CommandItem
+                key={suggestion}
+                value={`suggestion:${suggestion}`}
+                onSelect={() =>
+                  openEntry({
+                    id: `search:${suggestion}`,
+                    label: suggestion,
+                    href: `/search?q=${encodeURIComponent(suggestion)}`,
+                    kind: "search",
+                  })
+                }
+              >
+                <Search className="mr-2 h-4 w-4" />
+                <span className="truncate">{suggestion}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {quickActions.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Quick Actions">
+              {quickActions.map((action) => (
+                <CommandItem key={action.label} value={`quick:${action.label}`} onSelect={action.onSelect}>
+                  <action.icon className="mr-2 h-4 w-4" />
+                  <span>{action.label}</span>
+                  {action.shortcut && <CommandShortcut>{action.shortcut}</CommandShortcut>}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {navigationCommands.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Navigation">
+              {navigationCommands.map((command) => (
+                <CommandItem key={command.href} value={`nav:${command.href}`} onSelect={() => navigateTo(command.href)}>
+                  <command.icon className="mr-2 h-4 w-4" />
+                  <span>{command.label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {documentTypeCommands.length > 0 && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Document Types">
+              {documentTypeCommands.map((command) => (
+                <CommandItem key={command.href} value={`nav:${command.href}`} onSelect={() => navigateTo(command.href)}>
+                  <command.icon className="mr-2 h-4 w-4" />
+                  <span>{command.label}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          </>
+        )}
+
+        {(settingsCommands.theme || settingsCommands.help) && (
+          <>
+            <CommandSeparator />
+            <CommandGroup heading="Settings">
+              {settingsCommands.theme && (
+                <CommandItem value="settings:theme" onSelect={toggleTheme}>
+                  {theme === "dark" ? (
+                    <Sun className="mr-2 h-4 w-4" />
+                  ) : (
+                    <Moon className="mr-2 h-4 w-4" />
+                  )}
+                  <span>{themeLabel}</span>
+                </CommandItem>
+              )}
+              {settingsCommands.help && (
+                <CommandItem value="settings:help" onSelect={() => navigateTo("/help")}>
+                  <HelpCircle className="mr-2 h-4 w-4" />
+                  <span>Help & Support</span>
+                </CommandItem>
+              )}
+            </CommandGroup>
+          </>
+        )}
       </CommandList>
     </CommandDialog>
   );
@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Check, Copy, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/components/providers/auth-provider";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { complianceApi } from "@/lib/api/compliance";
+import {
+  buildCalendarFeedUrl,
+  toWebcalUrl,
+  type CalendarFilters,
+} from "@/lib/utils/compliance-calendar";
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The calendar's current filters, carried into the feed URL. */
+  filters: CalendarFilters;
+  /** How the filters read to the user, e.g. "URA · Assigned to you". */
+  filterSummary: string | null;
+}
+
+/**
+ * The user's private iCal feed, for subscribing from Outlook, Google
+ * Calendar or Apple Calendar.
+ */
+export function CalendarFeedDialog({ open, onOpenChange, filters, filterSummary }: CalendarFeedDialogProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  // The feed URL carries a secret token, so the cache is per user.
+  const queryKey = ["compliance-calendar-feed", user?.id];
+  const [copied, setCopied] = useState(false);
+  const [rotating, setRotating] = useState(false);
+
+  const { data: feed, isLoading, error } = useQuery({
+    queryKey,
+    queryFn: complianceApi.getCalendarFeed,
+    enabled: open && !!user,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const feedUrl = feed ? buildCalendarFeedUrl(feed.feed_url, filters) : "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard API not available — the URL is still selectable.
+    }
+  };
+
+  const handleRotate = async () => {
+    setRotating(true);
+    try {
+      queryClient.setQueryData(queryKey, await complianceApi.rotateCalendarFeed());
+      toast.success("New feed link created. Re-subscribe your calendars with it.");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Failed to reset the feed link"));
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Subscribe to your compliance calendar</DialogTitle>
+          <DialogDescription>
+            Obligation due dates and task deadlines appear in your calendar app and stay up to date.
+            {filterSummary && ` This link only includes: ${filterSummary}.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !feed ? (
+          <p className="text-sm text-destructive">
+            {getUserFriendlyError(error, "Could not load your calendar feed.")}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} aria-label="Calendar feed URL" />
+              <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy feed URL">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button asChild size="sm">
+                <a href={toWebcalUrl(feedUrl)}>Open in calendar app</a>
+              </Button>
+              <Button asChild size="sm" variant="outline">
+                <a
+                  href={`https://calendar.google.com/calendar/r?cid=${encodeURIComponent(toWebcalUrl(feedUrl))}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Add to Google Calendar
+                </a>
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              In Outlook, choose <span className="font-medium">Add calendar → Subscribe from web</span> and paste the
+              link. Calendar apps refresh subscriptions every few hours.
+            </p>
+            <div className="flex items-center justify-between gap-3 border-t pt-3">
+              <p className="text-xs text-muted-foreground">
+                Anyone with this link can see your due dates. Reset it if it&apos;s been shared.
+              </p>
+              <Button variant="ghost" size="sm" onClick={handleRotate} disabled={rotating}>
+                {rotating ? (
+                  <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-3.5 w-3.5" />
+                )}
+                Reset link
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
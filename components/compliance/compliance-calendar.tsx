@@ -0,0 +1,116 @@
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import {
+  monthGridDays,
+  toDateKey,
+  type CalendarEntry,
+  type CalendarView,
+} from "@/lib/utils/compliance-calendar";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Entries shown per day before collapsing into "+N more". */
+const MAX_VISIBLE = { month: 3, quarter: 1 } as const;
+
+interface ComplianceCalendarProps {
+  view: CalendarView;
+  months: Date[];
+  entries: CalendarEntry[];
+  onSelect: (entry: CalendarEntry) => void;
+  /** Opens the day's full list when it has more entries than fit. */
+  onSelectDay: (date: string) => void;
+}
+
+/** Month grids of obligation due dates and task deadlines. */
+export function ComplianceCalendar({ view, months, entries, onSelect, onSelectDay }: ComplianceCalendarProps) {
+  const byDate = useMemo(() => {
+    const map = new Map<string, CalendarEntry[]>();
+    for (const entry of entries) {
+      const day = map.get(entry.date);
+      if (day) day.push(entry);
+      else map.set(entry.date, [entry]);
+    }
+    return map;
+  }, [entries]);
+
+  const todayKey = toDateKey(new Date());
+  const compact = view === "quarter";
+
+  return (
+    <div className={cn("grid gap-4", compact && "lg:grid-cols-3")}>
+      {months.map((month) => (
+        <section key={month.toISOString()} className="rounded-xl border border-border/60 bg-card p-3 shadow-soft">
+          <h3 className="mb-2 px-1 text-sm font-semibold">
+            {month.toLocaleDateString("en-US", { month: "long", year: "numeric" })}
+          </h3>
+          <div className="grid grid-cols-7 text-center text-[10px] font-semibold uppercase text-muted-foreground">
+            {WEEKDAYS.map((day) => (
+              <div key={day} className="py-1">
+                {compact ? day[0] : day}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-md bg-border/50">
+            {monthGridDays(month).map((day) => {
+              const key = toDateKey(day);
+              const inMonth = day.getMonth() === month.getMonth();
+              const dayEntries = inMonth ? byDate.get(key) ?? [] : [];
+              const visible = dayEntries.slice(0, MAX_VISIBLE[view]);
+              const hidden = dayEntries.length - visible.length;
+              return (
+                <div
+                  key={key}
+                  className={cn(
+                    "flex flex-col gap-0.5 bg-card p-1",
+                    compact ? "min-h-14" : "min-h-24",
+                    !inMonth && "bg-muted/30"
+                  )}
+                >
+                  <span
+                    className={cn(
+                      "self-end text-[11px] tabular-nums",
+                      !inMonth && "text-muted-foreground/50",
+                      key === todayKey &&
+                        "flex h-5 w-5 items-center justify-center rounded-full bg-primary font-semibold text-primary-foreground"
+                    )}
+                  >
+                    {day.getDate()}
+                  </span>
+                  {visible.map((entry) => (
+                    <button
+                      key={entry.key}
+                      type="button"
+                      onClick={() => onSelect(entry)}
+                      title={entry.title}
+                      className={cn(
+                        "truncate rounded px-1 py-0.5 text-left text-[10px] font-medium leading-tight",
+                        entry.overdue
+                          ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300"
+                          : entry.kind === "obligation"
+                            ? "bg-brand-gold/15 text-foreground"
+                            : "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300"
+                      )}
+                    >
+                      {entry.title}
+                    </button>
+                  ))}
+                  {hidden > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => onSelectDay(key)}
+                      className="px-1 text-left text-[10px] font-medium text-muted-foreground hover:text-foreground"
+                    >
+                      +{hidden} more
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,530 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AlertTriangle,
+  BookOpen,
+  ClipboardList,
+  FileText,
+  History,
+  Loader2,
+  Wrench,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { complianceApi, type FindingResponse } from "@/lib/api/compliance";
+import { getDocumentPreview } from "@/lib/api/knowledge-base";
+import type { OrganizationMember } from "@/lib/api/organizations";
+import {
+  MAX_RISK_ACCEPTANCE_DAYS,
+  getFindingTransitions,
+  isRiskAcceptanceExpired,
+  normalizeEvidencePassage,
+  remediationSteps,
+  remediationTaskTitle,
+  stepsWithoutTasks,
+  validateFindingTransition,
+  type EvidencePassage,
+  type FindingTransition,
+} from "@/lib/utils/compliance-findings";
+import { priorityForSeverity } from "@/lib/utils/compliance-tasks";
+import { formatDateOnly, formatRelativeTime } from "@/lib/utils/date-formatter";
+import { cn } from "@/lib/utils";
+
+const UNASSIGNED = "__unassigned__";
+
+/** `impacted_document_ref` is a knowledge-base document id when the exposure is in an uploaded document. */
+const DOCUMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function dateInputValue(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function daysFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return dateInputValue(date);
+}
+
+interface FindingDetailDialogProps {
+  /** The finding to triage; null closes the dialog. */
+  finding: FindingResponse | null;
+  headline: string | null;
+  onOpenChange: (open: boolean) => void;
+  members: OrganizationMember[];
+  currentUserId?: string;
+}
+
+/**
+ * Triage view for one finding: the evidence next to the impacted internal
+ * document, justified status changes, and remediation task generation.
+ */
+export function FindingDetailDialog({
+  finding: initialFinding,
+  headline,
+  onOpenChange,
+  members,
+  currentUserId,
+}: FindingDetailDialogProps) {
+  return (
+    <Dialog open={!!initialFinding} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-4xl">
+        {initialFinding && (
+          <FindingDetail
+            key={initialFinding.id}
+            finding={initialFinding}
+            headline={headline}
+            members={members}
+            currentUserId={currentUserId}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FindingDetail({
+  finding: initialFinding,
+  headline,
+  members,
+  currentUserId,
+}: Omit<FindingDetailDialogProps, "onOpenChange"> & { finding: FindingResponse }) {
+  const queryClient = useQueryClient();
+  const findingId = initialFinding.id;
+  const [busy, setBusy] = useState<string | null>(null);
+  const [transition, setTransition] = useState<FindingTransition | null>(null);
+  const [justification, setJustification] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data: finding = initialFinding } = useQuery({
+    queryKey: ["compliance-finding", findingId],
+    queryFn: () => complianceApi.getFinding(findingId),
+    initialData: initialFinding,
+    retry: false,
+  });
+
+  const documentRef = finding.impacted_document_ref ?? null;
+  const documentId = documentRef && DOCUMENT_ID_PATTERN.test(documentRef) ? documentRef : null;
+  const { data: preview, isLoading: previewLoading } = useQuery({
+    queryKey: ["kb-document-preview", documentId],
+    queryFn: () => getDocumentPreview(documentId!),
+    enabled: !!documentId,
+    staleTime: 5 * 60_000,
+    retry: false,
+  });
+
+  const { data: linkedTasks } = useQuery({
+    queryKey: ["compliance-tasks", "finding", findingId],
+    queryFn: () => complianceApi.listTasks({ finding_id: findingId, limit: 50 }),
+    retry: false,
+  });
+
+  const steps = useMemo(() => remediationSteps(finding.remediation_guidance), [finding.remediation_guidance]);
+  const linkedTaskTitles = new Set((linkedTasks?.items ?? []).map((task) => task.title));
+  const hasTask = (index: number) => linkedTaskTitles.has(remediationTaskTitle(steps[index]));
+  // Null until the user ticks or unticks a step; until then every step
+  // without a task is selected, once the linked tasks have loaded.
+  const [selectedSteps, setSelectedSteps] = useState<Set<number> | null>(null);
+  const selection =
+    selectedSteps ?? new Set(linkedTasks ? stepsWithoutTasks(steps, linkedTaskTitles) : []);
+  const stepsToCreate = [...selection].filter((index) => !hasTask(index)).sort((a, b) => a - b);
+
+  const passages = useMemo(
+    () =>
+      (finding.evidence_passages ?? [])
+        .map(normalizeEvidencePassage)
+        .filter((p): p is EvidencePassage => p !== null),
+    [finding.evidence_passages]
+  );
+  const regulatoryPassages = passages.filter((p) => p.chunkIndex === null);
+  const matchedChunks = new Set(passages.map((p) => p.chunkIndex).filter((i): i is number => i !== null));
+  const documentPassages = passages.filter((p) => p.chunkIndex !== null);
+
+  const memberName = (userId: string) => {
+    if (userId === currentUserId) return "You";
+    const member = members.find((m) => m.user_id === userId);
+    return member ? member.full_name || member.email : "Former member";
+  };
+
+  const refresh = (updated: FindingResponse) => {
+    queryClient.setQueryData(["compliance-finding", updated.id], updated);
+    queryClient.invalidateQueries({ queryKey: ["compliance-findings"] });
+    queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+  };
+
+  const handleAssign = async (value: string) => {
+    setBusy("assign");
+    try {
+      refresh(await complianceApi.assignFinding(finding.id, value === UNASSIGNED ? null : value));
+      toast.success("Finding reassigned");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Failed to reassign finding"));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const transitionError =
+    finding && transition
+      ? validateFindingTransition(finding.status, {
+          status: transition.to,
+          justification,
+          risk_acceptance_expires_at: expiresAt || null,
+        })
+      : null;
+
+  const handleTransition = async () => {
+    if (!transition || transitionError) return;
+    setBusy("transition");
+    try {
+      refresh(
+        await complianceApi.transitionFinding(finding.id, {
+          status: transition.to,
+          justification: justification.trim(),
+          risk_acceptance_expires_at: transition.to === "accepted" ? expiresAt : null,
+        })
+      );
+      toast.success(
+        finding.status === "accepted" && transition.to === "accepted"
+          ? "Risk acceptance renewed"
+          : `Finding ${transition.to === "dismissed" ? "disputed" : transition.to.replace(/_/g, " ")}`
+      );
+      setTransition(null);
+      setJustification("");
+      setExpiresAt("");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Failed to update finding"));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleGenerateTasks = async () => {
+    if (stepsToCreate.length === 0) return;
+    setBusy("tasks");
+    const created: number[] = [];
+    try {
+      for (const index of stepsToCreate) {
+        await complianceApi.createTask({
+          title: remediationTaskTitle(steps[index]),
+          description: steps[index],
+          task_type: "remediation",
+          priority: priorityForSeverity(finding.severity),
+          assigned_user_id: finding.assigned_to_user_id,
+          finding_id: finding.id,
+        });
+        created.push(index);
+      }
+      toast.success(`Created ${created.length} remediation task${created.length === 1 ? "" : "s"}`);
+    } catch (err) {
+      toast.error(
+        getUserFriendlyError(
+          err,
+          created.length > 0
+            ? `Created ${created.length} tasks, then failed. Please try the rest again.`
+            : "Failed to create tasks"
+        )
+      );
+    } finally {
+      // Steps that now have a task are unticked so a second click can't duplicate them.
+      setSelectedSteps((current) => new Set([...(current ?? selection)].filter((index) => !created.includes(index))));
+      queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+      setBusy(null);
+    }
+  };
+
+  const expired = isRiskAcceptanceExpired(finding);
+  const transitions = getFindingTransitions(finding.status);
+  const history = [...(finding.status_history ?? [])].sort(
+    (a, b) => new Date(b.changed_at).getTime() - new Date(a.changed_at).getTime()
+  );
+
+  return (
+    <>
+      <DialogHeader>
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className="capitalize">
+            {finding.severity}
+          </Badge>
+          <Badge variant="secondary" className="capitalize">
+            {finding.status.replace(/_/g, " ")}
+          </Badge>
+          {finding.status === "accepted" && finding.risk_acceptance_expires_at && (
+            <Badge variant={expired ? "danger" : "info"}>
+              {expired ? "Acceptance expired" : "Accepted until"}{" "}
+              {formatDateOnly(finding.risk_acceptance_expires_at)}
+            </Badge>
+          )}
+        </div>
+        <DialogTitle className="text-lg leading-snug">{headline || "Compliance finding"}</DialogTitle>
+        <DialogDescription>
+          Surfaced {formatDateOnly(finding.created_at)}
+          {finding.resolved_at && ` · Resolved ${formatDateOnly(finding.resolved_at)}`}
+        </DialogDescription>
+      </DialogHeader>
+
+      {expired && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+          <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-amber-600" />
+          The risk acceptance for this finding has expired. Reopen it for review, or renew the acceptance
+          with a new expiry date.
+        </div>
+      )}
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-1.5">
+          <Label>Assignee</Label>
+          <Select
+            value={finding.assigned_to_user_id ?? UNASSIGNED}
+            onValueChange={handleAssign}
+            disabled={busy !== null}
+          >
+            <SelectTrigger aria-label="Assignee">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              {members.map((member) => (
+                <SelectItem key={member.user_id} value={member.user_id}>
+                  {member.full_name || member.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label>Triage</Label>
+          <div className="flex flex-wrap gap-2">
+            {transitions.map((t) => (
+              <Button
+                key={`${t.to}-${t.label}`}
+                size="sm"
+                variant={transition === t ? "default" : "outline"}
+                onClick={() => {
+                  setTransition(t);
+                  if (t.to === "accepted" && !expiresAt) setExpiresAt(daysFromToday(90));
+                }}
+                disabled={busy !== null}
+              >
+                {t.label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {transition && (
+        <section className="space-y-3 rounded-lg border p-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="finding-justification">{transition.prompt}</Label>
+            <Textarea
+              id="finding-justification"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              rows={3}
+              placeholder="Your justification is kept in the finding's audit history"
+              autoFocus
+            />
+          </div>
+          {transition.to === "accepted" && (
+            <div className="space-y-1.5">
+              <Label htmlFor="finding-acceptance-expiry">Acceptance expires</Label>
+              <Input
+                id="finding-acceptance-expiry"
+                type="date"
+                value={expiresAt}
+                min={daysFromToday(1)}
+                max={daysFromToday(MAX_RISK_ACCEPTANCE_DAYS)}
+                onChange={(e) => setExpiresAt(e.target.value)}
+                className="w-48"
+              />
+              <p className="text-xs text-muted-foreground">
+                The finding is flagged for re-review on this date.
+              </p>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-muted-foreground">{justification.trim() ? transitionError : null}</p>
+            <div className="flex shrink-0 gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setTransition(null)}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleTransition} disabled={busy !== null || !!transitionError}>
+                {busy === "transition" && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                {transition.label}
+              </Button>
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* Evidence next to the impacted document */}
+      <div className="grid gap-4 lg:grid-cols-2">
+        <section className="rounded-lg border p-4">
+          <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold">
+            <BookOpen className="h-4 w-4" />
+            Regulatory evidence
+          </h3>
+          {regulatoryPassages.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No evidence passages were recorded.</p>
+          ) : (
+            <ul className="max-h-80 space-y-3 overflow-y-auto pr-1">
+              {regulatoryPassages.map((passage, index) => (
+                <li key={index} className="text-sm">
+                  {(passage.source || passage.section) && (
+                    <p className="mb-1 text-xs font-medium text-muted-foreground">
+                      {[passage.source, passage.section].filter(Boolean).join(" · ")}
+                    </p>
+                  )}
+                  <blockquote className="border-l-2 pl-2 text-foreground/90">{passage.text}</blockquote>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="rounded-lg border p-4">
+          <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold">
+            <FileText className="h-4 w-4" />
+            <span className="truncate">{preview?.title ?? documentRef ?? "Impacted document"}</span>
+          </h3>
+          {!documentRef ? (
+            <p className="text-sm text-muted-foreground">This finding isn&apos;t tied to an internal document.</p>
+          ) : previewLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : preview ? (
+            <div className="max-h-80 space-y-3 overflow-y-auto pr-1">
+              {preview.sections.map((section) => (
+                <div
+                  key={section.chunk_index}
+                  className={cn(
+                    "rounded-md p-2 text-sm",
+                    matchedChunks.has(section.chunk_index) && "bg-amber-500/10 ring-1 ring-amber-500/40"
+                  )}
+                >
+                  {section.section_heading && (
+                    <p className="mb-1 text-xs font-medium text-muted-foreground">{section.section_heading}</p>
+                  )}
+                  <p className="whitespace-pre-wrap text-foreground/90">{section.text}</p>
+                </div>
+              ))}
+            </div>
+          ) : documentPassages.length > 0 ? (
+            <ul className="max-h-80 space-y-3 overflow-y-auto pr-1">
+              {documentPassages.map((passage, index) => (
+                <li key={index} className="rounded-md bg-amber-500/10 p-2 text-sm">
+                  {passage.section && (
+                    <p className="mb-1 text-xs font-medium text-muted-foreground">{passage.section}</p>
+                  )}
+                  {passage.text}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">The document text isn&apos;t available to preview.</p>
+          )}
+        </section>
+      </div>
+
+      {/* Remediation */}
+      {steps.length > 0 && (
+        <section className="rounded-lg border p-4">
+          <div className="mb-3 flex items-center justify-between gap-3">
+            <h3 className="flex items-center gap-2 text-sm font-semibold">
+              <Wrench className="h-4 w-4" />
+              Remediation plan
+            </h3>
+            {(linkedTasks?.total ?? 0) > 0 && (
+              <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                <ClipboardList className="h-3.5 w-3.5" />
+                {linkedTasks?.total} linked task{linkedTasks?.total === 1 ? "" : "s"}
+              </span>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {steps.map((step, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm">
+                <Checkbox
+                  id={`remediation-step-${index}`}
+                  checked={selection.has(index) && !hasTask(index)}
+                  disabled={hasTask(index)}
+                  onCheckedChange={(checked) =>
+                    setSelectedSteps((current) => {
+                      const next = new Set(current ?? selection);
+                      if (checked === true) next.add(index);
+                      else next.delete(index);
+                      return next;
+                    })
+                  }
+                  className="mt-0.5"
+                />
+                <label htmlFor={`remediation-step-${index}`} className="leading-relaxed">
+                  {step}
+                  {hasTask(index) && (
+                    <span className="ml-2 text-xs text-amber-700 dark:text-amber-400">Already has a task</span>
+                  )}
+                </label>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex justify-end">
+            <Button size="sm" onClick={handleGenerateTasks} disabled={busy !== null || stepsToCreate.length === 0}>
+              {busy === "tasks" && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+              Create {stepsToCreate.length} task{stepsToCreate.length === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </section>
+      )}
+
+      {/* History */}
+      {history.length > 0 && (
+        <section className="rounded-lg border p-4">
+          <h3 className="mb-3 flex items-center gap-2 text-sm font-semibold">
+            <History className="h-4 w-4" />
+            History
+          </h3>
+          <ol className="space-y-3">
+            {history.map((change, index) => (
+              <li key={index} className="text-sm">
+                <p>
+                  <span className="font-medium">{change.changed_by_name || memberName(change.changed_by_user_id)}</span>{" "}
+                  moved this from{" "}
+                  <span className="capitalize">{change.from_status.replace(/_/g, " ")}</span> to{" "}
+                  <span className="capitalize">{change.to_status.replace(/_/g, " ")}</span>
+                  <span className="text-muted-foreground"> · {formatRelativeTime(change.changed_at)}</span>
+                </p>
+                <p className="mt-0.5 whitespace-pre-wrap text-muted-foreground">{change.justification}</p>
+              </li>
+            ))}
+          </ol>
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,253 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { CheckCircle2, ChevronDown, FileSearch, FileText, Loader2, Plus, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import {
+  complianceApi,
+  type AffectedDocumentImpact,
+  type EventImpactReport,
+  type RegulatoryEventResponse,
+} from "@/lib/api/compliance";
+import { conflictCount, policyUpdateTaskDraft, sortImpactDocuments } from "@/lib/utils/impact-analysis";
+import { formatRelativeTime } from "@/lib/utils/date-formatter";
+import { cn } from "@/lib/utils";
+
+/** How often to check on a report that's still being generated. */
+const POLL_INTERVAL_MS = 4_000;
+
+const LEVEL_BADGES = {
+  high: { label: "High impact", variant: "danger" },
+  medium: { label: "Medium impact", variant: "warning" },
+  low: { label: "Low impact", variant: "secondary" },
+} as const;
+
+interface ImpactReportPanelProps {
+  event: Pick<RegulatoryEventResponse, "id" | "title" | "source_url">;
+}
+
+/**
+ * Which internal policies a regulatory event affects, with the passages
+ * that conflict with or need review under the change, and a one-click
+ * policy update task per document.
+ */
+export function ImpactReportPanel({ event }: ImpactReportPanelProps) {
+  const queryClient = useQueryClient();
+  const queryKey = ["compliance-event-impact", event.id];
+  const [starting, setStarting] = useState(false);
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+  const [expandedDoc, setExpandedDoc] = useState<string | null>(null);
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey,
+    // No report yet is a normal state, not an error.
+    queryFn: () =>
+      complianceApi.getEventImpactReport(event.id).catch((err) => {
+        if (err instanceof APIError && err.status === 404) return null;
+        throw err;
+      }),
+    staleTime: 5 * 60_000,
+    retry: false,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === "pending" || status === "running" ? POLL_INTERVAL_MS : false;
+    },
+  });
+
+  const documents = useMemo(
+    () => sortImpactDocuments(report?.affected_documents ?? []),
+    [report?.affected_documents]
+  );
+
+  const handleAnalyze = async () => {
+    setStarting(true);
+    try {
+      queryClient.setQueryData(queryKey, await complianceApi.analyzeEventImpact(event.id));
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Could not start the impact analysis"));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCreateTask = async (doc: AffectedDocumentImpact) => {
+    setCreatingFor(doc.document_id);
+    try {
+      const task = await complianceApi.createTask(policyUpdateTaskDraft(event, doc));
+      queryClient.setQueryData<EventImpactReport | null>(queryKey, (current) =>
+        current
+          ? {
+              ...current,
+              affected_documents: current.affected_documents.map((d) =>
+                d.document_id === doc.document_id ? { ...d, policy_task_id: task.id } : d
+              ),
+            }
+          : current
+      );
+      queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+      toast.success(`Policy update task created for ${doc.document_title}`);
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Failed to create the task"));
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  const inProgress = report?.status === "pending" || report?.status === "running";
+
+  return (
+    <div className="mt-4 rounded-lg border border-border/60 bg-card p-3">
+      <div className="flex items-center justify-between gap-3 text-xs font-semibold">
+        <span className="flex items-center gap-2">
+          <FileSearch className="h-3.5 w-3.5" />
+          Impact on your internal policies
+        </span>
+        {report?.status === "completed" && (
+          <button
+            type="button"
+            onClick={handleAnalyze}
+            disabled={starting}
+            className="flex items-center gap-1 text-[11px] font-medium text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            <RefreshCw className={cn("h-3 w-3", starting && "animate-spin")} />
+            Re-run
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : error ? (
+        <p className="mt-2 text-xs text-destructive">
+          {getUserFriendlyError(error, "Could not load the impact report.")}
+        </p>
+      ) : !report || report.status === "failed" ? (
+        <div className="mt-2 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {report?.status === "failed"
+              ? report.error_message || "The last analysis failed."
+              : "Check your knowledge base for policies this change affects."}
+          </p>
+          <Button size="sm" variant="outline" onClick={handleAnalyze} disabled={starting}>
+            {starting && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+            {report?.status === "failed" ? "Try again" : "Analyse impact"}
+          </Button>
+        </div>
+      ) : inProgress ? (
+        <p className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          Comparing the change against your documents…
+        </p>
+      ) : documents.length === 0 ? (
+        <p className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+          <CheckCircle2 className="h-3.5 w-3.5 text-emerald-600" />
+          None of your {report.documents_scanned} documents appear to be affected.
+        </p>
+      ) : (
+        <>
+          <p className="mt-1 text-[11px] text-muted-foreground">
+            {documents.length} of {report.documents_scanned} documents affected
+            {report.generated_at && ` · analysed ${formatRelativeTime(report.generated_at)}`}
+          </p>
+          <ul className="mt-3 space-y-2">
+            {documents.map((doc) => {
+              const expanded = expandedDoc === doc.document_id;
+              const conflicts = conflictCount(doc);
+              return (
+                <li key={doc.document_id} className="rounded-md border border-border/60">
+                  <div className="flex flex-wrap items-start gap-3 p-3">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedDoc(expanded ? null : doc.document_id)}
+                      className="flex min-w-0 flex-1 items-start gap-2 text-left"
+                      aria-expanded={expanded}
+                    >
+                      <FileText className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="truncate text-sm font-semibold">{doc.document_title}</span>
+                          <Badge variant={LEVEL_BADGES[doc.impact_level].variant}>
+                            {LEVEL_BADGES[doc.impact_level].label}
+                          </Badge>
+                        </div>
+                        <p className="mt-1 text-xs text-muted-foreground">{doc.summary}</p>
+                        <p className="mt-1 text-[11px] text-muted-foreground">
+                          {conflicts > 0 && `${conflicts} conflicting · `}
+                          {doc.passages.length} passage{doc.passages.length === 1 ? "" : "s"}
+                        </p>
+                      </div>
+                      <ChevronDown
+                        className={cn(
+                          "h-4 w-4 shrink-0 text-muted-foreground/50 transition-transform",
+                          expanded && "rotate-180"
+                        )}
+                      />
+                    </button>
+                    {doc.policy_task_id ? (
+                      <span className="flex items-center gap-1 text-[11px] font-medium text-emerald-700 dark:text-emerald-400">
+                        <CheckCircle2 className="h-3.5 w-3.5" />
+                        Task created
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handleCreateTask(doc)}
+                        disabled={creatingFor !== null}
+                      >
+                        {creatingFor === doc.document_id ? (
+                          <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />
+                        ) : (
+                          <Plus className="mr-1.5 h-3.5 w-3.5" />
+                        )}
+                        Create policy update task
+                      </Button>
+                    )}
+                  </div>
+                  {expanded && (
+                    <ul className="space-y-3 border-t border-border/60 p-3">
+                      {doc.passages.map((passage) => (
+                        <li key={passage.chunk_index} className="text-xs">
+                          <div className="mb-1 flex flex-wrap items-center gap-2">
+                            <Badge variant={passage.impact === "conflicts" ? "danger" : "warning"}>
+                              {passage.impact === "conflicts" ? "Conflicts" : "Affected"}
+                            </Badge>
+                            {(passage.section_heading || passage.page_number) && (
+                              <span className="text-muted-foreground">
+                                {[passage.section_heading, passage.page_number && `p. ${passage.page_number}`]
+                                  .filter(Boolean)
+                                  .join(" · ")}
+                              </span>
+                            )}
+                          </div>
+                          <blockquote
+                            className={cn(
+                              "border-l-2 pl-2 text-foreground/90",
+                              passage.impact === "conflicts" ? "border-red-500/60" : "border-amber-500/60"
+                            )}
+                          >
+                            {passage.text}
+                          </blockquote>
+                          {passage.explanation && (
+                            <p className="mt-1 text-muted-foreground">{passage.explanation}</p>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+export { CalendarFeedDialog } from "./calendar-feed-dialog";
+export { ComplianceCalendar } from "./compliance-calendar";
+export { FindingDetailDialog } from "./finding-detail-dialog";
+export { ImpactReportPanel } from "./impact-report-panel";
+export { ObligationFormDialog } from "./obligation-form-dialog";
+export { ObligationImportDialog } from "./obligation-import-dialog";
+export { TaskDetailDialog } from "./task-detail-dialog";
+export { TaskFormDialog, type TaskSourceFinding } from "./task-form-dialog";
@@ -0,0 +1,377 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarClock, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  complianceApi,
+  type CreateObligationRequest,
+  type ObligationRecurrenceConfig,
+  type ObligationResponse,
+} from "@/lib/api/compliance";
+import type { OrganizationMember } from "@/lib/api/organizations";
+import {
+  RECURRENCE_PATTERNS,
+  isPeriodicRecurrence,
+  normalizeRecurrence,
+} from "@/lib/utils/compliance-recurrence";
+import { MONTH_NAMES, OBLIGATION_TYPE_OPTIONS, describeRecurrence } from "@/lib/utils/obligation-register";
+
+const UNASSIGNED = "__unassigned__";
+const NO_RULE = "__none__";
+
+interface ObligationFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: OrganizationMember[];
+  /** The obligation to edit; omit to create a new one. */
+  obligation?: ObligationResponse | null;
+  onSaved: (obligation: ObligationResponse) => void;
+}
+
+export function ObligationFormDialog({ open, onOpenChange, ...formProps }: ObligationFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <ObligationForm key={formProps.obligation?.id ?? "new"} onOpenChange={onOpenChange} {...formProps} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ObligationForm({ onOpenChange, members, obligation, onSaved }: Omit<ObligationFormDialogProps, "open">) {
+  const [title, setTitle] = useState(obligation?.title ?? "");
+  const [description, setDescription] = useState(obligation?.description ?? "");
+  const [regulator, setRegulator] = useState(obligation?.governing_regulator ?? "");
+  const [legislation, setLegislation] = useState(obligation?.legislation_reference ?? "");
+  const [obligationType, setObligationType] = useState(obligation?.obligation_type ?? "filing");
+  const [recurrence, setRecurrence] = useState(
+    obligation ? normalizeRecurrence(obligation.recurrence_pattern) : "monthly"
+  );
+  const [config, setConfig] = useState<ObligationRecurrenceConfig>(obligation?.recurrence_config ?? {});
+  const [nextDueDate, setNextDueDate] = useState(obligation?.next_due_date?.slice(0, 10) ?? "");
+  const [warningDays, setWarningDays] = useState(String(obligation?.advance_warning_days ?? 14));
+  const [ownerRole, setOwnerRole] = useState(obligation?.assigned_owner_role ?? "");
+  const [assigneeId, setAssigneeId] = useState(obligation?.assigned_user_id ?? UNASSIGNED);
+  const [evidence, setEvidence] = useState((obligation?.evidence_requirements ?? []).join("\n"));
+  const [saving, setSaving] = useState(false);
+
+  // Periodic patterns can follow a due-date rule rather than the last due date.
+  const periodic = isPeriodicRecurrence(recurrence);
+  const rule = periodic && config.due_rule ? config.due_rule : NO_RULE;
+  const ruleDescription = periodic ? describeRecurrence(recurrence, config) : null;
+  const warning = Number(warningDays);
+  const valid = title.trim() !== "" && Number.isInteger(warning) && warning >= 0;
+
+  const setRule = (value: string) => {
+    if (value === NO_RULE) {
+      setConfig({});
+    } else {
+      setConfig((current) => ({
+        day_of_month: current.day_of_month ?? 15,
+        due_rule: value as ObligationRecurrenceConfig["due_rule"],
+        months_after: value === "after_period_end" ? current.months_after ?? 1 : undefined,
+        month_of_year: value === "in_period" && recurrence === "annual" ? current.month_of_year ?? 12 : undefined,
+      }));
+    }
+  };
+
+  const handleSave = async () => {
+    if (!valid) return;
+    setSaving(true);
+    const data: CreateObligationRequest = {
+      title: title.trim(),
+      description: description.trim() || null,
+      governing_regulator: regulator.trim() || null,
+      legislation_reference: legislation.trim() || null,
+      obligation_type: obligationType,
+      recurrence_pattern: recurrence,
+      recurrence_config: rule === NO_RULE ? {} : config,
+      next_due_date: nextDueDate || null,
+      advance_warning_days: warning,
+      assigned_owner_role: ownerRole.trim() || null,
+      assigned_user_id: assigneeId === UNASSIGNED ? null : assigneeId,
+      evidence_requirements: evidence
+        .split("\n")
+        .map((line) => line.trim())
+        .filter(Boolean),
+    };
+    try {
+      const saved = obligation
+        ? await complianceApi.updateObligation(obligation.id, data)
+        : await complianceApi.createObligation(data);
+      toast.success(obligation ? "Obligation updated" : "Obligation added to the register");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, obligation ? "Failed to update obligation" : "Failed to add obligation"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          {obligation ? "Edit obligation" : "New obligation"}
+        </DialogTitle>
+        <DialogDescription>
+          A statutory or contractual requirement the organisation must meet, once or on a schedule.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="obligation-title">Title</Label>
+          <Input
+            id="obligation-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. File PAYE return"
+            autoFocus
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="obligation-description">Description</Label>
+          <Textarea
+            id="obligation-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-regulator">Regulator</Label>
+            <Input
+              id="obligation-regulator"
+              value={regulator}
+              onChange={(e) => setRegulator(e.target.value)}
+              placeholder="e.g. Uganda Revenue Authority"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-legislation">Legislation</Label>
+            <Input
+              id="obligation-legislation"
+              value={legislation}
+              onChange={(e) => setLegislation(e.target.value)}
+              placeholder="e.g. Income Tax Act, s. 124"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Type</Label>
+            <Select value={obligationType} onValueChange={setObligationType}>
+              <SelectTrigger aria-label="Obligation type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OBLIGATION_TYPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Frequency</Label>
+            <Select
+              value={recurrence}
+              onValueChange={(value) => {
+                setRecurrence(value);
+                if (!isPeriodicRecurrence(value)) setConfig({});
+              }}
+            >
+              <SelectTrigger aria-label="Frequency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RECURRENCE_PATTERNS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {periodic && (
+          <section className="space-y-3 rounded-lg border p-4">
+            <div className="space-y-1.5">
+              <Label>Due date rule</Label>
+              <Select value={rule} onValueChange={setRule}>
+                <SelectTrigger aria-label="Due date rule">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_RULE}>Repeat from the next due date</SelectItem>
+                  <SelectItem value="in_period">A fixed day in each period</SelectItem>
+                  <SelectItem value="after_period_end">A day after each period ends</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {rule !== NO_RULE && (
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1.5">
+                  <Label htmlFor="obligation-day">Day of month</Label>
+                  <Input
+                    id="obligation-day"
+                    type="number"
+                    min={1}
+                    max={31}
+                    value={config.day_of_month ?? ""}
+                    onChange={(e) =>
+                      setConfig((c) => ({
+                        ...c,
+                        day_of_month: Math.min(31, Math.max(1, Number(e.target.value) || 1)),
+                      }))
+                    }
+                    className="w-24"
+                  />
+                </div>
+                {rule === "after_period_end" && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="obligation-months-after">Months after period end</Label>
+                    <Input
+                      id="obligation-months-after"
+                      type="number"
+                      min={1}
+                      max={12}
+                      value={config.months_after ?? 1}
+                      onChange={(e) =>
+                        setConfig((c) => ({
+                          ...c,
+                          months_after: Math.min(12, Math.max(1, Number(e.target.value) || 1)),
+                        }))
+                      }
+                      className="w-24"
+                    />
+                  </div>
+                )}
+                {rule === "in_period" && recurrence === "annual" && (
+                  <div className="space-y-1.5">
+                    <Label>Month</Label>
+                    <Select
+                      value={String(config.month_of_year ?? 12)}
+                      onValueChange={(value) => setConfig((c) => ({ ...c, month_of_year: Number(value) }))}
+                    >
+                      <SelectTrigger className="w-40" aria-label="Month">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MONTH_NAMES.map((month, index) => (
+                          <SelectItem key={month} value={String(index + 1)}>
+                            {month}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+            {ruleDescription && (
+              <p className="text-sm text-muted-foreground">
+                Due: <span className="font-medium text-foreground">{ruleDescription}</span>
+              </p>
+            )}
+          </section>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-next-due">{recurrence === "one_time" ? "Due date" : "Next due date"}</Label>
+            <Input
+              id="obligation-next-due"
+              type="date"
+              value={nextDueDate}
+              onChange={(e) => setNextDueDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-warning">Warn this many days ahead</Label>
+            <Input
+              id="obligation-warning"
+              type="number"
+              min={0}
+              value={warningDays}
+              onChange={(e) => setWarningDays(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="obligation-owner-role">Owner role</Label>
+            <Input
+              id="obligation-owner-role"
+              value={ownerRole}
+              onChange={(e) => setOwnerRole(e.target.value)}
+              placeholder="e.g. Finance manager"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Owner</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger aria-label="Owner">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.full_name || member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor="obligation-evidence">Evidence required</Label>
+          <Textarea
+            id="obligation-evidence"
+            value={evidence}
+            onChange={(e) => setEvidence(e.target.value)}
+            rows={2}
+            placeholder="One per line, e.g. URA e-filing acknowledgement"
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || !valid}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {obligation ? "Save changes" : "Add obligation"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
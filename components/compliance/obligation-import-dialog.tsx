@@ -0,0 +1,313 @@
+"use client";
+
+import { useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { complianceApi } from "@/lib/api/compliance";
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  parseCsv,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/utils/obligation-register";
+import { cn } from "@/lib/utils";
+
+const NOT_MAPPED = "__none__";
+
+/** Rows shown in the preview table; the counts cover the whole file. */
+const PREVIEW_LIMIT = 100;
+
+type Step = "upload" | "map" | "review";
+
+interface ObligationImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+/**
+ * Import a legacy obligations register from CSV or Excel: map its
+ * columns, preview validation and duplicates, then create in bulk.
+ */
+export function ObligationImportDialog({ open, onOpenChange, onImported }: ObligationImportDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-3xl">
+        <ObligationImportWizard onOpenChange={onOpenChange} onImported={onImported} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ObligationImportWizard({ onOpenChange, onImported }: Omit<ObligationImportDialogProps, "open">) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [importing, setImporting] = useState(false);
+
+  // Duplicate detection needs the whole register, not the first page the
+  // tab shows; importing waits until it has loaded.
+  const {
+    data: existing,
+    error: existingError,
+    refetch: refetchExisting,
+    isFetching: fetchingExisting,
+  } = useQuery({
+    queryKey: ["compliance-obligations", "register"],
+    queryFn: () => complianceApi.listAllObligations({ is_active: true }),
+    staleTime: 60_000,
+    retry: false,
+  });
+
+  const results = useMemo(
+    () => (mapping && existing ? validateImportRows(rows, mapping, existing) : []),
+    [rows, mapping, existing]
+  );
+  const ready = results.filter((r) => r.data && (includeDuplicates || !r.duplicateOf));
+  const errorCount = results.filter((r) => r.errors.length > 0).length;
+  const duplicateCount = results.filter((r) => r.data && r.duplicateOf).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      let table: string[][];
+      if (/\.csv$/i.test(file.name) || file.type === "text/csv") {
+        table = parseCsv(await file.text());
+      } else {
+        const preview = await complianceApi.parseObligationSpreadsheet(file);
+        table = [preview.columns, ...preview.rows];
+      }
+      const [header = [], ...body] = table;
+      if (body.length === 0) {
+        toast.error("That file has no rows below the header.");
+        return;
+      }
+      setFileName(file.name);
+      setColumns(header.map((c, i) => c.trim() || `Column ${i + 1}`));
+      setRows(body);
+      setMapping(guessColumnMapping(header));
+      setStep("map");
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Could not read that file"));
+    } finally {
+      setReading(false);
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleImport = async () => {
+    if (ready.length === 0) return;
+    setImporting(true);
+    try {
+      const result = await complianceApi.importObligations(ready.flatMap((r) => (r.data ? [r.data] : [])));
+      toast.success(`Imported ${result.created} obligation${result.created === 1 ? "" : "s"}`);
+      onImported();
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Import failed. Nothing was added."));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) =>
+    setMapping((current) => current && { ...current, [field]: value === NOT_MAPPED ? null : Number(value) });
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <FileSpreadsheet className="h-5 w-5" />
+          Import obligations
+        </DialogTitle>
+        <DialogDescription>
+          {step === "upload" && "Upload your obligations register as a CSV or Excel file."}
+          {step === "map" && `Match the columns in ${fileName} to obligation fields.`}
+          {step === "review" && "Check what will be imported. Rows with errors are skipped."}
+        </DialogDescription>
+      </DialogHeader>
+
+      {step === "upload" && (
+        <div className="flex flex-col items-center gap-3 rounded-lg border border-dashed p-10 text-center">
+          <Upload className="h-8 w-8 text-muted-foreground" />
+          <p className="text-sm text-muted-foreground">
+            The first row should hold column headings. Each following row becomes one obligation.
+          </p>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          <Button onClick={() => fileInputRef.current?.click()} disabled={reading}>
+            {reading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Choose file
+          </Button>
+        </div>
+      )}
+
+      {step === "map" && mapping && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {IMPORT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-1.5">
+              <Label>
+                {field.label}
+                {field.required && <span className="text-destructive"> *</span>}
+              </Label>
+              <Select
+                value={mapping[field.key] === null ? NOT_MAPPED : String(mapping[field.key])}
+                onValueChange={(value) => setColumn(field.key, value)}
+              >
+                <SelectTrigger aria-label={`Column for ${field.label}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {!field.required && <SelectItem value={NOT_MAPPED}>Don&apos;t import</SelectItem>}
+                  {columns.map((column, index) => (
+                    <SelectItem key={index} value={String(index)}>
+                      {column}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {step === "review" && !existing && (
+        <div className="flex flex-col items-center gap-3 py-10 text-center text-sm text-muted-foreground">
+          {existingError && !fetchingExisting ? (
+            <>
+              <p className="text-destructive">
+                {getUserFriendlyError(existingError, "Could not load your register to check for duplicates.")}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => refetchExisting()}>
+                Try again
+              </Button>
+            </>
+          ) : (
+            <>
+              <Loader2 className="h-5 w-5 animate-spin" />
+              Checking your register for duplicates…
+            </>
+          )}
+        </div>
+      )}
+
+      {step === "review" && existing && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="success">{ready.length} to import</Badge>
+            {errorCount > 0 && <Badge variant="danger">{errorCount} with errors</Badge>}
+            {duplicateCount > 0 && <Badge variant="warning">{duplicateCount} possible duplicates</Badge>}
+          </div>
+          {duplicateCount > 0 && (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="import-duplicates"
+                checked={includeDuplicates}
+                onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+              />
+              <Label htmlFor="import-duplicates" className="text-sm font-normal">
+                Import possible duplicates too
+              </Label>
+            </div>
+          )}
+          <div className="max-h-96 overflow-auto rounded-lg border">
+            <table className="w-full text-left text-xs">
+              <thead className="sticky top-0 bg-muted">
+                <tr>
+                  <th className="px-3 py-2 font-semibold">Row</th>
+                  <th className="px-3 py-2 font-semibold">Title</th>
+                  <th className="px-3 py-2 font-semibold">Frequency</th>
+                  <th className="px-3 py-2 font-semibold">Next due</th>
+                  <th className="px-3 py-2 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.slice(0, PREVIEW_LIMIT).map((result) => (
+                  <tr
+                    key={result.rowNumber}
+                    className={cn("border-t", result.errors.length > 0 && "bg-red-50 dark:bg-red-950/20")}
+                  >
+                    <td className="px-3 py-2 tabular-nums text-muted-foreground">{result.rowNumber}</td>
+                    <td className="max-w-[220px] truncate px-3 py-2">
+                      {result.data?.title ?? (mapping?.title != null ? rows[result.rowNumber - 2][mapping.title] : "")}
+                    </td>
+                    <td className="px-3 py-2">{result.data?.recurrence_pattern.replace(/_/g, " ")}</td>
+                    <td className="px-3 py-2 tabular-nums">{result.data?.next_due_date ?? ""}</td>
+                    <td className="px-3 py-2">
+                      {result.errors.length > 0 ? (
+                        <span className="text-destructive">{result.errors.join("; ")}</span>
+                      ) : result.duplicateOf === "existing" ? (
+                        <span className="text-amber-700 dark:text-amber-400">Already in the register</span>
+                      ) : result.duplicateOf === "file" ? (
+                        <span className="text-amber-700 dark:text-amber-400">Repeats an earlier row</span>
+                      ) : (
+                        <span className="text-muted-foreground">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {results.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              Showing the first {PREVIEW_LIMIT} of {results.length} rows.
+            </p>
+          )}
+        </div>
+      )}
+
+      {step !== "upload" && (
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setStep(step === "review" ? "map" : "upload")} disabled={importing}>
+            Back
+          </Button>
+          {step === "map" ? (
+            <Button onClick={() => setStep("review")} disabled={mapping?.title == null}>
+              Preview import
+            </Button>
+          ) : (
+            <Button onClick={handleImport} disabled={importing || !existing || ready.length === 0}>
+              {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import {ready.length} obligation{ready.length === 1 ? "" : "s"}
+            </Button>
+          )}
+        </DialogFooter>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,533 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CheckCircle2,
+  FileText,
+  Loader2,
+  MessageSquare,
+  Paperclip,
+  Pencil,
+  ShieldCheck,
+  Trash2,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  complianceApi,
+  getTaskEvidenceDownloadUrl,
+  type TaskResponse,
+} from "@/lib/api/compliance";
+import { formatFileSize } from "@/lib/api/knowledge-base";
+import type { OrganizationMember } from "@/lib/api/organizations";
+import {
+  TASK_PRIORITY_OPTIONS,
+  buildCommentThreads,
+  canSubmitTask,
+  getApprovalEligibility,
+  type CommentThread,
+} from "@/lib/utils/compliance-tasks";
+import { formatDateOnly, formatRelativeTime } from "@/lib/utils/date-formatter";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+
+const UNASSIGNED = "__unassigned__";
+
+/** Statuses the assignee sets by hand; review and completion go through approval. */
+const WORKING_STATUSES = [
+  { value: "open", label: "Open" },
+  { value: "in_progress", label: "In progress" },
+];
+
+const APPROVAL_BADGES = {
+  pending: { label: "Awaiting approval", variant: "warning" },
+  approved: { label: "Approved", variant: "success" },
+  rejected: { label: "Changes requested", variant: "danger" },
+} as const;
+
+interface TaskDetailDialogProps {
+  /** The task to show; null closes the dialog. */
+  taskId: string | null;
+  onOpenChange: (open: boolean) => void;
+  members: OrganizationMember[];
+  currentUserId?: string;
+  onEdit: (task: TaskResponse) => void;
+}
+
+/**
+ * Everything about one compliance task: reassignment, evidence files,
+ * threaded comments and the maker-checker approval step.
+ */
+export function TaskDetailDialog({ taskId, onOpenChange, members, currentUserId, onEdit }: TaskDetailDialogProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  // Drafts are kept with their task so they never carry over to another one.
+  const [commentDraft, setCommentDraft] = useState<{ taskId: string; body: string } | null>(null);
+  const [replyDraft, setReplyDraft] = useState<{ taskId: string; id: string; body: string } | null>(null);
+  const [rejecting, setRejecting] = useState<{ taskId: string; reason: string } | null>(null);
+
+  const { data: task, isLoading, error } = useQuery({
+    queryKey: ["compliance-task", taskId],
+    queryFn: () => complianceApi.getTask(taskId!),
+    enabled: !!taskId,
+    retry: false,
+  });
+
+  const comment = commentDraft?.taskId === taskId ? commentDraft.body : "";
+  const replyTo = replyDraft?.taskId === taskId ? replyDraft : null;
+
+  const memberName = (userId: string | null) => {
+    if (!userId) return "Unassigned";
+    if (userId === currentUserId) return "You";
+    const member = members.find((m) => m.user_id === userId);
+    return member ? member.full_name || member.email : "Former member";
+  };
+
+  const run = async (action: string, request: () => Promise<TaskResponse>, success?: string) => {
+    setBusy(action);
+    try {
+      const updated = await request();
+      queryClient.setQueryData(["compliance-task", updated.id], updated);
+      queryClient.invalidateQueries({ queryKey: ["compliance-tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["compliance-dashboard-summary"] });
+      if (success) toast.success(success);
+      return true;
+    } catch (err) {
+      toast.error(getUserFriendlyError(err, "Something went wrong. Please try again."));
+      return false;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!task || !files?.length) return;
+    for (const file of Array.from(files)) {
+      await run("upload", () => complianceApi.uploadTaskEvidence(task.id, file), `Attached ${file.name}`);
+    }
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleComment = async () => {
+    if (!task || !comment.trim()) return;
+    const posted = await run("comment", () =>
+      complianceApi.addTaskComment(task.id, { body: comment.trim(), parent_id: replyTo?.id ?? null })
+    );
+    if (posted) {
+      setCommentDraft(null);
+      setReplyDraft(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!task || !rejecting?.reason.trim()) return;
+    const rejected = await run(
+      "reject",
+      () => complianceApi.rejectTask(task.id, rejecting.reason.trim()),
+      "Task sent back to the assignee"
+    );
+    if (rejected) setRejecting(null);
+  };
+
+  const isCompleted = task?.status === "completed";
+  const approval = task ? getApprovalEligibility(task, currentUserId) : null;
+  const threads = task ? buildCommentThreads(task.comments ?? []) : [];
+  const priorityLabel = task
+    ? [...TASK_PRIORITY_OPTIONS].reverse().find((option) => task.priority >= option.value)?.label ?? "Low"
+    : null;
+
+  return (
+    <Dialog open={!!taskId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        {isLoading || !task ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>Task</DialogTitle>
+              <DialogDescription>
+                {error ? getUserFriendlyError(error, "Could not load this task.") : "Loading…"}
+              </DialogDescription>
+            </DialogHeader>
+            {isLoading && (
+              <div className="flex justify-center py-10">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="capitalize">
+                  {task.task_type.replace(/_/g, " ")}
+                </Badge>
+                <Badge variant={isCompleted ? "success" : "secondary"} className="capitalize">
+                  {task.status.replace(/_/g, " ")}
+                </Badge>
+                {task.approval_status && (
+                  <Badge variant={APPROVAL_BADGES[task.approval_status].variant}>
+                    {APPROVAL_BADGES[task.approval_status].label}
+                  </Badge>
+                )}
+              </div>
+              <div className="flex items-start justify-between gap-3">
+                <DialogTitle className="text-lg leading-snug">{task.title}</DialogTitle>
+                {!isCompleted && (
+                  <Button variant="ghost" size="sm" onClick={() => onEdit(task)}>
+                    <Pencil className="mr-2 h-3.5 w-3.5" />
+                    Edit
+                  </Button>
+                )}
+              </div>
+              <DialogDescription>
+                Created {formatDateOnly(task.created_at)}
+                {task.finding_id && " · Remediates a compliance finding"}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-1.5">
+                <Label>Assignee</Label>
+                <Select
+                  value={task.assigned_user_id ?? UNASSIGNED}
+                  onValueChange={(value) =>
+                    run(
+                      "assign",
+                      () =>
+                        complianceApi.updateTask(task.id, {
+                          assigned_user_id: value === UNASSIGNED ? null : value,
+                        }),
+                      "Task reassigned"
+                    )
+                  }
+                  disabled={isCompleted || busy !== null}
+                >
+                  <SelectTrigger aria-label="Assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.user_id} value={member.user_id}>
+                        {member.full_name || member.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1.5">
+                <Label>Status</Label>
+                {task.approval_status === "pending" || isCompleted ? (
+                  <p className="flex h-9 items-center text-sm capitalize text-muted-foreground">
+                    {task.status.replace(/_/g, " ")}
+                  </p>
+                ) : (
+                  <Select
+                    value={WORKING_STATUSES.some((s) => s.value === task.status) ? task.status : "open"}
+                    onValueChange={(value) => run("status", () => complianceApi.updateTask(task.id, { status: value }))}
+                    disabled={busy !== null}
+                  >
+                    <SelectTrigger aria-label="Status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKING_STATUSES.map((status) => (
+                        <SelectItem key={status.value} value={status.value}>
+                          {status.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="text-sm">
+                <span className="text-muted-foreground">Due: </span>
+                {task.due_date ? formatDateOnly(task.due_date) : "No due date"}
+              </div>
+              <div className="text-sm">
+                <span className="text-muted-foreground">Priority: </span>
+                {priorityLabel}
+              </div>
+            </div>
+
+            {task.description && (
+              <p className="whitespace-pre-wrap text-sm text-foreground/90">{task.description}</p>
+            )}
+
+            {/* Approval */}
+            <section className="rounded-lg border p-4">
+              <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold">
+                <ShieldCheck className="h-4 w-4" />
+                Approval
+              </h3>
+              {task.approval_status === "approved" ? (
+                <p className="text-sm text-muted-foreground">
+                  Approved by {memberName(task.approved_by_user_id)}
+                  {task.approved_at && ` on ${formatDateOnly(task.approved_at)}`}.
+                </p>
+              ) : task.approval_status === "pending" ? (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Submitted by {memberName(task.submitted_by_user_id)}. Someone other than the assignee
+                    must approve it before it&apos;s complete.
+                  </p>
+                  {approval?.canApprove ? (
+                    rejecting?.taskId === task.id ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={rejecting.reason}
+                          onChange={(e) => setRejecting({ taskId: task.id, reason: e.target.value })}
+                          placeholder="What needs to change before you can approve?"
+                          rows={3}
+                          aria-label="Reason for sending back"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setRejecting(null)}>
+                            Cancel
+                          </Button>
+                          <Button
+                            variant="destructive"
+                            size="sm"
+                            onClick={handleReject}
+                            disabled={busy !== null || !rejecting.reason.trim()}
+                          >
+                            {busy === "reject" && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                            Send back
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => run("approve", () => complianceApi.approveTask(task.id), "Task approved")}
+                          disabled={busy !== null}
+                        >
+                          {busy === "approve" ? (
+                            <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <CheckCircle2 className="mr-2 h-3.5 w-3.5" />
+                          )}
+                          Approve
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setRejecting({ taskId: task.id, reason: "" })}
+                          disabled={busy !== null}
+                        >
+                          <XCircle className="mr-2 h-3.5 w-3.5" />
+                          Request changes
+                        </Button>
+                      </div>
+                    )
+                  ) : (
+                    approval?.reason && <p className="text-xs text-muted-foreground">{approval.reason}</p>
+                  )}
+                </div>
+              ) : (
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <p className="text-sm text-muted-foreground">
+                    {task.approval_status === "rejected"
+                      ? "The reviewer asked for changes — see the comments below, then resubmit."
+                      : "When the work is done and the evidence is attached, submit it for sign-off."}
+                  </p>
+                  {canSubmitTask(task) && (
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        run("submit", () => complianceApi.submitTaskForApproval(task.id), "Submitted for approval")
+                      }
+                      disabled={busy !== null}
+                    >
+                      {busy === "submit" && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                      Submit for approval
+                    </Button>
+                  )}
+                </div>
+              )}
+            </section>
+
+            {/* Evidence */}
+            <section>
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-sm font-semibold">
+                  <Paperclip className="h-4 w-4" />
+                  Evidence ({task.evidence_attachments?.length ?? 0})
+                </h3>
+                {!isCompleted && (
+                  <>
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => handleUpload(e.target.files)}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={busy !== null}
+                    >
+                      {busy === "upload" ? (
+                        <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />
+                      ) : (
+                        <Upload className="mr-2 h-3.5 w-3.5" />
+                      )}
+                      Attach file
+                    </Button>
+                  </>
+                )}
+              </div>
+              {task.evidence_attachments?.length ? (
+                <ul className="divide-y rounded-lg border">
+                  {task.evidence_attachments.map((file) => (
+                    <li key={file.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0 flex-1">
+                        <a
+                          href={getTaskEvidenceDownloadUrl(task.id, file.id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className={cn("block truncate font-medium", surfaceClasses.textLink)}
+                        >
+                          {file.filename}
+                        </a>
+                        <p className="text-xs text-muted-foreground">
+                          {file.size_bytes != null && `${formatFileSize(file.size_bytes)} · `}
+                          {file.uploaded_by_name || memberName(file.uploaded_by_user_id)} ·{" "}
+                          {formatRelativeTime(file.uploaded_at)}
+                        </p>
+                      </div>
+                      {!isCompleted && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                          onClick={() =>
+                            run("evidence", () => complianceApi.deleteTaskEvidence(task.id, file.id), "Evidence removed")
+                          }
+                          disabled={busy !== null}
+                          aria-label={`Remove ${file.filename}`}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No evidence attached yet.</p>
+              )}
+            </section>
+
+            {/* Comments */}
+            <section>
+              <h3 className="mb-2 flex items-center gap-2 text-sm font-semibold">
+                <MessageSquare className="h-4 w-4" />
+                Comments
+              </h3>
+              {threads.length > 0 ? (
+                <div className="space-y-3">
+                  {threads.map((thread) => (
+                    <CommentItem
+                      key={thread.id}
+                      comment={thread}
+                      authorName={(c) => c.author_name || memberName(c.author_user_id)}
+                      onReply={(c) => setReplyDraft({ taskId: task.id, id: c.id, body: c.body })}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">No comments yet.</p>
+              )}
+
+              <div className="mt-3 space-y-2">
+                {replyTo && (
+                  <div className="flex items-center justify-between gap-2 rounded bg-muted/60 px-2 py-1 text-xs text-muted-foreground">
+                    <span className="truncate">Replying to “{replyTo.body}”</span>
+                    <button type="button" className={surfaceClasses.textLink} onClick={() => setReplyDraft(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                <Textarea
+                  value={comment}
+                  onChange={(e) => setCommentDraft({ taskId: task.id, body: e.target.value })}
+                  placeholder={replyTo ? "Write a reply" : "Add a comment"}
+                  rows={2}
+                  aria-label="Comment"
+                />
+                <div className="flex justify-end">
+                  <Button size="sm" onClick={handleComment} disabled={busy !== null || !comment.trim()}>
+                    {busy === "comment" && <Loader2 className="mr-2 h-3.5 w-3.5 animate-spin" />}
+                    {replyTo ? "Reply" : "Comment"}
+                  </Button>
+                </div>
+              </div>
+            </section>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CommentItem({
+  comment,
+  authorName,
+  onReply,
+}: {
+  comment: CommentThread;
+  authorName: (comment: CommentThread) => string;
+  onReply: (comment: CommentThread) => void;
+}) {
+  return (
+    <div>
+      <div className="rounded-lg bg-muted/40 px-3 py-2">
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{authorName(comment)}</span>
+          <span>{formatRelativeTime(comment.created_at)}</span>
+        </div>
+        <p className="mt-1 whitespace-pre-wrap text-sm">{comment.body}</p>
+        <button
+          type="button"
+          onClick={() => onReply(comment)}
+          className={cn("mt-1 text-xs", surfaceClasses.textLink)}
+        >
+          Reply
+        </button>
+      </div>
+      {comment.replies.length > 0 && (
+        <div className="ml-4 mt-2 space-y-2 border-l pl-3">
+          {comment.replies.map((reply) => (
+            <CommentItem key={reply.id} comment={reply} authorName={authorName} onReply={onReply} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
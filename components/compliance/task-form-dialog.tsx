@@ -0,0 +1,218 @@
+"use client";
+
+import { useState } from "react";
+import { ClipboardList, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { complianceApi, type TaskResponse } from "@/lib/api/compliance";
+import type { OrganizationMember } from "@/lib/api/organizations";
+import {
+  TASK_PRIORITY_OPTIONS,
+  TASK_TYPE_OPTIONS,
+  priorityForSeverity,
+} from "@/lib/utils/compliance-tasks";
+
+const UNASSIGNED = "__unassigned__";
+
+/** The finding a new task remediates. */
+export interface TaskSourceFinding {
+  id: string;
+  headline: string | null;
+  severity: string;
+  remediation_guidance: string | null;
+}
+
+interface TaskFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  members: OrganizationMember[];
+  /** The task to edit; omit to create a new one. */
+  task?: TaskResponse | null;
+  /** Prefills a new task from a finding and links the two. */
+  finding?: TaskSourceFinding | null;
+  onSaved: (task: TaskResponse) => void;
+}
+
+export function TaskFormDialog({ open, onOpenChange, task, finding, ...formProps }: TaskFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <TaskForm
+          key={task?.id ?? finding?.id ?? "new"}
+          onOpenChange={onOpenChange}
+          task={task}
+          finding={finding}
+          {...formProps}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function TaskForm({ onOpenChange, members, task, finding, onSaved }: Omit<TaskFormDialogProps, "open">) {
+  const [title, setTitle] = useState(task ? task.title : finding?.headline ? `Remediate: ${finding.headline}` : "");
+  const [description, setDescription] = useState((task ? task.description : finding?.remediation_guidance) ?? "");
+  const [taskType, setTaskType] = useState(task ? task.task_type : finding ? "remediation" : "review");
+  const [priority, setPriority] = useState(task ? task.priority : finding ? priorityForSeverity(finding.severity) : 5);
+  const [dueDate, setDueDate] = useState(task?.due_date?.slice(0, 10) ?? "");
+  const [assigneeId, setAssigneeId] = useState(task?.assigned_user_id ?? UNASSIGNED);
+  const [saving, setSaving] = useState(false);
+
+  // A priority set elsewhere (e.g. 6) stays as it is unless the user picks another.
+  const priorityOptions = TASK_PRIORITY_OPTIONS.some((option) => option.value === priority)
+    ? TASK_PRIORITY_OPTIONS
+    : [...TASK_PRIORITY_OPTIONS, { value: priority, label: `Current (${priority} of 10)` }].sort(
+        (a, b) => a.value - b.value
+      );
+
+  const handleSave = async () => {
+    if (!title.trim()) return;
+    setSaving(true);
+    const data = {
+      title: title.trim(),
+      description: description.trim() || null,
+      priority,
+      due_date: dueDate || null,
+      assigned_user_id: assigneeId === UNASSIGNED ? null : assigneeId,
+    };
+    try {
+      const saved = task
+        ? await complianceApi.updateTask(task.id, data)
+        : await complianceApi.createTask({ ...data, task_type: taskType, finding_id: finding?.id ?? null });
+      toast.success(task ? "Task updated" : "Task created");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, task ? "Failed to update task" : "Failed to create task"));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <ClipboardList className="h-5 w-5" />
+          {task ? "Edit task" : "New task"}
+        </DialogTitle>
+        <DialogDescription>
+          {finding
+            ? "This task will be linked to the finding it remediates."
+            : "Track a piece of compliance work and who is responsible for it."}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-1.5">
+          <Label htmlFor="task-title">Title</Label>
+          <Input
+            id="task-title"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="e.g. File annual returns with URSB"
+            autoFocus
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="task-description">Description</Label>
+          <Textarea
+            id="task-description"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={4}
+            placeholder="What needs to be done, and what evidence will show it's done"
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          {!task && (
+            <div className="space-y-1.5">
+              <Label>Type</Label>
+              <Select value={taskType} onValueChange={setTaskType}>
+                <SelectTrigger aria-label="Task type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TASK_TYPE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label>Priority</Label>
+            <Select value={String(priority)} onValueChange={(value) => setPriority(Number(value))}>
+              <SelectTrigger aria-label="Priority">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {priorityOptions.map((option) => (
+                  <SelectItem key={option.value} value={String(option.value)}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="task-due-date">Due date</Label>
+            <Input
+              id="task-due-date"
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Assignee</Label>
+            <Select value={assigneeId} onValueChange={setAssigneeId}>
+              <SelectTrigger aria-label="Assignee">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.user_id} value={member.user_id}>
+                    {member.full_name || member.email}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || !title.trim()}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {task ? "Save changes" : "Create task"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { AlertTriangle, ExternalLink } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { ClauseAuthority } from "@/lib/api/clause-library";
+
+interface ClauseAuthorityListProps {
+  authorities: ClauseAuthority[];
+  className?: string;
+}
+
+/** Citations behind a library clause, with amended or repealed ones marked. */
+export function ClauseAuthorityList({ authorities, className }: ClauseAuthorityListProps) {
+  if (authorities.length === 0) return null;
+
+  return (
+    <ul className={cn("space-y-1.5 text-xs text-muted-foreground", className)}>
+      {authorities.map((authority) => (
+        <li key={authority.id} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+          <span className="font-medium text-foreground">{authority.title}</span>
+          {authority.legal_reference && <span>{authority.legal_reference}</span>}
+          {authority.external_url && (
+            <a
+              href={authority.external_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center hover:text-foreground"
+              aria-label={`Open ${authority.title}`}
+            >
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          )}
+          {authority.status !== "current" && (
+            <Badge variant={authority.status === "repealed" ? "danger" : "warning"} className="gap-1">
+              <AlertTriangle className="h-3 w-3" />
+              {authority.status === "repealed" ? "Repealed" : "Amended"}
+            </Badge>
+          )}
+          {authority.status !== "current" && authority.change_note && (
+            <span className="w-full text-[11px]">{authority.change_note}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
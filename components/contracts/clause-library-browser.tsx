@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { AlertTriangle, Library, Loader2, Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+import { getUserFriendlyError } from "@/lib/api/client";
+import { listLibraryClauses, type LibraryClause } from "@/lib/api/clause-library";
+import { richHtmlToPlainText } from "@/lib/utils/rich-text";
+import { ClauseAuthorityList } from "./clause-authority-list";
+
+interface ClauseLibraryBrowserProps {
+  open: boolean;
+  onClose: () => void;
+  onInsert: (clause: LibraryClause) => void;
+  /** The draft's contract type; clauses for other types are hidden by default. */
+  contractType?: string;
+}
+
+export function ClauseLibraryBrowser({
+  open,
+  onClose,
+  onInsert,
+  contractType,
+}: ClauseLibraryBrowserProps) {
+  const [clauses, setClauses] = useState<LibraryClause[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [matchingTypeOnly, setMatchingTypeOnly] = useState(true);
+
+  const loadClauses = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setClauses(await listLibraryClauses());
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Couldn't load the clause library."));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) {
+      loadClauses();
+    }
+  }, [open, loadClauses]);
+
+  const filteredClauses = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const typeFilter = matchingTypeOnly && contractType && contractType !== "general" ? contractType : null;
+    return clauses.filter((clause) => {
+      if (
+        typeFilter &&
+        clause.contract_types.length > 0 &&
+        !clause.contract_types.includes(typeFilter)
+      ) {
+        return false;
+      }
+      if (!query) return true;
+      return (
+        clause.title.toLowerCase().includes(query) ||
+        clause.tags.some((tag) => tag.includes(query)) ||
+        richHtmlToPlainText(clause.body).toLowerCase().includes(query)
+      );
+    });
+  }, [clauses, searchQuery, matchingTypeOnly, contractType]);
+
+  const handleInsert = (clause: LibraryClause) => {
+    onInsert(clause);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Library className="h-5 w-5" />
+            Clause Library
+          </DialogTitle>
+          <DialogDescription>
+            Insert a vetted clause at the cursor, or at the end of the section you are editing
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col gap-3 py-4 sm:flex-row sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search clauses or tags..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+          {contractType && contractType !== "general" && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="clause-type-filter"
+                checked={matchingTypeOnly}
+                onCheckedChange={setMatchingTypeOnly}
+              />
+              <Label htmlFor="clause-type-filter" className="text-sm capitalize">
+                {contractType === "nda" ? "NDA" : contractType} clauses only
+              </Label>
+            </div>
+          )}
+        </div>
+
+        <ScrollArea className="flex-1 -mx-6 px-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center text-sm text-destructive">{error}</div>
+          ) : filteredClauses.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              {clauses.length === 0 ? (
+                <>
+                  Your organization hasn&apos;t saved any clauses yet.{" "}
+                  <Link href="/contracts/clauses" className={surfaceClasses.textLink}>
+                    Open the clause library
+                  </Link>
+                </>
+              ) : (
+                "No clauses found"
+              )}
+            </div>
+          ) : (
+            <div className="grid gap-3 pb-2">
+              {filteredClauses.map((clause) => (
+                <div
+                  key={clause.id}
+                  className={cn(
+                    "space-y-2 rounded-lg border p-4",
+                    surfaceClasses.pagePanelInteractive,
+                    clause.needs_review && "border-amber-500/50"
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <h4 className="font-medium">{clause.title}</h4>
+                      <div className="mt-1 flex flex-wrap gap-1.5">
+                        {clause.needs_review && (
+                          <Badge variant="warning" className="gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            Authority changed
+                          </Badge>
+                        )}
+                        {clause.tags.map((tag) => (
+                          <Badge key={tag} variant="outline" className="text-xs">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <Button size="sm" onClick={() => handleInsert(clause)}>
+                      Insert
+                    </Button>
+                  </div>
+                  <p className="line-clamp-3 text-sm text-muted-foreground">
+                    {richHtmlToPlainText(clause.body)}
+                  </p>
+                  {clause.governing_law_notes && (
+                    <p className="text-xs italic text-muted-foreground">{clause.governing_law_notes}</p>
+                  )}
+                  <ClauseAuthorityList authorities={clause.authorities} />
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,3 +2,9 @@ export { SourceSelection, type SourceType, type SourceSelectionProps } from "./s
 export { TemplateBrowser } from "./template-browser";
 export { ContractBrowser } from "./contract-browser";
 export { SaveAsTemplateDialog } from "./save-as-template-dialog";
+export { ReviewComparison } from "./review-comparison";
+export { RedlinePanel } from "./redline-panel";
+export { PortfolioMatrix } from "./portfolio-matrix";
+export { ClauseLibraryBrowser } from "./clause-library-browser";
+export { LibraryClauseDialog } from "./library-clause-dialog";
+export { ClauseAuthorityList } from "./clause-authority-list";
@@ -0,0 +1,342 @@
+"use client";
+
+import { useState } from "react";
+import { BookmarkPlus, Loader2, Plus, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { getUserFriendlyError } from "@/lib/api/client";
+import type { ContractLegalAuthority } from "@/lib/api/contracts";
+import {
+  createLibraryClause,
+  updateLibraryClause,
+  type ClauseAuthorityInput,
+  type LibraryClause,
+  type SaveLibraryClauseRequest,
+} from "@/lib/api/clause-library";
+import { plainTextToRichHtml, richHtmlToPlainText } from "@/lib/utils/rich-text";
+
+const CONTRACT_TYPES = ["employment", "nda", "service", "sale", "lease", "loan"];
+
+/** An authority being edited, and whether it can be watched for amendments. */
+type DraftAuthority = ClauseAuthorityInput & { tracked: boolean };
+
+interface LibraryClauseDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Edit this clause; otherwise a new one is created. */
+  clause?: LibraryClause | null;
+  /** Prefill for a new clause, e.g. a section of the open draft. */
+  initial?: Partial<SaveLibraryClauseRequest>;
+  /** Authorities offered for one-click linking, e.g. the draft's applicable_laws. */
+  suggestedAuthorities?: ContractLegalAuthority[];
+  onSaved?: (clause: LibraryClause) => void;
+}
+
+function splitList(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+}
+
+export function LibraryClauseDialog({ open, onClose, clause, ...formProps }: LibraryClauseDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(o) => !o && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <LibraryClauseForm key={clause?.id ?? "new"} onClose={onClose} clause={clause} {...formProps} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LibraryClauseForm({
+  onClose,
+  clause,
+  initial,
+  suggestedAuthorities = [],
+  onSaved,
+}: Omit<LibraryClauseDialogProps, "open">) {
+  const source = clause ?? initial;
+  const sourceBody = clause?.body ?? initial?.body ?? "";
+  const [title, setTitle] = useState(source?.title ?? "");
+  const [bodyText, setBodyText] = useState(() => (sourceBody ? richHtmlToPlainText(sourceBody) : ""));
+  const [tags, setTags] = useState((source?.tags ?? []).join(", "));
+  const [contractTypes, setContractTypes] = useState<string[]>(source?.contract_types ?? []);
+  const [governingLawNotes, setGoverningLawNotes] = useState(source?.governing_law_notes ?? "");
+  const [authorities, setAuthorities] = useState<DraftAuthority[]>(() =>
+    clause
+      ? clause.authorities.map((authority) => ({
+          id: authority.id,
+          title: authority.title,
+          legal_reference: authority.legal_reference,
+          external_url: authority.external_url,
+          source_type: authority.source_type,
+          tracked: authority.document_id !== null,
+        }))
+      : (initial?.authorities ?? []).map((authority) => ({ ...authority, tracked: Boolean(authority.citation_id) }))
+  );
+  const [newAuthorityTitle, setNewAuthorityTitle] = useState("");
+  const [newAuthorityReference, setNewAuthorityReference] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const linkedCitationIds = new Set(authorities.map((authority) => authority.citation_id).filter(Boolean));
+  const unlinkedSuggestions = suggestedAuthorities.filter((authority) => !linkedCitationIds.has(authority.id));
+
+  const addManualAuthority = () => {
+    if (!newAuthorityTitle.trim()) return;
+    setAuthorities((current) => [
+      ...current,
+      {
+        title: newAuthorityTitle.trim(),
+        legal_reference: newAuthorityReference.trim() || null,
+        source_type: "manual",
+        tracked: false,
+      },
+    ]);
+    setNewAuthorityTitle("");
+    setNewAuthorityReference("");
+  };
+
+  const handleSave = async () => {
+    if (!title.trim()) {
+      setError("Clause title is required");
+      return;
+    }
+    if (!bodyText.trim()) {
+      setError("Clause wording is required");
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    // Keep the original formatting unless the wording was edited here.
+    const unchanged = sourceBody && richHtmlToPlainText(sourceBody) === bodyText;
+    const request: SaveLibraryClauseRequest = {
+      title: title.trim(),
+      body: unchanged ? sourceBody : plainTextToRichHtml(bodyText.trim()),
+      tags: splitList(tags),
+      contract_types: contractTypes,
+      governing_law_notes: governingLawNotes.trim() || null,
+      authorities: authorities.map((authority) => ({
+        id: authority.id,
+        title: authority.title,
+        legal_reference: authority.legal_reference,
+        external_url: authority.external_url,
+        source_type: authority.source_type,
+        citation_id: authority.citation_id,
+      })),
+    };
+
+    try {
+      const saved = clause
+        ? await updateLibraryClause(clause.id, request)
+        : await createLibraryClause(request);
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Failed to save clause"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <BookmarkPlus className="h-5 w-5" />
+          {clause ? "Edit Clause" : "Save to Clause Library"}
+        </DialogTitle>
+        <DialogDescription>
+          Clauses in the library are shared with your organization and can be inserted into any draft.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="clause-title">Title *</Label>
+          <Input
+            id="clause-title"
+            placeholder="e.g., Termination for convenience (30 days)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clause-body">Wording *</Label>
+          <Textarea
+            id="clause-body"
+            value={bodyText}
+            onChange={(e) => setBodyText(e.target.value)}
+            rows={8}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Contract types</Label>
+          <div className="flex flex-wrap gap-2">
+            {CONTRACT_TYPES.map((type) => {
+              const selected = contractTypes.includes(type);
+              return (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() =>
+                    setContractTypes((current) =>
+                      selected ? current.filter((t) => t !== type) : [...current, type]
+                    )
+                  }
+                  aria-pressed={selected}
+                >
+                  <Badge variant={selected ? "default" : "outline"} className="capitalize">
+                    {type === "nda" ? "NDA" : type}
+                  </Badge>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">Leave all unselected if the clause suits any contract.</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clause-tags">Tags</Label>
+          <Input
+            id="clause-tags"
+            placeholder="termination, notice, employer-friendly"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="clause-governing-law">Governing-law notes</Label>
+          <Textarea
+            id="clause-governing-law"
+            placeholder="e.g., Notice periods must meet the minimums in s.58 of the Employment Act."
+            value={governingLawNotes}
+            onChange={(e) => setGoverningLawNotes(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label>Authorities</Label>
+          {authorities.length > 0 && (
+            <ul className="space-y-1.5">
+              {authorities.map((authority, index) => (
+                <li
+                  key={`${authority.id ?? authority.citation_id ?? authority.title}-${index}`}
+                  className="flex items-center gap-2 rounded-md border px-3 py-2 text-sm"
+                >
+                  <span className="min-w-0 flex-1 truncate">
+                    {authority.title}
+                    {authority.legal_reference && (
+                      <span className="ml-2 text-xs text-muted-foreground">{authority.legal_reference}</span>
+                    )}
+                  </span>
+                  {!authority.tracked && (
+                    <span className="text-[11px] text-muted-foreground">Not tracked for amendments</span>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setAuthorities((current) => current.filter((_, i) => i !== index))}
+                    className="text-muted-foreground hover:text-destructive"
+                    aria-label={`Remove ${authority.title}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {unlinkedSuggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {unlinkedSuggestions.map((authority) => (
+                <Button
+                  key={authority.id}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() =>
+                    setAuthorities((current) => [
+                      ...current,
+                      {
+                        title: authority.title,
+                        legal_reference: authority.legal_reference,
+                        external_url: authority.external_url,
+                        source_type: authority.source_type,
+                        citation_id: authority.id,
+                        tracked: true,
+                      },
+                    ])
+                  }
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  {authority.legal_reference || authority.title}
+                </Button>
+              ))}
+            </div>
+          )}
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              placeholder="Authority, e.g. Employment Act, 2006"
+              value={newAuthorityTitle}
+              onChange={(e) => setNewAuthorityTitle(e.target.value)}
+              aria-label="Authority title"
+            />
+            <Input
+              placeholder="Reference, e.g. s.58"
+              value={newAuthorityReference}
+              onChange={(e) => setNewAuthorityReference(e.target.value)}
+              className="sm:w-40"
+              aria-label="Authority reference"
+            />
+            <Button type="button" variant="outline" onClick={addManualAuthority} disabled={!newAuthorityTitle.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isLoading}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={isLoading}>
+          {isLoading ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            <>
+              <BookmarkPlus className="mr-2 h-4 w-4" />
+              {clause ? "Save Changes" : "Save Clause"}
+            </>
+          )}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
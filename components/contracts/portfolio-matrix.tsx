@@ -0,0 +1,291 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  Download,
+  FileSpreadsheet,
+  FileText,
+  Loader2,
+  Search,
+} from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  getContractReviewBatchExportUrl,
+  type ContractPortfolioSortKey,
+  type ContractPortfolioView,
+  type ContractReviewBatchItem,
+  type ContractReviewStatus,
+} from "@/lib/api/contracts";
+import { cn } from "@/lib/utils";
+import { applyPortfolioView } from "@/lib/utils/contract-portfolio";
+
+const STATUS_OPTIONS: Array<{ value: ContractReviewStatus; label: string }> = [
+  { value: "approved", label: "Approved" },
+  { value: "needs_revision", label: "Needs revision" },
+  { value: "major_issues", label: "Major issues" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const COLUMNS: Array<{ key: ContractPortfolioSortKey; label: string; numeric?: boolean }> = [
+  { key: "filename", label: "Contract" },
+  { key: "overall_score", label: "Overall", numeric: true },
+  { key: "completeness_score", label: "Completeness", numeric: true },
+  { key: "compliance_score", label: "Compliance", numeric: true },
+  { key: "consistency_score", label: "Consistency", numeric: true },
+  { key: "critical_issue_count", label: "Critical issues", numeric: true },
+  { key: "missing_clause_count", label: "Missing clauses" },
+];
+
+function scoreTone(score: number) {
+  if (score >= 85) return "text-emerald-700 dark:text-emerald-300";
+  if (score >= 70) return "text-amber-700 dark:text-amber-300";
+  if (score >= 50) return "text-orange-700 dark:text-orange-300";
+  return "text-rose-700 dark:text-rose-300";
+}
+
+interface PortfolioMatrixProps {
+  batchId: string;
+  items: ContractReviewBatchItem[];
+}
+
+/**
+ * One row per contract in a batch review, with sortable score and
+ * issue columns. Exports use the current sort and filters.
+ */
+export function PortfolioMatrix({ batchId, items }: PortfolioMatrixProps) {
+  const [view, setView] = useState<ContractPortfolioView>({
+    sort: "overall_score",
+    direction: "asc",
+  });
+
+  const rows = useMemo(() => applyPortfolioView(items, view), [items, view]);
+
+  const toggleSort = (key: ContractPortfolioSortKey) => {
+    setView((current) =>
+      current.sort === key
+        ? { ...current, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { ...current, sort: key, direction: key === "filename" ? "asc" : "desc" }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="relative min-w-[14rem] flex-1">
+          <Search
+            className="pointer-events-none absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground"
+            aria-hidden="true"
+          />
+          <Input
+            type="search"
+            value={view.search ?? ""}
+            onChange={(e) => setView((current) => ({ ...current, search: e.target.value }))}
+            placeholder="Search contracts or missing clauses"
+            className="pl-9"
+            aria-label="Search contracts"
+          />
+        </div>
+        <Select
+          value={view.status ?? "all"}
+          onValueChange={(value) =>
+            setView((current) => ({
+              ...current,
+              status: value === "all" ? undefined : (value as ContractReviewStatus),
+            }))
+          }
+        >
+          <SelectTrigger className="w-[170px]" aria-label="Filter by status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {STATUS_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex h-10 items-center gap-2">
+          <Switch
+            id="critical-only"
+            checked={Boolean(view.critical_only)}
+            onCheckedChange={(checked) => setView((current) => ({ ...current, critical_only: checked }))}
+          />
+          <Label htmlFor="critical-only" className="text-sm">
+            Critical issues only
+          </Label>
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" className="h-10">
+              <Download className="mr-2 h-4 w-4" />
+              Export
+              <ChevronDown className="ml-1 h-3.5 w-3.5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <a href={getContractReviewBatchExportUrl(batchId, "xlsx", view)} download>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Excel (.xlsx)
+              </a>
+            </DropdownMenuItem>
+            <DropdownMenuItem asChild>
+              <a href={getContractReviewBatchExportUrl(batchId, "csv", view)} download>
+                <FileText className="mr-2 h-4 w-4" />
+                CSV
+              </a>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map((column) => {
+                const active = view.sort === column.key;
+                const SortIcon = view.direction === "asc" ? ArrowUp : ArrowDown;
+                return (
+                  <TableHead
+                    key={column.key}
+                    className={cn(column.numeric && "text-right")}
+                    aria-sort={active ? (view.direction === "asc" ? "ascending" : "descending") : "none"}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => toggleSort(column.key)}
+                      className="inline-flex items-center gap-1 font-medium hover:text-foreground"
+                    >
+                      {column.label}
+                      {active && <SortIcon className="h-3 w-3" aria-hidden />}
+                    </button>
+                  </TableHead>
+                );
+              })}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={COLUMNS.length} className="py-8 text-center text-muted-foreground">
+                  No contracts match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map((item) => <PortfolioRow key={item.review_id} item={item} />)
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
+
+function PortfolioRow({ item }: { item: ContractReviewBatchItem }) {
+  const done = item.job_status === "complete";
+
+  return (
+    <TableRow>
+      <TableCell className="max-w-[16rem]">
+        {done ? (
+          <Link
+            href={`/contracts/review?review=${item.review_id}`}
+            className="block truncate font-medium hover:underline"
+          >
+            {item.filename}
+          </Link>
+        ) : (
+          <span className="block truncate font-medium">{item.filename}</span>
+        )}
+        {item.contract_type && (
+          <span className="text-xs capitalize text-muted-foreground">
+            {item.contract_type.replace(/_/g, " ")}
+          </span>
+        )}
+      </TableCell>
+      {done ? (
+        <>
+          {(["overall_score", "completeness_score", "compliance_score", "consistency_score"] as const).map(
+            (key) => {
+              const value = item[key];
+              return (
+                <TableCell
+                  key={key}
+                  className={cn("text-right font-semibold tabular-nums", value !== null && scoreTone(value))}
+                >
+                  {value ?? "—"}
+                </TableCell>
+              );
+            }
+          )}
+          <TableCell className="text-right tabular-nums">
+            {item.critical_issue_count ? (
+              <Badge variant="danger">{item.critical_issue_count}</Badge>
+            ) : (
+              <span className="text-muted-foreground">0</span>
+            )}
+          </TableCell>
+          <TableCell className="max-w-[18rem]">
+            {item.missing_clauses.length === 0 ? (
+              <span className="text-muted-foreground">None</span>
+            ) : (
+              <span className="line-clamp-2 text-xs capitalize">
+                {item.missing_clauses.map((c) => c.replace(/_/g, " ")).join(", ")}
+              </span>
+            )}
+          </TableCell>
+        </>
+      ) : (
+        <TableCell colSpan={COLUMNS.length - 1} className="text-sm text-muted-foreground">
+          {item.job_status === "failed" ? (
+            <span className="flex items-center gap-2 text-rose-700 dark:text-rose-300">
+              <AlertCircle className="h-4 w-4" />
+              {item.error || "Review failed"}
+            </span>
+          ) : item.job_status === "cancelled" ? (
+            "Cancelled"
+          ) : (
+            <span className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {item.job_status === "queued" ? "Queued" : "Reviewing…"}
+            </span>
+          )}
+        </TableCell>
+      )}
+    </TableRow>
+  );
+}
@@ -0,0 +1,314 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Check, ChevronDown, Download, FileText, FileType2, Pencil, RotateCcw, X } from "lucide-react";
+import { toast } from "sonner";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Textarea } from "@/components/ui/textarea";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  getRedlinedContractDownloadUrl,
+  resolvePendingContractRedlines,
+  updateContractRedline,
+  type ContractRedlineStatus,
+  type ContractReviewRedline,
+  type UpdateContractRedlineRequest,
+} from "@/lib/api/contracts";
+import { surfaceClasses, typographyClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+import { diffText } from "@/lib/utils/version-diff";
+
+const STATUS_BADGES: Record<
+  ContractRedlineStatus,
+  { label: string; variant: "neutral" | "success" | "danger" }
+> = {
+  pending: { label: "Pending", variant: "neutral" },
+  accepted: { label: "Accepted", variant: "success" },
+  rejected: { label: "Rejected", variant: "danger" },
+};
+
+const SOURCE_LABELS: Record<ContractReviewRedline["source"], string> = {
+  legal_issue: "Legal issue",
+  improvement: "Improvement",
+  missing_clause: "Missing clause",
+};
+
+interface RedlinePanelProps {
+  reviewId: string;
+  redlines: ContractReviewRedline[];
+}
+
+/**
+ * Accept or reject the reviewer's replacement wording clause by clause,
+ * then download the contract with the accepted changes applied.
+ * Decisions are saved as they are made, so the export always reflects
+ * what is on screen.
+ */
+export function RedlinePanel({ reviewId, redlines: initialRedlines }: RedlinePanelProps) {
+  const [redlines, setRedlines] = useState(initialRedlines);
+  const [bulkBusy, setBulkBusy] = useState(false);
+
+  const counts = useMemo(() => {
+    const result: Record<ContractRedlineStatus, number> = { pending: 0, accepted: 0, rejected: 0 };
+    for (const redline of redlines) result[redline.status] += 1;
+    return result;
+  }, [redlines]);
+
+  const update = async (redlineId: string, change: UpdateContractRedlineRequest) => {
+    const previous = redlines.find((r) => r.id === redlineId);
+    setRedlines((current) =>
+      current.map((r) =>
+        r.id === redlineId
+          ? {
+              ...r,
+              ...change,
+              edited: change.proposed_text !== undefined ? true : r.edited,
+            }
+          : r
+      )
+    );
+    try {
+      const saved = await updateContractRedline(reviewId, redlineId, change);
+      setRedlines((current) => current.map((r) => (r.id === redlineId ? saved : r)));
+    } catch (error) {
+      // Roll back only this redline; decisions on others may have saved meanwhile.
+      if (previous) setRedlines((current) => current.map((r) => (r.id === redlineId ? previous : r)));
+      toast.error(getUserFriendlyError(error, "Couldn't save your decision. Please try again."));
+    }
+  };
+
+  const resolvePending = async (status: "accepted" | "rejected") => {
+    setBulkBusy(true);
+    try {
+      const saved = await resolvePendingContractRedlines(reviewId, status);
+      const byId = new Map(saved.map((r) => [r.id, r]));
+      setRedlines((current) => current.map((r) => byId.get(r.id) ?? r));
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Couldn't update the pending redlines."));
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  if (redlines.length === 0) {
+    return (
+      <Card className={surfaceClasses.pagePanel}>
+        <CardContent className="p-6 text-muted-foreground">
+          The reviewer didn&apos;t propose any replacement wording for this contract.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className={surfaceClasses.pagePanel}>
+        <CardContent className="flex flex-wrap items-center justify-between gap-3 p-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="success">{counts.accepted} accepted</Badge>
+            <Badge variant="neutral">{counts.pending} pending</Badge>
+            <Badge variant="danger">{counts.rejected} rejected</Badge>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {counts.pending > 0 && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => resolvePending("accepted")}
+                  disabled={bulkBusy}
+                >
+                  <Check className="mr-2 h-3.5 w-3.5" />
+                  Accept all pending
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => resolvePending("rejected")}
+                  disabled={bulkBusy}
+                >
+                  Reject all pending
+                </Button>
+              </>
+            )}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild disabled={counts.accepted === 0}>
+                <Button
+                  size="sm"
+                  className={surfaceClasses.brandButton}
+                  title={counts.accepted === 0 ? "Accept at least one redline to export" : undefined}
+                >
+                  <Download className="mr-2 h-3.5 w-3.5" />
+                  Download redlined
+                  <ChevronDown className="ml-1 h-3.5 w-3.5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-64">
+                <DropdownMenuItem asChild>
+                  <a href={getRedlinedContractDownloadUrl(reviewId, "docx")} download>
+                    <FileText className="mr-2 h-4 w-4" />
+                    <span className="flex flex-col">
+                      <span>Word (.docx)</span>
+                      <span className="text-xs text-muted-foreground">Tracked changes</span>
+                    </span>
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={getRedlinedContractDownloadUrl(reviewId, "pdf")} download>
+                    <FileType2 className="mr-2 h-4 w-4" />
+                    <span className="flex flex-col">
+                      <span>PDF</span>
+                      <span className="text-xs text-muted-foreground">Changes marked inline</span>
+                    </span>
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        {redlines.map((redline) => (
+          <RedlineCard
+            key={redline.id}
+            redline={redline}
+            onDecide={(status) => update(redline.id, { status })}
+            onReword={(proposed_text) => update(redline.id, { proposed_text, status: "accepted" })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function RedlineCard({
+  redline,
+  onDecide,
+  onReword,
+}: {
+  redline: ContractReviewRedline;
+  onDecide: (status: ContractRedlineStatus) => void;
+  onReword: (text: string) => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(redline.proposed_text);
+  const badge = STATUS_BADGES[redline.status];
+
+  return (
+    <Card
+      className={cn(
+        surfaceClasses.pagePanel,
+        redline.status === "rejected" && "opacity-70"
+      )}
+    >
+      <CardContent className="space-y-3 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className={cn(typographyClasses.labelSm, "mr-auto")}>
+            {redline.section || "Clause"}
+          </div>
+          <Badge variant="outline">{SOURCE_LABELS[redline.source]}</Badge>
+          {redline.edited && <Badge variant="info">Edited</Badge>}
+          <Badge variant={badge.variant}>{badge.label}</Badge>
+        </div>
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground line-through">{redline.original_text}</p>
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={4}
+              aria-label="Replacement wording"
+            />
+          </div>
+        ) : (
+          <RedlineDiff before={redline.original_text} after={redline.proposed_text} />
+        )}
+
+        {redline.rationale && (
+          <p className={cn(typographyClasses.bodySm, "text-muted-foreground")}>
+            <span className="font-medium text-foreground/85">Why: </span>
+            {redline.rationale}
+          </p>
+        )}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {isEditing ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setDraft(redline.proposed_text);
+                  setIsEditing(false);
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => {
+                  onReword(draft);
+                  setIsEditing(false);
+                }}
+              >
+                Save and accept
+              </Button>
+            </>
+          ) : redline.status === "pending" ? (
+            <>
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(true)}>
+                <Pencil className="mr-2 h-3.5 w-3.5" />
+                Edit
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => onDecide("rejected")}>
+                <X className="mr-2 h-3.5 w-3.5" />
+                Reject
+              </Button>
+              <Button size="sm" onClick={() => onDecide("accepted")}>
+                <Check className="mr-2 h-3.5 w-3.5" />
+                Accept
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={() => onDecide("pending")}>
+              <RotateCcw className="mr-2 h-3.5 w-3.5" />
+              Undo
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RedlineDiff({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffText(before, after), [before, after]);
+  return (
+    <p className="whitespace-pre-wrap rounded-md bg-muted/40 p-3 text-sm leading-relaxed">
+      {segments.map((segment, index) =>
+        segment.type === "equal" ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === "delete" ? (
+          <del key={index} className="bg-red-500/15 text-red-800 line-through dark:text-red-300">
+            {segment.text}
+          </del>
+        ) : (
+          <ins key={index} className="bg-emerald-500/15 text-emerald-800 no-underline dark:text-emerald-300">
+            {segment.text}
+          </ins>
+        )
+      )}
+    </p>
+  );
+}
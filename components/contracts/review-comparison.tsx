@@ -0,0 +1,168 @@
+"use client";
+
+import { useMemo } from "react";
+import { ArrowDownRight, ArrowUpRight, CheckCircle2, Minus, PlusCircle } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import type {
+  ContractReviewLegalIssue,
+  ContractReviewResult,
+  ContractReviewRisk,
+} from "@/lib/api/contracts";
+import { surfaceClasses, typographyClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+import {
+  compareContractReviews,
+  type FindingDiff,
+  type ReviewScoreKey,
+} from "@/lib/utils/contract-review-diff";
+
+const SCORE_LABELS: Record<ReviewScoreKey, string> = {
+  overall_score: "Overall",
+  completeness_score: "Completeness",
+  compliance_score: "Compliance",
+  consistency_score: "Consistency",
+};
+
+interface ReviewComparisonProps {
+  previous: ContractReviewResult;
+  current: ContractReviewResult;
+}
+
+/**
+ * What changed between two reviews of the same contract: score deltas,
+ * then the legal issues, risks and missing clauses the revision
+ * resolved, introduced or left in place.
+ */
+export function ReviewComparison({ previous, current }: ReviewComparisonProps) {
+  const comparison = useMemo(
+    () => compareContractReviews(previous, current),
+    [previous, current]
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card className={surfaceClasses.pagePanel}>
+        <CardContent className="p-6">
+          <div className={typographyClasses.labelSm}>
+            Compared with {previous.filename}
+            {previous.version ? ` (v${previous.version})` : ""}
+          </div>
+          <div className="mt-4 grid grid-cols-2 gap-4 sm:grid-cols-4">
+            {comparison.scores.map((score) => (
+              <div key={score.key}>
+                <div className={cn(typographyClasses.labelXs, "text-muted-foreground")}>
+                  {SCORE_LABELS[score.key]}
+                </div>
+                <div className="mt-1 flex items-baseline gap-2">
+                  <span className="text-2xl font-semibold">{score.after}</span>
+                  <ScoreDelta delta={score.delta} />
+                </div>
+                <div className="text-xs text-muted-foreground">was {score.before}</div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <DiffSection
+        title="Legal issues"
+        diff={comparison.legal_issues}
+        render={(issue: ContractReviewLegalIssue) => (
+          <>
+            {issue.issue}
+            {issue.law_reference && (
+              <span className="text-muted-foreground"> · {issue.law_reference}</span>
+            )}
+          </>
+        )}
+      />
+      <DiffSection
+        title="Risks"
+        diff={comparison.risks}
+        render={(risk: ContractReviewRisk) => risk.description}
+      />
+      <DiffSection
+        title="Missing clauses"
+        diff={comparison.missing_clauses}
+        render={(clause: string) => (
+          <span className="capitalize">{clause.replace(/_/g, " ")}</span>
+        )}
+      />
+    </div>
+  );
+}
+
+function ScoreDelta({ delta }: { delta: number }) {
+  if (delta === 0) {
+    return <span className="text-xs text-muted-foreground">no change</span>;
+  }
+  const improved = delta > 0;
+  const Icon = improved ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span
+      className={cn(
+        "flex items-center text-sm font-medium",
+        improved
+          ? "text-emerald-700 dark:text-emerald-300"
+          : "text-rose-700 dark:text-rose-300"
+      )}
+    >
+      <Icon className="h-3.5 w-3.5" aria-hidden />
+      {improved ? "+" : ""}
+      {delta}
+    </span>
+  );
+}
+
+function DiffSection<T>({
+  title,
+  diff,
+  render,
+}: {
+  title: string;
+  diff: FindingDiff<T>;
+  render: (item: T) => React.ReactNode;
+}) {
+  const total = diff.resolved.length + diff.introduced.length + diff.unchanged.length;
+
+  return (
+    <Card className={surfaceClasses.pagePanel}>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <div className={cn(typographyClasses.headingSm, "mr-auto text-foreground")}>
+            {title}
+          </div>
+          <Badge variant="success">{diff.resolved.length} resolved</Badge>
+          <Badge variant="danger">{diff.introduced.length} new</Badge>
+          <Badge variant="neutral">{diff.unchanged.length} unchanged</Badge>
+        </div>
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground">None in either version.</p>
+        ) : (
+          <ul className="space-y-1.5 text-sm text-foreground/85">
+            {diff.resolved.map((item, i) => (
+              <li key={`resolved-${i}`} className="flex items-start gap-2">
+                <CheckCircle2 className="mt-0.5 h-4 w-4 shrink-0 text-emerald-500" aria-label="Resolved" />
+                <span className="text-muted-foreground line-through">{render(item)}</span>
+              </li>
+            ))}
+            {diff.introduced.map((item, i) => (
+              <li key={`introduced-${i}`} className="flex items-start gap-2">
+                <PlusCircle className="mt-0.5 h-4 w-4 shrink-0 text-rose-500" aria-label="Introduced" />
+                <span>{render(item)}</span>
+              </li>
+            ))}
+            {diff.unchanged.map(({ after }, i) => (
+              <li key={`unchanged-${i}`} className="flex items-start gap-2">
+                <Minus className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" aria-label="Unchanged" />
+                <span>{render(after)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { VersionHistoryBar } from "./version-history-bar";
+export { VersionCompareDialog } from "./version-compare-dialog";
@@ -0,0 +1,285 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { ArrowRight } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { cn } from "@/lib/utils";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
+import { useDocumentVersion } from "@/lib/hooks";
+import {
+  diffText,
+  diffVersions,
+  summarizeVersionDiff,
+  type SectionDiff,
+} from "@/lib/utils/version-diff";
+import type { DocumentVersionSummary } from "@/lib/api/types";
+
+type DiffLayout = "inline" | "side-by-side";
+
+interface VersionCompareDialogProps {
+  documentId: string;
+  versions: DocumentVersionSummary[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Version numbers to preselect; defaults to the two most recent. */
+  initialFrom?: number;
+  initialTo?: number;
+  /** Jump to a section in the reader when its heading is clicked. */
+  onSectionSelect?: (eid: string) => void;
+}
+
+const changeBadge: Record<SectionDiff["change"], { label: string; variant: "success" | "danger" | "warning" | "neutral" }> = {
+  added: { label: "Added", variant: "success" },
+  removed: { label: "Removed", variant: "danger" },
+  modified: { label: "Amended", variant: "warning" },
+  unchanged: { label: "Unchanged", variant: "neutral" },
+};
+
+function versionLabel(version: DocumentVersionSummary) {
+  const from = version.valid_from ? ` · from ${formatDateOnly(version.valid_from)}` : "";
+  return `Version ${version.version_number}${version.is_latest_version ? " (latest)" : ""}${from}`;
+}
+
+function InlineDiff({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffText(before, after), [before, after]);
+  return (
+    <p className="whitespace-pre-wrap text-sm leading-relaxed">
+      {segments.map((segment, index) =>
+        segment.type === "equal" ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === "delete" ? (
+          <del key={index} className="bg-red-500/15 text-red-800 line-through dark:text-red-300">
+            {segment.text}
+          </del>
+        ) : (
+          <ins key={index} className="bg-emerald-500/15 text-emerald-800 no-underline dark:text-emerald-300">
+            {segment.text}
+          </ins>
+        )
+      )}
+    </p>
+  );
+}
+
+function SectionDiffRow({
+  diff,
+  layout,
+  onSectionSelect,
+}: {
+  diff: SectionDiff;
+  layout: DiffLayout;
+  onSectionSelect?: (eid: string) => void;
+}) {
+  const badge = changeBadge[diff.change];
+
+  return (
+    <div className="space-y-2 py-3">
+      <div className="flex items-center gap-2">
+        <Badge variant={badge.variant}>{badge.label}</Badge>
+        {onSectionSelect && diff.change !== "removed" ? (
+          <button
+            type="button"
+            onClick={() => onSectionSelect(diff.eid)}
+            className="text-sm font-medium underline-offset-4 hover:underline"
+          >
+            {diff.label}
+          </button>
+        ) : (
+          <span className="text-sm font-medium">{diff.label}</span>
+        )}
+      </div>
+
+      {layout === "side-by-side" ? (
+        <div className="grid gap-3 md:grid-cols-2">
+          <div
+            className={cn(
+              "rounded-md border p-3 text-sm leading-relaxed",
+              diff.change === "removed" || diff.change === "modified"
+                ? "border-red-500/30 bg-red-500/5"
+                : "bg-muted/20"
+            )}
+          >
+            {diff.before ?? <span className="italic text-muted-foreground">Not in this version</span>}
+          </div>
+          <div
+            className={cn(
+              "rounded-md border p-3 text-sm leading-relaxed",
+              diff.change === "added" || diff.change === "modified"
+                ? "border-emerald-500/30 bg-emerald-500/5"
+                : "bg-muted/20"
+            )}
+          >
+            {diff.after ?? <span className="italic text-muted-foreground">Not in this version</span>}
+          </div>
+        </div>
+      ) : (
+        <div className="rounded-md border bg-muted/10 p-3">
+          <InlineDiff before={diff.before ?? ""} after={diff.after ?? ""} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Section-by-section comparison of two versions of a document. Sections
+ * are aligned on AKN eIds so an inserted section does not shift the rest.
+ */
+export function VersionCompareDialog({
+  documentId,
+  versions,
+  open,
+  onOpenChange,
+  initialFrom,
+  initialTo,
+  onSectionSelect,
+}: VersionCompareDialogProps) {
+  const sorted = useMemo(
+    () => [...versions].sort((a, b) => a.version_number - b.version_number),
+    [versions]
+  );
+  const [fromVersion, setFromVersion] = useState<number | null>(
+    initialFrom ?? sorted[sorted.length - 2]?.version_number ?? null
+  );
+  const [toVersion, setToVersion] = useState<number | null>(
+    initialTo ?? sorted[sorted.length - 1]?.version_number ?? null
+  );
+  const [layout, setLayout] = useState<DiffLayout>("inline");
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const fromQuery = useDocumentVersion(open ? documentId : null, fromVersion);
+  const toQuery = useDocumentVersion(open ? documentId : null, toVersion);
+
+  const diffs = useMemo(() => {
+    if (!fromQuery.data || !toQuery.data) return [];
+    return diffVersions(fromQuery.data.hierarchical_structure, toQuery.data.hierarchical_structure);
+  }, [fromQuery.data, toQuery.data]);
+  const summary = useMemo(() => summarizeVersionDiff(diffs), [diffs]);
+  const visibleDiffs = showUnchanged ? diffs : diffs.filter((d) => d.change !== "unchanged");
+
+  const isLoading = fromQuery.isLoading || toQuery.isLoading;
+  const hasError = fromQuery.isError || toQuery.isError;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[90vh] max-w-5xl flex-col">
+        <DialogHeader>
+          <DialogTitle>Compare versions</DialogTitle>
+          <DialogDescription>
+            Changes are matched section by section, so renumbered or inserted provisions line up
+            with their counterparts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={fromVersion !== null ? String(fromVersion) : undefined}
+            onValueChange={(value) => setFromVersion(Number(value))}
+          >
+            <SelectTrigger className="w-[240px]" aria-label="Earlier version">
+              <SelectValue placeholder="Earlier version" />
+            </SelectTrigger>
+            <SelectContent>
+              {sorted.map((version) => (
+                <SelectItem key={version.version_number} value={String(version.version_number)}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select
+            value={toVersion !== null ? String(toVersion) : undefined}
+            onValueChange={(value) => setToVersion(Number(value))}
+          >
+            <SelectTrigger className="w-[240px]" aria-label="Later version">
+              <SelectValue placeholder="Later version" />
+            </SelectTrigger>
+            <SelectContent>
+              {sorted.map((version) => (
+                <SelectItem key={version.version_number} value={String(version.version_number)}>
+                  {versionLabel(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <ToggleGroup
+            type="single"
+            value={layout}
+            onValueChange={(value) => value && setLayout(value as DiffLayout)}
+            className="ml-auto"
+            aria-label="Diff layout"
+          >
+            <ToggleGroupItem value="inline" size="sm">
+              Inline
+            </ToggleGroupItem>
+            <ToggleGroupItem value="side-by-side" size="sm">
+              Side by side
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          {!isLoading && !hasError && (
+            <span>
+              {summary.modified} amended · {summary.added} added · {summary.removed} removed
+            </span>
+          )}
+          <label className="ml-auto flex items-center gap-2">
+            <Switch checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+            Show unchanged sections
+          </label>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto divide-y">
+          {fromVersion === toVersion ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              Select two different versions to compare.
+            </p>
+          ) : isLoading ? (
+            <div className="space-y-3 py-3">
+              {Array.from({ length: 4 }).map((_, i) => (
+                <Skeleton key={i} className="h-20 w-full" />
+              ))}
+            </div>
+          ) : hasError ? (
+            <p className="py-8 text-center text-sm text-destructive">
+              One of the versions could not be loaded. Please try again.
+            </p>
+          ) : visibleDiffs.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">
+              No differences between these versions.
+            </p>
+          ) : (
+            visibleDiffs.map((diff) => (
+              <SectionDiffRow
+                key={`${diff.change}-${diff.eid}`}
+                diff={diff}
+                layout={layout}
+                onSectionSelect={onSectionSelect}
+              />
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { CalendarClock, GitCompare, History, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { formatDateOnly } from "@/lib/utils/date-formatter";
+import type { Document, DocumentVersionSummary } from "@/lib/api/types";
+
+interface VersionHistoryBarProps {
+  /** The version currently on screen (latest or the one resolved for `asAt`). */
+  document: Document;
+  versions: DocumentVersionSummary[];
+  /** Selected "as at" date (YYYY-MM-DD), or null when showing the latest text. */
+  asAt: string | null;
+  onAsAtChange: (date: string | null) => void;
+  onCompare: () => void;
+  /** Set when no version was in force on `asAt`. */
+  asAtError?: string | null;
+  isResolving?: boolean;
+  className?: string;
+}
+
+function formatValidity(version: Pick<DocumentVersionSummary, "valid_from" | "valid_to">) {
+  if (!version.valid_from) return "Commencement date unknown";
+  const from = formatDateOnly(version.valid_from);
+  return version.valid_to ? `${from} – ${formatDateOnly(version.valid_to)}` : `${from} – present`;
+}
+
+/**
+ * Point-in-time controls for legislation: pick the date the law should be
+ * read "as at", jump to a specific consolidation, or open the comparison
+ * view. Shows a banner whenever the text on screen is not the latest.
+ */
+export function VersionHistoryBar({
+  document,
+  versions,
+  asAt,
+  onAsAtChange,
+  onCompare,
+  asAtError,
+  isResolving,
+  className,
+}: VersionHistoryBarProps) {
+  const isHistorical = !!asAt && !document.is_latest_version;
+
+  const handleVersionSelect = (value: string) => {
+    const version = versions.find((v) => String(v.version_number) === value);
+    if (!version) return;
+    // Selecting a version is shorthand for "as at" its first day in force
+    onAsAtChange(version.is_latest_version || !version.valid_from ? null : version.valid_from.slice(0, 10));
+  };
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/20 px-3 py-2 text-sm">
+        <History className="h-4 w-4 text-muted-foreground" />
+        <label htmlFor="document-as-at" className="text-xs font-medium text-muted-foreground">
+          Law as at
+        </label>
+        <Input
+          id="document-as-at"
+          type="date"
+          value={asAt ?? ""}
+          max={new Date().toISOString().slice(0, 10)}
+          onChange={(e) => onAsAtChange(e.target.value || null)}
+          className="h-8 w-[160px]"
+        />
+        {asAt && (
+          <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => onAsAtChange(null)}>
+            <X className="mr-1 h-3.5 w-3.5" />
+            Latest
+          </Button>
+        )}
+
+        {versions.length > 1 && (
+          <Select value={String(document.version_number)} onValueChange={handleVersionSelect}>
+            <SelectTrigger className="h-8 w-[220px]" aria-label="Select version">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.version_number} value={String(version.version_number)}>
+                  Version {version.version_number}
+                  {version.is_latest_version ? " (latest)" : ""} · {formatValidity(version)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto h-8"
+          onClick={onCompare}
+          disabled={versions.length < 2}
+          title={versions.length < 2 ? "Only one version is available" : undefined}
+        >
+          <GitCompare className="mr-2 h-4 w-4" />
+          Compare versions
+        </Button>
+      </div>
+
+      {isResolving && (
+        <p className="px-1 text-xs text-muted-foreground">Loading the version in force on that date...</p>
+      )}
+
+      {asAtError && !isResolving && (
+        <div className="rounded-md border border-amber-300/50 bg-amber-50/80 px-3 py-2 text-xs text-amber-900 dark:border-amber-400/30 dark:bg-amber-900/20 dark:text-amber-200">
+          {asAtError} Showing the latest version instead.
+        </div>
+      )}
+
+      {isHistorical && !isResolving && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-300/50 bg-amber-50/80 px-3 py-2 text-xs text-amber-900 dark:border-amber-400/30 dark:bg-amber-900/20 dark:text-amber-200">
+          <CalendarClock className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+          <span>
+            Historical text: version {document.version_number} as it stood on{" "}
+            <strong>{formatDateOnly(asAt)}</strong> ({formatValidity(document)}). This is not the
+            current law.
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
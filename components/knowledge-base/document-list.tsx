@@ -7,6 +7,7 @@ import {
   RefreshCw,
   Search,
   AlertCircle,
+  Briefcase,
   CheckCircle2,
   Loader2,
   Eye,
@@ -37,6 +38,9 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAuth } from "@/components/providers";
+import { AddToMatterDialog, MatterFilter } from "@/components/matters";
+import { useMatterFilter } from "@/hooks/use-matter-filter";
+import { filterByMatter } from "@/lib/utils/matters";
 import {
   listDocuments,
   deleteDocument,
@@ -170,6 +174,8 @@ export function DocumentList({
   const [deleting, setDeleting] = useState<string | null>(null);
   const [classifying, setClassifying] = useState<string | null>(null);
   const [previewing, setPreviewing] = useState<OrgDocument | null>(null);
+  const [matterTarget, setMatterTarget] = useState<OrgDocument | null>(null);
+  const matterFilter = useMatterFilter("kb_document");
 
   const pageSize = 10;
 
@@ -227,8 +233,12 @@ export function DocumentList({
     }
   };
 
-  // Client-side filtering by search and category
-  const filteredDocuments = documents.filter((doc) => {
+  // Client-side filtering by search, category and matter
+  const filteredDocuments = filterByMatter(
+    documents,
+    (doc) => doc.id,
+    matterFilter.matterItemIds,
+  ).filter((doc) => {
     const matchesSearch =
       !searchQuery ||
       doc.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -300,6 +310,11 @@ export function DocumentList({
             <SelectItem value="failed">Failed</SelectItem>
           </SelectContent>
         </Select>
+        <MatterFilter
+          value={matterFilter.matterId}
+          onChange={matterFilter.setMatterId}
+          className="w-[180px]"
+        />
         <button
           type="button"
           onClick={loadDocuments}
@@ -311,18 +326,26 @@ export function DocumentList({
       </div>
 
       {/* Document Cards */}
-      {filteredDocuments.length === 0 ? (
+      {matterFilter.isLoading ? (
+        <Skeleton className="h-20 rounded-xl" />
+      ) : filteredDocuments.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <div className="flex h-16 w-16 items-center justify-center rounded-2xl bg-surface-container">
             <FileText className="h-8 w-8 text-muted-foreground/40" />
           </div>
           <h3 className="mt-4 text-lg font-bold">
-            {searchQuery ? "No matches for that search" : "Your knowledge base is ready"}
+            {searchQuery
+              ? "No matches for that search"
+              : matterFilter.matterId
+                ? "No documents in this matter"
+                : "Your knowledge base is ready"}
           </h3>
           <p className="mt-2 max-w-md text-sm text-muted-foreground">
             {searchQuery
               ? "Try a different keyword, or clear the search to see every document."
-              : "Upload contracts, policies, or memos and Ask Ben will cite them in answers."}
+              : matterFilter.matterId
+                ? "File documents with the briefcase button, or choose All matters to see every document on this page."
+                : "Upload contracts, policies, or memos and Ask Ben will cite them in answers."}
           </p>
         </div>
       ) : (
@@ -452,6 +475,16 @@ export function DocumentList({
                         </button>
                       )}
 
+                      {/* Add to matter */}
+                      <button
+                        type="button"
+                        onClick={() => setMatterTarget(doc)}
+                        className="inline-flex h-8 w-8 items-center justify-center rounded-lg text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+                        title="Add to matter"
+                      >
+                        <Briefcase className="h-4 w-4" />
+                      </button>
+
                       {/* Delete */}
                       <AlertDialog>
                         <AlertDialogTrigger asChild>
@@ -539,6 +572,17 @@ export function DocumentList({
         open={previewing !== null}
         onOpenChange={(open) => !open && setPreviewing(null)}
       />
+
+      {matterTarget && (
+        <AddToMatterDialog
+          open
+          onOpenChange={(open) => !open && setMatterTarget(null)}
+          itemType="kb_document"
+          itemId={matterTarget.id}
+          itemTitle={matterTarget.title}
+          onChange={matterFilter.refresh}
+        />
+      )}
     </div>
   );
 }
@@ -9,6 +9,7 @@ import {
   ShieldCheck,
   Database,
   LayoutDashboard,
+  Briefcase,
   Settings,
   HelpCircle,
 } from "lucide-react";
@@ -50,6 +51,7 @@ const primaryNav: NavItem[] = [
   { label: "Regulatory Compliance", href: "/compliance", icon: ShieldCheck, matchPrefix: true },
   { label: "Internal KB", href: "/knowledge-base", icon: Database, matchPrefix: true },
   { label: "My Workspace", href: "/workspace", icon: LayoutDashboard, matchPrefix: true },
+  { label: "Matters", href: "/matters", icon: Briefcase, matchPrefix: true },
 ];
 
 // Tools section pulls from the shared toolsNav config so desktop and
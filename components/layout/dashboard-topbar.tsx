@@ -25,12 +25,14 @@ function getBreadcrumb(pathname: string): string {
   if (pathname.startsWith("/compliance")) return "Regulatory Compliance";
   if (pathname.startsWith("/knowledge-base")) return "Internal KB";
   if (pathname.startsWith("/workspace")) return "My Workspace";
+  if (pathname.startsWith("/matters")) return "Matters";
   if (pathname.startsWith("/settings")) return "Settings";
   if (pathname.startsWith("/help")) return "Help & Support";
   if (pathname.startsWith("/search")) return "Search";
   if (pathname.startsWith("/research/history")) return "Deep Research › History";
   if (pathname.startsWith("/research")) return "Deep Research";
   if (pathname.startsWith("/contracts/history")) return "Contract Drafting › History";
+  if (pathname.startsWith("/contracts/clauses")) return "Contract Drafting › Clause Library";
   if (pathname.startsWith("/contracts")) return "Contract Drafting";
   if (pathname.startsWith("/dashboard")) return "Dashboard";
   if (pathname.startsWith("/billing")) return "Billing";
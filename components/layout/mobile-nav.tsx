@@ -9,6 +9,7 @@ import {
   ShieldCheck,
   Database,
   LayoutDashboard,
+  Briefcase,
   Settings,
   HelpCircle,
 } from "lucide-react";
@@ -33,6 +34,7 @@ const primaryNavItems = [
   { title: "Regulatory Compliance", href: "/compliance", icon: ShieldCheck, description: "Compliance tracking" },
   { title: "Internal KB", href: "/knowledge-base", icon: Database, description: "Knowledge base" },
   { title: "My Workspace", href: "/workspace", icon: LayoutDashboard, description: "Your documents & research" },
+  { title: "Matters", href: "/matters", icon: Briefcase, description: "Work grouped by client matter" },
 ];
 
 const secondaryNavItems = [
@@ -4,7 +4,6 @@ import * as React from "react";
 import { useRouter } from "next/navigation";
 import { Search, Command } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { useUIStore } from "@/lib/stores";
 
 interface SearchBarProps {
   className?: string;
@@ -16,24 +15,9 @@ export function SearchBar({
   placeholder = "Search laws, cases, regulations...",
 }: SearchBarProps) {
   const router = useRouter();
-  const { setCommandPaletteOpen } = useUIStore();
   const inputRef = React.useRef<HTMLInputElement>(null);
   const [query, setQuery] = React.useState("");
 
-  // Handle keyboard shortcut
-  React.useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      // Cmd/Ctrl + K to open command palette
-      if ((e.metaKey || e.ctrlKey) && e.key === "k") {
-        e.preventDefault();
-        setCommandPaletteOpen(true);
-      }
-    };
-
-    document.addEventListener("keydown", handleKeyDown);
-    return () => document.removeEventListener("keydown", handleKeyDown);
-  }, [setCommandPaletteOpen]);
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (query.trim()) {
@@ -0,0 +1 @@
+export { LegalAreaChips } from "./legal-area-chips";
@@ -0,0 +1,66 @@
+"use client";
+
+import { cn } from "@/lib/utils";
+import { LEGAL_AREA_LABELS, LEGAL_AREA_ORDER } from "@/lib/utils/legal-areas";
+import type { LegalArea } from "@/lib/api/types";
+
+interface LegalAreaChipsProps {
+  value: LegalArea | "";
+  onChange: (area: LegalArea | "") => void;
+  /** Documents per area. When given, areas with no documents are hidden. */
+  counts?: Partial<Record<LegalArea, number>>;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+/**
+ * Single-select subject-matter filter. Clicking the active chip clears it.
+ */
+export function LegalAreaChips({
+  value,
+  onChange,
+  counts,
+  size = "md",
+  className,
+}: LegalAreaChipsProps) {
+  // Keep the selected area visible even if its count drops to zero
+  const areas = counts
+    ? LEGAL_AREA_ORDER.filter((area) => (counts[area] ?? 0) > 0 || area === value)
+    : LEGAL_AREA_ORDER;
+
+  const chipClass = (active: boolean) =>
+    cn(
+      "ll-transition rounded-full font-bold",
+      size === "sm" ? "px-3 py-1 text-[11px]" : "px-4 py-1.5 text-xs",
+      active
+        ? "bg-primary text-primary-foreground"
+        : "bg-surface-container-high text-foreground hover:bg-surface-container-highest"
+    );
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)} role="group" aria-label="Legal area">
+      <button
+        type="button"
+        onClick={() => onChange("")}
+        className={chipClass(!value)}
+        aria-pressed={!value}
+      >
+        All Areas
+      </button>
+      {areas.map((area) => (
+        <button
+          key={area}
+          type="button"
+          onClick={() => onChange(value === area ? "" : area)}
+          className={chipClass(value === area)}
+          aria-pressed={value === area}
+        >
+          {LEGAL_AREA_LABELS[area]}
+          {counts?.[area] !== undefined && (
+            <span className="ml-1.5 font-medium opacity-70">{counts[area]}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+}
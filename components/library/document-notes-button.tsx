@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { NotebookPen } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import { useLibraryStore } from "@/lib/stores";
+import { useOnlineStatus } from "@/lib/hooks";
+
+interface DocumentNotesButtonProps {
+  documentId: string;
+  size?: "default" | "sm" | "lg" | "icon";
+  className?: string;
+}
+
+/**
+ * Personal notes on a saved library document. Works offline: edits are
+ * queued and sent when the connection returns. Renders nothing for
+ * documents that aren't saved.
+ */
+export function DocumentNotesButton({ documentId, size = "sm", className }: DocumentNotesButtonProps) {
+  const savedDocument = useLibraryStore((s) => s.savedDocuments.find((d) => d.id === documentId));
+  const updateDocumentNotes = useLibraryStore((s) => s.updateDocumentNotes);
+  const { isOnline } = useOnlineStatus();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  if (!savedDocument) return null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) setDraft(savedDocument.notes ?? "");
+    setOpen(next);
+  };
+
+  const handleSave = () => {
+    updateDocumentNotes(documentId, draft);
+    setOpen(false);
+    toast.success(isOnline ? "Notes saved" : "Notes saved — they'll sync when you're back online");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size={size} className={className}>
+          <NotebookPen className="mr-2 h-4 w-4" />
+          {savedDocument.notes ? "Notes" : "Add notes"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <p className="text-sm font-medium">Your notes</p>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Notes on this document, visible only to you"
+          rows={5}
+          aria-label="Notes"
+        />
+        <div className="flex justify-end gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave}>
+            Save notes
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
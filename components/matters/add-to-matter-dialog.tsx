@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Briefcase, Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  addMatterItem,
+  createMatter,
+  listMatters,
+  removeMatterItem,
+  type Matter,
+  type MatterItemType,
+} from "@/lib/api/matters";
+import { MATTER_ITEM_LABELS } from "@/lib/utils/matters";
+import { surfaceClasses } from "@/lib/design-system";
+import { cn } from "@/lib/utils";
+
+interface AddToMatterDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  itemType: MatterItemType;
+  itemId: string;
+  itemTitle?: string;
+  /** Called after the item was filed in or removed from a matter. */
+  onChange?: () => void;
+}
+
+/**
+ * Files one item in any number of open matters. Matters the user can
+ * only view are listed but cannot be changed.
+ */
+export function AddToMatterDialog({
+  open,
+  onOpenChange,
+  itemType,
+  itemId,
+  itemTitle,
+  onChange,
+}: AddToMatterDialogProps) {
+  const [matters, setMatters] = useState<Matter[]>([]);
+  const [filedIn, setFiledIn] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [all, containing] = await Promise.all([
+          listMatters({ status: "open" }),
+          listMatters({ containing: { item_type: itemType, item_id: itemId } }),
+        ]);
+        if (cancelled) return;
+        setMatters(all);
+        setFiledIn(new Set(containing.map((m) => m.id)));
+      } catch (error) {
+        if (!cancelled) toast.error(getUserFriendlyError(error, "Failed to load matters"));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    void load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, itemType, itemId]);
+
+  const toggle = async (matter: Matter, file: boolean) => {
+    setPending(matter.id);
+    try {
+      if (file) {
+        await addMatterItem(matter.id, { item_type: itemType, item_id: itemId });
+      } else {
+        await removeMatterItem(matter.id, itemType, itemId);
+      }
+      setFiledIn((current) => {
+        const next = new Set(current);
+        if (file) next.add(matter.id);
+        else next.delete(matter.id);
+        return next;
+      });
+      toast.success(file ? `Filed in ${matter.name}` : `Removed from ${matter.name}`);
+      onChange?.();
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, file ? "Failed to add to matter" : "Failed to remove from matter"));
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    setPending("new");
+    try {
+      const matter = await createMatter({ name });
+      setMatters((current) => [matter, ...current]);
+      setNewName("");
+      await toggle(matter, true);
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to create matter"));
+      setPending(null);
+    }
+  };
+
+  const label = MATTER_ITEM_LABELS[itemType].singular.toLowerCase();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            Add to matter
+          </DialogTitle>
+          <DialogDescription>
+            {itemTitle ? `File "${itemTitle}" under one or more matters.` : `File this ${label} under one or more matters.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {matters.length === 0 ? (
+              <p className="py-2 text-sm text-muted-foreground">No open matters yet. Create one below.</p>
+            ) : (
+              <ul className="max-h-72 divide-y overflow-y-auto rounded-lg border">
+                {matters.map((matter) => {
+                  const readOnly = matter.my_role === "viewer";
+                  return (
+                    <li key={matter.id}>
+                      <label
+                        className={cn(
+                          "flex items-center gap-3 px-3 py-2.5",
+                          readOnly ? "cursor-not-allowed opacity-60" : "cursor-pointer"
+                        )}
+                      >
+                        <Checkbox
+                          checked={filedIn.has(matter.id)}
+                          disabled={readOnly || pending !== null}
+                          onCheckedChange={(checked) => toggle(matter, checked === true)}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <p className="truncate text-sm font-medium">{matter.name}</p>
+                          {(matter.client_name || matter.reference) && (
+                            <p className="truncate text-xs text-muted-foreground">
+                              {[matter.client_name, matter.reference].filter(Boolean).join(" · ")}
+                            </p>
+                          )}
+                        </div>
+                        {pending === matter.id && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+                      </label>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="New matter name"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    void handleCreate();
+                  }
+                }}
+                maxLength={200}
+              />
+              <Button onClick={handleCreate} disabled={!newName.trim() || pending !== null} title="Create and add">
+                {pending === "new" ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </div>
+
+            <Link href="/matters" className={cn("inline-block text-sm", surfaceClasses.textLink)}>
+              Manage matters
+            </Link>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,5 @@
+export { AddToMatterDialog } from "./add-to-matter-dialog";
+export { MatterFilter } from "./matter-filter";
+export { MatterFormDialog } from "./matter-form-dialog";
+export { MatterMembersDialog } from "./matter-members-dialog";
+export { MatterTimeline } from "./matter-timeline";
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Briefcase } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { listMatters, type Matter } from "@/lib/api/matters";
+import { cn } from "@/lib/utils";
+
+const ALL_MATTERS = "__all__";
+
+interface MatterFilterProps {
+  value: string | null;
+  onChange: (matterId: string | null) => void;
+  className?: string;
+}
+
+/**
+ * Narrows a list view to the items filed in one matter. Renders nothing
+ * when the user has no matters (including users outside an organization).
+ */
+export function MatterFilter({ value, onChange, className }: MatterFilterProps) {
+  const [matters, setMatters] = useState<Matter[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listMatters()
+      .then((data) => {
+        if (!cancelled) setMatters(data);
+      })
+      .catch(() => {
+        if (!cancelled) setMatters([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (!matters || matters.length === 0) return null;
+
+  const open = matters.filter((m) => m.status === "open");
+  // Keep a closed matter selectable once it is the active filter.
+  const options = value && !open.some((m) => m.id === value)
+    ? [...open, ...matters.filter((m) => m.id === value)]
+    : open;
+
+  return (
+    <Select
+      value={value ?? ALL_MATTERS}
+      onValueChange={(next) => onChange(next === ALL_MATTERS ? null : next)}
+    >
+      <SelectTrigger className={cn("w-[200px]", className)} aria-label="Filter by matter">
+        <Briefcase className="h-4 w-4 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_MATTERS}>All matters</SelectItem>
+        {options.map((matter) => (
+          <SelectItem key={matter.id} value={matter.id}>
+            {matter.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
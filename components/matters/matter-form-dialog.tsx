@@ -0,0 +1,141 @@
+"use client";
+
+import { useState } from "react";
+import { Briefcase, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import { createMatter, updateMatter, type Matter } from "@/lib/api/matters";
+
+interface MatterFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The matter to edit; omit to create a new one. */
+  matter?: Matter | null;
+  onSaved: (matter: Matter) => void;
+}
+
+export function MatterFormDialog({ open, onOpenChange, matter, onSaved }: MatterFormDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <MatterForm key={matter?.id ?? "new"} onOpenChange={onOpenChange} matter={matter} onSaved={onSaved} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function MatterForm({ onOpenChange, matter, onSaved }: Omit<MatterFormDialogProps, "open">) {
+  const [name, setName] = useState(matter?.name ?? "");
+  const [clientName, setClientName] = useState(matter?.client_name ?? "");
+  const [reference, setReference] = useState(matter?.reference ?? "");
+  const [description, setDescription] = useState(matter?.description ?? "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    const data = {
+      name: name.trim(),
+      client_name: clientName.trim() || null,
+      reference: reference.trim() || null,
+      description: description.trim() || null,
+    };
+    try {
+      const saved = matter ? await updateMatter(matter.id, data) : await createMatter(data);
+      toast.success(matter ? "Matter updated" : "Matter created");
+      onSaved(saved);
+      onOpenChange(false);
+    } catch (error) {
+      if (error instanceof APIError && error.status === 403 && !matter) {
+        toast.error("Matters are available to organization members. Join or create an organization first.");
+      } else {
+        toast.error(getUserFriendlyError(error, matter ? "Failed to update matter" : "Failed to create matter"));
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <Briefcase className="h-5 w-5" />
+          {matter ? "Edit matter" : "New matter"}
+        </DialogTitle>
+        <DialogDescription>
+          A matter groups the conversations, research, contracts, documents and collections for one client
+          engagement.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2">
+        <div className="space-y-2">
+          <Label htmlFor="matter-name">Name</Label>
+          <Input
+            id="matter-name"
+            placeholder="e.g., Acme Ltd – land acquisition"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={200}
+            autoFocus
+          />
+        </div>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="matter-client">Client</Label>
+            <Input
+              id="matter-client"
+              placeholder="Optional"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="matter-reference">File reference</Label>
+            <Input
+              id="matter-reference"
+              placeholder="Optional"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="matter-description">Description</Label>
+          <Textarea
+            id="matter-description"
+            placeholder="Optional"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+          />
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!name.trim() || saving}>
+          {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          {matter ? "Save" : "Create matter"}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2, Trash2, UserPlus, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { APIError, getUserFriendlyError } from "@/lib/api/client";
+import {
+  addMatterMember,
+  listMatterMembers,
+  removeMatterMember,
+  updateMatterMember,
+  type Matter,
+  type MatterMember,
+  type MatterRole,
+} from "@/lib/api/matters";
+import { useOrganizationMembers } from "@/hooks/use-organization-members";
+
+type MemberRole = Exclude<MatterRole, "owner">;
+
+const ROLE_LABELS: Record<MatterRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+interface MatterMembersDialogProps {
+  matter: Matter;
+  currentUserId?: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called after membership changes so the page can refresh counts. */
+  onChange?: (matter: Matter) => void;
+  /** Called after the current user leaves the matter. */
+  onLeft?: () => void;
+}
+
+/**
+ * Access control for a matter. The owner picks which organization
+ * members can edit (file items, update details) or only view; everyone
+ * else sees who has access and can leave.
+ */
+export function MatterMembersDialog({
+  matter,
+  currentUserId,
+  open,
+  onOpenChange,
+  onChange,
+  onLeft,
+}: MatterMembersDialogProps) {
+  const isOwner = matter.my_role === "owner";
+  const { members: orgMembers } = useOrganizationMembers(open && isOwner);
+  const [members, setMembers] = useState<MatterMember[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [newMemberId, setNewMemberId] = useState("");
+  const [newMemberRole, setNewMemberRole] = useState<MemberRole>("viewer");
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setMembers(await listMatterMembers(matter.id));
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to load members"));
+    } finally {
+      setLoading(false);
+    }
+  }, [matter.id]);
+
+  useEffect(() => {
+    if (open) {
+      void load();
+    }
+  }, [open, load]);
+
+  const candidates = useMemo(() => {
+    const existing = new Set(members.map((m) => m.user_id));
+    return orgMembers.filter((m) => !existing.has(m.user_id));
+  }, [members, orgMembers]);
+
+  const handleAdd = async () => {
+    if (!newMemberId) return;
+    setBusy(true);
+    try {
+      const member = await addMatterMember(matter.id, { user_id: newMemberId, role: newMemberRole });
+      setMembers((prev) => [...prev, member]);
+      setNewMemberId("");
+      onChange?.({ ...matter, member_count: matter.member_count + 1 });
+    } catch (error) {
+      if (error instanceof APIError && error.status === 409) {
+        toast.error("That person already has access.");
+      } else {
+        toast.error(getUserFriendlyError(error, "Failed to add member"));
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRoleChange = async (userId: string, role: MemberRole) => {
+    const previous = members;
+    setMembers((prev) => prev.map((m) => (m.user_id === userId ? { ...m, role } : m)));
+    try {
+      await updateMatterMember(matter.id, userId, role);
+    } catch (error) {
+      setMembers(previous);
+      toast.error(getUserFriendlyError(error, "Failed to change role"));
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    const leaving = userId === currentUserId;
+    setBusy(true);
+    try {
+      await removeMatterMember(matter.id, userId);
+      if (leaving) {
+        toast.success("You left the matter");
+        onOpenChange(false);
+        onLeft?.();
+        return;
+      }
+      setMembers((prev) => prev.filter((m) => m.user_id !== userId));
+      onChange?.({ ...matter, member_count: Math.max(matter.member_count - 1, 0) });
+    } catch (error) {
+      toast.error(getUserFriendlyError(error, "Failed to remove member"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Matter access
+          </DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Choose who in your organization can work on this matter. Editors can file items and update details; viewers can read."
+              : "People in your organization who can see this matter."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {isOwner && (
+            <div className="flex gap-2">
+              <Select value={newMemberId} onValueChange={setNewMemberId}>
+                <SelectTrigger className="flex-1" aria-label="Organization member">
+                  <SelectValue
+                    placeholder={candidates.length === 0 ? "Everyone already has access" : "Add a member"}
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {candidates.map((m) => (
+                    <SelectItem key={m.user_id} value={m.user_id}>
+                      {m.full_name || m.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={newMemberRole} onValueChange={(value) => setNewMemberRole(value as MemberRole)}>
+                <SelectTrigger className="w-[110px]" aria-label="Role">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="viewer">Viewer</SelectItem>
+                  <SelectItem value="editor">Editor</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAdd} disabled={!newMemberId || busy} size="icon" title="Add member">
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <ul className="divide-y rounded-lg border">
+              {members.map((member) => {
+                const isSelf = member.user_id === currentUserId;
+                return (
+                  <li key={member.user_id} className="flex items-center gap-3 px-3 py-2.5">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {member.full_name || member.email}
+                        {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                      </p>
+                      <p className="truncate text-xs text-muted-foreground">{member.email}</p>
+                    </div>
+                    {isOwner && member.role !== "owner" ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(value) => handleRoleChange(member.user_id, value as MemberRole)}
+                      >
+                        <SelectTrigger
+                          className="h-8 w-[100px] text-xs"
+                          aria-label={`Role for ${member.full_name || member.email}`}
+                        >
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="viewer">Viewer</SelectItem>
+                          <SelectItem value="editor">Editor</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant={member.role === "owner" ? "secondary" : "outline"}>
+                        {ROLE_LABELS[member.role]}
+                      </Badge>
+                    )}
+                    {member.role !== "owner" && (isOwner || isSelf) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleRemove(member.user_id)}
+                        disabled={busy}
+                        title={isSelf ? "Leave matter" : "Remove member"}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  Activity,
+  FilePlus,
+  FileMinus,
+  Loader2,
+  Pencil,
+  Briefcase,
+  UserPlus,
+  UserMinus,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getUserFriendlyError } from "@/lib/api/client";
+import {
+  getMatterTimeline,
+  type MatterTimelineEvent,
+  type MatterTimelineEventType,
+} from "@/lib/api/matters";
+import { groupTimelineByDay, matterItemHref } from "@/lib/utils/matters";
+import { surfaceClasses } from "@/lib/design-system";
+
+const EVENT_ICONS: Record<MatterTimelineEventType, LucideIcon> = {
+  matter_created: Briefcase,
+  matter_updated: Pencil,
+  status_changed: Briefcase,
+  item_added: FilePlus,
+  item_removed: FileMinus,
+  item_activity: Activity,
+  member_added: UserPlus,
+  member_removed: UserMinus,
+};
+
+interface MatterTimelineProps {
+  matterId: string;
+  /** Bump to reload from the newest event, e.g. after filing an item. */
+  refreshKey?: number;
+}
+
+/** Activity on a matter and its items, grouped by day with "Load older" paging. */
+export function MatterTimeline({ matterId, refreshKey = 0 }: MatterTimelineProps) {
+  const [events, setEvents] = useState<MatterTimelineEvent[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMatterTimeline(matterId)
+      .then((page) => {
+        if (cancelled) return;
+        setEvents(page.events);
+        setCursor(page.next_cursor);
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(getUserFriendlyError(err, "Failed to load activity"));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [matterId, refreshKey]);
+
+  const loadOlder = useCallback(async () => {
+    if (!cursor) return;
+    setLoadingMore(true);
+    try {
+      const page = await getMatterTimeline(matterId, { before: cursor });
+      setEvents((current) => [...current, ...page.events]);
+      setCursor(page.next_cursor);
+    } catch (err) {
+      setError(getUserFriendlyError(err, "Failed to load older activity"));
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [matterId, cursor]);
+
+  const days = useMemo(() => groupTimelineByDay(events), [events]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        {error ?? "No activity yet."}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {days.map((day) => (
+        <section key={day.label}>
+          <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">{day.label}</h3>
+          <ol className="space-y-3 border-l pl-4">
+            {day.events.map((event) => {
+              const Icon = EVENT_ICONS[event.event_type] ?? Activity;
+              const href =
+                event.item_type && event.item_id && event.event_type !== "item_removed"
+                  ? matterItemHref(event.item_type, event.item_id)
+                  : null;
+              return (
+                <li key={event.id} className="relative">
+                  <span className="absolute -left-[25px] top-0.5 flex h-4 w-4 items-center justify-center rounded-full bg-background">
+                    <Icon className="h-3.5 w-3.5 text-muted-foreground" />
+                  </span>
+                  <p className="text-sm">
+                    {event.summary}
+                    {event.item_title && (
+                      <>
+                        {": "}
+                        {href ? (
+                          <Link href={href} className={surfaceClasses.textLink}>
+                            {event.item_title}
+                          </Link>
+                        ) : (
+                          <span className="font-medium">{event.item_title}</span>
+                        )}
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(event.occurred_at), "HH:mm")}
+                    {event.actor_name && ` · ${event.actor_name}`}
+                  </p>
+                </li>
+              );
+            })}
+          </ol>
+        </section>
+      ))}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {cursor && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={loadOlder}
+          disabled={loadingMore}
+          className="w-full"
+        >
+          {loadingMore && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Load older activity
+        </Button>
+      )}
+    </div>
+  );
+}
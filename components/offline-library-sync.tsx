@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect } from "react";
+import { getDocument, getDocumentPdfUrl } from "@/lib/api";
+import { useOnlineStatus } from "@/lib/hooks/use-online-status";
+import { useLibraryStore } from "@/lib/stores/library-store";
+import {
+  deleteOfflineDocument,
+  listOfflineDocuments,
+  putOfflineDocument,
+} from "@/lib/offline/document-cache";
+import { isOfflineStorageSupported } from "@/lib/offline/db";
+import { flushOutbox } from "@/lib/offline/outbox";
+import { warmOfflinePage } from "@/lib/offline/page-cache";
+import { planOfflineLibrarySync } from "@/lib/utils/offline-library";
+
+async function fetchPdf(id: string): Promise<Blob | null> {
+  try {
+    const response = await fetch(getDocumentPdfUrl(id));
+    if (!response.ok) return null;
+    return await response.blob();
+  } catch {
+    return null;
+  }
+}
+
+async function syncOfflineLibrary(savedIds: string[], isCancelled: () => boolean): Promise<void> {
+  const plan = planOfflineLibrarySync(savedIds, await listOfflineDocuments());
+
+  for (const id of plan.remove) {
+    await deleteOfflineDocument(id);
+  }
+
+  // One at a time: PDFs can be large and this runs in the background
+  for (const id of plan.download) {
+    if (isCancelled()) return;
+    try {
+      const document = await getDocument(id);
+      const pdf = await fetchPdf(id);
+      await putOfflineDocument({
+        id,
+        document,
+        pdf,
+        cachedAt: new Date().toISOString(),
+        sourceUpdatedAt: document.updated_at ?? null,
+      });
+      await warmOfflinePage(id);
+    } catch (error) {
+      console.warn(`Could not save document ${id} for offline reading:`, error);
+    }
+  }
+}
+
+/**
+ * Keeps saved library documents readable offline: registers the service
+ * worker, downloads saved documents (structure + PDF) into IndexedDB,
+ * drops copies that are no longer saved, and sends queued notes and
+ * highlights whenever the connection returns. Renders nothing.
+ */
+export function OfflineLibrarySync() {
+  const { isOnline, isHydrated } = useOnlineStatus();
+  const savedDocuments = useLibraryStore((state) => state.savedDocuments);
+  const savedKey = savedDocuments.map((doc) => doc.id).join(",");
+
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.warn("Service worker registration failed:", error);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isHydrated || !isOnline || !isOfflineStorageSupported()) return;
+    let cancelled = false;
+
+    void flushOutbox().catch(() => {});
+    void syncOfflineLibrary(savedKey ? savedKey.split(",") : [], () => cancelled).catch((error) => {
+      console.warn("Offline library sync failed:", error);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isHydrated, isOnline, savedKey]);
+
+  return null;
+}
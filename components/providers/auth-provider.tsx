@@ -10,6 +10,7 @@ import {
   type ReactNode,
 } from "react";
 import { useRouter, usePathname } from "next/navigation";
+import { useQueryClient } from "@tanstack/react-query";
 import {
   login as apiLogin,
   register as apiRegister,
@@ -22,6 +23,8 @@ import {
   type RegisterRequest,
 } from "@/lib/api/auth";
 import { onUnauthorized } from "@/lib/api/client";
+import { clearOutbox } from "@/lib/offline/outbox";
+import { clearOfflinePages } from "@/lib/offline/page-cache";
 import { useChatStore } from "@/lib/stores/chat-store";
 import { useLibraryStore } from "@/lib/stores/library-store";
 import { useResearchSessionsStore } from "@/lib/stores/research-store";
@@ -50,6 +53,7 @@ interface AuthProviderProps {
 
 export function AuthProvider({ children }: AuthProviderProps) {
   const router = useRouter();
+  const queryClient = useQueryClient();
 
   const [state, setState] = useState<AuthState>({
     user: null,
@@ -236,6 +240,13 @@ export function AuthProvider({ children }: AuthProviderProps) {
     useChatStore.getState().setUserId(null);
     useLibraryStore.getState().setUserId(null);
     useResearchSessionsStore.getState().setUserId(null);
+    // Unsent offline edits must not be replayed under the next account
+    void clearOutbox().catch(() => {});
+    void clearOfflinePages().catch(() => {});
+    // Private calendar feed links carry a secret token
+    queryClient.removeQueries({ queryKey: ["compliance-calendar-feed"] });
+    // Highlights and notes are private to the account that made them
+    queryClient.removeQueries({ queryKey: ["annotations"] });
 
     // Then call API (fire and forget)
     try {
@@ -246,7 +257,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
 
     // Redirect to landing page directly (avoid flash through root redirect)
     router.push("/landing");
-  }, [router]);
+  }, [router, queryClient]);
 
   const value = useMemo(
     () => ({
@@ -7,6 +7,7 @@ import { AuthProvider } from "./auth-provider";
 import { AuthModalProvider } from "@/components/auth/auth-modal-provider";
 import { CommandPalette } from "@/components/command-palette";
 import { OfflineBanner } from "@/components/offline-banner";
+import { OfflineLibrarySync } from "@/components/offline-library-sync";
 
 interface ProvidersProps {
   children: React.ReactNode;
@@ -27,6 +28,7 @@ export function Providers({ children }: ProvidersProps) {
               {children}
               <CommandPalette />
               <OfflineBanner />
+              <OfflineLibrarySync />
             </AuthModalProvider>
           </EntitlementsProvider>
         </AuthProvider>
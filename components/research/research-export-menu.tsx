@@ -0,0 +1,83 @@
+"use client";
+
+import { ChevronDown, Code2, Download, FileText, FileType2, Hash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getResearchDownloadUrl, type ResearchExportFormat } from "@/lib/api/research";
+
+const EXPORT_OPTIONS: Array<{
+  format: ResearchExportFormat;
+  label: string;
+  description: string;
+  icon: typeof FileText;
+}> = [
+  { format: "docx", label: "Word (.docx)", description: "Editable document", icon: FileText },
+  { format: "pdf", label: "PDF", description: "Paginated memo for filing", icon: FileType2 },
+  { format: "md", label: "Markdown (.md)", description: "Plain text for your DMS", icon: Hash },
+  { format: "html", label: "HTML", description: "Standalone web page", icon: Code2 },
+];
+
+interface ResearchExportMenuProps {
+  sessionId: string;
+  /** Autosave in flight: the export would miss the latest edits. */
+  disabled?: boolean;
+  className?: string;
+  /** Icon-only trigger for dense rows such as the history list. */
+  compact?: boolean;
+}
+
+/**
+ * Download menu for a completed research report. Every format is
+ * rendered server-side from the saved report, endnotes and verification
+ * summary included.
+ */
+export function ResearchExportMenu({
+  sessionId,
+  disabled,
+  className,
+  compact,
+}: ResearchExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild disabled={disabled}>
+        <Button
+          variant={compact ? "ghost" : "outline"}
+          size={compact ? "icon" : "sm"}
+          className={className}
+          aria-label="Export report"
+          title={disabled ? "Saving your edits…" : undefined}
+        >
+          <Download className={compact ? "h-4 w-4" : "mr-2 h-4 w-4"} />
+          {!compact && (
+            <>
+              Export
+              <ChevronDown className="ml-1 h-3.5 w-3.5" />
+            </>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Export report as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_OPTIONS.map(({ format, label, description, icon: Icon }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={getResearchDownloadUrl(sessionId, format)} download>
+              <Icon className="mr-2 h-4 w-4" />
+              <span className="flex flex-col">
+                <span>{label}</span>
+                <span className="text-xs text-muted-foreground">{description}</span>
+              </span>
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
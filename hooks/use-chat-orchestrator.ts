@@ -114,6 +114,8 @@ export function useChatOrchestrator(options?: UseChatOrchestratorOptions) {
         unstarConversation,
         archiveConversation,
         unarchiveConversation,
+        moveConversationToFolder,
+        setConversationTags,
         addMessage,
         updateLastMessage,
         editMessageAndTruncate,
@@ -1159,6 +1161,14 @@ export function useChatOrchestrator(options?: UseChatOrchestratorOptions) {
         unarchiveConversation(id);
     }, [unarchiveConversation]);
 
+    const handleMoveConversationToFolder = useCallback((id: string, folder: string | null) => {
+        moveConversationToFolder(id, folder);
+    }, [moveConversationToFolder]);
+
+    const handleSetConversationTags = useCallback((id: string, tags: string[]) => {
+        setConversationTags(id, tags);
+    }, [setConversationTags]);
+
     const handleSelectQuestion = (question: string) => {
         setInput(question);
         inputRef.current?.focus();
@@ -1225,6 +1235,8 @@ export function useChatOrchestrator(options?: UseChatOrchestratorOptions) {
             handleUnstarConversation,
             handleArchiveConversation,
             handleUnarchiveConversation,
+            handleMoveConversationToFolder,
+            handleSetConversationTags,
             handleSelectQuestion,
             setMobileHistoryOpen,
             setShortcutsDialogOpen,
@@ -0,0 +1,57 @@
+import { useEffect, useState } from "react";
+import { searchConversations, type ConversationSearchHit } from "@/lib/api/chat";
+
+const MIN_QUERY_LENGTH = 2;
+const NO_HITS = new Map<string, ConversationSearchHit>();
+
+interface ConversationSearchState {
+  /** Server hits keyed by conversation id; empty until results arrive. */
+  hits: Map<string, ConversationSearchHit>;
+  isSearching: boolean;
+  /** True when the server search failed and only titles/loaded messages were matched. */
+  failed: boolean;
+}
+
+/**
+ * Server-side full-text search over the user's conversations. Pass an
+ * already-debounced query; results are tagged with the query they
+ * answer so a slow response never shows under newer text.
+ */
+export function useConversationSearch(query: string): ConversationSearchState {
+  const trimmed = query.trim();
+  const [result, setResult] = useState<{
+    query: string;
+    hits: Map<string, ConversationSearchHit>;
+    failed: boolean;
+  }>({ query: "", hits: NO_HITS, failed: false });
+
+  useEffect(() => {
+    if (trimmed.length < MIN_QUERY_LENGTH) return;
+    let cancelled = false;
+    searchConversations(trimmed)
+      .then((response) => {
+        if (cancelled) return;
+        setResult({
+          query: trimmed,
+          hits: new Map(response.results.map((hit) => [hit.conversation_id, hit])),
+          failed: false,
+        });
+      })
+      .catch(() => {
+        if (!cancelled) setResult({ query: trimmed, hits: NO_HITS, failed: true });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [trimmed]);
+
+  if (trimmed.length < MIN_QUERY_LENGTH) {
+    return { hits: NO_HITS, isSearching: false, failed: false };
+  }
+  const isCurrent = result.query === trimmed;
+  return {
+    hits: isCurrent ? result.hits : NO_HITS,
+    isSearching: !isCurrent,
+    failed: isCurrent && result.failed,
+  };
+}
@@ -0,0 +1,103 @@
+"use client";
+
+import { useCallback, useMemo } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  deleteAnnotation,
+  listAnnotations,
+  saveAnnotation,
+  type Annotation,
+  type SaveAnnotationRequest,
+} from "@/lib/api/annotations";
+import { registerOutboxHandler, submitOfflineMutation } from "@/lib/offline/outbox";
+import { useAuth } from "@/components/providers";
+
+const SAVE_MUTATION = "annotation_save";
+const DELETE_MUTATION = "annotation_delete";
+
+// Saves are idempotent upserts keyed by the client-generated id, so a
+// replayed save or a delete of an already-deleted annotation is harmless.
+registerOutboxHandler(SAVE_MUTATION, async (payload) => {
+  await saveAnnotation(payload as SaveAnnotationRequest);
+});
+registerOutboxHandler(DELETE_MUTATION, async (payload) => {
+  await deleteAnnotation((payload as { id: string }).id);
+});
+
+export function newAnnotationId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * The current user's annotations on a document. Changes apply to the
+ * cached list immediately and are sent through the offline outbox, so
+ * highlighting keeps working without a connection.
+ */
+export function useDocumentAnnotations(documentId: string, enabled = true) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const queryKey = useMemo(() => ["annotations", user?.id, documentId], [user?.id, documentId]);
+
+  const query = useQuery({
+    queryKey,
+    queryFn: () => listAnnotations(documentId),
+    enabled: enabled && !!user,
+    staleTime: 60 * 1000,
+  });
+
+  const save = useCallback(
+    (annotation: SaveAnnotationRequest) => {
+      const now = new Date().toISOString();
+      const previous = queryClient.getQueryData<Annotation[]>(queryKey)?.find((a) => a.id === annotation.id);
+      queryClient.setQueryData<Annotation[]>(queryKey, (current = []) => {
+        const existing = current.find((a) => a.id === annotation.id);
+        const next: Annotation = {
+          ...annotation,
+          created_at: existing?.created_at ?? now,
+          updated_at: now,
+        };
+        return existing
+          ? current.map((a) => (a.id === annotation.id ? next : a))
+          : [...current, next];
+      });
+      submitOfflineMutation(SAVE_MUTATION, annotation.id, annotation).catch(() => {
+        queryClient.setQueryData<Annotation[]>(queryKey, (current = []) =>
+          previous
+            ? current.map((a) => (a.id === annotation.id ? previous : a))
+            : current.filter((a) => a.id !== annotation.id)
+        );
+        toast.error("Couldn't save your highlight. Please try again.");
+      });
+    },
+    [queryClient, queryKey]
+  );
+
+  const remove = useCallback(
+    (annotationId: string) => {
+      const removed = queryClient.getQueryData<Annotation[]>(queryKey)?.find((a) => a.id === annotationId);
+      queryClient.setQueryData<Annotation[]>(queryKey, (current = []) =>
+        current.filter((a) => a.id !== annotationId)
+      );
+      submitOfflineMutation(DELETE_MUTATION, annotationId, { id: annotationId }).catch(() => {
+        if (removed) {
+          queryClient.setQueryData<Annotation[]>(queryKey, (current = []) =>
+            current.some((a) => a.id === annotationId) ? current : [...current, removed]
+          );
+        }
+        toast.error("Couldn't delete the highlight. Please try again.");
+      });
+    },
+    [queryClient, queryKey]
+  );
+
+  return {
+    annotations: query.data ?? [],
+    isLoading: query.isLoading,
+    save,
+    remove,
+  };
+}
@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { listMatterItems, type MatterItemType } from "@/lib/api/matters";
+
+const NO_ITEMS = new Set<string>();
+
+/**
+ * State for the matter filter on a list view. While a matter is
+ * selected, `matterItemIds` holds the ids of that matter's items of
+ * `itemType` (empty while they load); with no matter selected it is
+ * null and the list shows everything.
+ */
+export function useMatterFilter(itemType: MatterItemType) {
+  const [matterId, setMatterId] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [loaded, setLoaded] = useState<{ key: string; ids: Set<string> } | null>(null);
+  const loadKey = matterId ? `${matterId}:${reloadKey}` : null;
+
+  useEffect(() => {
+    if (!matterId || !loadKey) return;
+    let cancelled = false;
+    listMatterItems(matterId, itemType)
+      .then((items) => {
+        if (!cancelled) setLoaded({ key: loadKey, ids: new Set(items.map((item) => item.item_id)) });
+      })
+      .catch(() => {
+        if (!cancelled) setLoaded({ key: loadKey, ids: NO_ITEMS });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [matterId, itemType, loadKey]);
+
+  /** Re-fetch after items were filed in or removed from the matter. */
+  const refresh = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  const isCurrent = loadKey !== null && loaded?.key === loadKey;
+  return {
+    matterId,
+    setMatterId,
+    matterItemIds: loadKey ? (isCurrent ? loaded.ids : NO_ITEMS) : null,
+    isLoading: loadKey !== null && !isCurrent,
+    refresh,
+  };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getOfflineDocument, type OfflineDocument } from "@/lib/offline/document-cache";
+
+interface OfflineDocumentResult {
+  id: string;
+  entry: OfflineDocument | null;
+}
+
+export interface UseOfflineDocument {
+  /** The cached copy, or null if this document isn't saved offline. */
+  offline: OfflineDocument | null;
+  /** Object URL for the cached PDF; revoked on unmount. */
+  offlinePdfUrl: string | null;
+  isLoading: boolean;
+}
+
+/**
+ * Load the offline copy of a saved document from IndexedDB, if one exists.
+ */
+export function useOfflineDocument(id: string): UseOfflineDocument {
+  const [result, setResult] = useState<OfflineDocumentResult | null>(null);
+  const [pdfUrl, setPdfUrl] = useState<{ id: string; url: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getOfflineDocument(id)
+      .catch(() => null)
+      .then((entry) => {
+        if (!cancelled) setResult({ id, entry });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id]);
+
+  const entry = result?.id === id ? result.entry : null;
+  const pdf = entry?.pdf ?? null;
+
+  useEffect(() => {
+    if (!pdf) return;
+    const url = URL.createObjectURL(pdf);
+    // Defer so the URL is set from a callback rather than during the effect body
+    const frame = requestAnimationFrame(() => setPdfUrl({ id, url }));
+    return () => {
+      cancelAnimationFrame(frame);
+      URL.revokeObjectURL(url);
+    };
+  }, [id, pdf]);
+
+  return {
+    offline: entry,
+    offlinePdfUrl: pdf && pdfUrl?.id === id ? pdfUrl.url : null,
+    isLoading: result?.id !== id,
+  };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/components/providers";
+import { listMembers, type OrganizationMember } from "@/lib/api/organizations";
+
+/** Largest page the members endpoint serves. */
+const PAGE_SIZE = 100;
+
+async function listAllMembers(): Promise<OrganizationMember[]> {
+  const members: OrganizationMember[] = [];
+  for (let page = 1; ; page++) {
+    const response = await listMembers(page, PAGE_SIZE);
+    members.push(...response.items);
+    if (response.items.length === 0 || members.length >= response.total) return members;
+  }
+}
+
+/**
+ * Active members of the current organization, for assignee pickers.
+ */
+export function useOrganizationMembers(enabled = true) {
+  const { user } = useAuth();
+  const organizationId =
+    (typeof window === "undefined" ? null : localStorage.getItem("selected_organization_id")) ??
+    user?.default_organization_id ??
+    null;
+
+  const query = useQuery({
+    queryKey: ["organization-members", user?.id, organizationId],
+    queryFn: listAllMembers,
+    enabled: enabled && !!user,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  const members = useMemo(() => (query.data ?? []).filter((member) => member.is_active), [query.data]);
+  return { members, isLoading: query.isLoading };
+}
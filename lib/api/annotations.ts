@@ -0,0 +1,64 @@
+/**
+ * Annotations API
+ *
+ * A user's highlights and margin notes on a document. Each annotation is
+ * anchored to the section it was made in (`akn_eid`) plus character
+ * offsets into that section's text, and keeps the highlighted quote with a
+ * little surrounding context so it can be found again after the document
+ * is re-ingested and the offsets drift. Annotations are private to the
+ * user who made them.
+ */
+
+import { apiGet, apiFetch } from "./client";
+
+export type HighlightColor = "yellow" | "green" | "blue" | "pink" | "purple";
+
+export interface AnnotationAnchor {
+  /** Section element the offsets are relative to; null for text outside any section. */
+  akn_eid: string | null;
+  start_offset: number;
+  end_offset: number;
+  /** The highlighted text at the time it was made. */
+  quote: string;
+  /** Up to 32 characters before and after the quote, used for re-anchoring. */
+  prefix: string;
+  suffix: string;
+}
+
+export interface Annotation extends AnnotationAnchor {
+  id: string;
+  document_id: string;
+  color: HighlightColor;
+  note: string | null;
+  /** Label of the section, e.g. "Section 3(2)", for the sidebar and exports. */
+  section_label: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type SaveAnnotationRequest = Omit<Annotation, "created_at" | "updated_at">;
+
+/**
+ * List the current user's annotations on a document, oldest first
+ */
+export async function listAnnotations(documentId: string): Promise<Annotation[]> {
+  return apiGet<Annotation[]>("/annotations", { document_id: documentId });
+}
+
+/**
+ * Create or replace an annotation. IDs are generated client-side so a
+ * highlight made offline can be replayed without creating duplicates.
+ */
+export async function saveAnnotation(data: SaveAnnotationRequest): Promise<Annotation> {
+  return apiFetch<Annotation>(`/annotations/${data.id}`, {
+    method: "PUT",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Delete an annotation
+ */
+export async function deleteAnnotation(annotationId: string): Promise<void> {
+  await apiFetch<void>(`/annotations/${annotationId}`, { method: "DELETE" });
+}
@@ -0,0 +1,133 @@
+/**
+ * Audit Logs API client
+ *
+ * Typed access to the organization audit trail. Filtering happens
+ * server-side and results are cursor-paginated, so investigations over
+ * long date ranges don't depend on how many pages the browser has loaded.
+ */
+
+import { apiGet, getApiBaseUrl } from "./client";
+
+// Enums
+export type AuditEventType =
+  | "auth.login"
+  | "auth.logout"
+  | "auth.password_change"
+  | "auth.mfa_enable"
+  | "auth.mfa_disable"
+  | "member.invite"
+  | "member.join"
+  | "member.remove"
+  | "member.role_change"
+  | "member.suspend"
+  | "member.reactivate"
+  | "org.settings_update"
+  | "org.billing_update"
+  | "document.view"
+  | "document.download"
+  | "document.search"
+  | "research.create"
+  | "research.delete";
+
+/** Prefix of an AuditEventType (the part before the dot). */
+export type AuditEventCategory = "auth" | "member" | "org" | "document" | "research";
+
+export type AuditLogExportFormat = "csv" | "json";
+
+// Types
+export interface AuditLogEntry {
+  id: string;
+  event_type: AuditEventType;
+  user_id: string;
+  user_email: string;
+  user_name: string;
+  ip_address: string;
+  user_agent: string;
+  target_type?: string;
+  target_id?: string;
+  target_name?: string;
+  metadata?: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  /** Exact event types. Takes precedence over `category` when both are set. */
+  event_types?: AuditEventType[];
+  category?: AuditEventCategory;
+  /** Matches user id, email or display name. */
+  user?: string;
+  /** Matches target id or target name. */
+  target?: string;
+  target_type?: string;
+  /** ISO-8601 lower bound (inclusive). */
+  start_date?: string;
+  /** ISO-8601 upper bound (exclusive). */
+  end_date?: string;
+}
+
+export interface AuditLogPage {
+  items: AuditLogEntry[];
+  /** Opaque cursor for the next page; null when there are no more results. */
+  next_cursor: string | null;
+  /** Total matches for the current filters. */
+  total: number;
+  /** Match counts per category for the current filters, ignoring `category`/`event_types`. */
+  category_counts: Partial<Record<AuditEventCategory, number>>;
+}
+
+function toQueryParams(
+  filters: AuditLogFilters
+): Record<string, string | undefined> {
+  return {
+    event_type: filters.event_types?.length ? filters.event_types.join(",") : undefined,
+    category: filters.category,
+    user: filters.user || undefined,
+    target: filters.target || undefined,
+    target_type: filters.target_type,
+    start_date: filters.start_date,
+    end_date: filters.end_date,
+  };
+}
+
+// API Functions
+
+/**
+ * List audit log entries for the current organization, newest first.
+ * Pass the previous page's `next_cursor` to continue.
+ */
+export async function listAuditLogs(
+  filters: AuditLogFilters = {},
+  cursor?: string | null,
+  limit = 50
+): Promise<AuditLogPage> {
+  return apiGet<AuditLogPage>("/organizations/current/audit-logs", {
+    ...toQueryParams(filters),
+    cursor: cursor || undefined,
+    limit,
+  });
+}
+
+/**
+ * Get a single audit log entry (includes full metadata).
+ */
+export async function getAuditLogEntry(entryId: string): Promise<AuditLogEntry> {
+  return apiGet<AuditLogEntry>(`/organizations/current/audit-logs/${entryId}`);
+}
+
+/**
+ * Get the server-rendered export URL for every entry matching the filters.
+ * The export is streamed by the backend, so it is not capped by the page
+ * size the table uses.
+ */
+export function getAuditLogExportUrl(
+  format: AuditLogExportFormat,
+  filters: AuditLogFilters = {}
+): string {
+  const params = new URLSearchParams({ format });
+  Object.entries(toQueryParams(filters)).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.append(key, value);
+    }
+  });
+  return `${getApiBaseUrl()}/organizations/current/audit-logs/export?${params.toString()}`;
+}
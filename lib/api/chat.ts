@@ -33,6 +33,47 @@ export interface PersistConversationMessageResponse {
   is_new_conversation: boolean;
 }
 
+export interface ConversationUpdate {
+  title?: string;
+  is_starred?: boolean;
+  is_archived?: boolean;
+  /** Null removes the conversation from its folder. */
+  folder?: string | null;
+  tags?: string[];
+}
+
+export interface ConversationUpdateResponse {
+  id: string;
+  title: string;
+  is_starred: boolean;
+  is_archived: boolean;
+  folder?: string | null;
+  tags?: string[];
+}
+
+/** A passage of a matching message, trimmed around the hit. */
+export interface ConversationSearchSnippet {
+  message_id: string;
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface ConversationSearchHit {
+  conversation_id: string;
+  title: string | null;
+  folder: string | null;
+  tags: string[];
+  updated_at: string;
+  snippets: ConversationSearchSnippet[];
+  /** Cited documents whose title or reference matched the query. */
+  matched_documents: Array<{ document_id: string; title: string }>;
+}
+
+export interface ConversationSearchResponse {
+  results: ConversationSearchHit[];
+  total: number;
+}
+
 function sanitizeChatRequest(request: ChatRequest): ChatRequest {
   const cleanMessage = request.message.trim();
   const cleanConversationId = request.conversation_id?.trim() || undefined;
@@ -128,13 +169,28 @@ export async function deleteConversation(
 }
 
 /**
- * Update a conversation's properties (title, starred status, archived status)
+ * Full-text search over the user's message content and cited documents
+ */
+export async function searchConversations(
+  query: string,
+  options: { limit?: number; folder?: string; tag?: string } = {}
+): Promise<ConversationSearchResponse> {
+  return apiGet<ConversationSearchResponse>("/chat/conversations/search", {
+    q: query,
+    limit: options.limit ?? 20,
+    folder: options.folder,
+    tag: options.tag,
+  });
+}
+
+/**
+ * Update a conversation's properties (title, starred, archived, folder, tags)
  */
 export async function updateConversation(
   conversationId: string,
-  updates: { title?: string; is_starred?: boolean; is_archived?: boolean }
-): Promise<{ id: string; title: string; is_starred: boolean; is_archived: boolean }> {
-  return apiFetch<{ id: string; title: string; is_starred: boolean; is_archived: boolean }>(
+  updates: ConversationUpdate
+): Promise<ConversationUpdateResponse> {
+  return apiFetch<ConversationUpdateResponse>(
     `/chat/conversations/${conversationId}`,
     {
       method: "PATCH",
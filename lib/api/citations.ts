@@ -2,10 +2,26 @@
  * Citations API
  *
  * Functions for fetching citation network data including
- * top-cited (most authoritative) documents.
+ * top-cited (most authoritative) documents and the per-document
+ * citator (who cites a document, and what it cites).
  */
 
 import { apiGet } from "./client";
+import type { DocumentType } from "./types";
+
+/**
+ * How a citing judgment treated the authority, as classified at
+ * extraction. "cited" is a bare reference with no stated treatment.
+ */
+export type CitationTreatment =
+  | "followed"
+  | "applied"
+  | "approved"
+  | "considered"
+  | "cited"
+  | "distinguished"
+  | "doubted"
+  | "overruled";
 
 /** Summary of a cited document returned by the top-cited endpoint */
 export interface CitedDocumentSummary {
@@ -30,3 +46,64 @@ export async function getTopCitedDocuments(
   if (documentType) params.document_type = documentType;
   return apiGet<CitedDocumentSummary[]>("/citations/stats/top-cited", params);
 }
+
+/** A later document that cites the one being read */
+export interface CitingDocument {
+  document_id: string;
+  human_readable_id: string;
+  title: string;
+  document_type: DocumentType;
+  case_number?: string | null;
+  court_level?: string | null;
+  judgment_date?: string | null;
+  treatment: CitationTreatment;
+  /** Section of the cited document the reference points at, when pinpointed. */
+  cited_eid?: string | null;
+  /** Paragraph of the citing document the reference appears in. */
+  citing_eid?: string | null;
+  /** Sentence around the reference, for context. */
+  context?: string | null;
+}
+
+/** An authority the document being read relies on */
+export interface CitedAuthority {
+  /** Null when the authority is not in the corpus. */
+  document_id: string | null;
+  title: string;
+  document_type: DocumentType | null;
+  court_level?: string | null;
+  judgment_date?: string | null;
+  citation_text: string;
+  treatment: CitationTreatment;
+  /** Section of the authority cited, when pinpointed. */
+  cited_eid?: string | null;
+  /** Paragraph of this document the reference appears in. */
+  citing_eid?: string | null;
+}
+
+export interface CitingDocumentsResponse {
+  document_id: string;
+  akn_eid: string | null;
+  total: number;
+  items: CitingDocument[];
+}
+
+/**
+ * Get documents citing a document, newest first. Pass an AKN eId to
+ * narrow to citations pinpointed at one section of an Act.
+ */
+export async function getCitingDocuments(
+  documentId: string,
+  aknEid?: string | null
+): Promise<CitingDocumentsResponse> {
+  return apiGet<CitingDocumentsResponse>(`/citations/documents/${documentId}/cited-by`, {
+    akn_eid: aknEid || undefined,
+  });
+}
+
+/**
+ * Get the authorities a document cites, in order of first appearance.
+ */
+export async function getCitedAuthorities(documentId: string): Promise<CitedAuthority[]> {
+  return apiGet<CitedAuthority[]>(`/citations/documents/${documentId}/cites`);
+}
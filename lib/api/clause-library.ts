@@ -0,0 +1,144 @@
+/**
+ * Clause Library API
+ *
+ * An organization-wide store of vetted contract clauses. Each clause
+ * carries tags, the contract types it suits, governing-law notes and
+ * the legal authorities it relies on. Authorities that resolve to a
+ * document in the LawLens corpus are watched for amendments; when one
+ * changes, the clause is flagged until someone re-checks it.
+ */
+
+import { apiGet, apiPost, apiFetch } from "./client";
+import type { ContractLegalAuthority } from "./contracts";
+
+/** "amended" and "repealed" are set when the corpus records a change
+ * after the clause was last reviewed. */
+export type ClauseAuthorityStatus = "current" | "amended" | "repealed";
+
+export interface ClauseAuthority extends ContractLegalAuthority {
+  /** Corpus document the citation resolves to. Null for citations
+   * entered by hand, which can't be watched for amendments. */
+  document_id: string | null;
+  status: ClauseAuthorityStatus;
+  /** When the corpus recorded the amendment or repeal. */
+  changed_at: string | null;
+  /** Short description of the change, e.g. the amending Act. */
+  change_note: string | null;
+}
+
+export interface LibraryClause {
+  id: string;
+  organization_id: string;
+  title: string;
+  /** Clause wording as sanitized rich HTML, ready for the canvas. */
+  body: string;
+  tags: string[];
+  /** Empty means the clause suits any contract type. */
+  contract_types: string[];
+  governing_law_notes: string | null;
+  authorities: ClauseAuthority[];
+  /** True while any authority is amended or repealed and the clause
+   * hasn't been re-checked since. */
+  needs_review: boolean;
+  last_reviewed_at: string | null;
+  times_used: number;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A citation to attach. Pass `citation_id` when it comes from a
+ * session's applicable_laws: the server resolves it to the corpus
+ * document so the authority can be watched for amendments. */
+export interface ClauseAuthorityInput {
+  /** Set to keep an authority the clause already links to. */
+  id?: string;
+  title: string;
+  legal_reference?: string | null;
+  external_url?: string | null;
+  source_type?: string;
+  citation_id?: string | null;
+}
+
+export interface SaveLibraryClauseRequest {
+  title: string;
+  body: string;
+  tags?: string[];
+  contract_types?: string[];
+  governing_law_notes?: string | null;
+  authorities?: ClauseAuthorityInput[];
+}
+
+export interface ListLibraryClausesOptions {
+  search?: string;
+  tag?: string;
+  contract_type?: string;
+  /** Only clauses flagged for review. */
+  needs_review?: boolean;
+}
+
+/**
+ * List the organization's clauses, most used first.
+ */
+export async function listLibraryClauses(
+  options?: ListLibraryClausesOptions
+): Promise<LibraryClause[]> {
+  const params = new URLSearchParams();
+  if (options?.search) params.append("search", options.search);
+  if (options?.tag) params.append("tag", options.tag);
+  if (options?.contract_type) params.append("contract_type", options.contract_type);
+  if (options?.needs_review) params.append("needs_review", "true");
+
+  const query = params.toString();
+  return apiGet<LibraryClause[]>(`/contracts/clauses${query ? `?${query}` : ""}`);
+}
+
+/**
+ * Every tag used in the organization's library, for filter chips.
+ */
+export async function listLibraryClauseTags(): Promise<string[]> {
+  return apiGet<string[]>("/contracts/clauses/tags");
+}
+
+/**
+ * Add a clause to the library.
+ */
+export async function createLibraryClause(request: SaveLibraryClauseRequest): Promise<LibraryClause> {
+  return apiPost<LibraryClause>("/contracts/clauses", request);
+}
+
+/**
+ * Update a clause. Changing its wording or authorities counts as a
+ * review, so it also clears `needs_review`.
+ */
+export async function updateLibraryClause(
+  clauseId: string,
+  request: Partial<SaveLibraryClauseRequest>
+): Promise<LibraryClause> {
+  return apiFetch<LibraryClause>(`/contracts/clauses/${clauseId}`, {
+    method: "PATCH",
+    body: JSON.stringify(request),
+  });
+}
+
+/**
+ * Delete a clause. Contracts it was inserted into keep their text.
+ */
+export async function deleteLibraryClause(clauseId: string): Promise<void> {
+  await apiFetch(`/contracts/clauses/${clauseId}`, { method: "DELETE" });
+}
+
+/**
+ * Confirm a flagged clause still holds after its authorities changed.
+ * Clears `needs_review` until the next amendment.
+ */
+export async function markLibraryClauseReviewed(clauseId: string): Promise<LibraryClause> {
+  return apiPost<LibraryClause>(`/contracts/clauses/${clauseId}/mark-reviewed`, {});
+}
+
+/**
+ * Record that a clause was inserted into a draft, for usage ordering.
+ */
+export async function recordLibraryClauseUse(clauseId: string, sessionId: string): Promise<void> {
+  await apiPost<void>(`/contracts/clauses/${clauseId}/uses`, { session_id: sessionId });
+}
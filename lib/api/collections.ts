@@ -1,5 +1,14 @@
 import { apiGet, apiPost, apiFetch } from "./client";
 
+/** The caller's access to a collection. Owners manage members and can
+ * delete the collection; editors add and remove items; viewers read. */
+export type CollectionRole = "owner" | "editor" | "viewer";
+
+/** "organization" collections belong to the owner's organization and
+ * can be shared with its members; "private" ones are visible to the
+ * owner only. */
+export type CollectionVisibility = "private" | "organization";
+
 export interface CollectionItemMeta {
     title?: string;
     document_type?: string;
@@ -24,13 +33,23 @@ export interface CollectionItem {
     item_type: "document" | "section" | "excerpt" | "research_report";
     notes: string | null;
     meta: CollectionItemMeta;
+    /** Who saved the item. Null for items saved before sharing existed. */
+    added_by_user_id: string | null;
+    added_by_name: string | null;
     created_at: string;
     updated_at: string;
 }
 
 export interface Collection {
     id: string;
+    /** The owner. */
     user_id: string;
+    owner_name?: string | null;
+    organization_id: string | null;
+    visibility: CollectionVisibility;
+    my_role: CollectionRole;
+    /** Members besides the owner. */
+    member_count?: number;
     name: string;
     description: string | null;
     is_public: boolean;
@@ -40,16 +59,35 @@ export interface Collection {
     items?: CollectionItem[];
 }
 
+export interface CollectionMember {
+    user_id: string;
+    email: string;
+    full_name: string;
+    role: CollectionRole;
+    added_at: string;
+}
+
 export interface CreateCollectionRequest {
     name: string;
     description?: string;
     is_public?: boolean;
+    /** Defaults to "private". "organization" scopes the collection to
+     * the caller's current organization. */
+    visibility?: CollectionVisibility;
 }
 
 export interface UpdateCollectionRequest {
     name?: string;
     description?: string;
     is_public?: boolean;
+    /** Switching back to "private" removes every member. */
+    visibility?: CollectionVisibility;
+}
+
+export interface AddCollectionMemberRequest {
+    /** Must be an active member of the collection's organization. */
+    user_id: string;
+    role: Exclude<CollectionRole, "owner">;
 }
 
 export interface AddCollectionItemRequest {
@@ -66,7 +104,8 @@ export interface AddCollectionItemRequest {
 
 export const collectionsApi = {
     /**
-     * Get all collections for the current user
+     * Get all collections the current user can see: their own plus
+     * organization collections they have been added to
      */
     getAll: async (): Promise<Collection[]> => {
         return apiGet<Collection[]>("/collections/");
@@ -116,6 +155,20 @@ export const collectionsApi = {
         return apiPost<CollectionItem>(`/collections/${collectionId}/items`, data);
     },
 
+    /**
+     * Update an item's notes
+     */
+    updateItem: async (
+        collectionId: string,
+        itemId: string,
+        data: { notes: string | null }
+    ): Promise<CollectionItem> => {
+        return apiFetch<CollectionItem>(`/collections/${collectionId}/items/${itemId}`, {
+            method: "PATCH",
+            body: JSON.stringify(data),
+        });
+    },
+
     /**
      * Remove an item from a collection
      */
@@ -125,4 +178,43 @@ export const collectionsApi = {
     ): Promise<void> => {
         await apiFetch(`/collections/${collectionId}/items/${itemId}`, { method: "DELETE" });
     },
+
+    /**
+     * List the members of a shared collection, owner included
+     */
+    listMembers: async (collectionId: string): Promise<CollectionMember[]> => {
+        return apiGet<CollectionMember[]>(`/collections/${collectionId}/members`);
+    },
+
+    /**
+     * Give an organization member access to a collection (owner only)
+     */
+    addMember: async (
+        collectionId: string,
+        data: AddCollectionMemberRequest
+    ): Promise<CollectionMember> => {
+        return apiPost<CollectionMember>(`/collections/${collectionId}/members`, data);
+    },
+
+    /**
+     * Change a member's role (owner only)
+     */
+    updateMember: async (
+        collectionId: string,
+        userId: string,
+        role: Exclude<CollectionRole, "owner">
+    ): Promise<CollectionMember> => {
+        return apiFetch<CollectionMember>(`/collections/${collectionId}/members/${userId}`, {
+            method: "PATCH",
+            body: JSON.stringify({ role }),
+        });
+    },
+
+    /**
+     * Revoke a member's access. Owners can remove anyone; other members
+     * can remove themselves to leave the collection.
+     */
+    removeMember: async (collectionId: string, userId: string): Promise<void> => {
+        await apiFetch(`/collections/${collectionId}/members/${userId}`, { method: "DELETE" });
+    },
 };
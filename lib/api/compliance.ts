@@ -6,7 +6,7 @@
  * tasks, alerts, and compliance actions.
  */
 
-import { apiGet, apiPost, apiFetch } from "./client";
+import { apiGet, apiPost, apiFetch, apiUpload, getApiBaseUrl } from "./client";
 
 // =============================================================================
 // Types
@@ -48,6 +48,15 @@ export interface RegulatoryEventListResponse {
   offset: number;
 }
 
+export interface FindingStatusChange {
+  from_status: string;
+  to_status: string;
+  justification: string;
+  changed_by_user_id: string;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
 export interface FindingResponse {
   id: string;
   organization_id: string;
@@ -61,10 +70,58 @@ export interface FindingResponse {
   evidence_references: Record<string, unknown>[];
   evidence_passages: Record<string, unknown>[];
   assigned_to_user_id: string | null;
+  /** When an accepted risk must be re-reviewed. Only set while `status` is `accepted`. */
+  risk_acceptance_expires_at: string | null;
+  status_history: FindingStatusChange[];
   resolved_at: string | null;
   created_at: string;
 }
 
+export interface TransitionFindingRequest {
+  status: string;
+  justification: string;
+  /** Required when accepting the risk. */
+  risk_acceptance_expires_at?: string | null;
+}
+
+export type ImpactLevel = "high" | "medium" | "low";
+
+/** A passage of an internal document touched by a regulatory change. */
+export interface ImpactPassage {
+  chunk_index: number;
+  section_heading: string | null;
+  page_number: number | null;
+  text: string;
+  /** `conflicts`: the passage contradicts the new rule; `affected`: it needs review. */
+  impact: "conflicts" | "affected";
+  explanation: string;
+  relevance_score: number;
+}
+
+export interface AffectedDocumentImpact {
+  document_id: string;
+  document_title: string;
+  filename: string;
+  impact_level: ImpactLevel;
+  summary: string;
+  passages: ImpactPassage[];
+  /** The policy update task already raised for this document, if any. */
+  policy_task_id: string | null;
+}
+
+/**
+ * Which internal knowledge-base documents a regulatory event affects.
+ * Generated asynchronously; poll while `status` is pending or running.
+ */
+export interface EventImpactReport {
+  event_id: string;
+  status: "pending" | "running" | "completed" | "failed";
+  documents_scanned: number;
+  affected_documents: AffectedDocumentImpact[];
+  error_message: string | null;
+  generated_at: string | null;
+}
+
 export interface FindingListResponse {
   items: FindingResponse[];
   total: number;
@@ -81,7 +138,7 @@ export interface ObligationResponse {
   legislation_reference: string | null;
   obligation_type: string;
   recurrence_pattern: string;
-  recurrence_config: Record<string, unknown>;
+  recurrence_config: ObligationRecurrenceConfig;
   next_due_date: string | null;
   advance_warning_days: number;
   assigned_owner_role: string | null;
@@ -93,6 +150,49 @@ export interface ObligationResponse {
   updated_at: string;
 }
 
+/**
+ * When a recurring obligation falls due within or after each period.
+ * "15th of the month after quarter end" is
+ * `{ due_rule: "after_period_end", day_of_month: 15, months_after: 1 }`.
+ */
+export interface ObligationRecurrenceConfig {
+  due_rule?: "in_period" | "after_period_end";
+  /** 1–31; days past the end of a short month fall on its last day. */
+  day_of_month?: number;
+  /** Months after the period closes, for `after_period_end`. */
+  months_after?: number;
+  /** 1–12, for annual obligations due in a fixed month. */
+  month_of_year?: number;
+}
+
+export interface CreateObligationRequest {
+  title: string;
+  description?: string | null;
+  governing_regulator?: string | null;
+  legislation_reference?: string | null;
+  obligation_type: string;
+  recurrence_pattern: string;
+  recurrence_config?: ObligationRecurrenceConfig;
+  next_due_date?: string | null;
+  advance_warning_days?: number;
+  assigned_owner_role?: string | null;
+  assigned_user_id?: string | null;
+  evidence_requirements?: string[];
+}
+
+export type UpdateObligationRequest = Partial<CreateObligationRequest>;
+
+/** Header row and cell text of an uploaded spreadsheet's first sheet. */
+export interface SpreadsheetPreview {
+  columns: string[];
+  rows: string[][];
+}
+
+export interface ObligationImportResponse {
+  created: number;
+  items: ObligationResponse[];
+}
+
 export interface ObligationListResponse {
   items: ObligationResponse[];
   total: number;
@@ -100,6 +200,35 @@ export interface ObligationListResponse {
   offset: number;
 }
 
+/** The signed-in user's private iCal subscription. */
+export interface CalendarFeedResponse {
+  /** Tokenised HTTPS URL of the ICS feed; anyone with it can read the calendar. */
+  feed_url: string;
+  created_at: string;
+}
+
+export type TaskApprovalStatus = "pending" | "approved" | "rejected";
+
+export interface TaskComment {
+  id: string;
+  /** The comment this one replies to; null for top-level comments. */
+  parent_id: string | null;
+  author_user_id: string;
+  author_name: string | null;
+  body: string;
+  created_at: string;
+}
+
+export interface TaskEvidence {
+  id: string;
+  filename: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  uploaded_by_user_id: string;
+  uploaded_by_name: string | null;
+  uploaded_at: string;
+}
+
 export interface TaskResponse {
   id: string;
   organization_id: string;
@@ -114,11 +243,14 @@ export interface TaskResponse {
   assigned_user_id: string | null;
   assigned_role: string | null;
   due_date: string | null;
-  evidence_attachments: Record<string, unknown>[];
-  approval_status: string | null;
+  evidence_attachments: TaskEvidence[];
+  /** Null until the assignee submits the task for approval. */
+  approval_status: TaskApprovalStatus | null;
+  /** Who submitted the task for approval; they can't approve it themselves. */
+  submitted_by_user_id: string | null;
   approved_by_user_id: string | null;
   approved_at: string | null;
-  comments: Record<string, unknown>[];
+  comments: TaskComment[];
   completed_at: string | null;
   created_at: string;
   updated_at: string;
@@ -131,6 +263,25 @@ export interface TaskListResponse {
   offset: number;
 }
 
+export interface CreateTaskRequest {
+  title: string;
+  description?: string | null;
+  task_type: string;
+  priority: number;
+  due_date?: string | null;
+  assigned_user_id?: string | null;
+  /** Set when the task remediates a finding. */
+  finding_id?: string | null;
+  /** Set for policy updates raised from a regulatory change impact report. */
+  regulatory_event_id?: string | null;
+  /** The knowledge-base document the task updates. */
+  document_id?: string | null;
+}
+
+export type UpdateTaskRequest = Partial<
+  Pick<TaskResponse, "title" | "description" | "priority" | "due_date" | "assigned_user_id" | "status">
+>;
+
 export interface AlertResponse {
   id: string;
   organization_id: string;
@@ -178,6 +329,21 @@ export interface ComplianceProfileResponse {
 // API Functions
 // =============================================================================
 
+/** Largest page the compliance list endpoints serve. */
+const MAX_PAGE_SIZE = 200;
+
+/** Walk a paginated list endpoint to the end, for views that need every row. */
+async function fetchAllPages<T>(
+  fetchPage: (page: { limit: number; offset: number }) => Promise<{ items: T[]; total: number }>
+): Promise<T[]> {
+  const items: T[] = [];
+  for (;;) {
+    const page = await fetchPage({ limit: MAX_PAGE_SIZE, offset: items.length });
+    items.push(...page.items);
+    if (page.items.length === 0 || items.length >= page.total) return items;
+  }
+}
+
 export const complianceApi = {
   /** Get the organization's compliance profile (auto-creates if missing). */
   getProfile: () =>
@@ -213,6 +379,21 @@ export const complianceApi = {
   }) =>
     apiGet<FindingListResponse>("/compliance/findings", params as Record<string, string | number | boolean | undefined>),
 
+  /** Get one finding with its status history. */
+  getFinding: (id: string) =>
+    apiGet<FindingResponse>(`/compliance/findings/${id}`),
+
+  /** Move a finding to a new status; every transition is recorded with its justification. */
+  transitionFinding: (id: string, data: TransitionFindingRequest) =>
+    apiPost<FindingResponse>(`/compliance/findings/${id}/transition`, data),
+
+  /** Assign a finding to a team member, or clear the assignee with null. */
+  assignFinding: (id: string, userId: string | null) =>
+    apiFetch<FindingResponse>(`/compliance/findings/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ assigned_to_user_id: userId }),
+    }),
+
   /** List regulatory obligations. */
   listObligations: (params?: {
     obligation_type?: string;
@@ -222,6 +403,10 @@ export const complianceApi = {
   }) =>
     apiGet<ObligationListResponse>("/compliance/obligations", params as Record<string, string | number | boolean | undefined>),
 
+  /** Every obligation matching the filters, across all pages. */
+  listAllObligations: (params?: { obligation_type?: string; is_active?: boolean }) =>
+    fetchAllPages((page) => complianceApi.listObligations({ ...params, ...page })),
+
   /** Get overdue obligations. */
   getOverdueObligations: () =>
     apiGet<ObligationListResponse>("/compliance/obligations/overdue"),
@@ -230,15 +415,97 @@ export const complianceApi = {
   completeObligation: (id: string, evidence?: Record<string, unknown>[]) =>
     apiPost<ObligationResponse>(`/compliance/obligations/${id}/complete`, { evidence: evidence ?? [] }),
 
+  /** Add an obligation to the register by hand. */
+  createObligation: (data: CreateObligationRequest) =>
+    apiPost<ObligationResponse>("/compliance/obligations", data),
+
+  /** Edit an obligation; the server recomputes `next_due_date` when the recurrence changes. */
+  updateObligation: (id: string, data: UpdateObligationRequest) =>
+    apiFetch<ObligationResponse>(`/compliance/obligations/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  /** Stop tracking an obligation. Its history is kept. */
+  deactivateObligation: (id: string) =>
+    apiPost<ObligationResponse>(`/compliance/obligations/${id}/deactivate`, {}),
+
+  /** Read an XLSX register's first sheet so its columns can be mapped before import. */
+  parseObligationSpreadsheet: (file: File) =>
+    apiUpload<SpreadsheetPreview>("/compliance/obligations/import/parse", file),
+
+  /** Create many obligations at once from a mapped and validated register. */
+  importObligations: (items: CreateObligationRequest[]) =>
+    apiPost<ObligationImportResponse>("/compliance/obligations/import", { items }),
+
+  /** Get (creating on first use) the user's iCal feed of obligation and task due dates. */
+  getCalendarFeed: () =>
+    apiGet<CalendarFeedResponse>("/compliance/calendar/feed"),
+
+  /** Replace the feed token, breaking existing subscriptions to the old URL. */
+  rotateCalendarFeed: () =>
+    apiPost<CalendarFeedResponse>("/compliance/calendar/feed/rotate", {}),
+
   /** List compliance tasks with optional filters. */
   listTasks: (params?: {
     status?: string;
     task_type?: string;
+    assigned_user_id?: string;
+    finding_id?: string;
     limit?: number;
     offset?: number;
   }) =>
     apiGet<TaskListResponse>("/compliance/tasks", params as Record<string, string | number | boolean | undefined>),
 
+  /** Every task matching the filters, across all pages. */
+  listAllTasks: (params?: { status?: string; task_type?: string; assigned_user_id?: string }) =>
+    fetchAllPages((page) => complianceApi.listTasks({ ...params, ...page })),
+
+  /** Get one task with its comments and evidence. */
+  getTask: (id: string) =>
+    apiGet<TaskResponse>(`/compliance/tasks/${id}`),
+
+  /** Create a task, optionally linked to the finding it remediates. */
+  createTask: (data: CreateTaskRequest) =>
+    apiPost<TaskResponse>("/compliance/tasks", data),
+
+  /** Update a task's details, status or assignee. */
+  updateTask: (id: string, data: UpdateTaskRequest) =>
+    apiFetch<TaskResponse>(`/compliance/tasks/${id}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  /** Comment on a task, or reply to a comment via `parent_id`. */
+  addTaskComment: (id: string, data: { body: string; parent_id?: string | null }) =>
+    apiPost<TaskResponse>(`/compliance/tasks/${id}/comments`, data),
+
+  /** Attach an evidence file to a task. */
+  uploadTaskEvidence: (id: string, file: File) =>
+    apiUpload<TaskResponse>(`/compliance/tasks/${id}/evidence`, file),
+
+  /** Remove an evidence file from a task. */
+  deleteTaskEvidence: (id: string, evidenceId: string) =>
+    apiFetch<TaskResponse>(`/compliance/tasks/${id}/evidence/${evidenceId}`, {
+      method: "DELETE",
+    }),
+
+  /**
+   * Mark the work done and ask for sign-off. The task moves to
+   * `under_review` until someone other than the submitter and the
+   * assignee approves or rejects it (maker-checker).
+   */
+  submitTaskForApproval: (id: string) =>
+    apiPost<TaskResponse>(`/compliance/tasks/${id}/submit`, {}),
+
+  /** Approve a submitted task, completing it. */
+  approveTask: (id: string) =>
+    apiPost<TaskResponse>(`/compliance/tasks/${id}/approve`, {}),
+
+  /** Send a submitted task back to the assignee; the reason is added as a comment. */
+  rejectTask: (id: string, reason: string) =>
+    apiPost<TaskResponse>(`/compliance/tasks/${id}/reject`, { reason }),
+
   /** List alerts with optional filters. */
   listAlerts: (params?: {
     severity?: string;
@@ -268,6 +535,14 @@ export const complianceApi = {
       `/compliance/events/${eventId}/linked-obligations`,
     ),
 
+  /** The latest impact report for an event; 404 until one has been requested. */
+  getEventImpactReport: (eventId: string) =>
+    apiGet<EventImpactReport>(`/compliance/events/${eventId}/impact`),
+
+  /** Start (or re-run) the impact analysis against the knowledge base. */
+  analyzeEventImpact: (eventId: string) =>
+    apiPost<EventImpactReport>(`/compliance/events/${eventId}/impact`, {}),
+
   /**
    * Persist obligations extracted from a contract into the compliance
    * tracker. Called by the Contract Review result page after the user
@@ -284,3 +559,8 @@ export const complianceApi = {
       request,
     ),
 };
+
+/** Download URL for a task's evidence file. */
+export function getTaskEvidenceDownloadUrl(taskId: string, evidenceId: string): string {
+  return `${getApiBaseUrl()}/compliance/tasks/${taskId}/evidence/${evidenceId}/download`;
+}
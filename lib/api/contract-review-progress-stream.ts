@@ -0,0 +1,90 @@
+/**
+ * High-level orchestration for the contract review progress stream.
+ *
+ * Same lifecycle as subscribeToResearchProgress: mint a stream token
+ * via GET when the caller has none, suppress the EventSource if the
+ * caller stopped while the token was in flight, and hand control back
+ * for polling when the token or the SSE chain fails. The review job
+ * keeps running on the server either way.
+ *
+ * Pure function: no React, no setState.
+ */
+
+import {
+  getContractReviewJob,
+  streamContractReviewProgress,
+  type ContractReviewJobStatus,
+  type ContractReviewProgress,
+} from "./contracts";
+
+export interface ContractReviewStreamCallbacks {
+  onConnecting?: () => void;
+  onProgress: (p: ContractReviewProgress) => void;
+  /** Fires once with the terminal job status. */
+  onFinished: (status: ContractReviewJobStatus) => void | Promise<void>;
+  /** Token mint failed or the SSE chain gave up; caller should poll. */
+  onFallbackNeeded: () => void;
+}
+
+export interface ContractReviewStreamHandle {
+  stop: () => void;
+}
+
+/** Test seam — inject mocks for the API calls. */
+export interface ContractReviewStreamDeps {
+  getJob?: typeof getContractReviewJob;
+  openStream?: typeof streamContractReviewProgress;
+}
+
+export function subscribeToContractReviewProgress(args: {
+  reviewId: string;
+  streamToken?: string | null;
+  callbacks: ContractReviewStreamCallbacks;
+  deps?: ContractReviewStreamDeps;
+}): ContractReviewStreamHandle {
+  const { reviewId, streamToken, callbacks } = args;
+  const getJob = args.deps?.getJob ?? getContractReviewJob;
+  const openStream = args.deps?.openStream ?? streamContractReviewProgress;
+
+  let sseCleanup: (() => void) | null = null;
+  let cancelled = false;
+
+  callbacks.onConnecting?.();
+
+  const ensureToken = async (): Promise<string | null> => {
+    if (streamToken) return streamToken;
+    try {
+      const job = await getJob(reviewId);
+      return job.stream_token ?? null;
+    } catch {
+      return null;
+    }
+  };
+
+  void ensureToken().then((token) => {
+    if (cancelled) return;
+    if (!token) {
+      callbacks.onFallbackNeeded();
+      return;
+    }
+    sseCleanup = openStream(
+      reviewId,
+      token,
+      callbacks.onProgress,
+      (status) => {
+        void Promise.resolve(callbacks.onFinished(status)).catch(() => {
+          // The caller's handler owns its errors; don't leak an
+          // unhandled rejection from a stream that already closed.
+        });
+      },
+      () => callbacks.onFallbackNeeded(),
+    );
+  });
+
+  return {
+    stop: () => {
+      cancelled = true;
+      if (sseCleanup) sseCleanup();
+    },
+  };
+}
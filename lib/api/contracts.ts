@@ -351,6 +351,17 @@ export async function saveContractAsTemplate(
 // Contract review (upload → automated review)
 // =============================================================================
 
+/** Contract types a review can be run as; "general" lets the server detect it. */
+export const CONTRACT_REVIEW_TYPES: Array<{ value: string; label: string }> = [
+  { value: "general", label: "Auto-detect" },
+  { value: "loan", label: "Loan / facility agreement" },
+  { value: "lease", label: "Lease / tenancy" },
+  { value: "employment", label: "Employment" },
+  { value: "service", label: "Services agreement" },
+  { value: "nda", label: "Non-disclosure / confidentiality" },
+  { value: "sale", label: "Sale / purchase" },
+];
+
 export type ContractReviewSeverity = "low" | "medium" | "high" | "critical";
 
 export type ContractReviewStatus =
@@ -359,12 +370,26 @@ export type ContractReviewStatus =
   | "major_issues"
   | "rejected";
 
+/**
+ * Character range in the text extracted from the uploaded file, with
+ * the quoted passage so the UI can show it without the full text.
+ */
+export interface ContractReviewTextAnchor {
+  start: number;
+  end: number;
+  quote: string;
+}
+
 export interface ContractReviewLegalIssue {
   severity: ContractReviewSeverity;
   section: string;
   issue: string;
   recommendation: string;
   law_reference: string;
+  /** Passage the issue is about. Absent for document-wide issues. */
+  anchor?: ContractReviewTextAnchor | null;
+  /** Redline proposing replacement wording for the anchored passage. */
+  redline_id?: string | null;
 }
 
 export interface ContractReviewRisk {
@@ -378,8 +403,38 @@ export interface ContractReviewImprovement {
   section: string;
   suggestion: string;
   priority: ContractReviewSeverity;
+  anchor?: ContractReviewTextAnchor | null;
+  redline_id?: string | null;
 }
 
+export type ContractRedlineStatus = "pending" | "accepted" | "rejected";
+
+/**
+ * Concrete replacement wording for one clause. An empty
+ * `proposed_text` deletes the passage; an anchor with start === end
+ * inserts new wording at that point (e.g. a missing clause).
+ */
+export interface ContractReviewRedline {
+  id: string;
+  section: string;
+  anchor: ContractReviewTextAnchor;
+  original_text: string;
+  proposed_text: string;
+  rationale: string;
+  source: "legal_issue" | "improvement" | "missing_clause";
+  status: ContractRedlineStatus;
+  /** True once the user has edited the proposed wording. */
+  edited: boolean;
+}
+
+export interface UpdateContractRedlineRequest {
+  status?: ContractRedlineStatus;
+  /** Replace the suggested wording with the user's own. */
+  proposed_text?: string;
+}
+
+export type ContractRedlineExportFormat = "docx" | "pdf";
+
 export interface ContractReviewUnverifiedReference {
   raw: string;
   statute: string;
@@ -441,36 +496,148 @@ export interface ContractReviewResult {
   // contract body. Frontend renders these on the result view and
   // lets the user one-click them into the compliance tracker.
   extracted_obligations: ContractReviewExtractedObligation[];
+  /** Clause-level replacement wording, in document order. */
+  redlines?: ContractReviewRedline[];
   processing_time_ms: number;
   reviewed_at: string | null;
+  /** The earlier review this upload revises, when the user uploaded it
+   * as a new version of the same contract. */
+  previous_review_id?: string | null;
+  /** 1 for the first upload of a contract, incremented per revision. */
+  version?: number;
+}
+
+export type ContractReviewJobStatus =
+  | "queued"
+  | "running"
+  | "complete"
+  | "failed"
+  | "cancelled";
+
+export type ContractReviewStage =
+  | "parsing"
+  | "classifying"
+  | "researching"
+  | "reviewing"
+  | "verifying"
+  | "extracting_obligations"
+  | "drafting_redlines"
+  | "finalizing";
+
+/** Server-side review job, created by startContractReview. */
+export interface ContractReviewJob {
+  review_id: string;
+  filename: string;
+  status: ContractReviewJobStatus;
+  /** Current pipeline stage; null while queued and once finished. */
+  stage: ContractReviewStage | null;
+  progress_percent: number;
+  message: string | null;
+  error: string | null;
+  previous_review_id: string | null;
+  created_at: string;
+  cancel_requested_at?: string | null;
+  /** Short-lived token for the progress stream; minted on GET. */
+  stream_token?: string | null;
+}
+
+export interface ContractReviewProgress {
+  status: ContractReviewJobStatus;
+  stage: ContractReviewStage | null;
+  message: string;
+  progress: number;
+}
+
+/** Row in the saved-reviews list on /contracts/history. */
+export interface ContractReviewListItem {
+  review_id: string;
+  filename: string;
+  contract_type: string;
+  job_status: ContractReviewJobStatus;
+  /** Null until the job completes. */
+  overall_score: number | null;
+  status: ContractReviewStatus | null;
+  previous_review_id: string | null;
+  version: number;
+  created_at: string;
+  reviewed_at: string | null;
 }
 
 /**
- * Upload a contract file and run automated review.
- *
- * Pipeline (server-side):
- *   1. Parse the document (PDF/DOCX/TXT via Docling)
- *   2. Auto-detect contract type if not provided
- *   3. Legal research against LawLens corpus + Tavily fallback (Ulii)
- *   4. ReviewAgent: structured risks, legal issues, missing clauses,
- *      improvements, statute-reference verification
- *
- * Sync request — typical 30-60s for a 20-page contract. Show a
- * loading state with stage labels.
+ * List the user's saved contract reviews, newest first.
  */
-export async function uploadContractForReview(
-  file: File,
-  options?: { contractType?: string; skipLegalResearch?: boolean }
-): Promise<ContractReviewResult> {
-  const formData = new FormData();
-  formData.append("file", file);
-  if (options?.contractType) formData.append("contract_type", options.contractType);
-  if (options?.skipLegalResearch) formData.append("skip_legal_research", "true");
+export async function listContractReviews(
+  options?: { limit?: number; offset?: number }
+): Promise<ContractReviewListItem[]> {
+  const params = new URLSearchParams();
+  if (options?.limit) params.append("limit", options.limit.toString());
+  if (options?.offset) params.append("offset", options.offset.toString());
+
+  const query = params.toString();
+  return apiGet<ContractReviewListItem[]>(`/contracts/reviews${query ? `?${query}` : ""}`);
+}
+
+/**
+ * Fetch a saved review in full.
+ */
+export async function getContractReview(reviewId: string): Promise<ContractReviewResult> {
+  return apiGet<ContractReviewResult>(`/contracts/reviews/${reviewId}`);
+}
+
+/**
+ * Accept, reject or reword a redline. Returns the updated redline.
+ */
+export async function updateContractRedline(
+  reviewId: string,
+  redlineId: string,
+  update: UpdateContractRedlineRequest
+): Promise<ContractReviewRedline> {
+  return apiFetch<ContractReviewRedline>(`/contracts/reviews/${reviewId}/redlines/${redlineId}`, {
+    method: "PATCH",
+    body: JSON.stringify(update),
+  });
+}
+
+/**
+ * Set every pending redline to the same decision in one request.
+ */
+export async function resolvePendingContractRedlines(
+  reviewId: string,
+  status: Exclude<ContractRedlineStatus, "pending">
+): Promise<ContractReviewRedline[]> {
+  return apiPost<ContractReviewRedline[]>(`/contracts/reviews/${reviewId}/redlines/resolve`, {
+    status,
+  });
+}
+
+/**
+ * Download URL for the uploaded contract with accepted redlines applied:
+ * DOCX carries them as tracked changes (author "LawLens"), PDF renders
+ * deletions struck through and insertions underlined.
+ */
+export function getRedlinedContractDownloadUrl(
+  reviewId: string,
+  format: ContractRedlineExportFormat = "docx"
+): string {
+  return `${getApiBaseUrl()}/contracts/reviews/${reviewId}/redlined?format=${format}`;
+}
+
+/**
+ * Delete a saved review. Later revisions keep their own results but
+ * lose the link back to it.
+ */
+export async function deleteContractReview(reviewId: string): Promise<void> {
+  await apiFetch(`/contracts/reviews/${reviewId}`, { method: "DELETE" });
+}
 
-  // Same headers / credentials policy as apiUpload but we need extra
-  // form fields, so we bypass that helper and call the proxy directly.
+/**
+ * POST a multipart upload with the same headers / credentials policy as
+ * apiUpload. The review endpoints need extra form fields, so we bypass
+ * that helper and call the proxy directly.
+ */
+async function postContractUpload<T>(path: string, formData: FormData): Promise<T> {
   const { ensureHttps } = await import("./ensure-https");
-  const url = ensureHttps(`${getApiBaseUrl()}/contracts/review/upload`);
+  const url = ensureHttps(`${getApiBaseUrl()}${path}`);
 
   const headers: Record<string, string> = {};
   // CSRF: read the same cookie apiUpload reads.
@@ -499,5 +666,288 @@ export async function uploadContractForReview(
     throw new APIError(response.status, response.statusText, detail);
   }
 
-  return (await response.json()) as ContractReviewResult;
+  return (await response.json()) as T;
+}
+
+/**
+ * Upload a contract file and start an automated review job. Returns as
+ * soon as the file is accepted; the review itself runs server-side and
+ * keeps running if the user leaves the page.
+ *
+ * Pipeline (server-side):
+ *   1. Parse the document (PDF/DOCX/TXT via Docling)
+ *   2. Auto-detect contract type if not provided
+ *   3. Legal research against LawLens corpus + Tavily fallback (Ulii)
+ *   4. ReviewAgent: structured risks, legal issues, missing clauses,
+ *      improvements, statute-reference verification
+ *
+ * Follow progress with streamContractReviewProgress (or poll
+ * getContractReviewJob) and load the result with getContractReview
+ * once the job reports "complete".
+ */
+export async function startContractReview(
+  file: File,
+  options?: {
+    contractType?: string;
+    skipLegalResearch?: boolean;
+    /** Link the new review to an earlier one as a revised version. */
+    previousReviewId?: string;
+  }
+): Promise<ContractReviewJob> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (options?.contractType) formData.append("contract_type", options.contractType);
+  if (options?.skipLegalResearch) formData.append("skip_legal_research", "true");
+  if (options?.previousReviewId) formData.append("previous_review_id", options.previousReviewId);
+
+  return postContractUpload<ContractReviewJob>("/contracts/reviews", formData);
+}
+
+/**
+ * Get the state of a review job. Also mints a fresh `stream_token`
+ * for streamContractReviewProgress.
+ */
+export async function getContractReviewJob(reviewId: string): Promise<ContractReviewJob> {
+  return apiGet<ContractReviewJob>(`/contracts/reviews/${reviewId}/job`);
+}
+
+/**
+ * Cancel a queued or running review. Cooperative like
+ * cancelContractSession: the worker stops at the next stage boundary
+ * and the stream then reports status "cancelled".
+ */
+export async function cancelContractReview(reviewId: string): Promise<ContractReviewJob> {
+  return apiPost<ContractReviewJob>(`/contracts/reviews/${reviewId}/cancel`, {});
+}
+
+// =============================================================================
+// Batch review (many files or a ZIP → one job per contract)
+// =============================================================================
+
+export type ContractReviewBatchStatus = "running" | "complete" | "cancelled";
+
+/** One contract in a batch — a row of the portfolio matrix. */
+export interface ContractReviewBatchItem {
+  review_id: string;
+  filename: string;
+  job_status: ContractReviewJobStatus;
+  contract_type: string | null;
+  /** Scores and counts are null until the item's review completes. */
+  overall_score: number | null;
+  completeness_score: number | null;
+  compliance_score: number | null;
+  consistency_score: number | null;
+  status: ContractReviewStatus | null;
+  critical_issue_count: number | null;
+  high_issue_count: number | null;
+  missing_clauses: string[];
+  obligation_count: number | null;
+  error: string | null;
+}
+
+export interface ContractReviewBatch {
+  batch_id: string;
+  name: string;
+  status: ContractReviewBatchStatus;
+  contract_type: string | null;
+  /** Number of contracts, after ZIP archives are expanded. */
+  total: number;
+  completed: number;
+  failed: number;
+  /** Archive entries skipped as unsupported or over the size cap. */
+  skipped_files: string[];
+  items: ContractReviewBatchItem[];
+  created_at: string;
+}
+
+export type ContractPortfolioExportFormat = "xlsx" | "csv";
+
+export type ContractPortfolioSortKey =
+  | "filename"
+  | "overall_score"
+  | "completeness_score"
+  | "compliance_score"
+  | "consistency_score"
+  | "critical_issue_count"
+  | "missing_clause_count";
+
+/** Matrix view state, applied to the export so it matches the screen. */
+export interface ContractPortfolioView {
+  sort: ContractPortfolioSortKey;
+  direction: "asc" | "desc";
+  search?: string;
+  status?: ContractReviewStatus;
+  /** Only rows with at least one critical legal issue. */
+  critical_only?: boolean;
+}
+
+/**
+ * Start a batch review. ZIP files are expanded server-side and each
+ * contract gets its own review job; the batch tracks them together.
+ */
+export async function startContractReviewBatch(
+  files: File[],
+  options?: { name?: string; contractType?: string }
+): Promise<ContractReviewBatch> {
+  const formData = new FormData();
+  for (const file of files) formData.append("files", file);
+  if (options?.name) formData.append("name", options.name);
+  if (options?.contractType) formData.append("contract_type", options.contractType);
+
+  return postContractUpload<ContractReviewBatch>("/contracts/review-batches", formData);
+}
+
+/**
+ * Get a batch with the current state of every contract in it.
+ */
+export async function getContractReviewBatch(batchId: string): Promise<ContractReviewBatch> {
+  return apiGet<ContractReviewBatch>(`/contracts/review-batches/${batchId}`);
+}
+
+/**
+ * Cancel every review in the batch that hasn't finished yet.
+ */
+export async function cancelContractReviewBatch(batchId: string): Promise<ContractReviewBatch> {
+  return apiPost<ContractReviewBatch>(`/contracts/review-batches/${batchId}/cancel`, {});
+}
+
+export interface TrackBatchObligationsResponse {
+  obligations_created: number;
+  obligation_ids: string[];
+  contracts_tracked: number;
+}
+
+/**
+ * Add the extracted obligations of every completed contract in the
+ * batch to the compliance tracker. Contracts already tracked are
+ * skipped, so repeating the call after more reviews finish is safe.
+ */
+export async function trackContractReviewBatchObligations(
+  batchId: string
+): Promise<TrackBatchObligationsResponse> {
+  return apiPost<TrackBatchObligationsResponse>(
+    `/contracts/review-batches/${batchId}/track-obligations`,
+    {}
+  );
+}
+
+/**
+ * Download URL for the portfolio matrix, rendered server-side with the
+ * same sort and filters as the on-screen table.
+ */
+export function getContractReviewBatchExportUrl(
+  batchId: string,
+  format: ContractPortfolioExportFormat,
+  view: ContractPortfolioView
+): string {
+  const params = new URLSearchParams({
+    format,
+    sort: view.sort,
+    direction: view.direction,
+  });
+  if (view.search?.trim()) params.append("search", view.search.trim());
+  if (view.status) params.append("status", view.status);
+  if (view.critical_only) params.append("critical_only", "true");
+  return `${getApiBaseUrl()}/contracts/review-batches/${batchId}/export?${params.toString()}`;
+}
+
+function parseContractReviewProgress(
+  raw: string,
+  fallbackStatus: ContractReviewJobStatus = "running"
+): ContractReviewProgress {
+  const data = JSON.parse(raw);
+  return {
+    status: data.status || fallbackStatus,
+    stage: data.stage ?? null,
+    message: data.message || "Reviewing...",
+    progress: data.progress_percent || 0,
+  };
+}
+
+/**
+ * Stream review job progress via SSE.
+ *
+ * Backend sends named events: "progress" while the job runs and
+ * "complete" once it reaches a terminal status (complete, failed or
+ * cancelled — the payload carries which). Token handling and the single
+ * reconnect with a fresh token mirror streamResearchProgress.
+ */
+export function streamContractReviewProgress(
+  reviewId: string,
+  streamToken: string,
+  onProgress: (progress: ContractReviewProgress) => void,
+  onComplete: (status: ContractReviewJobStatus) => void,
+  onError: (error: string) => void
+): () => void {
+  let activeSource: EventSource | null = null;
+  let cancelled = false;
+  let retried = false;
+
+  const open = (token: string) => {
+    if (cancelled) return;
+    const url = `${getApiBaseUrl()}/contracts/reviews/${reviewId}/stream?stream_token=${encodeURIComponent(token)}`;
+    const es = new EventSource(url, { withCredentials: true });
+    activeSource = es;
+    wireEvents(es);
+  };
+
+  const reconnectWithFreshToken = async () => {
+    if (cancelled || retried) {
+      onError("Review stream connection error");
+      return;
+    }
+    retried = true;
+    try {
+      const fresh = await getContractReviewJob(reviewId);
+      if (!fresh.stream_token) {
+        onError("Review stream connection error");
+        return;
+      }
+      open(fresh.stream_token);
+    } catch {
+      onError("Review stream connection error");
+    }
+  };
+
+  function wireEvents(es: EventSource) {
+    es.addEventListener("progress", (event) => {
+      const messageEvent = event as MessageEvent;
+      try {
+        onProgress(parseContractReviewProgress(messageEvent.data));
+      } catch {
+        // Never log the raw event — the EventSource url carries the
+        // stream token. See streamResearchProgress.
+        const dataLength =
+          typeof messageEvent.data === "string" ? messageEvent.data.length : -1;
+        console.error("Failed to parse review progress message", { dataLength });
+      }
+    });
+
+    es.addEventListener("complete", (event) => {
+      let status: ContractReviewJobStatus = "complete";
+      try {
+        // A payload without a status is a successful finish.
+        status = parseContractReviewProgress((event as MessageEvent).data, "complete").status;
+      } catch {
+        // Older workers send an empty payload on success.
+      }
+      onComplete(status);
+      es.close();
+    });
+
+    const handleError = () => {
+      if (es.readyState === EventSource.CLOSED) return;
+      es.close();
+      void reconnectWithFreshToken();
+    };
+    es.addEventListener("error", handleError);
+    es.onerror = handleError;
+  }
+
+  open(streamToken);
+
+  return () => {
+    cancelled = true;
+    if (activeSource) activeSource.close();
+  };
 }
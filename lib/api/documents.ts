@@ -12,6 +12,8 @@ import type {
   PaginatedResponse,
   RepositoryStats,
   DocumentType,
+  DocumentVersionSummary,
+  LegalArea,
   SectionResponse,
   ExpandedSourceResponse,
 } from "./types";
@@ -23,6 +25,35 @@ export async function getDocument(id: string): Promise<Document> {
   return apiGet<Document>(`/public/documents/${id}`);
 }
 
+/**
+ * List every version of a document, oldest first (public endpoint)
+ */
+export async function getDocumentVersions(
+  id: string
+): Promise<DocumentVersionSummary[]> {
+  return apiGet<DocumentVersionSummary[]>(`/public/documents/${id}/versions`);
+}
+
+/**
+ * Get a specific version of a document, including its hierarchical structure
+ */
+export async function getDocumentVersion(
+  id: string,
+  versionNumber: number
+): Promise<Document> {
+  return apiGet<Document>(`/public/documents/${id}/versions/${versionNumber}`);
+}
+
+/**
+ * Get the version of a document that was in force on a given date.
+ *
+ * @param date - ISO date (YYYY-MM-DD). The backend returns 404 when the
+ *   document had not yet commenced on that date.
+ */
+export async function getDocumentAsAt(id: string, date: string): Promise<Document> {
+  return apiGet<Document>(`/public/documents/${id}/as-at`, { date });
+}
+
 /**
  * Get a list of documents with optional filters (public endpoint)
  */
@@ -39,6 +70,9 @@ export async function getDocuments(
     }
     if (filters.year_from) params.year = filters.year_from; // API uses 'year' param
     if (filters.court_level) params.court_level = filters.court_level;
+    if (filters.judge) params.judge = filters.judge;
+    if (filters.bill_stage) params.bill_stage = filters.bill_stage;
+    if (filters.legal_area) params.legal_area = filters.legal_area;
     if (filters.search) params.search = filters.search;
     if (filters.title_starts_with) params.title_starts_with = filters.title_starts_with;
     if (filters.page) params.page = filters.page;
@@ -50,6 +84,18 @@ export async function getDocuments(
   return apiGet<PaginatedResponse<Document>>("/public/documents", params);
 }
 
+/**
+ * Find the Act published under a chapter number of the Laws of Uganda
+ * (e.g. "95" or "227A"). Returns null when no Act carries that chapter.
+ */
+export async function findActByChapter(chapter: string): Promise<Document | null> {
+  const wanted = chapter.trim().toUpperCase();
+  const results = await getDocuments({ document_type: "act", search: `Cap. ${wanted}`, size: 10 });
+  const chapterNumber = (value?: string) =>
+    value?.toUpperCase().replace(/^CAP(?:TER)?\.?\s*|^CHAPTER\s*/, "").trim();
+  return results.items.find((doc) => chapterNumber(doc.chapter) === wanted) ?? null;
+}
+
 /**
  * Get document content in a specific format
  */
@@ -210,6 +256,18 @@ export async function getJudgmentYears(): Promise<Record<number, number>> {
   return apiGet<Record<number, number>>("/public/judgment-years");
 }
 
+/**
+ * Get legal-area counts for published documents, optionally for one type
+ * (drives the subject-matter chips on the judgments and acts listings)
+ */
+export async function getLegalAreaCounts(
+  documentType?: DocumentType
+): Promise<Partial<Record<LegalArea, number>>> {
+  return apiGet<Partial<Record<LegalArea, number>>>("/public/legal-areas", {
+    document_type: documentType,
+  });
+}
+
 /**
  * Judge info returned by the judges endpoint
  */
@@ -226,6 +284,32 @@ export async function getAvailableJudges(): Promise<JudgeInfo[]> {
   return apiGet<JudgeInfo[]>("/public/judges");
 }
 
+/**
+ * Get every judgment a judge sat on, paging within backend limits.
+ * Used by the judge profile to break the bench record down by court and year.
+ */
+export async function getAllJudgmentsByJudge(
+  judge: string,
+  pageSize: number = 100
+): Promise<Document[]> {
+  const filters: DocumentFilters = {
+    document_type: "judgment",
+    judge,
+    size: pageSize,
+    sort_by: "judgment_date",
+    sort_order: "desc",
+  };
+  const firstPage = await getDocuments({ ...filters, page: 1 });
+  const items = [...firstPage.items];
+
+  for (let page = 2; page <= firstPage.total_pages; page += 1) {
+    const nextPage = await getDocuments({ ...filters, page });
+    items.push(...nextPage.items);
+  }
+
+  return items;
+}
+
 /**
  * AKN XML Response type
  */
@@ -12,6 +12,9 @@ export {
   getAllDocumentsByType,
   getDocument,
   getDocuments,
+  getDocumentVersions,
+  getDocumentVersion,
+  getDocumentAsAt,
   getDocumentContent,
   getDocumentPdfUrl,
   getPdfStatus,
@@ -23,7 +26,9 @@ export {
   getAvailableYears,
   getCourtLevels,
   getJudgmentYears,
+  getLegalAreaCounts,
   getAvailableJudges,
+  getAllJudgmentsByJudge,
   getDocumentAknXml,
   getDocumentSection,
   type AknXmlResponse,
@@ -70,6 +75,7 @@ export {
   resetResearchToStage,
   cancelResearchSession,
   streamResearchProgress,
+  type ResearchExportFormat,
   type ResearchSessionListItem,
   type ResearchStatus,
   type ResearchPhase,
@@ -196,7 +202,13 @@ export {
 // Citations API
 export {
   getTopCitedDocuments,
+  getCitingDocuments,
+  getCitedAuthorities,
   type CitedDocumentSummary,
+  type CitationTreatment,
+  type CitingDocument,
+  type CitedAuthority,
+  type CitingDocumentsResponse,
 } from "./citations";
 
 // Types
@@ -0,0 +1,238 @@
+/**
+ * Matters API
+ *
+ * A matter is a client engagement that groups the work done for it:
+ * conversations, research sessions, contract sessions, knowledge-base
+ * documents and collections. Matters belong to an organization; the
+ * creator owns the matter and grants other organization members editor
+ * or viewer access. Items keep their own permissions — adding one to a
+ * matter only files it there.
+ */
+
+import { apiGet, apiPost, apiFetch } from "./client";
+
+export type MatterStatus = "open" | "closed";
+
+export type MatterRole = "owner" | "editor" | "viewer";
+
+export type MatterItemType =
+  | "conversation"
+  | "research_session"
+  | "contract_session"
+  | "kb_document"
+  | "collection";
+
+export interface Matter {
+  id: string;
+  organization_id: string;
+  name: string;
+  client_name: string | null;
+  /** The firm's matter or file number. */
+  reference: string | null;
+  description: string | null;
+  status: MatterStatus;
+  my_role: MatterRole;
+  /** Members besides the owner. */
+  member_count: number;
+  item_counts: Partial<Record<MatterItemType, number>>;
+  last_activity_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MatterItem {
+  item_type: MatterItemType;
+  item_id: string;
+  /** The item's current title, resolved server-side. */
+  title: string;
+  added_at: string;
+  added_by_name: string | null;
+}
+
+export interface MatterMember {
+  user_id: string;
+  email: string;
+  full_name: string;
+  role: MatterRole;
+  added_at: string;
+}
+
+export type MatterTimelineEventType =
+  | "matter_created"
+  | "matter_updated"
+  | "status_changed"
+  | "item_added"
+  | "item_removed"
+  /** Work on a filed item, e.g. a new chat message or a finished research report. */
+  | "item_activity"
+  | "member_added"
+  | "member_removed";
+
+export interface MatterTimelineEvent {
+  id: string;
+  event_type: MatterTimelineEventType;
+  item_type: MatterItemType | null;
+  item_id: string | null;
+  /** One-line description, e.g. "Research report completed". */
+  summary: string;
+  /** Title of the item involved, when there is one. */
+  item_title: string | null;
+  actor_name: string | null;
+  occurred_at: string;
+}
+
+export interface MatterTimelinePage {
+  events: MatterTimelineEvent[];
+  /** Pass back as `before` to load older events; null when there are none. */
+  next_cursor: string | null;
+}
+
+export interface SaveMatterRequest {
+  name: string;
+  client_name?: string | null;
+  reference?: string | null;
+  description?: string | null;
+  status?: MatterStatus;
+}
+
+export interface ListMattersOptions {
+  status?: MatterStatus;
+  search?: string;
+  /** Only matters that already contain this item. */
+  containing?: { item_type: MatterItemType; item_id: string };
+}
+
+/**
+ * List the matters the current user can see in their organization
+ */
+export async function listMatters(options: ListMattersOptions = {}): Promise<Matter[]> {
+  const params = new URLSearchParams();
+  if (options.status) params.append("status", options.status);
+  if (options.search?.trim()) params.append("search", options.search.trim());
+  if (options.containing) {
+    params.append("item_type", options.containing.item_type);
+    params.append("item_id", options.containing.item_id);
+  }
+  const query = params.toString();
+  return apiGet<Matter[]>(`/matters${query ? `?${query}` : ""}`);
+}
+
+/**
+ * Get a single matter
+ */
+export async function getMatter(matterId: string): Promise<Matter> {
+  return apiGet<Matter>(`/matters/${matterId}`);
+}
+
+/**
+ * Create a matter in the current organization; the caller becomes its owner
+ */
+export async function createMatter(data: SaveMatterRequest): Promise<Matter> {
+  return apiPost<Matter>("/matters", data);
+}
+
+/**
+ * Update a matter's details or open/closed status (owner and editors)
+ */
+export async function updateMatter(
+  matterId: string,
+  data: Partial<SaveMatterRequest>
+): Promise<Matter> {
+  return apiFetch<Matter>(`/matters/${matterId}`, {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Delete a matter (owner only). Filed items are not deleted.
+ */
+export async function deleteMatter(matterId: string): Promise<void> {
+  await apiFetch<void>(`/matters/${matterId}`, { method: "DELETE" });
+}
+
+/**
+ * List the items filed in a matter, optionally of one type
+ */
+export async function listMatterItems(
+  matterId: string,
+  itemType?: MatterItemType
+): Promise<MatterItem[]> {
+  const query = itemType ? `?item_type=${itemType}` : "";
+  return apiGet<MatterItem[]>(`/matters/${matterId}/items${query}`);
+}
+
+/**
+ * File an item in a matter (owner and editors)
+ */
+export async function addMatterItem(
+  matterId: string,
+  item: { item_type: MatterItemType; item_id: string }
+): Promise<MatterItem> {
+  return apiPost<MatterItem>(`/matters/${matterId}/items`, item);
+}
+
+/**
+ * Remove an item from a matter; the item itself is kept
+ */
+export async function removeMatterItem(
+  matterId: string,
+  itemType: MatterItemType,
+  itemId: string
+): Promise<void> {
+  await apiFetch<void>(`/matters/${matterId}/items/${itemType}/${itemId}`, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Activity on the matter and its items, newest first
+ */
+export async function getMatterTimeline(
+  matterId: string,
+  options: { before?: string; limit?: number } = {}
+): Promise<MatterTimelinePage> {
+  return apiGet<MatterTimelinePage>(`/matters/${matterId}/timeline`, {
+    before: options.before,
+    limit: options.limit ?? 30,
+  });
+}
+
+/**
+ * List the members of a matter, owner included
+ */
+export async function listMatterMembers(matterId: string): Promise<MatterMember[]> {
+  return apiGet<MatterMember[]>(`/matters/${matterId}/members`);
+}
+
+/**
+ * Give an organization member access to a matter (owner only)
+ */
+export async function addMatterMember(
+  matterId: string,
+  data: { user_id: string; role: Exclude<MatterRole, "owner"> }
+): Promise<MatterMember> {
+  return apiPost<MatterMember>(`/matters/${matterId}/members`, data);
+}
+
+/**
+ * Change a member's role (owner only)
+ */
+export async function updateMatterMember(
+  matterId: string,
+  userId: string,
+  role: Exclude<MatterRole, "owner">
+): Promise<MatterMember> {
+  return apiFetch<MatterMember>(`/matters/${matterId}/members/${userId}`, {
+    method: "PATCH",
+    body: JSON.stringify({ role }),
+  });
+}
+
+/**
+ * Revoke a member's access. Owners can remove anyone; other members can
+ * remove themselves to leave the matter.
+ */
+export async function removeMatterMember(matterId: string, userId: string): Promise<void> {
+  await apiFetch<void>(`/matters/${matterId}/members/${userId}`, { method: "DELETE" });
+}
@@ -0,0 +1,92 @@
+/**
+ * Notification Preferences API client
+ *
+ * Per-user notification routing. Preferences live on the backend so they
+ * follow the user across devices and the notification service can honour
+ * them when it decides whether, where and when to deliver.
+ */
+
+import { apiFetch, apiGet } from "./client";
+
+// Enums
+export type NotificationChannel = "email" | "in_app" | "sms";
+
+export type NotificationCategory =
+  | "research_completed"
+  | "compliance_alerts"
+  | "obligation_reminders"
+  | "invitations";
+
+export type AlertSeverity = "critical" | "high" | "medium" | "low";
+
+// Types
+export interface QuietHours {
+  enabled: boolean;
+  /** Local start time, "HH:MM". */
+  start: string;
+  /** Local end time, "HH:MM". May be earlier than `start` for overnight windows. */
+  end: string;
+  /** IANA timezone the window is evaluated in. */
+  timezone: string;
+}
+
+export interface CategoryPreference {
+  enabled: boolean;
+  channels: NotificationChannel[];
+  /** Email and SMS are held until the window ends; in-app is delivered silently. */
+  quiet_hours: QuietHours;
+}
+
+export interface ComplianceAlertPreference extends CategoryPreference {
+  /** Channels per severity. Takes precedence over `channels`; an empty list mutes that severity. */
+  severity_channels: Record<AlertSeverity, NotificationChannel[]>;
+  /** Deliver critical alerts immediately even inside quiet hours. */
+  critical_bypasses_quiet_hours: boolean;
+}
+
+export interface ObligationReminderPreference extends CategoryPreference {
+  /** Days before an obligation's due date to send a reminder. */
+  lead_days: number[];
+}
+
+export interface NotificationPreferences {
+  research_completed: CategoryPreference;
+  compliance_alerts: ComplianceAlertPreference;
+  obligation_reminders: ObligationReminderPreference;
+  invitations: CategoryPreference;
+  email_digest: boolean;
+  product_news: boolean;
+  security_alerts: boolean;
+  /** Number SMS notifications go to (256XXXXXXXXX). SMS channels are skipped without one. */
+  sms_phone_number: string | null;
+  /** The backend sends a verification SMS whenever the number changes. */
+  sms_phone_verified: boolean;
+  updated_at: string | null;
+}
+
+export type NotificationPreferencesUpdate = Partial<
+  Omit<NotificationPreferences, "sms_phone_verified" | "updated_at">
+>;
+
+// API Functions
+
+/**
+ * Get the current user's notification preferences. Users who have never
+ * saved preferences receive the backend defaults.
+ */
+export async function getNotificationPreferences(): Promise<NotificationPreferences> {
+  return apiGet<NotificationPreferences>("/users/me/notification-preferences");
+}
+
+/**
+ * Update the current user's notification preferences. Categories are
+ * replaced whole, so send the full category object when changing one field.
+ */
+export async function updateNotificationPreferences(
+  data: NotificationPreferencesUpdate
+): Promise<NotificationPreferences> {
+  return apiFetch<NotificationPreferences>("/users/me/notification-preferences", {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
@@ -0,0 +1,168 @@
+/**
+ * Organization security API client
+ *
+ * Typed API calls for the security settings and SSO identity provider
+ * configuration behind /admin/security. All endpoints are scoped to
+ * the current organization and restricted to owners by the backend.
+ */
+
+import { apiFetch, apiGet, apiPost } from "./client";
+
+// Enums
+export type SSOProtocol = "saml" | "oidc";
+export type SSOProviderStatus = "active" | "inactive" | "pending";
+export type SSOTestStatus = "pending" | "succeeded" | "failed";
+
+// Types
+export interface OrganizationSecuritySettings {
+  enforce_sso: boolean;
+  require_mfa: boolean;
+  session_timeout_hours: number;
+  password_min_length: number;
+  password_require_special: boolean;
+  ip_allowlist_enabled: boolean;
+  ip_allowlist: string[];
+}
+
+export interface SSOProvider {
+  id: string;
+  /** Catalogue key the provider was created from (okta, azure, google, onelogin, custom). */
+  provider_key: string;
+  name: string;
+  protocol: SSOProtocol;
+  status: SSOProviderStatus;
+  domain?: string | null;
+  // SAML
+  entity_id?: string | null;
+  sso_url?: string | null;
+  certificate_expires_at?: string | null;
+  // OIDC
+  issuer?: string | null;
+  client_id?: string | null;
+  last_tested_at?: string | null;
+  last_test_succeeded?: boolean | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SSOProviderListResponse {
+  items: SSOProvider[];
+}
+
+export interface SAMLProviderConfig {
+  entity_id: string;
+  sso_url: string;
+  certificate: string;
+  /** Raw metadata XML when the admin uploaded a file, kept for re-parsing on the backend. */
+  metadata_xml?: string;
+}
+
+export interface OIDCProviderConfig {
+  issuer: string;
+  client_id: string;
+  client_secret: string;
+}
+
+export interface CreateSSOProviderRequest {
+  provider_key: string;
+  name: string;
+  protocol: SSOProtocol;
+  domain?: string;
+  saml?: SAMLProviderConfig;
+  oidc?: OIDCProviderConfig;
+}
+
+export interface SSOTestSession {
+  test_id: string;
+  /** IdP login URL the admin opens to complete the round trip. */
+  login_url: string;
+  status: SSOTestStatus;
+  /** Email asserted by the IdP once the test succeeds. */
+  asserted_email?: string | null;
+  error?: string | null;
+  completed_at?: string | null;
+}
+
+export interface ServiceProviderDetails {
+  entity_id: string;
+  acs_url: string;
+  /** OIDC redirect URI to register with the IdP. */
+  redirect_uri: string;
+  metadata_url: string;
+}
+
+// API Functions
+
+/**
+ * Get the current organization's security settings
+ */
+export async function getSecuritySettings(): Promise<OrganizationSecuritySettings> {
+  return apiGet<OrganizationSecuritySettings>("/organizations/current/security");
+}
+
+/**
+ * Update the current organization's security settings.
+ * The backend rejects enforce_sso without an active provider (409)
+ * and an allowlist that would lock out the caller's own IP (422).
+ */
+export async function updateSecuritySettings(
+  data: Partial<OrganizationSecuritySettings>
+): Promise<OrganizationSecuritySettings> {
+  return apiFetch<OrganizationSecuritySettings>("/organizations/current/security", {
+    method: "PATCH",
+    body: JSON.stringify(data),
+  });
+}
+
+/**
+ * Get the service provider values the admin registers with their IdP
+ */
+export async function getServiceProviderDetails(): Promise<ServiceProviderDetails> {
+  return apiGet<ServiceProviderDetails>("/organizations/current/security/sso/service-provider");
+}
+
+/**
+ * List configured SSO identity providers
+ */
+export async function listSSOProviders(): Promise<SSOProviderListResponse> {
+  return apiGet<SSOProviderListResponse>("/organizations/current/security/sso/providers");
+}
+
+/**
+ * Create an SSO identity provider. New providers start as `pending`
+ * and become `active` after a successful test login.
+ */
+export async function createSSOProvider(data: CreateSSOProviderRequest): Promise<SSOProvider> {
+  return apiPost<SSOProvider>("/organizations/current/security/sso/providers", data);
+}
+
+/**
+ * Remove an SSO identity provider
+ */
+export async function deleteSSOProvider(providerId: string): Promise<void> {
+  await apiFetch<void>(`/organizations/current/security/sso/providers/${providerId}`, {
+    method: "DELETE",
+  });
+}
+
+/**
+ * Start a test-login round trip for a provider. Open `login_url` in a
+ * popup and poll getSSOTestResult until the status leaves `pending`.
+ */
+export async function startSSOTest(providerId: string): Promise<SSOTestSession> {
+  return apiPost<SSOTestSession>(
+    `/organizations/current/security/sso/providers/${providerId}/test`
+  );
+}
+
+/**
+ * Get the outcome of a test login
+ */
+export async function getSSOTestResult(
+  providerId: string,
+  testId: string
+): Promise<SSOTestSession> {
+  return apiGet<SSOTestSession>(
+    `/organizations/current/security/sso/providers/${providerId}/test/${testId}`
+  );
+}
@@ -461,14 +461,27 @@ export async function deleteResearchSession(sessionId: string): Promise<void> {
 }
 
 /**
- * Get the server-rendered Word (.docx) export URL for a completed
- * research session. Mirrors getContractDownloadUrl. Replaces the old
- * client-side Office-flavoured .doc generator that opened with
- * unpredictable rendering in non-Word editors.
+ * Export formats for a completed research report. All are rendered
+ * server-side from the saved report and its publisher payload, so each
+ * carries the same endnotes, key authorities, source groups and
+ * claim-verification summary:
+ *
+ * - docx: Word, for further editing
+ * - pdf: paginated memo for filing
+ * - md: CommonMark with footnote-style endnotes, for pasting into a DMS
+ * - html: standalone page with inlined styles and no external assets
+ */
+export type ResearchExportFormat = "docx" | "pdf" | "md" | "html";
+
+/**
+ * Get the server-rendered export URL for a completed research session.
+ * Mirrors getContractDownloadUrl. Replaces the old client-side
+ * Office-flavoured .doc generator that opened with unpredictable
+ * rendering in non-Word editors.
  */
 export function getResearchDownloadUrl(
   sessionId: string,
-  format: "docx" = "docx"
+  format: ResearchExportFormat = "docx"
 ): string {
   return `${getApiBaseUrl()}/research/${sessionId}/export?format=${format}`;
 }
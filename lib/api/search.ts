@@ -35,6 +35,9 @@ export async function searchDocuments(
   if (params.court_level?.length) {
     queryParams.court_level = params.court_level.join(",");
   }
+  if (params.legal_area?.length) {
+    queryParams.legal_area = params.legal_area.join(",");
+  }
 
   return apiGet<SearchResponse>("/search", queryParams);
 }
@@ -10,6 +10,8 @@ export type DocumentType =
   | "judgment"
   | "constitution"
   | "regulation"
+  /** Parliamentary bill; carries bill_stage / bill_stage_history. */
+  | "bill"
   /**
    * Internal Knowledge Base document. Returned by the KB orchestrator
    * (corpus_scope=org_kb) and the Both orchestrator alongside legal
@@ -31,6 +33,48 @@ export type DocumentStatus =
   | "rejected"
   | "published";
 
+/**
+ * Legislative stage of a bill, in procedural order. "withdrawn" and
+ * "lapsed" are terminal exits that can follow any stage before assent.
+ */
+export type BillStage =
+  | "first_reading"
+  | "committee"
+  | "second_reading"
+  | "third_reading"
+  | "passed"
+  | "assented"
+  | "withdrawn"
+  | "lapsed";
+
+/** One entry in a bill's stage history. */
+export interface BillStageEvent {
+  stage: BillStage;
+  /** ISO date the bill reached this stage. */
+  date: string;
+  /** e.g. the committee the bill was referred to, or the Hansard reference. */
+  note?: string;
+}
+
+/**
+ * Subject-matter classification assigned at ingestion. A document may
+ * carry several (e.g. a land dispute that is also a succession matter).
+ */
+export type LegalArea =
+  | "administrative"
+  | "banking_finance"
+  | "commercial"
+  | "constitutional"
+  | "criminal"
+  | "employment"
+  | "environmental"
+  | "family"
+  | "human_rights"
+  | "intellectual_property"
+  | "land"
+  | "procurement"
+  | "tax";
+
 // Table structure in hierarchical nodes
 export interface HierarchicalTable {
   rows: string[][];
@@ -117,10 +161,25 @@ export interface Document {
   case_parties?: string;
   judgment_date?: string;
   judges?: Array<{ name: string; title: string }>;
+  legal_areas?: LegalArea[];
+  // Bill fields (document_type === "bill")
+  bill_number?: string;
+  bill_year?: number;
+  bill_sponsor?: string;
+  bill_stage?: BillStage;
+  /** Stage history, oldest first. */
+  bill_stage_history?: BillStageEvent[];
+  /** The Act this bill became once assented. */
+  resulting_act_id?: string;
+  resulting_act_title?: string;
   ai_summary?: string;
   status: DocumentStatus;
   version_number: number;
   is_latest_version: boolean;
+  /** Date this version came into force (legislation only). */
+  valid_from?: string | null;
+  /** Date this version was superseded; null while still in force. */
+  valid_to?: string | null;
   hierarchical_structure?: HierarchicalNode;
   ocr_confidence_score?: number;
   validation_score?: number;
@@ -133,6 +192,22 @@ export interface Document {
   published_at?: string;
 }
 
+/**
+ * One entry in a document's version history. Versions are consolidations
+ * of the same Act/Regulation; `valid_from`/`valid_to` bound the period
+ * each version was the law in force.
+ */
+export interface DocumentVersionSummary {
+  version_number: number;
+  is_latest_version: boolean;
+  valid_from?: string | null;
+  valid_to?: string | null;
+  /** The amending instrument that produced this version, if known. */
+  amended_by_id?: string | null;
+  amended_by_title?: string | null;
+  published_at?: string | null;
+}
+
 // Paginated response wrapper
 export interface PaginatedResponse<T> {
   items: T[];
@@ -148,6 +223,10 @@ export interface DocumentFilters {
   year_from?: number;
   year_to?: number;
   court_level?: string;
+  /** Judge name; matches any member of the coram (judgments only). */
+  judge?: string;
+  bill_stage?: BillStage;
+  legal_area?: LegalArea;
   search?: string;
   title_starts_with?: string;
   status?: DocumentStatus;
@@ -164,6 +243,7 @@ export interface SearchParams {
   year_from?: number;
   year_to?: number;
   court_level?: string[];
+  legal_area?: LegalArea[];
   page?: number;
   size?: number;
 }
@@ -204,6 +284,7 @@ export interface SearchResponse {
     years: Record<string, number>;
     courts: Record<string, number>;
     statuses: Record<string, number>;
+    legal_areas?: Record<string, number>;
   };
 }
 
@@ -426,6 +507,9 @@ export interface ConversationSummary {
   title: string | null;
   is_starred?: boolean;
   is_archived?: boolean;
+  /** User-defined folder, e.g. a client matter. */
+  folder?: string | null;
+  tags?: string[];
   created_at: string;
   updated_at: string;
   message_count: number;
@@ -472,6 +556,7 @@ export interface SearchFacets {
   document_types: FacetItem[];
   years: FacetItem[];
   court_levels: FacetItem[];
+  legal_areas: FacetItem[];
 }
 
 export interface FacetItem {
@@ -218,6 +218,12 @@ const documentThemes: Record<
     badge: "constitution",
     accent: "ll-doc-accent-constitution",
   },
+  // Bills aren't law yet, so they borrow the neutral badge rather than
+  // one of the authority colours.
+  bill: {
+    badge: "secondary",
+    accent: "ll-doc-accent-bill",
+  },
   // Internal KB docs reuse the neutral "secondary" badge variant — they
   // don't fit into the Ugandan legal hierarchy color scheme. The Lock
   // icon + the "Internal" label do the corpus identification.
@@ -316,6 +322,8 @@ export function getDocumentAccentClass(type: DocumentType) {
       return "ll-status-text-high";
     case "constitution":
       return "ll-status-text-medium";
+    case "bill":
+      return "text-muted-foreground";
     case "organization_document":
       // Internal KB docs use a distinct blue accent so they're spottable
       // at a glance against the legal-corpus icons (act/judgment etc.).
@@ -346,6 +354,8 @@ export function getDocumentTypeLabel(type: DocumentType): string {
       return "Regulation";
     case "constitution":
       return "Constitution";
+    case "bill":
+      return "Bill";
     case "organization_document":
       return "Internal";
     case "web":
@@ -12,6 +12,14 @@ export {
   useAllDocumentsByType,
   useDocumentsByType,
   useDocumentAknXml,
+  useDocumentVersions,
+  useDocumentVersion,
+  useDocumentAsAt,
+  useAvailableJudges,
+  useJudgeJudgments,
+  useLegalAreaCounts,
+  useCitingDocuments,
+  useCitedAuthorities,
 } from "./use-documents";
 export { useThrottledValue, useThrottledState } from "./use-throttled-value";
 export {
@@ -10,6 +10,14 @@ import {
   getRepositoryStats,
   getDocumentsByType,
   getDocumentAknXml,
+  getDocumentVersions,
+  getDocumentVersion,
+  getDocumentAsAt,
+  getAvailableJudges,
+  getAllJudgmentsByJudge,
+  getLegalAreaCounts,
+  getCitingDocuments,
+  getCitedAuthorities,
 } from "@/lib/api";
 import type { DocumentFilters, DocumentType } from "@/lib/api/types";
 
@@ -25,6 +33,44 @@ export function useDocument(id: string | null) {
   });
 }
 
+/**
+ * Hook to fetch a document's version history
+ */
+export function useDocumentVersions(id: string | null) {
+  return useQuery({
+    queryKey: ["document", id, "versions"],
+    queryFn: () => getDocumentVersions(id!),
+    enabled: !!id,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch one specific version of a document
+ */
+export function useDocumentVersion(id: string | null, versionNumber: number | null) {
+  return useQuery({
+    queryKey: ["document", id, "version", versionNumber],
+    queryFn: () => getDocumentVersion(id!, versionNumber!),
+    enabled: !!id && versionNumber !== null,
+    staleTime: 30 * 60 * 1000, // historical versions never change
+  });
+}
+
+/**
+ * Hook to fetch the version of a document in force on `date` (YYYY-MM-DD).
+ * Disabled when no date is given so the page falls back to the latest text.
+ */
+export function useDocumentAsAt(id: string | null, date: string | null) {
+  return useQuery({
+    queryKey: ["document", id, "as-at", date],
+    queryFn: () => getDocumentAsAt(id!, date!),
+    enabled: !!id && !!date,
+    staleTime: 30 * 60 * 1000,
+    retry: 0,
+  });
+}
+
 /**
  * Hook to pre-flight check whether a document's PDF is reachable.
  *
@@ -117,3 +163,61 @@ export function useDocumentAknXml(id: string | null, enabled: boolean = true) {
     retry: 1, // Only retry once if it fails
   });
 }
+
+/**
+ * Hook to fetch the judges who appear on published judgments
+ */
+export function useAvailableJudges() {
+  return useQuery({
+    queryKey: ["judges"],
+    queryFn: getAvailableJudges,
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch every judgment a judge sat on
+ */
+export function useJudgeJudgments(judge: string | null) {
+  return useQuery({
+    queryKey: ["documents", "judge", judge],
+    queryFn: () => getAllJudgmentsByJudge(judge!),
+    enabled: !!judge,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch per-legal-area document counts, optionally for one type
+ */
+export function useLegalAreaCounts(documentType?: DocumentType) {
+  return useQuery({
+    queryKey: ["legal-areas", documentType ?? "all"],
+    queryFn: () => getLegalAreaCounts(documentType),
+    staleTime: 30 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch documents citing a document, or one section of it
+ */
+export function useCitingDocuments(id: string | null, aknEid?: string | null) {
+  return useQuery({
+    queryKey: ["citations", "cited-by", id, aknEid ?? null],
+    queryFn: () => getCitingDocuments(id!, aknEid),
+    enabled: !!id,
+    staleTime: 10 * 60 * 1000,
+  });
+}
+
+/**
+ * Hook to fetch the authorities a document cites
+ */
+export function useCitedAuthorities(id: string | null) {
+  return useQuery({
+    queryKey: ["citations", "cites", id],
+    queryFn: () => getCitedAuthorities(id!),
+    enabled: !!id,
+    staleTime: 10 * 60 * 1000,
+  });
+}
@@ -3,6 +3,7 @@
 import { useQuery } from "@tanstack/react-query";
 import { useSearchParams } from "next/navigation";
 import { searchDocuments, semanticSearch, hybridSearch } from "@/lib/api";
+import { parseLegalAreas } from "@/lib/utils/legal-areas";
 import type {
   SearchResponse,
   SemanticSearchResponse,
@@ -32,6 +33,7 @@ export function useSearch(options: UseSearchOptions = {}) {
     ? parseInt(searchParams.get("year_to")!, 10)
     : undefined;
   const courtLevels = searchParams.get("court")?.split(",");
+  const legalAreas = parseLegalAreas(searchParams.get("area"));
 
   // Keyword search
   const keywordQuery = useQuery({
@@ -44,6 +46,7 @@ export function useSearch(options: UseSearchOptions = {}) {
       yearFrom,
       yearTo,
       courtLevels,
+      legalAreas,
     ],
     queryFn: () =>
       searchDocuments({
@@ -54,6 +57,7 @@ export function useSearch(options: UseSearchOptions = {}) {
         year_from: yearFrom,
         year_to: yearTo,
         court_level: courtLevels,
+        legal_area: legalAreas,
       }),
     enabled: !!query && mode === "keyword" && options.enabled !== false,
     staleTime: 5 * 60 * 1000, // 5 minutes
@@ -122,6 +126,7 @@ export function useSearch(options: UseSearchOptions = {}) {
       yearFrom,
       yearTo,
       courtLevels,
+      legalAreas,
     },
     data: getResult(),
     isLoading,
@@ -0,0 +1,71 @@
+/**
+ * Offline Database
+ *
+ * One IndexedDB database backs offline reading: the `documents` store
+ * holds saved documents (structure + PDF blob) and the `outbox` store
+ * holds writes made while offline, replayed when the connection returns.
+ * localStorage is too small for PDFs, which is why this isn't a Zustand
+ * persist store like the rest of the client state.
+ */
+
+const DB_NAME = "law-lens-offline";
+const DB_VERSION = 1;
+
+export const DOCUMENTS_STORE = "documents";
+export const OUTBOX_STORE = "outbox";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Let the next call retry (e.g. after the user frees up storage).
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against a store and resolve with its result once the
+ * transaction commits.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = promisify(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
@@ -0,0 +1,56 @@
+/**
+ * Offline Document Cache
+ *
+ * Copies of saved documents kept in IndexedDB so they stay readable
+ * without a connection: the full document (including
+ * `hierarchical_structure`) and, when the document has one, its PDF.
+ */
+
+import type { Document } from "@/lib/api/types";
+import { DOCUMENTS_STORE, isOfflineStorageSupported, withStore } from "./db";
+
+export interface OfflineDocument {
+  id: string;
+  document: Document;
+  /** Null when the document has no PDF or it could not be downloaded. */
+  pdf: Blob | null;
+  /** When this copy was downloaded. */
+  cachedAt: string;
+  /** The document's `updated_at` at download time, used to spot stale copies. */
+  sourceUpdatedAt: string | null;
+}
+
+/** Lightweight view of a cached entry, without the document body or PDF. */
+export interface OfflineDocumentSummary {
+  id: string;
+  cachedAt: string;
+  sourceUpdatedAt: string | null;
+  hasPdf: boolean;
+}
+
+export async function getOfflineDocument(id: string): Promise<OfflineDocument | null> {
+  if (!isOfflineStorageSupported()) return null;
+  const entry = await withStore<OfflineDocument | undefined>(DOCUMENTS_STORE, "readonly", (store) =>
+    store.get(id)
+  );
+  return entry ?? null;
+}
+
+export async function putOfflineDocument(entry: OfflineDocument): Promise<void> {
+  await withStore(DOCUMENTS_STORE, "readwrite", (store) => store.put(entry));
+}
+
+export async function deleteOfflineDocument(id: string): Promise<void> {
+  await withStore(DOCUMENTS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function listOfflineDocuments(): Promise<OfflineDocumentSummary[]> {
+  if (!isOfflineStorageSupported()) return [];
+  const entries = await withStore<OfflineDocument[]>(DOCUMENTS_STORE, "readonly", (store) => store.getAll());
+  return entries.map((entry) => ({
+    id: entry.id,
+    cachedAt: entry.cachedAt,
+    sourceUpdatedAt: entry.sourceUpdatedAt,
+    hasPdf: entry.pdf !== null,
+  }));
+}
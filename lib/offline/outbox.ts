@@ -0,0 +1,189 @@
+/**
+ * Offline Outbox
+ *
+ * Writes made while offline (library notes, highlights) are queued here
+ * and replayed in order when the connection returns. Each feature
+ * registers a handler for its mutation kind; queuing a mutation with the
+ * same kind and key as a pending one replaces it, so only the latest
+ * version of e.g. a note is sent.
+ *
+ * The queue lives in IndexedDB, which every account on the device shares,
+ * so each mutation records who made it and is only replayed for that user.
+ */
+
+import { isRetryableSyncError } from "@/lib/utils/offline-library";
+import { OUTBOX_STORE, isOfflineStorageSupported, withStore } from "./db";
+
+export interface OutboxMutation {
+  id?: number;
+  /** The signed-in user who made the change. */
+  userId: string | null;
+  kind: string;
+  /** Identifies what is being changed; a newer mutation with the same kind and key supersedes older ones. */
+  key: string;
+  payload: unknown;
+  createdAt: string;
+}
+
+type OutboxHandler = (payload: unknown) => Promise<void>;
+
+/**
+ * Thrown by a handler that can't send its mutation yet (e.g. the ids it
+ * needs aren't loaded). The mutation stays queued and the rest of the
+ * queue is still sent.
+ */
+export class OutboxNotReadyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OutboxNotReadyError";
+  }
+}
+
+const handlers = new Map<string, OutboxHandler>();
+let flushing: Promise<number> | null = null;
+let currentUserId: string | null = null;
+
+/** Callers of submitOfflineMutation waiting on their mutation, by its id. */
+const waiters = new Map<number, { resolve: () => void; reject: (error: unknown) => void }>();
+
+function settle(id: number, error?: unknown): void {
+  const waiter = waiters.get(id);
+  if (!waiter) return;
+  waiters.delete(id);
+  if (error === undefined) waiter.resolve();
+  else waiter.reject(error);
+}
+
+export function registerOutboxHandler(kind: string, handler: OutboxHandler): void {
+  handlers.set(kind, handler);
+}
+
+/** Set whose mutations are queued and replayed; null when signed out. */
+export function setOutboxUser(userId: string | null): void {
+  currentUserId = userId;
+}
+
+async function listAllMutations(): Promise<OutboxMutation[]> {
+  return withStore<OutboxMutation[]>(OUTBOX_STORE, "readonly", (store) => store.getAll());
+}
+
+/** The current user's queued mutations, oldest first. */
+export async function listOutboxMutations(): Promise<OutboxMutation[]> {
+  if (!isOfflineStorageSupported() || !currentUserId) return [];
+  return (await listAllMutations()).filter((mutation) => mutation.userId === currentUserId);
+}
+
+/** Drop every queued mutation, for all users. Called on logout. */
+export async function clearOutbox(): Promise<void> {
+  if (!isOfflineStorageSupported()) return;
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.clear());
+  // The changes were discarded, not rejected, so there is nothing to report.
+  waiters.clear();
+}
+
+async function deleteMutation(id: number): Promise<void> {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/**
+ * Queue a write to send once online. Callers that are online should
+ * still queue and then call `flushOutbox()`, so a request that fails
+ * mid-flight is not lost. Resolves with the queued mutation's id.
+ */
+export async function enqueueOfflineMutation(
+  kind: string,
+  key: string,
+  payload: unknown
+): Promise<number | undefined> {
+  if (!isOfflineStorageSupported()) return undefined;
+  const pending = await listOutboxMutations();
+  for (const mutation of pending) {
+    if (mutation.kind === kind && mutation.key === key && mutation.id !== undefined) {
+      await deleteMutation(mutation.id);
+      // Superseded by the newer change, which its caller waits on instead.
+      settle(mutation.id);
+    }
+  }
+  const entry: OutboxMutation = {
+    userId: currentUserId,
+    kind,
+    key,
+    payload,
+    createdAt: new Date().toISOString(),
+  };
+  return (await withStore(OUTBOX_STORE, "readwrite", (store) => store.add(entry))) as number;
+}
+
+/**
+ * Queue a write and try to send it straight away. When IndexedDB is
+ * unavailable (e.g. some private browsing modes) the handler is called
+ * directly instead, so the write still goes through while online.
+ *
+ * Resolves once the write is sent (or superseded by a newer one for the
+ * same key) and rejects if the server refuses it, so callers can undo
+ * their optimistic update. While offline it stays pending until a later
+ * flush gets an answer.
+ */
+export async function submitOfflineMutation(kind: string, key: string, payload: unknown): Promise<void> {
+  let id: number | undefined;
+  try {
+    if (!isOfflineStorageSupported()) throw new Error("Offline storage unavailable");
+    id = await enqueueOfflineMutation(kind, key, payload);
+  } catch {
+    await handlers.get(kind)?.(payload);
+    return;
+  }
+  if (id === undefined) return;
+  const mutationId = id;
+  const settled = new Promise<void>((resolve, reject) => {
+    waiters.set(mutationId, { resolve, reject });
+  });
+  try {
+    await flushOutbox();
+    // A flush already under way may have read the queue before this write.
+    if (waiters.has(mutationId)) await flushOutbox();
+  } catch (error) {
+    waiters.delete(mutationId);
+    throw error;
+  }
+  return settled;
+}
+
+async function drain(): Promise<number> {
+  const pending = await listOutboxMutations();
+  let sent = 0;
+  for (const mutation of pending) {
+    const handler = handlers.get(mutation.kind);
+    // A handler registers when its feature's module loads; leave the
+    // mutation queued until then.
+    if (!handler || mutation.id === undefined) continue;
+    let rejection: unknown;
+    try {
+      await handler(mutation.payload);
+      sent++;
+    } catch (error) {
+      if (error instanceof OutboxNotReadyError) continue;
+      // Connectivity or server trouble: stop and keep the rest in order.
+      if (isRetryableSyncError(error)) break;
+      console.warn(`Dropping offline ${mutation.kind} change the server rejected:`, error);
+      rejection = error ?? new Error("Rejected by the server");
+    }
+    await deleteMutation(mutation.id);
+    settle(mutation.id, rejection);
+  }
+  return sent;
+}
+
+/**
+ * Send queued writes. Concurrent calls share one run. Resolves with the
+ * number of mutations sent.
+ */
+export function flushOutbox(): Promise<number> {
+  if (!isOfflineStorageSupported()) return Promise.resolve(0);
+  if (!flushing) {
+    flushing = drain().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
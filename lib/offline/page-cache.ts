@@ -0,0 +1,32 @@
+/**
+ * Offline Page Cache
+ *
+ * The service worker (public/sw.js) keeps the last copy of each saved
+ * document's page so the reader can boot offline. The page is warmed
+ * here when a document is downloaded, and the cache is dropped on
+ * logout since it holds the signed-in user's pages.
+ */
+
+/** Must match PAGES_CACHE in public/sw.js. */
+const PAGES_CACHE = "law-lens-pages-v2";
+
+function isPageCacheSupported(): boolean {
+  return typeof window !== "undefined" && "caches" in window;
+}
+
+/** Fetch a document's page into the cache so it opens offline. */
+export async function warmOfflinePage(documentId: string): Promise<void> {
+  if (!isPageCacheSupported()) return;
+  try {
+    const cache = await caches.open(PAGES_CACHE);
+    await cache.add(`/document/${documentId}`);
+  } catch {
+    // The reader still works from IndexedDB once the app shell is cached
+  }
+}
+
+/** Drop every cached page. Called on logout. */
+export async function clearOfflinePages(): Promise<void> {
+  if (!isPageCacheSupported()) return;
+  await caches.delete(PAGES_CACHE);
+}
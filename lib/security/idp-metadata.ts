@@ -0,0 +1,275 @@
+/**
+ * Client-side helpers for the SSO configuration flow in
+ * ``app/admin/security``.
+ *
+ * - **IdP metadata** — admins usually have a SAML metadata XML file
+ *   rather than the individual values, so ``parseIdpMetadata`` pulls
+ *   the entity ID, SSO URL and signing certificate out of it.
+ * - **Certificate expiry** — an expired IdP signing certificate breaks
+ *   every SSO login for the organization. ``checkCertificateExpiry``
+ *   reads the X.509 validity window straight from the DER bytes so the
+ *   dialog can block an expired cert and warn on one that is close to
+ *   expiring, before anything is saved.
+ * - **IP allowlist** — syntax check for IPv4/IPv6 addresses and CIDR
+ *   ranges.
+ *
+ * The backend re-validates everything; these exist for immediate
+ * feedback in the dialog.
+ */
+
+export class IdpMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "IdpMetadataError";
+  }
+}
+
+export interface ParsedIdpMetadata {
+  entityId: string;
+  ssoUrl: string;
+  /** SAML binding of ``ssoUrl`` (HTTP-Redirect preferred, then HTTP-POST). */
+  binding: string | null;
+  /** Signing certificate as PEM, or null if the metadata has none. */
+  certificate: string | null;
+}
+
+const SAML_BINDING_PREFERENCE = [
+  "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect",
+  "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST",
+];
+
+/** Days before expiry at which a certificate is reported as ``expiring``. */
+export const CERTIFICATE_WARNING_DAYS = 30;
+
+/**
+ * Parse SAML 2.0 IdP metadata XML. Throws ``IdpMetadataError`` with a
+ * user-presentable message when the document is not usable.
+ */
+export function parseIdpMetadata(xml: string): ParsedIdpMetadata {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new IdpMetadataError("The metadata file is not valid XML.");
+  }
+
+  // Aggregated metadata can wrap several EntityDescriptors; take the
+  // first one that actually describes an IdP.
+  const descriptors = Array.from(doc.getElementsByTagNameNS("*", "EntityDescriptor"));
+  const entity = descriptors.find(
+    (el) => el.getElementsByTagNameNS("*", "IDPSSODescriptor").length > 0
+  );
+  if (!entity) {
+    throw new IdpMetadataError("No identity provider (IDPSSODescriptor) found in the metadata.");
+  }
+
+  const entityId = entity.getAttribute("entityID")?.trim();
+  if (!entityId) {
+    throw new IdpMetadataError("The metadata is missing the IdP entity ID.");
+  }
+
+  const idp = entity.getElementsByTagNameNS("*", "IDPSSODescriptor")[0];
+  const services = Array.from(idp.getElementsByTagNameNS("*", "SingleSignOnService"));
+  const service =
+    SAML_BINDING_PREFERENCE.map((binding) =>
+      services.find((s) => s.getAttribute("Binding") === binding)
+    ).find(Boolean) ?? services[0];
+  const ssoUrl = service?.getAttribute("Location")?.trim();
+  if (!service || !ssoUrl) {
+    throw new IdpMetadataError("The metadata is missing a SingleSignOnService location.");
+  }
+
+  // Prefer an explicit signing key; a KeyDescriptor without `use` is
+  // valid for both signing and encryption.
+  const keys = Array.from(idp.getElementsByTagNameNS("*", "KeyDescriptor"));
+  const signingKey =
+    keys.find((k) => k.getAttribute("use") === "signing") ??
+    keys.find((k) => !k.getAttribute("use"));
+  const certText = signingKey
+    ?.getElementsByTagNameNS("*", "X509Certificate")[0]
+    ?.textContent?.replace(/\s+/g, "");
+
+  return {
+    entityId,
+    ssoUrl,
+    binding: service.getAttribute("Binding"),
+    certificate: certText ? toPem(certText) : null,
+  };
+}
+
+/** Wrap bare base64 DER in PEM armour with 64-character lines. */
+export function toPem(base64: string): string {
+  const body = base64.replace(/\s+/g, "").match(/.{1,64}/g)?.join("\n") ?? "";
+  return `-----BEGIN CERTIFICATE-----\n${body}\n-----END CERTIFICATE-----`;
+}
+
+export interface CertificateValidity {
+  notBefore: Date;
+  notAfter: Date;
+}
+
+export type CertificateExpiryStatus = "valid" | "expiring" | "expired" | "not_yet_valid";
+
+export interface CertificateExpiryCheck extends CertificateValidity {
+  status: CertificateExpiryStatus;
+  /** Whole days until ``notAfter`` (negative once expired). */
+  daysRemaining: number;
+}
+
+interface DerElement {
+  tag: number;
+  start: number;
+  end: number;
+}
+
+function readDerElement(bytes: Uint8Array, offset: number): DerElement {
+  if (offset + 2 > bytes.length) {
+    throw new IdpMetadataError("The certificate is truncated.");
+  }
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let start = offset + 2;
+  if (length & 0x80) {
+    const octets = length & 0x7f;
+    if (octets === 0 || octets > 4) {
+      throw new IdpMetadataError("The certificate uses an unsupported length encoding.");
+    }
+    length = 0;
+    for (let i = 0; i < octets; i++) {
+      length = length * 256 + bytes[start + i];
+    }
+    start += octets;
+  }
+  if (start + length > bytes.length) {
+    throw new IdpMetadataError("The certificate is truncated.");
+  }
+  return { tag, start, end: start + length };
+}
+
+function parseDerTime(bytes: Uint8Array, el: DerElement): Date {
+  const text = String.fromCharCode(...bytes.subarray(el.start, el.end));
+  // UTCTime: YYMMDDHHMMSSZ, GeneralizedTime: YYYYMMDDHHMMSSZ
+  const match =
+    el.tag === 0x17
+      ? text.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/)
+      : el.tag === 0x18
+      ? text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/)
+      : null;
+  if (!match) {
+    throw new IdpMetadataError("The certificate validity dates could not be read.");
+  }
+  let year = Number(match[1]);
+  if (el.tag === 0x17) {
+    // RFC 5280: two-digit years 50-99 are 19xx, 00-49 are 20xx
+    year += year >= 50 ? 1900 : 2000;
+  }
+  return new Date(
+    Date.UTC(
+      year,
+      Number(match[2]) - 1,
+      Number(match[3]),
+      Number(match[4]),
+      Number(match[5]),
+      Number(match[6])
+    )
+  );
+}
+
+/**
+ * Read the validity window from a PEM or bare base64 X.509 certificate.
+ */
+export function getCertificateValidity(certificate: string): CertificateValidity {
+  const base64 = certificate
+    .replace(/-----(BEGIN|END) CERTIFICATE-----/g, "")
+    .replace(/\s+/g, "");
+  let binary: string;
+  try {
+    binary = atob(base64);
+  } catch {
+    throw new IdpMetadataError("The certificate is not valid base64.");
+  }
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+
+  // Certificate ::= SEQUENCE { tbsCertificate SEQUENCE { ... } ... }
+  const cert = readDerElement(bytes, 0);
+  const tbs = readDerElement(bytes, cert.start);
+  if (cert.tag !== 0x30 || tbs.tag !== 0x30) {
+    throw new IdpMetadataError("The certificate is not an X.509 certificate.");
+  }
+
+  // tbsCertificate: [0] version (optional), serialNumber, signature,
+  // issuer, validity
+  let el = readDerElement(bytes, tbs.start);
+  if (el.tag === 0xa0) {
+    el = readDerElement(bytes, el.end);
+  }
+  for (let i = 0; i < 3; i++) {
+    el = readDerElement(bytes, el.end);
+  }
+  if (el.tag !== 0x30) {
+    throw new IdpMetadataError("The certificate validity dates could not be read.");
+  }
+  const notBefore = readDerElement(bytes, el.start);
+  const notAfter = readDerElement(bytes, notBefore.end);
+  return {
+    notBefore: parseDerTime(bytes, notBefore),
+    notAfter: parseDerTime(bytes, notAfter),
+  };
+}
+
+/**
+ * Classify a certificate against ``now``. Throws ``IdpMetadataError``
+ * when the certificate cannot be parsed.
+ */
+export function checkCertificateExpiry(
+  certificate: string,
+  now: Date = new Date(),
+  warningDays: number = CERTIFICATE_WARNING_DAYS
+): CertificateExpiryCheck {
+  const validity = getCertificateValidity(certificate);
+  const daysRemaining = Math.floor(
+    (validity.notAfter.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)
+  );
+
+  let status: CertificateExpiryStatus = "valid";
+  if (now < validity.notBefore) {
+    status = "not_yet_valid";
+  } else if (now >= validity.notAfter) {
+    status = "expired";
+  } else if (daysRemaining < warningDays) {
+    status = "expiring";
+  }
+
+  return { ...validity, status, daysRemaining };
+}
+
+const IPV4_PATTERN = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+function isValidIpv6(address: string): boolean {
+  if (!/^[0-9a-fA-F:.]+$/.test(address) || address.split("::").length > 2) {
+    return false;
+  }
+  // An embedded IPv4 tail counts as two groups
+  let groups = address.split(":");
+  const tail = groups[groups.length - 1];
+  if (tail.includes(".")) {
+    if (!IPV4_PATTERN.test(tail)) return false;
+    groups = [...groups.slice(0, -1), "0", "0"];
+  }
+  const compressed = address.includes("::");
+  const filled = groups.filter((g) => g !== "");
+  if (filled.some((g) => !/^[0-9a-fA-F]{1,4}$/.test(g))) return false;
+  return compressed ? filled.length < 8 : filled.length === 8;
+}
+
+/**
+ * Check an allowlist entry: a single IPv4/IPv6 address or a CIDR range.
+ */
+export function isValidIpOrCidr(entry: string): boolean {
+  const [address, prefix, ...rest] = entry.trim().split("/");
+  if (rest.length > 0 || !address) return false;
+
+  const isV4 = IPV4_PATTERN.test(address);
+  if (!isV4 && !isValidIpv6(address)) return false;
+  if (prefix === undefined) return true;
+  if (!/^\d{1,3}$/.test(prefix)) return false;
+  return Number(prefix) <= (isV4 ? 32 : 128);
+}
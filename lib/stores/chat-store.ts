@@ -30,6 +30,9 @@ export interface Conversation {
   // New fields for better management
   isArchived?: boolean;
   isStarred?: boolean;
+  /** User-defined folder, e.g. a client matter. */
+  folder?: string | null;
+  tags?: string[];
 }
 
 interface ChatState {
@@ -56,6 +59,8 @@ interface ChatState {
   unarchiveConversation: (id: string) => void;
   starConversation: (id: string) => void;
   unstarConversation: (id: string) => void;
+  moveConversationToFolder: (id: string, folder: string | null) => void;
+  setConversationTags: (id: string, tags: string[]) => void;
   addMessage: (conversationId: string, message: ChatMessage) => void;
   updateLastMessage: (
     conversationId: string,
@@ -356,6 +361,38 @@ export const useChatStore = create<ChatState>()(
         });
       },
 
+      moveConversationToFolder: (id, folder) => {
+        // Optimistic update - don't update updatedAt for metadata changes
+        set((state) => ({
+          conversations: state.conversations.map((conv) =>
+            conv.id === id
+              ? { ...conv, folder }
+              : conv
+          ),
+        }));
+
+        // Persist to backend
+        updateConversation(id, { folder }).catch((error) => {
+          console.error("Failed to persist folder:", error);
+        });
+      },
+
+      setConversationTags: (id, tags) => {
+        // Optimistic update - don't update updatedAt for metadata changes
+        set((state) => ({
+          conversations: state.conversations.map((conv) =>
+            conv.id === id
+              ? { ...conv, tags }
+              : conv
+          ),
+        }));
+
+        // Persist to backend
+        updateConversation(id, { tags }).catch((error) => {
+          console.error("Failed to persist tags:", error);
+        });
+      },
+
       addMessage: (conversationId, message) => {
         set((state) => {
           // Check if conversation exists
@@ -542,6 +579,8 @@ export const useChatStore = create<ChatState>()(
                         || backendIsNewer,
                     isStarred: backendConv.is_starred ?? localConv.isStarred,
                     isArchived: backendConv.is_archived ?? localConv.isArchived,
+                    folder: backendConv.folder !== undefined ? backendConv.folder : localConv.folder,
+                    tags: backendConv.tags ?? localConv.tags,
                     updatedAt: backendConv.updated_at,
                     scope: backendConv.scope ?? localConv.scope,
                   };
@@ -569,6 +608,8 @@ export const useChatStore = create<ChatState>()(
               needsHydration: true,
               isArchived: summary.is_archived ?? false,
               isStarred: summary.is_starred ?? false,
+              folder: summary.folder ?? null,
+              tags: summary.tags ?? [],
             }));
 
             mergedConversations = [...newBackendConversations, ...mergedConversations];
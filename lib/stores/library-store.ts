@@ -10,6 +10,8 @@
  * - Backend: Collections API → cross-device sync, permanent storage
  * - On save/unsave: optimistic local update, then background API sync
  * - On login: hydrate local store from backend collections
+ * - Notes edits go through the offline outbox so changes made without a
+ *   connection are sent when it returns
  */
 
 import { create } from "zustand";
@@ -17,6 +19,14 @@ import { persist } from "zustand/middleware";
 import type { DocumentType } from "@/lib/api/types";
 import { collectionsApi } from "@/lib/api/collections";
 import type { CollectionItem } from "@/lib/api/collections";
+import {
+  OutboxNotReadyError,
+  flushOutbox,
+  listOutboxMutations,
+  registerOutboxHandler,
+  setOutboxUser,
+  submitOfflineMutation,
+} from "@/lib/offline/outbox";
 
 const DEFAULT_COLLECTION_NAME = "My Library";
 
@@ -72,6 +82,13 @@ interface LibraryState {
   clearHistory: () => void;
 }
 
+const NOTES_MUTATION = "library_notes";
+
+interface NotesMutation {
+  documentId: string;
+  notes: string;
+}
+
 const getStorageKey = (userId: string | null) =>
   userId ? `law-lens-library-${userId}` : "law-lens-library-anonymous";
 
@@ -82,8 +99,12 @@ const getStorageKey = (userId: string | null) =>
 async function ensureDefaultCollection(): Promise<string | null> {
   try {
     const collections = await collectionsApi.getAll();
+    // Shared collections can carry the same name; only sync into our own
     const defaultCol = collections.find(
-      (c) => c.name === DEFAULT_COLLECTION_NAME
+      (c) =>
+        c.name === DEFAULT_COLLECTION_NAME &&
+        c.my_role === "owner" &&
+        c.visibility === "private"
     );
     if (defaultCol) return defaultCol.id;
 
@@ -130,6 +151,8 @@ export const useLibraryStore = create<LibraryState>()(
 
       setUserId: (userId) => {
         const currentUserId = get().userId;
+        // Queued edits belong to the signed-in user, not the device
+        setOutboxUser(userId);
 
         if (currentUserId !== userId) {
           let newSavedDocuments: SavedDocument[] = [];
@@ -197,10 +220,20 @@ export const useLibraryStore = create<LibraryState>()(
             backendItems.map((i) => i.document_id).filter((id): id is string => Boolean(id))
           );
 
+          // Notes edited offline and not yet sent win over the backend copy
+          const pendingNotes = new Map(
+            (await listOutboxMutations())
+              .filter((m) => m.kind === NOTES_MUTATION)
+              .map((m) => [m.key, (m.payload as NotesMutation).notes])
+          );
+
           // Convert backend items to SavedDocuments (drops research items via the null filter)
           const backendSaved = backendItems
             .map(collectionItemToSaved)
-            .filter((doc): doc is SavedDocument => doc !== null);
+            .filter((doc): doc is SavedDocument => doc !== null)
+            .map((doc) =>
+              pendingNotes.has(doc.id) ? { ...doc, notes: pendingNotes.get(doc.id) } : doc
+            );
 
           // Merge: keep backend items + local-only items
           const merged: SavedDocument[] = [...backendSaved];
@@ -234,6 +267,9 @@ export const useLibraryStore = create<LibraryState>()(
           );
 
           set({ savedDocuments: merged, _syncInProgress: false });
+
+          // Item ids are known now, so queued notes can be sent
+          void flushOutbox().catch(() => {});
         } catch (error) {
           console.warn("Library sync failed:", error);
           set({ _syncInProgress: false });
@@ -337,6 +373,10 @@ export const useLibraryStore = create<LibraryState>()(
             doc.id === documentId ? { ...doc, notes } : doc
           ),
         }));
+
+        // Background: queue for the backend, then try to send right away
+        const mutation: NotesMutation = { documentId, notes };
+        void submitOfflineMutation(NOTES_MUTATION, documentId, mutation).catch(() => {});
       },
 
       // Reading history
@@ -416,6 +456,24 @@ export const useLibraryStore = create<LibraryState>()(
   )
 );
 
+/**
+ * Send a queued notes edit. While the backend collection or item id is
+ * still unknown (first sync after login hasn't finished yet) it stays
+ * queued without holding up the rest of the outbox.
+ */
+registerOutboxHandler(NOTES_MUTATION, async (payload) => {
+  const { documentId, notes } = payload as NotesMutation;
+  const { savedDocuments, _defaultCollectionId } = useLibraryStore.getState();
+  const doc = savedDocuments.find((d) => d.id === documentId);
+  if (!doc) return; // Unsaved since — nothing to update
+  if (!_defaultCollectionId || !doc._collectionItemId) {
+    throw new OutboxNotReadyError("Library not synced yet");
+  }
+  await collectionsApi.updateItem(_defaultCollectionId, doc._collectionItemId, {
+    notes: notes.trim() || null,
+  });
+});
+
 // Convenience hooks
 export const useSavedDocuments = () =>
   useLibraryStore((state) => state.savedDocuments);
@@ -6,6 +6,7 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { pushRecentPaletteEntry, type RecentPaletteEntry } from "@/lib/utils/command-palette";
 
 interface SidebarState {
   isOpen: boolean;
@@ -14,6 +15,10 @@ interface SidebarState {
 
 interface CommandPaletteState {
   isOpen: boolean;
+  /** What the user last picked from the palette, newest first. */
+  recent: RecentPaletteEntry[];
+  /** Whose picks `recent` holds; another user signing in clears them. */
+  recentUserId: string | null;
 }
 
 interface UIState {
@@ -27,6 +32,8 @@ interface UIState {
   commandPalette: CommandPaletteState;
   toggleCommandPalette: () => void;
   setCommandPaletteOpen: (open: boolean) => void;
+  recordCommandPaletteUse: (entry: Omit<RecentPaletteEntry, "usedAt">) => void;
+  setCommandPaletteUser: (userId: string | null) => void;
 
   // Document viewer
   documentFontSize: "small" | "medium" | "large";
@@ -61,13 +68,33 @@ export const useUIStore = create<UIState>()(
       // Command Palette state
       commandPalette: {
         isOpen: false,
+        recent: [],
+        recentUserId: null,
       },
       toggleCommandPalette: () =>
         set((state) => ({
-          commandPalette: { isOpen: !state.commandPalette.isOpen },
+          commandPalette: { ...state.commandPalette, isOpen: !state.commandPalette.isOpen },
         })),
       setCommandPaletteOpen: (open) =>
-        set({ commandPalette: { isOpen: open } }),
+        set((state) => ({
+          commandPalette: { ...state.commandPalette, isOpen: open },
+        })),
+      recordCommandPaletteUse: (entry) =>
+        set((state) => ({
+          commandPalette: {
+            ...state.commandPalette,
+            recent: pushRecentPaletteEntry(state.commandPalette.recent, {
+              ...entry,
+              usedAt: new Date().toISOString(),
+            }),
+          },
+        })),
+      setCommandPaletteUser: (userId) =>
+        set((state) =>
+          state.commandPalette.recentUserId === userId
+            ? state
+            : { commandPalette: { ...state.commandPalette, recent: [], recentUserId: userId } }
+        ),
 
       // Document viewer settings
       documentFontSize: "medium",
@@ -83,6 +110,12 @@ export const useUIStore = create<UIState>()(
         sidebar: state.sidebar,
         documentFontSize: state.documentFontSize,
         preferredSearchMode: state.preferredSearchMode,
+        // Never persist isOpen: the palette shouldn't reopen on reload.
+        commandPalette: {
+          isOpen: false,
+          recent: state.commandPalette.recent,
+          recentUserId: state.commandPalette.recentUserId,
+        },
       }),
     }
   )
@@ -0,0 +1,124 @@
+/**
+ * Annotation helpers: building anchors from a selection, finding them
+ * again in (possibly re-ingested) section text, filtering and export.
+ */
+
+import type { Annotation, AnnotationAnchor, HighlightColor } from "@/lib/api/annotations";
+
+export const HIGHLIGHT_COLORS: HighlightColor[] = ["yellow", "green", "blue", "pink", "purple"];
+
+export const HIGHLIGHT_COLOR_LABELS: Record<HighlightColor, string> = {
+  yellow: "Yellow",
+  green: "Green",
+  blue: "Blue",
+  pink: "Pink",
+  purple: "Purple",
+};
+
+/** Characters of context kept either side of the quote. */
+export const ANCHOR_CONTEXT_LENGTH = 32;
+
+export function buildAnchor(
+  text: string,
+  start: number,
+  end: number,
+  aknEid: string | null
+): AnnotationAnchor {
+  return {
+    akn_eid: aknEid,
+    start_offset: start,
+    end_offset: end,
+    quote: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - ANCHOR_CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + ANCHOR_CONTEXT_LENGTH),
+  };
+}
+
+function commonSuffixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[a.length - 1 - n] === b[b.length - 1 - n]) n++;
+  return n;
+}
+
+function commonPrefixLength(a: string, b: string): number {
+  let n = 0;
+  while (n < a.length && n < b.length && a[n] === b[n]) n++;
+  return n;
+}
+
+/**
+ * Locate an anchor in the current text of its section. Offsets are used
+ * as-is while they still point at the quote; otherwise every occurrence
+ * of the quote is scored by how much of the stored prefix/suffix context
+ * matches around it, ties going to the occurrence nearest the original
+ * offset. Returns null when the quote no longer appears at all.
+ */
+export function reanchor(text: string, anchor: AnnotationAnchor): { start: number; end: number } | null {
+  const { quote, prefix, suffix, start_offset } = anchor;
+  if (!quote) return null;
+  if (text.slice(start_offset, start_offset + quote.length) === quote) {
+    return { start: start_offset, end: start_offset + quote.length };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  for (let index = text.indexOf(quote); index !== -1; index = text.indexOf(quote, index + 1)) {
+    const before = text.slice(Math.max(0, index - prefix.length), index);
+    const after = text.slice(index + quote.length, index + quote.length + suffix.length);
+    const score = commonSuffixLength(before, prefix) + commonPrefixLength(after, suffix);
+    const distance = Math.abs(index - start_offset);
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, score, distance };
+    }
+  }
+
+  return best ? { start: best.start, end: best.start + quote.length } : null;
+}
+
+export interface AnnotationFilters {
+  color: HighlightColor | "all";
+  withNotesOnly: boolean;
+  query: string;
+}
+
+export function filterAnnotations(annotations: Annotation[], filters: AnnotationFilters): Annotation[] {
+  const query = filters.query.trim().toLowerCase();
+  return annotations.filter((annotation) => {
+    if (filters.color !== "all" && annotation.color !== filters.color) return false;
+    if (filters.withNotesOnly && !annotation.note?.trim()) return false;
+    if (!query) return true;
+    return [annotation.quote, annotation.note, annotation.section_label].some((value) =>
+      value?.toLowerCase().includes(query)
+    );
+  });
+}
+
+export function annotationsToMarkdown(annotations: Annotation[], documentTitle: string): string {
+  const lines = [`# Annotations: ${documentTitle}`, ""];
+  for (const annotation of annotations) {
+    const heading = annotation.section_label || "Document";
+    lines.push(`## ${heading} (${HIGHLIGHT_COLOR_LABELS[annotation.color]})`, "");
+    lines.push(...annotation.quote.split("\n").map((line) => `> ${line}`), "");
+    if (annotation.note?.trim()) {
+      lines.push(annotation.note.trim(), "");
+    }
+  }
+  return lines.join("\n");
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function annotationsToCsv(annotations: Annotation[]): string {
+  const rows = [["Section", "Colour", "Highlighted text", "Note", "Created"]];
+  for (const annotation of annotations) {
+    rows.push([
+      annotation.section_label ?? "",
+      HIGHLIGHT_COLOR_LABELS[annotation.color],
+      annotation.quote,
+      annotation.note ?? "",
+      annotation.created_at,
+    ]);
+  }
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n");
+}
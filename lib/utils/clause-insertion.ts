@@ -0,0 +1,79 @@
+/**
+ * Insert library clauses into the contract drafting canvas.
+ *
+ * The canvas only keeps edits made inside a section's
+ * `[data-contract-body]` (see parseContractDocumentHtml), so a clause
+ * always lands in one: after the block holding the caret when the
+ * caret was in a section, otherwise at the end of the focused section,
+ * otherwise at the end of the last one.
+ */
+
+import { sanitizeRichHtml } from "@/lib/utils/rich-text";
+
+/**
+ * The caret position in `editor`, cloned so it survives focus moving
+ * to a dialog. Null when the selection is outside the editor.
+ */
+export function captureEditorRange(editor: HTMLElement | null): Range | null {
+  if (!editor || typeof window === "undefined") return null;
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  return editor.contains(range.startContainer) ? range.cloneRange() : null;
+}
+
+function bodyOf(section: Element | null): HTMLElement | null {
+  return section?.querySelector<HTMLElement>("[data-contract-body]") ?? null;
+}
+
+/**
+ * Insert `clauseHtml` into the canvas and notify it of the edit.
+ * Returns the id of the section that received the clause, or null
+ * when the document has no sections.
+ */
+export function insertClauseIntoContractCanvas(
+  editor: HTMLElement,
+  clauseHtml: string,
+  options: { range?: Range | null; sectionId?: string | null } = {}
+): string | null {
+  const sections = Array.from(
+    editor.querySelectorAll<HTMLElement>("[data-contract-part='section'][data-section-id]")
+  );
+  if (sections.length === 0) return null;
+
+  const fragment = document.createRange().createContextualFragment(sanitizeRichHtml(clauseHtml));
+
+  const caretNode = options.range?.startContainer ?? null;
+  const caretElement =
+    caretNode && editor.contains(caretNode)
+      ? caretNode instanceof Element
+        ? caretNode
+        : caretNode.parentElement
+      : null;
+  const caretBody = caretElement?.closest<HTMLElement>("[data-contract-body]") ?? null;
+
+  let target: HTMLElement;
+  if (caretBody && caretElement) {
+    // Insert between blocks rather than splitting the paragraph the
+    // caret sits in.
+    let block: Element = caretElement;
+    while (block.parentElement && block.parentElement !== caretBody) block = block.parentElement;
+    if (block === caretBody) {
+      caretBody.appendChild(fragment);
+    } else {
+      block.after(fragment);
+    }
+    target = caretBody;
+  } else {
+    const focused = options.sectionId
+      ? sections.find((section) => section.dataset.sectionId === options.sectionId)
+      : undefined;
+    const body = bodyOf(focused ?? sections[sections.length - 1]);
+    if (!body) return null;
+    body.appendChild(fragment);
+    target = body;
+  }
+
+  editor.dispatchEvent(new InputEvent("input", { bubbles: true, inputType: "insertFromPaste", data: null }));
+  return target.closest<HTMLElement>("[data-section-id]")?.dataset.sectionId ?? null;
+}
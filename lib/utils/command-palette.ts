@@ -0,0 +1,95 @@
+/**
+ * Query parsing and ranking for the command palette.
+ *
+ * The palette turns free text into action commands ("cap 95" → open
+ * that Act, "research …" → start deep research) and lists live
+ * results with the most recently used or updated ones first. Pure
+ * functions so the rules are testable without the dialog.
+ */
+
+export type PaletteIntent =
+  | { kind: "open_chapter"; chapter: string }
+  | { kind: "research"; topic: string };
+
+/** Something the user picked from the palette, remembered for "Recent". */
+export interface RecentPaletteEntry {
+  /** Stable key, e.g. "conversation:<id>" or "search:<query>". */
+  id: string;
+  label: string;
+  href: string;
+  kind: "search" | "document" | "conversation" | "research" | "collection" | "page";
+  usedAt: string;
+}
+
+export const MAX_RECENT_PALETTE_ENTRIES = 8;
+
+// "cap 95", "Cap. 95", "chapter 95", "open act cap 95A"
+const CHAPTER_PATTERN = /^(?:open\s+)?(?:the\s+)?(?:act\s+)?(?:cap(?:ter)?\.?|chapter)\s*(\d+[a-z]?)$/i;
+// "research land tenure", "deep research on …", "start deep research on …"
+const RESEARCH_PATTERN = /^(?:start\s+)?(?:deep\s+)?research(?:\s+on)?\s+(.+)$/i;
+
+const MIN_RESEARCH_TOPIC_LENGTH = 3;
+
+/**
+ * Action commands the typed text asks for. Any text long enough to be
+ * a topic also offers deep research on it, so the user doesn't have to
+ * know the "research …" prefix.
+ */
+export function parsePaletteIntents(input: string): PaletteIntent[] {
+  const text = input.trim().replace(/\s+/g, " ");
+  if (!text) return [];
+
+  const chapter = text.match(CHAPTER_PATTERN);
+  if (chapter) {
+    return [{ kind: "open_chapter", chapter: chapter[1]!.toUpperCase() }];
+  }
+
+  const research = text.match(RESEARCH_PATTERN);
+  const topic = (research ? research[1]! : text).trim();
+  return topic.length >= MIN_RESEARCH_TOPIC_LENGTH ? [{ kind: "research", topic }] : [];
+}
+
+/** True when every word of `query` appears in `text`, case-insensitively. */
+export function matchesQuery(text: string, query: string): boolean {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((token) => haystack.includes(token));
+}
+
+/**
+ * Items matching `query`, most recent first. Items without a parseable
+ * timestamp sort last, keeping their original order.
+ */
+export function rankByRecency<T>(
+  items: T[],
+  options: {
+    query: string;
+    text: (item: T) => string;
+    timestamp: (item: T) => string | null | undefined;
+    limit: number;
+  }
+): T[] {
+  const time = (item: T) => {
+    const value = options.timestamp(item);
+    const parsed = value ? Date.parse(value) : NaN;
+    return Number.isNaN(parsed) ? -Infinity : parsed;
+  };
+  return items
+    .filter((item) => matchesQuery(options.text(item), options.query))
+    .map((item, index) => ({ item, index, time: time(item) }))
+    .sort((a, b) => b.time - a.time || a.index - b.index)
+    .slice(0, options.limit)
+    .map(({ item }) => item);
+}
+
+/** Put `entry` at the front of the recent list, dropping any older copy. */
+export function pushRecentPaletteEntry(
+  entries: RecentPaletteEntry[],
+  entry: RecentPaletteEntry,
+  max = MAX_RECENT_PALETTE_ENTRIES
+): RecentPaletteEntry[] {
+  return [entry, ...entries.filter((existing) => existing.id !== entry.id)].slice(0, max);
+}
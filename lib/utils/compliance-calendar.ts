@@ -0,0 +1,191 @@
+/**
+ * Compliance calendar: projects recurring obligation due dates and task
+ * deadlines onto month and quarter views, and builds filtered iCal feed URLs.
+ */
+
+import type { ObligationResponse, TaskResponse } from "@/lib/api/compliance";
+import { getRecurrencePattern } from "./compliance-recurrence";
+
+export type CalendarView = "month" | "quarter";
+
+export interface CalendarEntry {
+  /** Unique per occurrence: recurring obligations repeat their source id. */
+  key: string;
+  kind: "obligation" | "task";
+  sourceId: string;
+  title: string;
+  /** Local calendar day, `YYYY-MM-DD`. */
+  date: string;
+  regulator: string | null;
+  ownerUserId: string | null;
+  overdue: boolean;
+}
+
+export interface CalendarFilters {
+  regulator: string | null;
+  ownerUserId: string | null;
+}
+
+/** Stops a bad recurrence pattern from looping over a wide range. */
+const MAX_OCCURRENCES = 400;
+
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Parse the day part of an ISO date or timestamp as a local date. */
+export function parseDateKey(value: string): Date {
+  const [year, month, day] = value.slice(0, 10).split("-").map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function addMonthsClamped(date: Date, months: number, dayOfMonth: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(dayOfMonth, lastDay));
+  return target;
+}
+
+/**
+ * Due dates of an obligation that fall within [from, to], following its
+ * recurrence forward from `next_due_date`. Repeats land on the configured
+ * `day_of_month`, else on the day of `next_due_date`; 31 means the last
+ * day of the month (31 Jan → 28 Feb → 31 Mar).
+ */
+export function projectDueDates(
+  obligation: Pick<ObligationResponse, "next_due_date" | "recurrence_pattern"> &
+    Partial<Pick<ObligationResponse, "recurrence_config">>,
+  from: Date,
+  to: Date
+): Date[] {
+  if (!obligation.next_due_date) return [];
+  const first = parseDateKey(obligation.next_due_date);
+  const recurrence = getRecurrencePattern(obligation.recurrence_pattern);
+  const months = recurrence?.months;
+  const stepDays = recurrence?.days;
+  const dayOfMonth = obligation.recurrence_config?.day_of_month ?? first.getDate();
+
+  if (!months && !stepDays) {
+    return first >= from && first <= to ? [first] : [];
+  }
+
+  const dates: Date[] = [];
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = months
+      ? i === 0
+        ? first
+        : addMonthsClamped(first, months * i, dayOfMonth)
+      : new Date(first.getFullYear(), first.getMonth(), first.getDate() + (stepDays ?? 0) * i);
+    if (date > to) break;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+}
+
+/** Obligation occurrences and open task deadlines within [from, to], by date. */
+export function buildCalendarEntries(
+  obligations: ObligationResponse[],
+  tasks: TaskResponse[],
+  from: Date,
+  to: Date,
+  today: Date = new Date()
+): CalendarEntry[] {
+  const todayKey = toDateKey(today);
+  const entries: CalendarEntry[] = [];
+
+  for (const obligation of obligations) {
+    if (!obligation.is_active) continue;
+    for (const date of projectDueDates(obligation, from, to)) {
+      const key = toDateKey(date);
+      entries.push({
+        key: `obligation:${obligation.id}:${key}`,
+        kind: "obligation",
+        sourceId: obligation.id,
+        title: obligation.title,
+        date: key,
+        regulator: obligation.governing_regulator,
+        ownerUserId: obligation.assigned_user_id,
+        overdue: key < todayKey,
+      });
+    }
+  }
+
+  for (const task of tasks) {
+    if (!task.due_date || task.status === "completed" || task.status === "cancelled") continue;
+    const date = parseDateKey(task.due_date);
+    if (date < from || date > to) continue;
+    const key = toDateKey(date);
+    entries.push({
+      key: `task:${task.id}`,
+      kind: "task",
+      sourceId: task.id,
+      title: task.title,
+      date: key,
+      regulator: null,
+      ownerUserId: task.assigned_user_id,
+      overdue: key < todayKey,
+    });
+  }
+
+  return entries.sort((a, b) => a.date.localeCompare(b.date) || a.title.localeCompare(b.title));
+}
+
+/**
+ * Apply the regulator and owner filters. Tasks have no regulator, so a
+ * regulator filter leaves only obligations.
+ */
+export function filterCalendarEntries(entries: CalendarEntry[], filters: CalendarFilters): CalendarEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!filters.regulator || entry.regulator === filters.regulator) &&
+      (!filters.ownerUserId || entry.ownerUserId === filters.ownerUserId)
+  );
+}
+
+/** The months shown for a view; quarters are calendar quarters. */
+export function calendarMonths(view: CalendarView, anchor: Date): Date[] {
+  if (view === "month") return [new Date(anchor.getFullYear(), anchor.getMonth(), 1)];
+  const firstMonth = Math.floor(anchor.getMonth() / 3) * 3;
+  return [0, 1, 2].map((offset) => new Date(anchor.getFullYear(), firstMonth + offset, 1));
+}
+
+/** Move the anchor one view forward (1) or back (-1). */
+export function shiftAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  return new Date(anchor.getFullYear(), anchor.getMonth() + direction * (view === "month" ? 1 : 3), 1);
+}
+
+/**
+ * Day cells for a month grid, Monday first, padded with the neighbouring
+ * months' days to whole weeks.
+ */
+export function monthGridDays(month: Date): Date[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const leading = (first.getDay() + 6) % 7;
+  const trailing = 6 - ((last.getDay() + 6) % 7);
+  const days: Date[] = [];
+  for (let offset = -leading; offset < last.getDate() + trailing; offset++) {
+    days.push(new Date(first.getFullYear(), first.getMonth(), 1 + offset));
+  }
+  return days;
+}
+
+/**
+ * The user's feed URL with the chosen filters. Calendar apps subscribe
+ * to the URL as-is, so filters have to live in the query string.
+ */
+export function buildCalendarFeedUrl(feedUrl: string, filters: CalendarFilters): string {
+  const url = new URL(feedUrl);
+  url.searchParams.delete("regulator");
+  url.searchParams.delete("owner");
+  if (filters.regulator) url.searchParams.set("regulator", filters.regulator);
+  if (filters.ownerUserId) url.searchParams.set("owner", filters.ownerUserId);
+  return url.toString();
+}
+
+/** `webcal://` opens the subscribe prompt in Outlook and Apple Calendar. */
+export function toWebcalUrl(feedUrl: string): string {
+  return feedUrl.replace(/^https?:\/\//, "webcal://");
+}
@@ -0,0 +1,177 @@
+/**
+ * Finding triage rules: which status changes are allowed, what each one
+ * needs, and how findings' free-form evidence and remediation text are read.
+ */
+
+import type { FindingResponse } from "@/lib/api/compliance";
+
+export interface FindingTransition {
+  to: string;
+  /** Action label, e.g. "Accept risk" rather than the raw status. */
+  label: string;
+  /** Prompt shown above the justification field. */
+  prompt: string;
+}
+
+const START_REVIEW: FindingTransition = {
+  to: "under_review",
+  label: "Start review",
+  prompt: "What are you checking?",
+};
+const CONFIRM: FindingTransition = {
+  to: "confirmed",
+  label: "Confirm exposure",
+  prompt: "Why does this finding apply to the organisation?",
+};
+const DISPUTE: FindingTransition = {
+  to: "dismissed",
+  label: "Dispute",
+  prompt: "Why doesn't this finding apply?",
+};
+const ACCEPT_RISK: FindingTransition = {
+  to: "accepted",
+  label: "Accept risk",
+  prompt: "Why is the organisation accepting this risk, and who signed off?",
+};
+const RENEW_ACCEPTANCE: FindingTransition = {
+  to: "accepted",
+  label: "Renew acceptance",
+  prompt: "Why is the risk still acceptable, and who signed off on the renewal?",
+};
+const RESOLVE: FindingTransition = {
+  to: "mitigated",
+  label: "Mark resolved",
+  prompt: "How was the exposure remediated?",
+};
+const REOPEN: FindingTransition = {
+  to: "under_review",
+  label: "Reopen",
+  prompt: "Why does this finding need another look?",
+};
+
+/** Allowed moves out of each finding status. */
+export const FINDING_TRANSITIONS: Record<string, FindingTransition[]> = {
+  identified: [START_REVIEW, CONFIRM, DISPUTE],
+  under_review: [CONFIRM, DISPUTE],
+  confirmed: [RESOLVE, ACCEPT_RISK, DISPUTE],
+  accepted: [RESOLVE, RENEW_ACCEPTANCE, REOPEN],
+  mitigated: [REOPEN],
+  dismissed: [REOPEN],
+};
+
+export function getFindingTransitions(status: string): FindingTransition[] {
+  return FINDING_TRANSITIONS[status] ?? [];
+}
+
+export const MIN_JUSTIFICATION_LENGTH = 10;
+
+/** Longest a risk acceptance can run before it must be re-reviewed. */
+export const MAX_RISK_ACCEPTANCE_DAYS = 365;
+
+/**
+ * Check a transition before it's sent. Returns a message for the first
+ * problem, or null when the transition can go ahead.
+ */
+export function validateFindingTransition(
+  fromStatus: string,
+  input: { status: string; justification: string; risk_acceptance_expires_at?: string | null },
+  today: Date = new Date()
+): string | null {
+  if (!getFindingTransitions(fromStatus).some((t) => t.to === input.status)) {
+    return `A ${fromStatus.replace(/_/g, " ")} finding can't be moved to ${input.status.replace(/_/g, " ")}.`;
+  }
+  if (input.justification.trim().length < MIN_JUSTIFICATION_LENGTH) {
+    return `Give a justification of at least ${MIN_JUSTIFICATION_LENGTH} characters.`;
+  }
+  if (input.status !== "accepted") return null;
+
+  if (!input.risk_acceptance_expires_at) {
+    return "Set a date when this risk acceptance expires.";
+  }
+  const expiry = new Date(`${input.risk_acceptance_expires_at.slice(0, 10)}T00:00:00`);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const days = Math.round((expiry.getTime() - start.getTime()) / 86_400_000);
+  if (Number.isNaN(days) || days < 1) {
+    return "The risk acceptance must expire after today.";
+  }
+  if (days > MAX_RISK_ACCEPTANCE_DAYS) {
+    return `Risk can be accepted for at most ${MAX_RISK_ACCEPTANCE_DAYS} days.`;
+  }
+  return null;
+}
+
+/** An accepted finding whose acceptance window has passed and needs re-review. */
+export function isRiskAcceptanceExpired(
+  finding: Pick<FindingResponse, "status" | "risk_acceptance_expires_at">,
+  now: Date = new Date()
+): boolean {
+  if (finding.status !== "accepted" || !finding.risk_acceptance_expires_at) return false;
+  return new Date(finding.risk_acceptance_expires_at).getTime() <= now.getTime();
+}
+
+export interface EvidencePassage {
+  text: string;
+  /** Where the passage comes from, e.g. the regulation or document title. */
+  source: string | null;
+  section: string | null;
+  /** Set when the passage is from the impacted internal document. */
+  chunkIndex: number | null;
+}
+
+function firstString(raw: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = raw[key];
+    if (typeof value === "string" && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+/**
+ * Read an evidence passage. The assessment pipeline has stored these
+ * under a few different key names, so take the first one present.
+ */
+export function normalizeEvidencePassage(raw: Record<string, unknown>): EvidencePassage | null {
+  const text = firstString(raw, ["text", "passage", "content", "excerpt", "chunk_text"]);
+  if (!text) return null;
+  const chunkIndex = raw.chunk_index;
+  return {
+    text,
+    source: firstString(raw, ["source", "document_title", "title", "citation"]),
+    section: firstString(raw, ["section", "section_heading", "section_label"]),
+    chunkIndex: typeof chunkIndex === "number" ? chunkIndex : null,
+  };
+}
+
+const MAX_STEP_TITLE_LENGTH = 120;
+
+/**
+ * Split remediation guidance into one step per numbered or bulleted
+ * line. Guidance without a list is a single step.
+ */
+export function remediationSteps(guidance: string | null | undefined): string[] {
+  if (!guidance?.trim()) return [];
+  const listItem = /^\s*(?:\d+[.)]|[-*•])\s+/;
+  const lines = guidance.split("\n");
+  const steps = lines
+    .filter((line) => listItem.test(line))
+    .map((line) => line.replace(listItem, "").trim())
+    .filter(Boolean);
+  return steps.length > 0 ? steps : [guidance.trim()];
+}
+
+/** A task title for a remediation step, truncated at a word boundary. */
+export function remediationTaskTitle(step: string): string {
+  const text = step.replace(/\s+/g, " ").trim();
+  if (text.length <= MAX_STEP_TITLE_LENGTH) return text;
+  const cut = text.slice(0, MAX_STEP_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${(lastSpace > 40 ? cut.slice(0, lastSpace) : cut).replace(/[,;:.]$/, "")}…`;
+}
+
+/**
+ * Indices of the steps that don't have a task yet, matched by title;
+ * the default selection when generating remediation tasks.
+ */
+export function stepsWithoutTasks(steps: string[], taskTitles: Set<string>): number[] {
+  return steps.flatMap((step, index) => (taskTitles.has(remediationTaskTitle(step)) ? [] : [index]));
+}
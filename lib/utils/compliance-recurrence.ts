@@ -0,0 +1,48 @@
+/**
+ * Obligation recurrence patterns, shared by the register form, the
+ * spreadsheet import and the compliance calendar so they agree on what
+ * each pattern means.
+ */
+
+export interface RecurrencePattern {
+  value: string;
+  label: string;
+  /** Months between occurrences, for calendar-month schedules. */
+  months?: number;
+  /** Days between occurrences, for weekly schedules. */
+  days?: number;
+  /** What one cycle is called in due-date rules, e.g. "quarter end". */
+  period?: string;
+}
+
+export const RECURRENCE_PATTERNS: RecurrencePattern[] = [
+  { value: "one_time", label: "One time" },
+  { value: "weekly", label: "Weekly", days: 7 },
+  { value: "fortnightly", label: "Fortnightly", days: 14 },
+  { value: "monthly", label: "Monthly", months: 1, period: "month" },
+  { value: "quarterly", label: "Quarterly", months: 3, period: "quarter" },
+  { value: "bi_annual", label: "Twice a year", months: 6, period: "half-year" },
+  { value: "annual", label: "Annually", months: 12, period: "year" },
+];
+
+/** Older spellings some obligations were stored with. */
+const PATTERN_SYNONYMS: Record<string, string> = {
+  semi_annual: "bi_annual",
+  annually: "annual",
+};
+
+/** The canonical value for a stored pattern; unknown patterns pass through. */
+export function normalizeRecurrence(pattern: string | null | undefined): string {
+  if (!pattern) return "one_time";
+  return PATTERN_SYNONYMS[pattern] ?? pattern;
+}
+
+export function getRecurrencePattern(pattern: string | null | undefined): RecurrencePattern | undefined {
+  const value = normalizeRecurrence(pattern);
+  return RECURRENCE_PATTERNS.find((option) => option.value === value);
+}
+
+/** Whether the pattern repeats per calendar period, so a due-date rule applies. */
+export function isPeriodicRecurrence(pattern: string | null | undefined): boolean {
+  return !!getRecurrencePattern(pattern)?.period;
+}
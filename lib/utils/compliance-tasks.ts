@@ -0,0 +1,93 @@
+/**
+ * Compliance task workflow rules shared by the task list and detail views.
+ */
+
+import type { TaskComment, TaskResponse } from "@/lib/api/compliance";
+
+export const TASK_TYPE_OPTIONS = [
+  { value: "remediation", label: "Remediation" },
+  { value: "review", label: "Review" },
+  { value: "filing", label: "Regulatory filing" },
+  { value: "evidence_collection", label: "Evidence collection" },
+  { value: "policy_update", label: "Policy update" },
+  { value: "other", label: "Other" },
+];
+
+/** Task priorities are 1–10 server-side; the list flags anything above 5 as high. */
+export const TASK_PRIORITY_OPTIONS = [
+  { value: 3, label: "Low" },
+  { value: 5, label: "Medium" },
+  { value: 8, label: "High" },
+];
+
+/** Default priority for a task raised from a finding of this severity. */
+export function priorityForSeverity(severity: string | null | undefined): number {
+  switch ((severity ?? "").toLowerCase()) {
+    case "critical":
+    case "high":
+      return 8;
+    case "medium":
+      return 5;
+    default:
+      return 3;
+  }
+}
+
+export interface CommentThread extends TaskComment {
+  replies: CommentThread[];
+}
+
+/**
+ * Nest flat task comments into threads, oldest first at every level.
+ * Replies whose parent was deleted are promoted to the top level.
+ */
+export function buildCommentThreads(comments: TaskComment[]): CommentThread[] {
+  const sorted = [...comments].sort(
+    (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+  const byId = new Map<string, CommentThread>(
+    sorted.map((comment) => [comment.id, { ...comment, replies: [] }])
+  );
+
+  const roots: CommentThread[] = [];
+  for (const thread of byId.values()) {
+    const parent = thread.parent_id ? byId.get(thread.parent_id) : undefined;
+    if (parent) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  }
+  return roots;
+}
+
+export interface ApprovalEligibility {
+  canApprove: boolean;
+  /** Why the current user can't approve, when the task is awaiting approval. */
+  reason: string | null;
+}
+
+/**
+ * Maker-checker: a submitted task must be approved by someone other than
+ * its assignee and whoever submitted it.
+ */
+export function getApprovalEligibility(
+  task: Pick<TaskResponse, "approval_status" | "assigned_user_id" | "submitted_by_user_id">,
+  userId: string | null | undefined
+): ApprovalEligibility {
+  if (task.approval_status !== "pending" || !userId) {
+    return { canApprove: false, reason: null };
+  }
+  if (userId === task.assigned_user_id) {
+    return { canApprove: false, reason: "You're assigned to this task, so another team member must approve it." };
+  }
+  if (userId === task.submitted_by_user_id) {
+    return { canApprove: false, reason: "You submitted this task, so another team member must approve it." };
+  }
+  return { canApprove: true, reason: null };
+}
+
+/** Whether the task can be submitted for approval (it isn't done or already waiting). */
+export function canSubmitTask(task: Pick<TaskResponse, "status" | "approval_status">): boolean {
+  return task.status !== "completed" && task.approval_status !== "pending";
+}
@@ -0,0 +1,83 @@
+/**
+ * Sorting and filtering for the batch-review portfolio matrix. The
+ * server applies the same rules when exporting, so a download matches
+ * what is on screen.
+ */
+
+import type {
+  ContractPortfolioSortKey,
+  ContractPortfolioView,
+  ContractReviewBatchItem,
+} from "@/lib/api/contracts";
+
+function sortValue(
+  item: ContractReviewBatchItem,
+  key: ContractPortfolioSortKey
+): string | number | null {
+  switch (key) {
+    case "filename":
+      return item.filename.toLowerCase();
+    case "missing_clause_count":
+      return item.job_status === "complete" ? item.missing_clauses.length : null;
+    default:
+      return item[key];
+  }
+}
+
+function matchesView(item: ContractReviewBatchItem, view: ContractPortfolioView): boolean {
+  if (view.status && item.status !== view.status) return false;
+  if (view.critical_only && !item.critical_issue_count) return false;
+  const needle = view.search?.trim().toLowerCase();
+  if (needle) {
+    const haystack = [
+      item.filename,
+      item.contract_type ?? "",
+      ...item.missing_clauses,
+    ]
+      .join(" ")
+      .replace(/_/g, " ")
+      .toLowerCase();
+    if (!haystack.includes(needle)) return false;
+  }
+  return true;
+}
+
+/**
+ * Filter and sort batch rows. Rows without a value for the sort column
+ * (reviews still running or failed) always go last, whichever the
+ * direction, so finished contracts stay together at the top.
+ */
+export function applyPortfolioView(
+  items: ContractReviewBatchItem[],
+  view: ContractPortfolioView
+): ContractReviewBatchItem[] {
+  const factor = view.direction === "asc" ? 1 : -1;
+  return items
+    .filter((item) => matchesView(item, view))
+    .map((item, index) => ({ item, index, value: sortValue(item, view.sort) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        if (a.value === b.value) return a.index - b.index;
+        return a.value === null ? 1 : -1;
+      }
+      if (a.value < b.value) return -factor;
+      if (a.value > b.value) return factor;
+      return a.index - b.index;
+    })
+    .map(({ item }) => item);
+}
+
+/** Missing clauses flagged in more than one contract, most common first. */
+export function commonMissingClauses(
+  items: ContractReviewBatchItem[]
+): Array<{ clause: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    for (const clause of new Set(item.missing_clauses)) {
+      counts.set(clause, (counts.get(clause) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([clause, count]) => ({ clause, count }))
+    .filter((entry) => entry.count > 1)
+    .sort((a, b) => b.count - a.count || a.clause.localeCompare(b.clause));
+}
@@ -0,0 +1,148 @@
+/**
+ * Comparison of two reviews of the same contract — typically the
+ * original upload and a revised version.
+ *
+ * Findings are free text written by the reviewer model, so the same
+ * issue rarely comes back word-for-word on a re-review. Items are paired
+ * on word overlap instead of exact equality: each finding in the newer
+ * review is matched to the most similar unmatched finding in the older
+ * one, and only pairs above SIMILARITY_THRESHOLD count as "unchanged".
+ */
+
+import type {
+  ContractReviewLegalIssue,
+  ContractReviewResult,
+  ContractReviewRisk,
+} from "@/lib/api/contracts";
+
+export interface FindingDiff<T> {
+  /** In the earlier review only — addressed by the revision. */
+  resolved: T[];
+  /** In the newer review only — introduced by the revision. */
+  introduced: T[];
+  /** Present in both; `before` is the earlier wording. */
+  unchanged: Array<{ before: T; after: T }>;
+}
+
+export type ReviewScoreKey =
+  | "overall_score"
+  | "completeness_score"
+  | "compliance_score"
+  | "consistency_score";
+
+export interface ScoreDelta {
+  key: ReviewScoreKey;
+  before: number;
+  after: number;
+  delta: number;
+}
+
+export interface ContractReviewComparison {
+  scores: ScoreDelta[];
+  legal_issues: FindingDiff<ContractReviewLegalIssue>;
+  risks: FindingDiff<ContractReviewRisk>;
+  missing_clauses: FindingDiff<string>;
+}
+
+const SCORE_KEYS: ReviewScoreKey[] = [
+  "overall_score",
+  "completeness_score",
+  "compliance_score",
+  "consistency_score",
+];
+
+/** Minimum Jaccard overlap of significant words for two findings to pair. */
+const SIMILARITY_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "be", "by", "for", "from", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "with",
+]);
+
+function tokenize(value: string): Set<string> {
+  return new Set(
+    value
+      .toLowerCase()
+      .replace(/_/g, " ")
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 0 && !STOP_WORDS.has(word))
+  );
+}
+
+/** Jaccard similarity of the significant words in two strings, 0–1. */
+export function findingSimilarity(a: string, b: string): number {
+  const left = tokenize(a);
+  const right = tokenize(b);
+  if (left.size === 0 && right.size === 0) return 1;
+  let shared = 0;
+  for (const word of left) {
+    if (right.has(word)) shared += 1;
+  }
+  return shared / (left.size + right.size - shared);
+}
+
+/**
+ * Pair findings across two reviews. `toText` picks the fields that
+ * identify a finding; anything not paired is resolved or introduced.
+ */
+export function diffFindings<T>(
+  before: T[],
+  after: T[],
+  toText: (item: T) => string
+): FindingDiff<T> {
+  const beforeTexts = before.map(toText);
+  const matchedBefore = new Set<number>();
+  const unchanged: FindingDiff<T>["unchanged"] = [];
+  const introduced: T[] = [];
+
+  for (const item of after) {
+    const text = toText(item);
+    let bestIndex = -1;
+    let bestScore = SIMILARITY_THRESHOLD;
+    beforeTexts.forEach((candidate, index) => {
+      if (matchedBefore.has(index)) return;
+      const score = findingSimilarity(text, candidate);
+      if (score >= bestScore) {
+        bestIndex = index;
+        bestScore = score;
+      }
+    });
+    if (bestIndex === -1) {
+      introduced.push(item);
+    } else {
+      matchedBefore.add(bestIndex);
+      unchanged.push({ before: before[bestIndex]!, after: item });
+    }
+  }
+
+  return {
+    resolved: before.filter((_, index) => !matchedBefore.has(index)),
+    introduced,
+    unchanged,
+  };
+}
+
+export function compareContractReviews(
+  previous: ContractReviewResult,
+  current: ContractReviewResult
+): ContractReviewComparison {
+  return {
+    scores: SCORE_KEYS.map((key) => ({
+      key,
+      before: previous[key],
+      after: current[key],
+      delta: current[key] - previous[key],
+    })),
+    legal_issues: diffFindings(
+      previous.legal_issues,
+      current.legal_issues,
+      (issue) => `${issue.issue} ${issue.law_reference}`
+    ),
+    risks: diffFindings(previous.risks, current.risks, (risk) => risk.description),
+    missing_clauses: diffFindings(
+      previous.missing_clauses,
+      current.missing_clauses,
+      (clause) => clause
+    ),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Folder, tag and search-snippet helpers for the chat history sidebar.
+ *
+ * Folders are free-text names (typically a client matter) and tags are
+ * short lowercase labels. Both live on the conversation itself, so the
+ * list of folders and tags is derived from the conversations rather
+ * than stored separately.
+ */
+
+export const MAX_FOLDER_NAME_LENGTH = 60;
+export const MAX_TAG_LENGTH = 32;
+
+interface Organizable {
+  folder?: string | null;
+  tags?: string[];
+}
+
+export interface LabelCount {
+  name: string;
+  count: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Trim and collapse whitespace; an empty name means "no folder". */
+export function normalizeFolderName(name: string): string | null {
+  const cleaned = name.trim().replace(/\s+/g, " ").slice(0, MAX_FOLDER_NAME_LENGTH);
+  return cleaned || null;
+}
+
+/** Parse comma-separated tag input: lowercase, no leading "#", no duplicates. */
+export function parseTags(input: string): string[] {
+  const tags = input
+    .split(",")
+    .map((tag) =>
+      tag
+        .trim()
+        .replace(/^#+/, "")
+        .replace(/\s+/g, "-")
+        .toLowerCase()
+        .slice(0, MAX_TAG_LENGTH)
+    )
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+/** Folders in use, alphabetically, with how many conversations each holds. */
+export function summarizeFolders(conversations: Organizable[]): LabelCount[] {
+  const counts = new Map<string, number>();
+  for (const conversation of conversations) {
+    if (conversation.folder) {
+      counts.set(conversation.folder, (counts.get(conversation.folder) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort((a, b) =>
+    a.name.localeCompare(b.name, undefined, { sensitivity: "base" })
+  );
+}
+
+/** Tags in use, most used first. */
+export function summarizeTags(conversations: Organizable[]): LabelCount[] {
+  const counts = new Map<string, number>();
+  for (const conversation of conversations) {
+    for (const tag of conversation.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([name, count]) => ({ name, count })).sort(
+    (a, b) => b.count - a.count || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Split `text` into segments so each occurrence of a query word can be
+ * rendered highlighted. Matching is case-insensitive.
+ */
+export function highlightMatches(text: string, query: string): HighlightSegment[] {
+  const words = Array.from(new Set(query.trim().toLowerCase().split(/\s+/).filter(Boolean)));
+  if (words.length === 0) return [{ text, match: false }];
+
+  const escaped = words
+    .sort((a, b) => b.length - a.length)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  const pattern = new RegExp(`(${escaped.join("|")})`, "gi");
+
+  return text
+    .split(pattern)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: words.includes(part.toLowerCase()) }));
+}
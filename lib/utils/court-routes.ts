@@ -0,0 +1,56 @@
+/**
+ * Map a judgment's free-text `court_level` onto the court collections
+ * served by `app/judgments/[court]`.
+ *
+ * Ingested judgments carry either the route key itself ("supreme") or a
+ * display name ("Supreme Court", "High Court (Commercial Division)"), so
+ * both the court page filter and links into it go through this helper.
+ */
+
+export type CourtRouteId = "supreme" | "court_of_appeal" | "high_court" | "magistrate";
+
+const COURT_ROUTE_IDS: readonly CourtRouteId[] = [
+  "supreme",
+  "court_of_appeal",
+  "high_court",
+  "magistrate",
+];
+
+export const COURT_ROUTE_NAMES: Record<CourtRouteId, string> = {
+  supreme: "Supreme Court",
+  court_of_appeal: "Court of Appeal",
+  high_court: "High Court",
+  magistrate: "Magistrate Courts",
+};
+
+/**
+ * Resolve the court route for a `court_level`, or null for courts that
+ * have no collection page (tribunals, commissions).
+ */
+export function getCourtRouteId(courtLevel: string | null | undefined): CourtRouteId | null {
+  if (!courtLevel) return null;
+  const key = courtLevel.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((COURT_ROUTE_IDS as readonly string[]).includes(key)) {
+    return key as CourtRouteId;
+  }
+  if (key.includes("tribunal") || key.includes("commission")) return null;
+  if (key.startsWith("supreme")) return "supreme";
+  // The Court of Appeal also sits as the Constitutional Court
+  if (key.includes("court_of_appeal") || key.startsWith("constitutional")) return "court_of_appeal";
+  if (key.includes("magistrate")) return "magistrate";
+  // The Industrial Court ranks with the High Court and is listed with it
+  if (
+    key.startsWith("high_court") ||
+    key.includes("division") ||
+    key.startsWith("commercial") ||
+    key.startsWith("industrial")
+  ) {
+    return "high_court";
+  }
+  return null;
+}
+
+/** Profile page for a judge, keyed by display name. */
+export function getJudgeProfileHref(name: string): string {
+  return `/judgments/judges/${encodeURIComponent(name)}`;
+}
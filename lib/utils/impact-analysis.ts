@@ -0,0 +1,85 @@
+/**
+ * Regulatory change impact reports: ordering affected documents and
+ * drafting the policy update task for each one.
+ */
+
+import type {
+  AffectedDocumentImpact,
+  CreateTaskRequest,
+  ImpactLevel,
+  RegulatoryEventResponse,
+} from "@/lib/api/compliance";
+
+const LEVEL_RANK: Record<ImpactLevel, number> = { high: 3, medium: 2, low: 1 };
+
+/** Task priority per impact level, on the same scale as `TASK_PRIORITY_OPTIONS`. */
+const LEVEL_PRIORITY: Record<ImpactLevel, number> = { high: 8, medium: 5, low: 3 };
+
+/** Passages quoted in a task description before "and N more". */
+const MAX_QUOTED_PASSAGES = 5;
+const MAX_QUOTE_LENGTH = 280;
+
+export function conflictCount(doc: Pick<AffectedDocumentImpact, "passages">): number {
+  return doc.passages.filter((p) => p.impact === "conflicts").length;
+}
+
+/**
+ * Most urgent first: impact level, then number of conflicting passages,
+ * then title. Passages within each document are ordered conflicts first,
+ * then by relevance.
+ */
+export function sortImpactDocuments(docs: AffectedDocumentImpact[]): AffectedDocumentImpact[] {
+  return [...docs]
+    .map((doc) => ({
+      ...doc,
+      passages: [...doc.passages].sort(
+        (a, b) =>
+          Number(b.impact === "conflicts") - Number(a.impact === "conflicts") ||
+          b.relevance_score - a.relevance_score
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        LEVEL_RANK[b.impact_level] - LEVEL_RANK[a.impact_level] ||
+        conflictCount(b) - conflictCount(a) ||
+        a.document_title.localeCompare(b.document_title)
+    );
+}
+
+function quote(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > MAX_QUOTE_LENGTH ? `${flat.slice(0, MAX_QUOTE_LENGTH - 1)}…` : flat;
+}
+
+/**
+ * The task raised by "Create policy update task": names the document and
+ * the change, and quotes the passages to revise so the assignee can work
+ * from the task alone.
+ */
+export function policyUpdateTaskDraft(
+  event: Pick<RegulatoryEventResponse, "id" | "title" | "source_url">,
+  doc: AffectedDocumentImpact
+): CreateTaskRequest {
+  const lines = [doc.summary, "", `Regulatory change: ${event.title}`];
+  if (event.source_url) lines.push(`Source: ${event.source_url}`);
+  lines.push("", "Passages to review:");
+  for (const passage of doc.passages.slice(0, MAX_QUOTED_PASSAGES)) {
+    const where = [passage.section_heading, passage.page_number ? `p. ${passage.page_number}` : null]
+      .filter(Boolean)
+      .join(", ");
+    const label = passage.impact === "conflicts" ? "Conflicts" : "Affected";
+    lines.push(`- ${label}${where ? ` (${where})` : ""}: "${quote(passage.text)}"`);
+    if (passage.explanation) lines.push(`  ${passage.explanation}`);
+  }
+  const remaining = doc.passages.length - MAX_QUOTED_PASSAGES;
+  if (remaining > 0) lines.push(`- and ${remaining} more in the impact report`);
+
+  return {
+    title: `Update "${doc.document_title}" for ${event.title}`,
+    description: lines.join("\n").trim(),
+    task_type: "policy_update",
+    priority: LEVEL_PRIORITY[doc.impact_level],
+    regulatory_event_id: event.id,
+    document_id: doc.document_id,
+  };
+}
@@ -0,0 +1,47 @@
+import type { LegalArea } from "@/lib/api/types";
+
+/**
+ * Display order for legal-area filters: the areas most researched in
+ * Ugandan practice first, the narrower specialisms after.
+ */
+export const LEGAL_AREA_ORDER: LegalArea[] = [
+  "land",
+  "employment",
+  "tax",
+  "criminal",
+  "commercial",
+  "family",
+  "constitutional",
+  "administrative",
+  "banking_finance",
+  "procurement",
+  "human_rights",
+  "environmental",
+  "intellectual_property",
+];
+
+export const LEGAL_AREA_LABELS: Record<LegalArea, string> = {
+  administrative: "Administrative",
+  banking_finance: "Banking & Finance",
+  commercial: "Commercial",
+  constitutional: "Constitutional",
+  criminal: "Criminal",
+  employment: "Employment",
+  environmental: "Environmental",
+  family: "Family & Succession",
+  human_rights: "Human Rights",
+  intellectual_property: "Intellectual Property",
+  land: "Land",
+  procurement: "Public Procurement",
+  tax: "Tax",
+};
+
+export function isLegalArea(value: string | null | undefined): value is LegalArea {
+  return !!value && (LEGAL_AREA_ORDER as string[]).includes(value);
+}
+
+/** Parse a comma-separated URL param, dropping unknown areas. */
+export function parseLegalAreas(value: string | null | undefined): LegalArea[] {
+  if (!value) return [];
+  return value.split(",").filter(isLegalArea);
+}
@@ -0,0 +1,79 @@
+/**
+ * Display helpers for matters: item labels and links, timeline grouping
+ * and the matter filter shared by the list views.
+ */
+
+import { format, isSameDay, subDays } from "date-fns";
+import type { MatterItemType, MatterTimelineEvent } from "@/lib/api/matters";
+
+export const MATTER_ITEM_TYPES: MatterItemType[] = [
+  "conversation",
+  "research_session",
+  "contract_session",
+  "kb_document",
+  "collection",
+];
+
+export const MATTER_ITEM_LABELS: Record<MatterItemType, { singular: string; plural: string }> = {
+  conversation: { singular: "Conversation", plural: "Conversations" },
+  research_session: { singular: "Research", plural: "Research" },
+  contract_session: { singular: "Contract", plural: "Contracts" },
+  kb_document: { singular: "Internal document", plural: "Internal documents" },
+  collection: { singular: "Collection", plural: "Collections" },
+};
+
+/** Where an item filed in a matter opens. */
+export function matterItemHref(itemType: MatterItemType, itemId: string): string {
+  switch (itemType) {
+    case "conversation":
+      return `/chat?conversation=${itemId}`;
+    case "research_session":
+      return `/research?session=${itemId}`;
+    case "contract_session":
+      return `/contracts?session=${itemId}`;
+    case "kb_document":
+      // Internal documents have no page of their own; they are previewed
+      // from the knowledge base list.
+      return "/knowledge-base";
+    case "collection":
+      return `/library/${itemId}`;
+  }
+}
+
+/**
+ * Keep only items filed in the selected matter. `matterItemIds` is null
+ * when no matter is selected, which keeps everything.
+ */
+export function filterByMatter<T>(
+  items: T[],
+  getId: (item: T) => string,
+  matterItemIds: Set<string> | null
+): T[] {
+  if (!matterItemIds) return items;
+  return items.filter((item) => matterItemIds.has(getId(item)));
+}
+
+export interface TimelineDay {
+  label: string;
+  events: MatterTimelineEvent[];
+}
+
+/** Group newest-first events into "Today", "Yesterday" and dated days. */
+export function groupTimelineByDay(events: MatterTimelineEvent[], now: Date = new Date()): TimelineDay[] {
+  const days: TimelineDay[] = [];
+  for (const event of events) {
+    const date = new Date(event.occurred_at);
+    const label = isSameDay(date, now)
+      ? "Today"
+      : isSameDay(date, subDays(now, 1))
+        ? "Yesterday"
+        : format(date, "d MMMM yyyy");
+    const last = days[days.length - 1];
+    if (last && last.label === label) {
+      last.events.push(event);
+    } else {
+      days.push({ label, events: [event] });
+    }
+  }
+  return days;
+}
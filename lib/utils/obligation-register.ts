@@ -0,0 +1,312 @@
+/**
+ * Obligation register helpers: recurrence options and descriptions, and
+ * the CSV/XLSX import pipeline (parse → map columns → validate → dedupe).
+ */
+
+import type {
+  CreateObligationRequest,
+  ObligationRecurrenceConfig,
+  ObligationResponse,
+} from "@/lib/api/compliance";
+import { getRecurrencePattern, normalizeRecurrence } from "./compliance-recurrence";
+
+export const OBLIGATION_TYPE_OPTIONS = [
+  { value: "filing", label: "Filing" },
+  { value: "reporting", label: "Reporting" },
+  { value: "payment", label: "Payment" },
+  { value: "renewal", label: "Licence renewal" },
+  { value: "certification", label: "Certification" },
+  { value: "other", label: "Other" },
+];
+
+export const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+export function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  return `${n}${["th", "st", "nd", "rd"][n % 10] ?? "th"}`;
+}
+
+/**
+ * A readable due-date rule, e.g. "15th of the month after quarter end".
+ * Returns null when the config doesn't add anything to the pattern.
+ */
+export function describeRecurrence(pattern: string, config: ObligationRecurrenceConfig | null | undefined): string | null {
+  const period = getRecurrencePattern(pattern)?.period;
+  if (!period || !config?.day_of_month) return null;
+  const value = normalizeRecurrence(pattern);
+  const day = config.day_of_month >= 31 ? "Last day" : ordinal(config.day_of_month);
+
+  if (config.due_rule === "after_period_end") {
+    const months = config.months_after ?? 1;
+    const after = months === 1 ? "the month" : `${months} months`;
+    return `${day} of ${after} after ${period} end`;
+  }
+  if (value === "annual" && config.month_of_year) {
+    return `${day} of ${MONTH_NAMES[config.month_of_year - 1]} each year`;
+  }
+  return `${day} of each ${value === "monthly" ? "month" : `${period}'s final month`}`;
+}
+
+/* ── CSV ─────────────────────────────────────────────── */
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and newlines, and picks comma, semicolon or tab from
+ * the header line since Excel exports vary by locale.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const headerLine = source.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+/* ── Column mapping ──────────────────────────────────── */
+
+export type ImportField =
+  | "title"
+  | "description"
+  | "governing_regulator"
+  | "legislation_reference"
+  | "obligation_type"
+  | "recurrence_pattern"
+  | "next_due_date"
+  | "advance_warning_days"
+  | "assigned_owner_role";
+
+export const IMPORT_FIELDS: Array<{ key: ImportField; label: string; required: boolean; aliases: string[] }> = [
+  { key: "title", label: "Title", required: true, aliases: ["obligation", "requirement", "name"] },
+  { key: "description", label: "Description", required: false, aliases: ["details", "notes"] },
+  { key: "governing_regulator", label: "Regulator", required: false, aliases: ["authority", "agency"] },
+  { key: "legislation_reference", label: "Legislation", required: false, aliases: ["law", "act", "statute", "reference", "section"] },
+  { key: "obligation_type", label: "Type", required: false, aliases: ["category", "kind"] },
+  { key: "recurrence_pattern", label: "Frequency", required: false, aliases: ["recurrence", "recurring", "period"] },
+  { key: "next_due_date", label: "Next due date", required: false, aliases: ["due date", "due", "deadline"] },
+  { key: "advance_warning_days", label: "Warning days", required: false, aliases: ["reminder", "lead time", "notice"] },
+  { key: "assigned_owner_role", label: "Owner role", required: false, aliases: ["owner", "responsible", "role"] },
+];
+
+export type ColumnMapping = Record<ImportField, number | null>;
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/** Match spreadsheet headers to fields by label or common alias. */
+export function guessColumnMapping(columns: string[]): ColumnMapping {
+  const headers = columns.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const field of IMPORT_FIELDS) {
+    const candidates = [field.label, field.key.replace(/_/g, " "), ...field.aliases].map(normalizeHeader);
+    const exact = headers.findIndex((h, i) => !taken.has(i) && candidates.includes(h));
+    const partial =
+      exact >= 0 ? exact : headers.findIndex((h, i) => !taken.has(i) && candidates.some((c) => h.includes(c)));
+    mapping[field.key] = partial >= 0 ? partial : null;
+    if (partial >= 0) taken.add(partial);
+  }
+  return mapping;
+}
+
+/* ── Cell parsing ────────────────────────────────────── */
+
+const RECURRENCE_ALIASES: Record<string, string> = {
+  "one time": "one_time",
+  once: "one_time",
+  "one off": "one_time",
+  adhoc: "one_time",
+  "ad hoc": "one_time",
+  weekly: "weekly",
+  fortnightly: "fortnightly",
+  "every two weeks": "fortnightly",
+  monthly: "monthly",
+  quarterly: "quarterly",
+  "bi annual": "bi_annual",
+  biannual: "bi_annual",
+  "semi annual": "bi_annual",
+  "half yearly": "bi_annual",
+  "twice a year": "bi_annual",
+  annual: "annual",
+  annually: "annual",
+  yearly: "annual",
+};
+
+export function parseRecurrencePattern(value: string): string | null {
+  const key = normalizeHeader(value);
+  if (!key) return "one_time";
+  return RECURRENCE_ALIASES[key] ?? null;
+}
+
+export function parseObligationType(value: string): string {
+  const key = normalizeHeader(value);
+  const match = OBLIGATION_TYPE_OPTIONS.find(
+    (option) => option.value === key || normalizeHeader(option.label) === key || key.startsWith(option.value)
+  );
+  return match?.value ?? "other";
+}
+
+const MONTH_PREFIXES = MONTH_NAMES.map((m) => m.slice(0, 3).toLowerCase());
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Read a due date as `YYYY-MM-DD`. Accepts ISO dates, day-first numeric
+ * dates (as written in Uganda), "15 Jan 2026", "Jan 15, 2026" and Excel
+ * serial day numbers. Returns null when the value isn't a date.
+ */
+export function parseImportDate(value: string): string | null {
+  const text = value.trim();
+  if (!text) return null;
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (match) {
+    const year = Number(match[3]) + (match[3].length === 2 ? 2000 : 0);
+    return isoDate(year, Number(match[2]), Number(match[1]));
+  }
+
+  match = text.match(/^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]+)[\s,-]+(\d{4})$/i);
+  if (match) {
+    const month = MONTH_PREFIXES.indexOf(match[2].slice(0, 3).toLowerCase());
+    return month >= 0 ? isoDate(Number(match[3]), month + 1, Number(match[1])) : null;
+  }
+
+  match = text.match(/^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTH_PREFIXES.indexOf(match[1].slice(0, 3).toLowerCase());
+    return month >= 0 ? isoDate(Number(match[3]), month + 1, Number(match[2])) : null;
+  }
+
+  // Excel stores dates as days since 1899-12-30.
+  if (/^\d{5}(\.\d+)?$/.test(text)) {
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(text)) * 86_400_000);
+    return date.toISOString().slice(0, 10);
+  }
+  return null;
+}
+
+/* ── Validation and duplicates ───────────────────────── */
+
+/** Obligations are duplicates when title and regulator match, ignoring case and punctuation. */
+export function obligationKey(title: string, regulator: string | null | undefined): string {
+  return `${normalizeHeader(title)}|${normalizeHeader(regulator ?? "")}`;
+}
+
+export interface ImportRow {
+  /** 1-based spreadsheet row, counting the header as row 1. */
+  rowNumber: number;
+  data: CreateObligationRequest | null;
+  errors: string[];
+  duplicateOf: "existing" | "file" | null;
+}
+
+const DEFAULT_WARNING_DAYS = 14;
+
+/**
+ * Turn mapped spreadsheet rows into obligation requests, collecting
+ * per-row errors and flagging duplicates of existing obligations or of
+ * earlier rows in the same file.
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  existing: Pick<ObligationResponse, "title" | "governing_regulator">[]
+): ImportRow[] {
+  const existingKeys = new Set(existing.map((ob) => obligationKey(ob.title, ob.governing_regulator)));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (row[column] ?? "").trim();
+    };
+    const errors: string[] = [];
+
+    const title = cell("title");
+    if (!title) errors.push("Title is empty");
+
+    const frequency = cell("recurrence_pattern");
+    const recurrence = parseRecurrencePattern(frequency);
+    if (!recurrence) errors.push(`Unknown frequency "${frequency}"`);
+
+    const dueText = cell("next_due_date");
+    const dueDate = parseImportDate(dueText);
+    if (dueText && !dueDate) errors.push(`Unreadable due date "${dueText}"`);
+
+    const warningText = cell("advance_warning_days");
+    const warningDays = warningText ? Number(warningText) : DEFAULT_WARNING_DAYS;
+    if (!Number.isInteger(warningDays) || warningDays < 0) errors.push(`Warning days must be a whole number`);
+
+    const regulator = cell("governing_regulator") || null;
+    const key = obligationKey(title, regulator);
+    const duplicateOf = !title ? null : existingKeys.has(key) ? "existing" : seen.has(key) ? "file" : null;
+    seen.add(key);
+
+    return {
+      rowNumber: index + 2,
+      errors,
+      duplicateOf,
+      data:
+        errors.length > 0
+          ? null
+          : {
+              title,
+              description: cell("description") || null,
+              governing_regulator: regulator,
+              legislation_reference: cell("legislation_reference") || null,
+              obligation_type: parseObligationType(cell("obligation_type")),
+              recurrence_pattern: recurrence ?? "one_time",
+              next_due_date: dueDate,
+              advance_warning_days: warningDays,
+              assigned_owner_role: cell("assigned_owner_role") || null,
+            },
+    };
+  });
+}
@@ -0,0 +1,47 @@
+/**
+ * Decisions behind the offline library: which saved documents to
+ * download or drop, and which sync failures are worth retrying.
+ */
+
+import { APIError } from "@/lib/api/client";
+import type { OfflineDocumentSummary } from "@/lib/offline/document-cache";
+
+/** Re-download cached copies older than this so amendments reach offline readers. */
+export const OFFLINE_COPY_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface OfflineSyncPlan {
+  /** Saved documents with no copy yet, or a stale one. */
+  download: string[];
+  /** Cached documents that are no longer saved. */
+  remove: string[];
+}
+
+export function planOfflineLibrarySync(
+  savedIds: string[],
+  cached: OfflineDocumentSummary[],
+  now: Date = new Date()
+): OfflineSyncPlan {
+  const saved = new Set(savedIds);
+  const cachedById = new Map(cached.map((entry) => [entry.id, entry]));
+
+  const download = savedIds.filter((id) => {
+    const entry = cachedById.get(id);
+    if (!entry) return true;
+    return now.getTime() - new Date(entry.cachedAt).getTime() > OFFLINE_COPY_MAX_AGE_MS;
+  });
+  const remove = cached.filter((entry) => !saved.has(entry.id)).map((entry) => entry.id);
+
+  return { download, remove };
+}
+
+/**
+ * Whether a failed sync request should stay queued. Network failures
+ * (fetch throws before any response), timeouts, rate limits and server
+ * errors are retried; other 4xx responses mean the server will never
+ * accept the change.
+ */
+export function isRetryableSyncError(error: unknown): boolean {
+  if (!(error instanceof APIError)) return true;
+  if (error.status === 408 || error.status === 429) return true;
+  return error.status >= 500 || error.status === 0;
+}
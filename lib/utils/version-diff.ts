@@ -0,0 +1,239 @@
+/**
+ * Section-by-section comparison of two versions of a document.
+ *
+ * Sections are matched on their AKN `akn_eid` rather than on position, so
+ * inserting a new section 12A does not make every following section look
+ * changed. Each node that carries an eId becomes one comparable section
+ * holding its own heading and text; descendants without an eId (e.g. loose
+ * paragraphs) are folded into the nearest ancestor that has one.
+ */
+
+import type { HierarchicalNode } from "@/lib/api/types";
+
+export type SectionChangeType = "added" | "removed" | "modified" | "unchanged";
+
+export interface VersionSection {
+  eid: string;
+  /** Human-readable reference, e.g. "Section 12(3)". */
+  label: string;
+  /** Heading plus body text, whitespace-normalised. */
+  text: string;
+}
+
+export interface SectionDiff {
+  eid: string;
+  label: string;
+  change: SectionChangeType;
+  /** Text in the earlier version; undefined for added sections. */
+  before?: string;
+  /** Text in the later version; undefined for removed sections. */
+  after?: string;
+}
+
+export interface TextDiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+export interface VersionDiffSummary {
+  added: number;
+  removed: number;
+  modified: number;
+  unchanged: number;
+}
+
+/** Token-pair budget for word-level LCS before falling back to a whole-text replace. */
+const MAX_TEXT_DIFF_CELLS = 250_000;
+
+function stripMarkup(value: string): string {
+  return value
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+function normaliseWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Text a node renders itself, excluding its children. */
+function ownText(node: HierarchicalNode): string[] {
+  if (node.content && node.content.length > 0) {
+    return node.content.map((item) => {
+      if (item.type === "table" && item.rows) {
+        return item.rows.map((row) => row.join(" | ")).join("\n");
+      }
+      return item.text || item.value?.text || "";
+    });
+  }
+  if (node.styled_text && node.styled_text.length > 0) {
+    return node.styled_text.map((block) => block.text);
+  }
+  const lines = [...(node.text || [])];
+  for (const table of node.tables || []) {
+    lines.push(table.rows.map((row) => row.join(" | ")).join("\n"));
+  }
+  return lines;
+}
+
+function nodeHeading(node: HierarchicalNode): string {
+  return [node.label || node.identifier, node.title].filter(Boolean).join(" ");
+}
+
+function sectionLabel(node: HierarchicalNode, eid: string): string {
+  return node.legal_reference || nodeHeading(node) || eid;
+}
+
+/**
+ * Flatten a hierarchical structure into eId-keyed sections in document
+ * order. Nodes without an eId contribute their text to the closest
+ * ancestor section; text above the first eId is dropped.
+ */
+export function collectSections(root: HierarchicalNode | undefined | null): VersionSection[] {
+  const sections: VersionSection[] = [];
+  const parts = new Map<string, string[]>();
+
+  const visit = (node: HierarchicalNode, owner: string | null) => {
+    let current = owner;
+    if (node.akn_eid && !parts.has(node.akn_eid)) {
+      current = node.akn_eid;
+      parts.set(current, [nodeHeading(node)]);
+      sections.push({ eid: current, label: sectionLabel(node, current), text: "" });
+    } else if (current) {
+      parts.get(current)!.push(nodeHeading(node));
+    }
+    if (current) {
+      parts.get(current)!.push(...ownText(node));
+    }
+    for (const child of node.children || []) {
+      visit(child, current);
+    }
+  };
+
+  if (root) visit(root, null);
+
+  return sections.map((section) => ({
+    ...section,
+    text: normaliseWhitespace(stripMarkup(parts.get(section.eid)!.join(" "))),
+  }));
+}
+
+/**
+ * Compare two versions section by section.
+ *
+ * Output follows the later version's order. Removed sections are placed
+ * directly after the nearest earlier section that survives, so they appear
+ * where a reader of the old text would expect them.
+ */
+export function diffVersions(
+  before: HierarchicalNode | undefined | null,
+  after: HierarchicalNode | undefined | null
+): SectionDiff[] {
+  const beforeSections = collectSections(before);
+  const afterSections = collectSections(after);
+  const beforeById = new Map(beforeSections.map((s) => [s.eid, s]));
+  const afterIds = new Set(afterSections.map((s) => s.eid));
+
+  // Anchor each removed section to the closest preceding survivor
+  const removedByAnchor = new Map<string | null, VersionSection[]>();
+  let anchor: string | null = null;
+  for (const section of beforeSections) {
+    if (afterIds.has(section.eid)) {
+      anchor = section.eid;
+      continue;
+    }
+    const bucket = removedByAnchor.get(anchor) || [];
+    bucket.push(section);
+    removedByAnchor.set(anchor, bucket);
+  }
+
+  const toRemoved = (section: VersionSection): SectionDiff => ({
+    eid: section.eid,
+    label: section.label,
+    change: "removed",
+    before: section.text,
+  });
+
+  const result: SectionDiff[] = (removedByAnchor.get(null) || []).map(toRemoved);
+  for (const section of afterSections) {
+    const previous = beforeById.get(section.eid);
+    if (!previous) {
+      result.push({ eid: section.eid, label: section.label, change: "added", after: section.text });
+    } else {
+      result.push({
+        eid: section.eid,
+        label: section.label,
+        change: previous.text === section.text ? "unchanged" : "modified",
+        before: previous.text,
+        after: section.text,
+      });
+    }
+    result.push(...(removedByAnchor.get(section.eid) || []).map(toRemoved));
+  }
+  return result;
+}
+
+export function summarizeVersionDiff(diffs: SectionDiff[]): VersionDiffSummary {
+  const summary: VersionDiffSummary = { added: 0, removed: 0, modified: 0, unchanged: 0 };
+  for (const diff of diffs) {
+    summary[diff.change] += 1;
+  }
+  return summary;
+}
+
+function pushSegment(segments: TextDiffSegment[], type: TextDiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two strings for inline highlighting. Whitespace is
+ * kept as its own token so joining the segments reproduces the inputs.
+ * Very long sections fall back to a single delete + insert.
+ */
+export function diffText(before: string, after: string): TextDiffSegment[] {
+  if (before === after) {
+    return before ? [{ type: "equal", text: before }] : [];
+  }
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length * b.length > MAX_TEXT_DIFF_CELLS) {
+    const segments: TextDiffSegment[] = [];
+    if (before) segments.push({ type: "delete", text: before });
+    if (after) segments.push({ type: "insert", text: after });
+    return segments;
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "delete", a[i++]);
+    } else {
+      pushSegment(segments, "insert", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "delete", a[i++]);
+  while (j < b.length) pushSegment(segments, "insert", b[j++]);
+  return segments;
+}
@@ -0,0 +1,80 @@
+/**
+ * Law Lens service worker
+ *
+ * Keeps the app shell loadable without a connection so saved documents
+ * can be opened offline. Document content and PDFs live in IndexedDB
+ * (see lib/offline); this worker only caches what the browser needs to
+ * boot the page:
+ * - /_next/static assets are content-hashed, so cache-first is safe
+ * - document page navigations are network-first, falling back to the
+ *   last copy of that page (warmed for saved documents by the library sync)
+ * Everything else, including other pages and API calls, goes straight to
+ * the network. The pages cache is dropped on logout (lib/offline/page-cache).
+ */
+
+const CACHE_VERSION = "v2";
+const STATIC_CACHE = `law-lens-static-${CACHE_VERSION}`;
+const PAGES_CACHE = `law-lens-pages-${CACHE_VERSION}`;
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith("law-lens-") && key !== STATIC_CACHE && key !== PAGES_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(STATIC_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(PAGES_CACHE);
+  try {
+    const response = await fetch(request);
+    // One entry per document, whatever the query string
+    const key = new URL(request.url);
+    key.search = "";
+    if (response.ok) cache.put(key.href, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreSearch: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  if (request.mode === "navigate" && url.pathname.startsWith("/document/")) {
+    event.respondWith(networkFirst(request));
+  }
+});